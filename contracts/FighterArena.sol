@@ -0,0 +1,468 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint8} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+
+import {FighterNFT} from "./FighterNFT.sol";
+import {PublicDecryptionConsumer} from "./PublicDecryptionConsumer.sol";
+
+contract FighterArena is SepoliaConfig, PublicDecryptionConsumer {
+    enum ChallengeStatus {
+        None,
+        Open,
+        Accepted,
+        Resolved,
+        Cancelled
+    }
+
+    struct Battle {
+        uint256 fighterId;
+        uint256 opponentId;
+        euint8 outcome;
+        uint256 requestId;
+        bool resolved;
+        uint8 result;
+        bool ranked;
+    }
+
+    struct Challenge {
+        address challenger;
+        uint256 fighterId;
+        uint256 opponentId;
+        uint256 stake;
+        address acceptor;
+        uint256 acceptorFighterId;
+        uint256 battleId;
+        uint64 acceptedAt;
+        ChallengeStatus status;
+        uint8 outcome;
+        bool challengerPaid;
+        bool acceptorPaid;
+    }
+
+    struct FighterRecord {
+        uint32 wins;
+        uint32 losses;
+        uint32 draws;
+        uint32 rating;
+    }
+
+    uint8 private constant _OUTCOME_DRAW = 0;
+    uint8 private constant _OUTCOME_FIGHTER_WINS = 1;
+    uint8 private constant _OUTCOME_OPPONENT_WINS = 2;
+    uint256 private constant _WIN_EXPERIENCE = 3;
+    uint256 private constant _DRAW_EXPERIENCE = 2;
+    uint256 private constant _LOSS_EXPERIENCE = 1;
+    uint32 private constant _INITIAL_RATING = 1200;
+    uint32 private constant _MIN_RATING = 1;
+    int256 private constant _RATING_K = 32;
+    int256 private constant _MAX_RATING_GAP = 400;
+    int256 private constant _SCORE_SCALE = 10_000;
+    /// @dev The oracle answers within minutes, so a day without an outcome means the request was lost.
+    uint64 private constant _CHALLENGE_TIMEOUT = 1 days;
+
+    FighterNFT private immutable _fighters;
+    uint256 private _nextBattleId = 1;
+    uint256 private _nextChallengeId = 1;
+
+    mapping(uint256 => Battle) private _battles;
+    mapping(uint256 => Challenge) private _challenges;
+    mapping(uint256 => uint256) private _battleRequests;
+    mapping(uint256 => uint256) private _battleChallenges;
+    mapping(uint256 => FighterRecord) private _records;
+
+    event BattleFought(uint256 indexed battleId, uint256 indexed fighterId, uint256 indexed opponentId, euint8 outcome);
+    event BattleResolved(
+        uint256 indexed battleId,
+        uint256 indexed fighterId,
+        uint256 indexed opponentId,
+        uint8 outcome,
+        bool ranked,
+        uint32 fighterRating,
+        uint32 opponentRating
+    );
+    event ChallengeCreated(
+        uint256 indexed challengeId, address indexed challenger, uint256 fighterId, uint256 opponentId, uint256 stake
+    );
+    event ChallengeCancelled(uint256 indexed challengeId);
+    event ChallengeAccepted(uint256 indexed challengeId, address indexed acceptor, uint256 fighterId, uint256 battleId);
+    event ChallengeResolved(uint256 indexed challengeId, uint8 outcome);
+    event ChallengeReclaimed(uint256 indexed challengeId);
+    event ChallengePayout(uint256 indexed challengeId, address indexed recipient, uint256 amount);
+
+    error BattleDoesNotExist(uint256 battleId);
+    error ChallengeDoesNotExist(uint256 challengeId);
+    error InvalidChallengeStatus(uint256 challengeId);
+    error ChallengeNotStalled(uint256 challengeId);
+    error InvalidOpponent();
+    error IncorrectStake();
+    error NotAuthorized();
+    error NothingToClaim();
+    error TransferFailed();
+
+    modifier onlyExistingBattle(uint256 battleId) {
+        if (_battles[battleId].fighterId == 0) {
+            revert BattleDoesNotExist(battleId);
+        }
+        _;
+    }
+
+    modifier onlyExistingChallenge(uint256 challengeId) {
+        if (_challenges[challengeId].status == ChallengeStatus.None) {
+            revert ChallengeDoesNotExist(challengeId);
+        }
+        _;
+    }
+
+    constructor(FighterNFT fighterNFT) {
+        _fighters = fighterNFT;
+    }
+
+    function fighters() external view returns (address) {
+        return address(_fighters);
+    }
+
+    function totalBattles() external view returns (uint256) {
+        return _nextBattleId - 1;
+    }
+
+    function totalChallenges() external view returns (uint256) {
+        return _nextChallengeId - 1;
+    }
+
+    function getBattle(uint256 battleId)
+        external
+        view
+        onlyExistingBattle(battleId)
+        returns (uint256 fighterId, uint256 opponentId, euint8 outcome)
+    {
+        Battle storage battle_ = _battles[battleId];
+        return (battle_.fighterId, battle_.opponentId, battle_.outcome);
+    }
+
+    function getBattleResult(uint256 battleId)
+        external
+        view
+        onlyExistingBattle(battleId)
+        returns (bool resolved, uint8 outcome, uint256 requestId)
+    {
+        Battle storage battle_ = _battles[battleId];
+        return (battle_.resolved, battle_.result, battle_.requestId);
+    }
+
+    function initialRating() external pure returns (uint32) {
+        return _INITIAL_RATING;
+    }
+
+    /// @notice Time after `acceptedAt` from which an undecrypted challenge can be reclaimed.
+    function challengeTimeout() external pure returns (uint64) {
+        return _CHALLENGE_TIMEOUT;
+    }
+
+    /// @notice Public win/loss/draw counters and rating from resolved arena battles. Fighters start at
+    /// `initialRating()`.
+    function getRecord(uint256 tokenId)
+        external
+        view
+        returns (uint32 wins, uint32 losses, uint32 draws, uint32 rating)
+    {
+        FighterRecord storage record = _records[tokenId];
+        return (record.wins, record.losses, record.draws, _ratingOf(record));
+    }
+
+    function getChallenge(uint256 challengeId)
+        external
+        view
+        onlyExistingChallenge(challengeId)
+        returns (Challenge memory)
+    {
+        return _challenges[challengeId];
+    }
+
+    /// @notice Fights two fighters the caller controls. Experience, records and ratings only change when the fighters
+    /// have different owners, so an owner cannot farm them by fighting their own roster.
+    function battle(uint256 fighterId, uint256 opponentId) external returns (uint256 battleId) {
+        if (fighterId == opponentId) {
+            revert InvalidOpponent();
+        }
+        if (!_fighters.isApprovedOrOwner(msg.sender, fighterId) || !_fighters.isApprovedOrOwner(msg.sender, opponentId))
+        {
+            revert NotAuthorized();
+        }
+
+        (battleId,) = _fight(fighterId, opponentId);
+    }
+
+    /// @notice Opens a challenge with `msg.value` as the stake. An `opponentId` of 0 opens it to any fighter.
+    function createChallenge(uint256 fighterId, uint256 opponentId) external payable returns (uint256 challengeId) {
+        if (!_fighters.isApprovedOrOwner(msg.sender, fighterId)) {
+            revert NotAuthorized();
+        }
+        if (opponentId == fighterId) {
+            revert InvalidOpponent();
+        }
+        if (opponentId != 0) {
+            // Reverts for unknown fighters.
+            _fighters.ownerOf(opponentId);
+        }
+
+        challengeId = _nextChallengeId;
+        _nextChallengeId++;
+
+        Challenge storage challenge = _challenges[challengeId];
+        challenge.challenger = msg.sender;
+        challenge.fighterId = fighterId;
+        challenge.opponentId = opponentId;
+        challenge.stake = msg.value;
+        challenge.status = ChallengeStatus.Open;
+
+        emit ChallengeCreated(challengeId, msg.sender, fighterId, opponentId, msg.value);
+    }
+
+    function cancelChallenge(uint256 challengeId) external onlyExistingChallenge(challengeId) {
+        Challenge storage challenge = _challenges[challengeId];
+        if (challenge.challenger != msg.sender) {
+            revert NotAuthorized();
+        }
+        if (challenge.status != ChallengeStatus.Open) {
+            revert InvalidChallengeStatus(challengeId);
+        }
+
+        challenge.status = ChallengeStatus.Cancelled;
+        challenge.challengerPaid = true;
+        emit ChallengeCancelled(challengeId);
+
+        _pay(challengeId, msg.sender, challenge.stake);
+    }
+
+    /// @notice Accepts a challenge with a matching stake and fights it. Stakes unlock once the outcome is decrypted, or
+    /// through `reclaimStalledChallenge` if it never is.
+    function acceptChallenge(uint256 challengeId, uint256 fighterId)
+        external
+        payable
+        onlyExistingChallenge(challengeId)
+    {
+        Challenge storage challenge = _challenges[challengeId];
+        if (challenge.status != ChallengeStatus.Open) {
+            revert InvalidChallengeStatus(challengeId);
+        }
+        if (msg.value != challenge.stake) {
+            revert IncorrectStake();
+        }
+        if (fighterId == challenge.fighterId || (challenge.opponentId != 0 && challenge.opponentId != fighterId)) {
+            revert InvalidOpponent();
+        }
+        if (!_fighters.isApprovedOrOwner(msg.sender, fighterId)) {
+            revert NotAuthorized();
+        }
+        // The challenger may have lost control of their fighter since opening the challenge.
+        if (!_fighters.isApprovedOrOwner(challenge.challenger, challenge.fighterId)) {
+            revert NotAuthorized();
+        }
+
+        (uint256 battleId,) = _fight(challenge.fighterId, fighterId);
+        _battleChallenges[battleId] = challengeId;
+
+        challenge.acceptor = msg.sender;
+        challenge.acceptorFighterId = fighterId;
+        challenge.battleId = battleId;
+        challenge.acceptedAt = uint64(block.timestamp);
+        challenge.status = ChallengeStatus.Accepted;
+
+        emit ChallengeAccepted(challengeId, msg.sender, fighterId, battleId);
+    }
+
+    /// @notice Refunds both stakes of an accepted challenge whose outcome was not decrypted within
+    /// `challengeTimeout()`. Anyone can call it. The decryption request is dropped, so a late oracle callback reverts
+    /// instead of paying out a second time.
+    function reclaimStalledChallenge(uint256 challengeId) external onlyExistingChallenge(challengeId) {
+        Challenge storage challenge = _challenges[challengeId];
+        if (challenge.status != ChallengeStatus.Accepted) {
+            revert InvalidChallengeStatus(challengeId);
+        }
+        if (block.timestamp < challenge.acceptedAt + _CHALLENGE_TIMEOUT) {
+            revert ChallengeNotStalled(challengeId);
+        }
+
+        uint256 requestId = _battles[challenge.battleId].requestId;
+        _discardDecryption(requestId);
+        delete _battleRequests[requestId];
+
+        challenge.status = ChallengeStatus.Cancelled;
+        challenge.challengerPaid = true;
+        challenge.acceptorPaid = true;
+        emit ChallengeReclaimed(challengeId);
+
+        _pay(challengeId, challenge.challenger, challenge.stake);
+        _pay(challengeId, challenge.acceptor, challenge.stake);
+    }
+
+    /// @notice Decryption oracle callback storing the cleartext outcome of the battle linked to `requestId`.
+    function resolveBattleOutcome(uint256 requestId, bytes memory cleartexts, bytes memory decryptionProof) external {
+        _consumeDecryption(requestId, cleartexts, decryptionProof);
+
+        uint256 battleId = _battleRequests[requestId];
+        delete _battleRequests[requestId];
+
+        uint8 outcome = abi.decode(cleartexts, (uint8));
+        Battle storage battle_ = _battles[battleId];
+        battle_.resolved = true;
+        battle_.result = outcome;
+
+        uint32 fighterRating = _ratingOf(_records[battle_.fighterId]);
+        uint32 opponentRating = _ratingOf(_records[battle_.opponentId]);
+        if (battle_.ranked) {
+            (fighterRating, opponentRating) = _recordOutcome(battle_.fighterId, battle_.opponentId, outcome);
+        }
+        emit BattleResolved(
+            battleId, battle_.fighterId, battle_.opponentId, outcome, battle_.ranked, fighterRating, opponentRating
+        );
+
+        if (battle_.ranked) {
+            _awardExperience(battle_.fighterId, outcome, _OUTCOME_FIGHTER_WINS, _OUTCOME_OPPONENT_WINS);
+            _awardExperience(battle_.opponentId, outcome, _OUTCOME_OPPONENT_WINS, _OUTCOME_FIGHTER_WINS);
+        }
+
+        uint256 challengeId = _battleChallenges[battleId];
+        if (challengeId != 0) {
+            Challenge storage challenge = _challenges[challengeId];
+            challenge.outcome = outcome;
+            challenge.status = ChallengeStatus.Resolved;
+            emit ChallengeResolved(challengeId, outcome);
+        }
+    }
+
+    /// @notice Pays out a resolved challenge. The winner takes both stakes and a draw refunds each side.
+    function claimChallenge(uint256 challengeId) external onlyExistingChallenge(challengeId) {
+        Challenge storage challenge = _challenges[challengeId];
+        if (challenge.status != ChallengeStatus.Resolved) {
+            revert InvalidChallengeStatus(challengeId);
+        }
+
+        uint256 amount;
+        if (challenge.outcome == _OUTCOME_DRAW) {
+            if (msg.sender == challenge.challenger && !challenge.challengerPaid) {
+                challenge.challengerPaid = true;
+                amount = challenge.stake;
+            } else if (msg.sender == challenge.acceptor && !challenge.acceptorPaid) {
+                challenge.acceptorPaid = true;
+                amount = challenge.stake;
+            }
+        } else if (!challenge.challengerPaid && !challenge.acceptorPaid) {
+            address winner = challenge.outcome == _OUTCOME_FIGHTER_WINS ? challenge.challenger : challenge.acceptor;
+            if (msg.sender == winner) {
+                challenge.challengerPaid = true;
+                challenge.acceptorPaid = true;
+                amount = challenge.stake * 2;
+            }
+        }
+
+        if (amount == 0) {
+            revert NothingToClaim();
+        }
+
+        _pay(challengeId, msg.sender, amount);
+    }
+
+    function _fight(uint256 fighterId, uint256 opponentId) private returns (uint256 battleId, euint8 outcome) {
+        battleId = _nextBattleId;
+        _nextBattleId++;
+
+        outcome = _fighters.resolveBattle(fighterId, opponentId);
+
+        address fighterOwner = _fighters.ownerOf(fighterId);
+        address opponentOwner = _fighters.ownerOf(opponentId);
+        FHE.allowThis(outcome);
+        FHE.allow(outcome, fighterOwner);
+        FHE.allow(outcome, opponentOwner);
+        FHE.makePubliclyDecryptable(outcome);
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(outcome);
+        uint256 requestId = _requestPublicDecryption(handles, this.resolveBattleOutcome.selector);
+        _battleRequests[requestId] = battleId;
+
+        Battle storage battle_ = _battles[battleId];
+        battle_.fighterId = fighterId;
+        battle_.opponentId = opponentId;
+        battle_.outcome = outcome;
+        battle_.requestId = requestId;
+        battle_.ranked = fighterOwner != opponentOwner;
+
+        emit BattleFought(battleId, fighterId, opponentId, outcome);
+    }
+
+    function _awardExperience(uint256 tokenId, uint8 outcome, uint8 winOutcome, uint8 lossOutcome) private {
+        uint256 amount = _DRAW_EXPERIENCE;
+        if (outcome == winOutcome) {
+            amount = _WIN_EXPERIENCE;
+        } else if (outcome == lossOutcome) {
+            amount = _LOSS_EXPERIENCE;
+        }
+        _fighters.awardExperience(tokenId, amount);
+    }
+
+    /// @dev Elo update with a linear expected score, `0.5 + gap / 1000` with the gap capped at 400 points, so the
+    /// ratings stay integer and the exchange is zero-sum.
+    function _recordOutcome(uint256 fighterId, uint256 opponentId, uint8 outcome)
+        private
+        returns (uint32 fighterRating, uint32 opponentRating)
+    {
+        FighterRecord storage fighter = _records[fighterId];
+        FighterRecord storage opponent = _records[opponentId];
+
+        int256 score = _SCORE_SCALE / 2;
+        if (outcome == _OUTCOME_FIGHTER_WINS) {
+            fighter.wins++;
+            opponent.losses++;
+            score = _SCORE_SCALE;
+        } else if (outcome == _OUTCOME_OPPONENT_WINS) {
+            fighter.losses++;
+            opponent.wins++;
+            score = 0;
+        } else {
+            fighter.draws++;
+            opponent.draws++;
+        }
+
+        int256 gap = int256(uint256(_ratingOf(fighter))) - int256(uint256(_ratingOf(opponent)));
+        if (gap > _MAX_RATING_GAP) {
+            gap = _MAX_RATING_GAP;
+        } else if (gap < -_MAX_RATING_GAP) {
+            gap = -_MAX_RATING_GAP;
+        }
+        int256 expected = _SCORE_SCALE / 2 + (gap * _SCORE_SCALE) / 1000;
+        int256 delta = (_RATING_K * (score - expected)) / _SCORE_SCALE;
+
+        fighterRating = _adjustRating(_ratingOf(fighter), delta);
+        opponentRating = _adjustRating(_ratingOf(opponent), -delta);
+        fighter.rating = fighterRating;
+        opponent.rating = opponentRating;
+    }
+
+    function _ratingOf(FighterRecord storage record) private view returns (uint32) {
+        return record.rating == 0 ? _INITIAL_RATING : record.rating;
+    }
+
+    function _adjustRating(uint32 rating, int256 delta) private pure returns (uint32) {
+        int256 adjusted = int256(uint256(rating)) + delta;
+        if (adjusted < int256(uint256(_MIN_RATING))) {
+            return _MIN_RATING;
+        }
+        return uint32(uint256(adjusted));
+    }
+
+    function _pay(uint256 challengeId, address recipient, uint256 amount) private {
+        if (amount == 0) {
+            return;
+        }
+
+        emit ChallengePayout(challengeId, recipient, amount);
+
+        (bool success,) = recipient.call{value: amount}("");
+        if (!success) {
+            revert TransferFailed();
+        }
+    }
+}
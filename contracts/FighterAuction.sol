@@ -0,0 +1,333 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint64, eaddress, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+
+import {FighterNFT} from "./FighterNFT.sol";
+import {PublicDecryptionConsumer} from "./PublicDecryptionConsumer.sol";
+
+/// @notice Sealed-bid auctions for fighters. Bids are encrypted `euint64` amounts in wei backed by an ETH deposit, and
+/// only the winning bid and its bidder are decrypted once the auction is settled.
+/// @dev Fighters stay with the seller until settlement, so the auction must be approved for the token.
+contract FighterAuction is SepoliaConfig, PublicDecryptionConsumer {
+    enum AuctionStatus {
+        None,
+        Open,
+        Settling,
+        Settled
+    }
+
+    struct Auction {
+        address seller;
+        uint256 tokenId;
+        uint64 reservePrice;
+        uint64 endTime;
+        uint64 settlementDeadline;
+        AuctionStatus status;
+        euint64 highestBid;
+        eaddress highestBidder;
+        uint256 bidCount;
+        uint256 requestId;
+        address winner;
+        uint64 winningBid;
+        bool proceedsPaid;
+    }
+
+    struct Bid {
+        euint64 amount;
+        uint256 deposit;
+        bool withdrawn;
+    }
+
+    uint64 private constant _MAX_DURATION = 30 days;
+    /// @dev The oracle answers within minutes, so a day without the winning bid means the request was lost.
+    uint64 private constant _SETTLEMENT_TIMEOUT = 1 days;
+
+    FighterNFT private immutable _fighters;
+    uint256 private _nextAuctionId = 1;
+
+    mapping(uint256 => Auction) private _auctions;
+    mapping(uint256 => mapping(address => Bid)) private _bids;
+    mapping(uint256 => uint256) private _auctionRequests;
+    mapping(uint256 => uint256) private _activeAuctions;
+
+    event AuctionCreated(
+        uint256 indexed auctionId, uint256 indexed tokenId, address indexed seller, uint64 reservePrice, uint64 endTime
+    );
+    event BidPlaced(uint256 indexed auctionId, address indexed bidder, uint256 deposit);
+    event AuctionSettling(uint256 indexed auctionId, uint256 requestId);
+    event AuctionSettled(uint256 indexed auctionId, address indexed winner, uint64 winningBid);
+    event Withdrawal(uint256 indexed auctionId, address indexed account, uint256 amount);
+
+    error AuctionDoesNotExist(uint256 auctionId);
+    error InvalidAuctionStatus(uint256 auctionId);
+    error AuctionAlreadyActive(uint256 tokenId);
+    error AuctionNotApproved(uint256 tokenId);
+    error AuctionEnded(uint256 auctionId);
+    error AuctionNotEnded(uint256 auctionId);
+    error SettlementNotStalled(uint256 auctionId);
+    error AlreadyBid(uint256 auctionId);
+    error InvalidDuration();
+    error InvalidDeposit();
+    error NotAuthorized();
+    error NothingToClaim();
+    error TransferFailed();
+
+    modifier onlyExistingAuction(uint256 auctionId) {
+        if (_auctions[auctionId].status == AuctionStatus.None) {
+            revert AuctionDoesNotExist(auctionId);
+        }
+        _;
+    }
+
+    constructor(FighterNFT fighterNFT) {
+        _fighters = fighterNFT;
+    }
+
+    function fighters() external view returns (address) {
+        return address(_fighters);
+    }
+
+    function totalAuctions() external view returns (uint256) {
+        return _nextAuctionId - 1;
+    }
+
+    /// @notice Time a settling auction waits for the decryption oracle before anyone can close it without a sale.
+    function settlementTimeout() external pure returns (uint64) {
+        return _SETTLEMENT_TIMEOUT;
+    }
+
+    /// @notice Returns the open or settling auction of a fighter, 0 if there is none.
+    function activeAuctionOf(uint256 tokenId) external view returns (uint256) {
+        return _activeAuctions[tokenId];
+    }
+
+    function getAuction(uint256 auctionId) external view onlyExistingAuction(auctionId) returns (Auction memory) {
+        return _auctions[auctionId];
+    }
+
+    /// @notice The encrypted amount is 0 when the bid exceeded its deposit or fell below the reserve price.
+    function getBid(uint256 auctionId, address bidder)
+        external
+        view
+        onlyExistingAuction(auctionId)
+        returns (euint64 amount, uint256 deposit, bool withdrawn)
+    {
+        Bid storage bid_ = _bids[auctionId][bidder];
+        return (bid_.amount, bid_.deposit, bid_.withdrawn);
+    }
+
+    function createAuction(uint256 tokenId, uint64 reservePrice, uint64 duration)
+        external
+        returns (uint256 auctionId)
+    {
+        if (_fighters.ownerOf(tokenId) != msg.sender) {
+            revert NotAuthorized();
+        }
+        if (!_fighters.isApprovedOrOwner(address(this), tokenId)) {
+            revert AuctionNotApproved(tokenId);
+        }
+        if (duration == 0 || duration > _MAX_DURATION) {
+            revert InvalidDuration();
+        }
+        if (_activeAuctions[tokenId] != 0) {
+            revert AuctionAlreadyActive(tokenId);
+        }
+
+        auctionId = _nextAuctionId;
+        _nextAuctionId++;
+        _activeAuctions[tokenId] = auctionId;
+
+        Auction storage auction = _auctions[auctionId];
+        auction.seller = msg.sender;
+        auction.tokenId = tokenId;
+        auction.reservePrice = reservePrice;
+        auction.endTime = uint64(block.timestamp) + duration;
+        auction.status = AuctionStatus.Open;
+        auction.highestBid = FHE.asEuint64(0);
+        auction.highestBidder = FHE.asEaddress(address(0));
+        FHE.allowThis(auction.highestBid);
+        FHE.allowThis(auction.highestBidder);
+
+        emit AuctionCreated(auctionId, tokenId, msg.sender, reservePrice, auction.endTime);
+    }
+
+    /// @notice Places a sealed bid backed by `msg.value`. The deposit is public, so bidders may over-collateralise to
+    /// hide their bid. Bids above the deposit or below the reserve price are silently counted as 0.
+    function bid(uint256 auctionId, externalEuint64 encryptedAmount, bytes calldata inputProof)
+        external
+        payable
+        onlyExistingAuction(auctionId)
+    {
+        Auction storage auction = _auctions[auctionId];
+        if (auction.status != AuctionStatus.Open) {
+            revert InvalidAuctionStatus(auctionId);
+        }
+        if (block.timestamp >= auction.endTime) {
+            revert AuctionEnded(auctionId);
+        }
+        if (msg.sender == auction.seller) {
+            revert NotAuthorized();
+        }
+        if (_bids[auctionId][msg.sender].deposit != 0) {
+            revert AlreadyBid(auctionId);
+        }
+        if (msg.value == 0 || msg.value > type(uint64).max) {
+            revert InvalidDeposit();
+        }
+
+        euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        // Rejecting the bid outright would reveal how it compares to the deposit and the reserve.
+        ebool accepted = FHE.and(FHE.le(amount, uint64(msg.value)), FHE.ge(amount, auction.reservePrice));
+        amount = FHE.select(accepted, amount, FHE.asEuint64(0));
+
+        ebool isHighest = FHE.gt(amount, auction.highestBid);
+        auction.highestBid = FHE.select(isHighest, amount, auction.highestBid);
+        auction.highestBidder = FHE.select(isHighest, FHE.asEaddress(msg.sender), auction.highestBidder);
+        FHE.allowThis(auction.highestBid);
+        FHE.allowThis(auction.highestBidder);
+
+        FHE.allowThis(amount);
+        FHE.allow(amount, msg.sender);
+
+        _bids[auctionId][msg.sender] = Bid({amount: amount, deposit: msg.value, withdrawn: false});
+        auction.bidCount++;
+
+        emit BidPlaced(auctionId, msg.sender, msg.value);
+    }
+
+    /// @notice Closes an auction after its end time. Anyone may call it. Unless there were no bids, the winner is only
+    /// known once the decryption oracle calls `resolveAuction`.
+    function settle(uint256 auctionId) external onlyExistingAuction(auctionId) {
+        Auction storage auction = _auctions[auctionId];
+        if (auction.status != AuctionStatus.Open) {
+            revert InvalidAuctionStatus(auctionId);
+        }
+        if (block.timestamp < auction.endTime) {
+            revert AuctionNotEnded(auctionId);
+        }
+
+        if (auction.bidCount == 0) {
+            _finalize(auctionId, address(0), 0);
+            return;
+        }
+
+        FHE.makePubliclyDecryptable(auction.highestBid);
+        FHE.makePubliclyDecryptable(auction.highestBidder);
+
+        bytes32[] memory handles = new bytes32[](2);
+        handles[0] = FHE.toBytes32(auction.highestBid);
+        handles[1] = FHE.toBytes32(auction.highestBidder);
+        uint256 requestId = _requestPublicDecryption(handles, this.resolveAuction.selector);
+        _auctionRequests[requestId] = auctionId;
+
+        auction.status = AuctionStatus.Settling;
+        auction.settlementDeadline = uint64(block.timestamp) + _SETTLEMENT_TIMEOUT;
+        auction.requestId = requestId;
+        emit AuctionSettling(auctionId, requestId);
+    }
+
+    /// @notice Closes an auction without a sale once its settlement deadline passed without an oracle answer. Anyone
+    /// may call it. Every bidder can then withdraw their full deposit and the seller can list the fighter again. The
+    /// decryption request is dropped, so a late callback reverts instead of transferring the fighter.
+    function closeStalledAuction(uint256 auctionId) external onlyExistingAuction(auctionId) {
+        Auction storage auction = _auctions[auctionId];
+        if (auction.status != AuctionStatus.Settling) {
+            revert InvalidAuctionStatus(auctionId);
+        }
+        if (block.timestamp < auction.settlementDeadline) {
+            revert SettlementNotStalled(auctionId);
+        }
+
+        _closeStalled(auctionId, auction);
+    }
+
+    /// @notice Decryption oracle callback carrying the winning bid and bidder of the auction linked to `requestId`.
+    function resolveAuction(uint256 requestId, bytes memory cleartexts, bytes memory decryptionProof) external {
+        _consumeDecryption(requestId, cleartexts, decryptionProof);
+
+        uint256 auctionId = _auctionRequests[requestId];
+        delete _auctionRequests[requestId];
+
+        (uint64 winningBid, address winner) = abi.decode(cleartexts, (uint64, address));
+        _finalize(auctionId, winner, winningBid);
+    }
+
+    /// @notice Pays out a settled auction: the seller receives the winning bid and every bidder gets their deposit
+    /// back, minus the winning bid for the winner. An auction stalled past its settlement deadline is closed without a
+    /// sale on the first withdrawal.
+    function withdraw(uint256 auctionId) external onlyExistingAuction(auctionId) {
+        Auction storage auction = _auctions[auctionId];
+        if (auction.status == AuctionStatus.Settling && block.timestamp >= auction.settlementDeadline) {
+            _closeStalled(auctionId, auction);
+        }
+        if (auction.status != AuctionStatus.Settled) {
+            revert InvalidAuctionStatus(auctionId);
+        }
+
+        uint256 amount;
+        if (msg.sender == auction.seller && auction.winner != address(0) && !auction.proceedsPaid) {
+            auction.proceedsPaid = true;
+            amount = auction.winningBid;
+        }
+
+        Bid storage bid_ = _bids[auctionId][msg.sender];
+        if (bid_.deposit != 0 && !bid_.withdrawn) {
+            bid_.withdrawn = true;
+            amount += msg.sender == auction.winner ? bid_.deposit - auction.winningBid : bid_.deposit;
+        }
+
+        if (amount == 0) {
+            revert NothingToClaim();
+        }
+
+        emit Withdrawal(auctionId, msg.sender, amount);
+
+        (bool success,) = msg.sender.call{value: amount}("");
+        if (!success) {
+            revert TransferFailed();
+        }
+    }
+
+    /// @dev A sale only goes through if the seller still owns the fighter, has kept the auction approved and no game
+    /// contract holds it. Otherwise the auction closes without a winner and every deposit is refunded. This runs in the
+    /// oracle callback, so nothing here may revert: a failed callback would leave the deposits stuck in `Settling`.
+    function _finalize(uint256 auctionId, address winner, uint64 winningBid) private {
+        Auction storage auction = _auctions[auctionId];
+        auction.status = AuctionStatus.Settled;
+        delete _activeAuctions[auction.tokenId];
+
+        uint256 tokenId = auction.tokenId;
+        if (winner == address(0) || winningBid == 0 || !_sellerCanDeliver(auction.seller, tokenId)) {
+            winner = address(0);
+            winningBid = 0;
+        } else {
+            try _fighters.transferFrom(auction.seller, winner, tokenId) {}
+            catch {
+                winner = address(0);
+                winningBid = 0;
+            }
+        }
+
+        auction.winner = winner;
+        auction.winningBid = winningBid;
+        emit AuctionSettled(auctionId, winner, winningBid);
+    }
+
+    function _closeStalled(uint256 auctionId, Auction storage auction) private {
+        _discardDecryption(auction.requestId);
+        delete _auctionRequests[auction.requestId];
+        _finalize(auctionId, address(0), 0);
+    }
+
+    function _sellerCanDeliver(address seller, uint256 tokenId) private view returns (bool) {
+        // ownerOf reverts once the fighter is burned.
+        try _fighters.ownerOf(tokenId) returns (address owner) {
+            return owner == seller && _fighters.isApprovedOrOwner(address(this), tokenId)
+                && _fighters.lockerOf(tokenId) == address(0);
+        } catch {
+            return false;
+        }
+    }
+}
@@ -0,0 +1,167 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint64, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+
+/// @notice Confidential in-game currency following Zama's confidential fungible token pattern. Balances and transfer
+/// amounts are `euint64` handles that only the account holder (and this contract) can decrypt.
+/// @dev A transfer that exceeds the sender's balance does not revert, because that would leak the balance. It moves
+/// zero instead, and callers compare the returned `transferred` handle with the amount they asked for. Spending on
+/// behalf of a holder goes through time-limited operators instead of encrypted allowances.
+contract FighterCoin is SepoliaConfig {
+    string private constant _TOKEN_NAME = "Fighter Coin";
+    string private constant _TOKEN_SYMBOL = "FGC";
+    uint8 private constant _DECIMALS = 6;
+
+    address private immutable _admin;
+    uint64 private _totalSupply;
+
+    mapping(address => euint64) private _balances;
+    mapping(address => mapping(address => uint64)) private _operators;
+
+    event ConfidentialTransfer(address indexed from, address indexed to, euint64 indexed amount);
+    event OperatorSet(address indexed holder, address indexed operator, uint64 until);
+
+    error NotAuthorized();
+    error InvalidAddress();
+    error UnauthorizedSpender(address holder, address spender);
+    error UnauthorizedUseOfEncryptedAmount(euint64 amount, address user);
+
+    modifier nonZeroAddress(address account) {
+        if (account == address(0)) {
+            revert InvalidAddress();
+        }
+        _;
+    }
+
+    constructor() {
+        _admin = msg.sender;
+    }
+
+    function name() external pure returns (string memory) {
+        return _TOKEN_NAME;
+    }
+
+    function symbol() external pure returns (string memory) {
+        return _TOKEN_SYMBOL;
+    }
+
+    function decimals() external pure returns (uint8) {
+        return _DECIMALS;
+    }
+
+    function admin() external view returns (address) {
+        return _admin;
+    }
+
+    /// @notice Mints are plaintext, so the supply is public while individual balances stay encrypted.
+    function totalSupply() external view returns (uint64) {
+        return _totalSupply;
+    }
+
+    /// @notice Encrypted balance of `account`, decryptable by the account itself.
+    function confidentialBalanceOf(address account) external view returns (euint64) {
+        return _balances[account];
+    }
+
+    /// @notice Whether `spender` may move `holder`'s coins. Every account is an operator for itself.
+    function isOperator(address holder, address spender) public view returns (bool) {
+        return holder == spender || block.timestamp <= _operators[holder][spender];
+    }
+
+    /// @notice Lets `operator` move the caller's coins until the `until` timestamp. Zero revokes it.
+    function setOperator(address operator, uint64 until) external nonZeroAddress(operator) {
+        _operators[msg.sender][operator] = until;
+        emit OperatorSet(msg.sender, operator, until);
+    }
+
+    /// @dev Capping the supply at `uint64` means no encrypted balance can overflow.
+    function mint(address to, uint64 amount) external nonZeroAddress(to) {
+        if (msg.sender != _admin) {
+            revert NotAuthorized();
+        }
+        _totalSupply += amount;
+
+        euint64 minted = FHE.asEuint64(amount);
+        _balances[to] = FHE.add(_balances[to], minted);
+        _allowBalance(to);
+
+        FHE.allowThis(minted);
+        FHE.allow(minted, to);
+        emit ConfidentialTransfer(address(0), to, minted);
+    }
+
+    /// @notice Transfers an encrypted amount input by the caller and returns the amount actually moved.
+    function confidentialTransfer(address to, externalEuint64 encryptedAmount, bytes calldata inputProof)
+        external
+        returns (euint64 transferred)
+    {
+        return _transfer(msg.sender, to, FHE.fromExternal(encryptedAmount, inputProof));
+    }
+
+    /// @notice Transfers an amount handle the caller is already allowed on, for example from another contract.
+    function confidentialTransfer(address to, euint64 amount) external returns (euint64 transferred) {
+        _requireAllowed(amount);
+        return _transfer(msg.sender, to, amount);
+    }
+
+    function confidentialTransferFrom(
+        address from,
+        address to,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external returns (euint64 transferred) {
+        _requireOperator(from);
+        return _transfer(from, to, FHE.fromExternal(encryptedAmount, inputProof));
+    }
+
+    /// @notice Moves `amount` from `from` as one of its operators. Game contracts use this to charge fees.
+    function confidentialTransferFrom(address from, address to, euint64 amount)
+        external
+        returns (euint64 transferred)
+    {
+        _requireOperator(from);
+        _requireAllowed(amount);
+        return _transfer(from, to, amount);
+    }
+
+    /// @dev Moves `amount` if `from` can cover it and zero otherwise. The result is allowed to both parties and,
+    /// transiently, to the caller so a calling contract can check it in the same transaction.
+    function _transfer(address from, address to, euint64 amount)
+        private
+        nonZeroAddress(to)
+        returns (euint64 transferred)
+    {
+        ebool enough = FHE.le(amount, _balances[from]);
+        transferred = FHE.select(enough, amount, FHE.asEuint64(0));
+
+        _balances[from] = FHE.sub(_balances[from], transferred);
+        _allowBalance(from);
+        _balances[to] = FHE.add(_balances[to], transferred);
+        _allowBalance(to);
+
+        FHE.allowThis(transferred);
+        FHE.allow(transferred, from);
+        FHE.allow(transferred, to);
+        FHE.allowTransient(transferred, msg.sender);
+        emit ConfidentialTransfer(from, to, transferred);
+    }
+
+    function _allowBalance(address account) private {
+        FHE.allowThis(_balances[account]);
+        FHE.allow(_balances[account], account);
+    }
+
+    function _requireOperator(address from) private view {
+        if (!isOperator(from, msg.sender)) {
+            revert UnauthorizedSpender(from, msg.sender);
+        }
+    }
+
+    function _requireAllowed(euint64 amount) private view {
+        if (!FHE.isSenderAllowed(amount)) {
+            revert UnauthorizedUseOfEncryptedAmount(amount, msg.sender);
+        }
+    }
+}
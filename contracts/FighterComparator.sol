@@ -0,0 +1,142 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+
+import {FighterNFT} from "./FighterNFT.sol";
+
+/// @notice Consent-based comparisons between two fighters. The requester learns, per attribute, whether their fighter
+/// is strictly higher than the opponent, and nothing else. The opponent's owner has to accept before anything is
+/// computed, and only the requester can decrypt the result.
+contract FighterComparator is SepoliaConfig {
+    enum ComparisonStatus {
+        None,
+        Pending,
+        Completed,
+        Cancelled
+    }
+
+    struct Comparison {
+        address requester;
+        uint256 fighterId;
+        uint256 opponentId;
+        ComparisonStatus status;
+        ebool agilityHigher;
+        ebool strengthHigher;
+        ebool staminaHigher;
+    }
+
+    FighterNFT private immutable _fighters;
+    uint256 private _nextComparisonId = 1;
+
+    mapping(uint256 => Comparison) private _comparisons;
+
+    event ComparisonRequested(
+        uint256 indexed comparisonId, address indexed requester, uint256 fighterId, uint256 indexed opponentId
+    );
+    event ComparisonCompleted(uint256 indexed comparisonId, address indexed accepter);
+    event ComparisonCancelled(uint256 indexed comparisonId, address indexed cancelledBy);
+
+    error ComparisonDoesNotExist(uint256 comparisonId);
+    error InvalidComparisonStatus(uint256 comparisonId);
+    error InvalidOpponent();
+    error NotAuthorized();
+
+    modifier onlyPendingComparison(uint256 comparisonId) {
+        ComparisonStatus status = _comparisons[comparisonId].status;
+        if (status == ComparisonStatus.None) {
+            revert ComparisonDoesNotExist(comparisonId);
+        }
+        if (status != ComparisonStatus.Pending) {
+            revert InvalidComparisonStatus(comparisonId);
+        }
+        _;
+    }
+
+    constructor(FighterNFT fighterNFT) {
+        _fighters = fighterNFT;
+    }
+
+    function fighters() external view returns (address) {
+        return address(_fighters);
+    }
+
+    function totalComparisons() external view returns (uint256) {
+        return _nextComparisonId - 1;
+    }
+
+    /// @notice The three result handles are only set once the comparison is completed.
+    function getComparison(uint256 comparisonId) external view returns (Comparison memory) {
+        if (_comparisons[comparisonId].status == ComparisonStatus.None) {
+            revert ComparisonDoesNotExist(comparisonId);
+        }
+        return _comparisons[comparisonId];
+    }
+
+    /// @notice Asks the owner of `opponentId` to let the caller compare `fighterId` against it. Requesting counts as
+    /// the consent of the caller's side.
+    function requestComparison(uint256 fighterId, uint256 opponentId) external returns (uint256 comparisonId) {
+        if (fighterId == opponentId) {
+            revert InvalidOpponent();
+        }
+        if (!_fighters.isApprovedOrOwner(msg.sender, fighterId)) {
+            revert NotAuthorized();
+        }
+        // Reverts for unknown fighters.
+        _fighters.ownerOf(opponentId);
+
+        comparisonId = _nextComparisonId;
+        _nextComparisonId++;
+
+        Comparison storage comparison = _comparisons[comparisonId];
+        comparison.requester = msg.sender;
+        comparison.fighterId = fighterId;
+        comparison.opponentId = opponentId;
+        comparison.status = ComparisonStatus.Pending;
+
+        emit ComparisonRequested(comparisonId, msg.sender, fighterId, opponentId);
+    }
+
+    /// @notice Consents to a pending comparison on behalf of the opponent and computes it. The encrypted results are
+    /// allowed to the requester only, so the accepter learns nothing either.
+    function acceptComparison(uint256 comparisonId) external onlyPendingComparison(comparisonId) {
+        Comparison storage comparison = _comparisons[comparisonId];
+        if (!_fighters.isApprovedOrOwner(msg.sender, comparison.opponentId)) {
+            revert NotAuthorized();
+        }
+        // The requester may have lost control of their fighter since asking.
+        if (!_fighters.isApprovedOrOwner(comparison.requester, comparison.fighterId)) {
+            revert NotAuthorized();
+        }
+
+        (ebool agility, ebool strength, ebool stamina) =
+            _fighters.compareAttributes(comparison.fighterId, comparison.opponentId);
+        _allowResult(agility, comparison.requester);
+        _allowResult(strength, comparison.requester);
+        _allowResult(stamina, comparison.requester);
+
+        comparison.agilityHigher = agility;
+        comparison.strengthHigher = strength;
+        comparison.staminaHigher = stamina;
+        comparison.status = ComparisonStatus.Completed;
+
+        emit ComparisonCompleted(comparisonId, msg.sender);
+    }
+
+    /// @notice Withdraws a pending request, or declines it when called by the opponent's side.
+    function cancelComparison(uint256 comparisonId) external onlyPendingComparison(comparisonId) {
+        Comparison storage comparison = _comparisons[comparisonId];
+        if (msg.sender != comparison.requester && !_fighters.isApprovedOrOwner(msg.sender, comparison.opponentId)) {
+            revert NotAuthorized();
+        }
+
+        comparison.status = ComparisonStatus.Cancelled;
+        emit ComparisonCancelled(comparisonId, msg.sender);
+    }
+
+    function _allowResult(ebool result, address requester) private {
+        FHE.allowThis(result);
+        FHE.allow(result, requester);
+    }
+}
@@ -0,0 +1,192 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FighterNFT} from "./FighterNFT.sol";
+
+/// @notice Fixed-price marketplace for fighters. Sales credit the ERC-2981 royalty of the fighter to its creator and
+/// the rest of the price to the seller, and both withdraw their proceeds.
+/// @dev Listings stay in custody of the seller: the market only needs to be approved for the fighter. Proceeds are
+/// pulled rather than pushed, so a receiver that rejects ether cannot block sales.
+contract FighterMarket {
+    struct Listing {
+        address seller;
+        uint256 price;
+        uint64 previewDuration;
+    }
+
+    struct Preview {
+        address viewer;
+        uint64 expiresAt;
+    }
+
+    /// @dev Fighters hold at most 16 viewers, so previews only ever take a few of them and leave the rest to the owner.
+    uint256 private constant _MAX_PREVIEWS = 4;
+
+    FighterNFT private immutable _fighters;
+
+    mapping(uint256 => Listing) private _listings;
+    mapping(uint256 => Preview[]) private _previews;
+    mapping(address => uint256) private _proceeds;
+
+    event FighterListed(uint256 indexed tokenId, address indexed seller, uint256 price, uint64 previewDuration);
+    event ListingCancelled(uint256 indexed tokenId);
+    event FighterSold(
+        uint256 indexed tokenId, address indexed seller, address indexed buyer, uint256 price, uint256 royalty
+    );
+    event PreviewGranted(uint256 indexed tokenId, address indexed viewer, uint64 expiresAt);
+    event Withdrawal(address indexed account, uint256 amount);
+
+    error NotListed(uint256 tokenId);
+    error StaleListing(uint256 tokenId);
+    error MarketNotApproved(uint256 tokenId);
+    error PreviewsDisabled(uint256 tokenId);
+    error TooManyPreviews(uint256 tokenId);
+    error InvalidPrice();
+    error IncorrectPayment();
+    error NotAuthorized();
+    error NothingToClaim();
+    error TransferFailed();
+
+    modifier onlyListed(uint256 tokenId) {
+        if (_listings[tokenId].seller == address(0)) {
+            revert NotListed(tokenId);
+        }
+        _;
+    }
+
+    constructor(FighterNFT fighterNFT) {
+        _fighters = fighterNFT;
+    }
+
+    function fighters() external view returns (address) {
+        return address(_fighters);
+    }
+
+    function getListing(uint256 tokenId) external view onlyListed(tokenId) returns (Listing memory) {
+        return _listings[tokenId];
+    }
+
+    function maxPreviews() external pure returns (uint256) {
+        return _MAX_PREVIEWS;
+    }
+
+    /// @notice Sale proceeds and royalties `account` can withdraw.
+    function proceedsOf(address account) external view returns (uint256) {
+        return _proceeds[account];
+    }
+
+    /// @notice Previews granted for the current listing, including lapsed ones that have not been pruned yet.
+    function getPreviews(uint256 tokenId) external view onlyListed(tokenId) returns (Preview[] memory) {
+        return _previews[tokenId];
+    }
+
+    /// @notice Lists a fighter at `price` wei. A non-zero `previewDuration` lets prospective buyers request a viewer
+    /// grant of that many seconds before buying.
+    function listFighter(uint256 tokenId, uint256 price, uint64 previewDuration) external {
+        if (_fighters.ownerOf(tokenId) != msg.sender) {
+            revert NotAuthorized();
+        }
+        if (price == 0) {
+            revert InvalidPrice();
+        }
+        if (!_fighters.isApprovedOrOwner(address(this), tokenId)) {
+            revert MarketNotApproved(tokenId);
+        }
+
+        _listings[tokenId] = Listing({seller: msg.sender, price: price, previewDuration: previewDuration});
+        delete _previews[tokenId];
+        emit FighterListed(tokenId, msg.sender, price, previewDuration);
+    }
+
+    function cancelListing(uint256 tokenId) external onlyListed(tokenId) {
+        if (_listings[tokenId].seller != msg.sender) {
+            revert NotAuthorized();
+        }
+
+        delete _listings[tokenId];
+        delete _previews[tokenId];
+        emit ListingCancelled(tokenId);
+    }
+
+    /// @notice Grants the caller a time-limited `allowViewer` grant so they can decrypt the fighter before buying.
+    /// At most `maxPreviews` can run at once per listing; asking again while a preview runs only extends it.
+    function requestPreview(uint256 tokenId) external onlyListed(tokenId) returns (uint64 expiresAt) {
+        Listing storage listing = _listings[tokenId];
+        if (listing.previewDuration == 0) {
+            revert PreviewsDisabled(tokenId);
+        }
+        _requireCurrent(tokenId, listing.seller);
+
+        expiresAt = uint64(block.timestamp) + listing.previewDuration;
+        _recordPreview(tokenId, msg.sender, expiresAt);
+        _fighters.allowViewer(tokenId, msg.sender, expiresAt);
+        emit PreviewGranted(tokenId, msg.sender, expiresAt);
+    }
+
+    /// @notice Buys a listed fighter for exactly its price. The transfer re-keys the attributes, so the seller and any
+    /// previewers lose access and only the buyer can decrypt the fighter afterwards. The price is credited to the
+    /// seller and the creator, who collect it with `withdraw`.
+    function buyFighter(uint256 tokenId) external payable onlyListed(tokenId) {
+        Listing memory listing = _listings[tokenId];
+        if (msg.value != listing.price) {
+            revert IncorrectPayment();
+        }
+        _requireCurrent(tokenId, listing.seller);
+
+        delete _listings[tokenId];
+        delete _previews[tokenId];
+        _fighters.transferFrom(listing.seller, msg.sender, tokenId);
+
+        (address royaltyReceiver, uint256 royalty) = _fighters.royaltyInfo(tokenId, listing.price);
+        if (royaltyReceiver == listing.seller) {
+            royalty = 0;
+        }
+
+        emit FighterSold(tokenId, listing.seller, msg.sender, listing.price, royalty);
+
+        _proceeds[royaltyReceiver] += royalty;
+        _proceeds[listing.seller] += listing.price - royalty;
+    }
+
+    /// @notice Pays out everything credited to the caller by past sales.
+    function withdraw() external {
+        uint256 amount = _proceeds[msg.sender];
+        if (amount == 0) {
+            revert NothingToClaim();
+        }
+        delete _proceeds[msg.sender];
+
+        emit Withdrawal(msg.sender, amount);
+
+        (bool success,) = msg.sender.call{value: amount}("");
+        if (!success) {
+            revert TransferFailed();
+        }
+    }
+
+    /// @dev Drops lapsed previews and any earlier one of `viewer` before taking a slot, so the list stays bounded by
+    /// `_MAX_PREVIEWS` and only running previews count against it.
+    function _recordPreview(uint256 tokenId, address viewer, uint64 expiresAt) private {
+        Preview[] storage previews = _previews[tokenId];
+        uint256 i = previews.length;
+        while (i > 0) {
+            i--;
+            if (previews[i].viewer == viewer || previews[i].expiresAt <= block.timestamp) {
+                previews[i] = previews[previews.length - 1];
+                previews.pop();
+            }
+        }
+
+        if (previews.length == _MAX_PREVIEWS) {
+            revert TooManyPreviews(tokenId);
+        }
+        previews.push(Preview({viewer: viewer, expiresAt: expiresAt}));
+    }
+
+    /// @dev Listings go stale once the seller transfers the fighter or withdraws the approval of the market.
+    function _requireCurrent(uint256 tokenId, address seller) private view {
+        if (_fighters.ownerOf(tokenId) != seller || !_fighters.isApprovedOrOwner(address(this), tokenId)) {
+            revert StaleListing(tokenId);
+        }
+    }
+}
@@ -1,9 +1,12 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {FHE, euint32, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
+import {FHE, ebool, euint8, euint32, euint64, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
 import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
 
+import {FighterCoin} from "./FighterCoin.sol";
+import {PublicDecryptionConsumer} from "./PublicDecryptionConsumer.sol";
+
 interface IERC165 {
     function supportsInterface(bytes4 interfaceId) external view returns (bool);
 }
@@ -30,29 +33,122 @@ interface IERC721Metadata is IERC721 {
     function tokenURI(uint256 tokenId) external view returns (string memory);
 }
 
+interface IERC2981 is IERC165 {
+    function royaltyInfo(uint256 tokenId, uint256 salePrice)
+        external
+        view
+        returns (address receiver, uint256 royaltyAmount);
+}
+
+interface IFighterRenderer {
+    function tokenURI(uint256 tokenId) external view returns (string memory);
+}
+
 interface IERC721Receiver {
     function onERC721Received(address operator, address from, uint256 tokenId, bytes calldata data) external returns (bytes4);
 }
 
-contract FighterNFT is IERC721Metadata, SepoliaConfig {
+contract FighterNFT is IERC721Metadata, IERC2981, SepoliaConfig, PublicDecryptionConsumer {
     struct FighterAttributes {
         euint32 agility;
         euint32 strength;
         euint32 stamina;
     }
 
+    enum Attribute {
+        Agility,
+        Strength,
+        Stamina
+    }
+
+    struct Experience {
+        uint256 available;
+        uint256 total;
+    }
+
+    struct RevealedAttributes {
+        uint256 requestId;
+        bool pending;
+        bool revealed;
+        uint32 agility;
+        uint32 strength;
+        uint32 stamina;
+    }
+
+    struct Lineage {
+        uint256 parentA;
+        uint256 parentB;
+    }
+
+    struct FighterLock {
+        address locker;
+        uint64 expiresAt;
+    }
+
     string private constant _TOKEN_NAME = "Encrypted Fighter";
     string private constant _TOKEN_SYMBOL = "eFGT";
+    uint32 private constant _MAX_ATTRIBUTE_POINTS = 10;
+    uint32 private constant _TOTAL_ATTRIBUTE_POINTS = 10;
+    uint32 private constant _DEFAULT_AGILITY = 4;
+    uint32 private constant _DEFAULT_STRENGTH = 3;
+    uint32 private constant _DEFAULT_STAMINA = 3;
+    uint256 private constant _TRAINING_COST = 5;
+    uint256 private constant _EXPERIENCE_PER_LEVEL = 10;
+    uint256 private constant _MAX_VIEWERS = 16;
+    uint256 private constant _MAX_BATCH_SIZE = 10;
+    uint256 private constant _ROYALTY_BPS = 500;
+    uint256 private constant _BPS_DENOMINATOR = 10_000;
+    uint64 private constant _BREEDING_COOLDOWN = 1 days;
+    uint64 private constant _MAX_LOCK_DURATION = 30 days;
+    uint8 private constant _OUTCOME_DRAW = 0;
+    uint8 private constant _OUTCOME_FIGHTER_WINS = 1;
+    uint8 private constant _OUTCOME_OPPONENT_WINS = 2;
+    address private immutable _admin;
+    IFighterRenderer private _renderer;
+    FighterCoin private _feeToken;
+    uint64 private _trainingFee;
     uint256 private _nextTokenId = 1;
     uint256 private _totalMinted;
+    uint256 private _totalBurned;
 
     mapping(uint256 => address) private _owners;
     mapping(address => uint256) private _balances;
     mapping(uint256 => address) private _tokenApprovals;
     mapping(address => mapping(address => bool)) private _operatorApprovals;
     mapping(uint256 => FighterAttributes) private _fighterAttributes;
+    mapping(uint256 => ebool) private _attributesValid;
     mapping(address => uint256[]) private _ownedTokens;
     mapping(uint256 => uint256) private _ownedTokensIndex;
+    mapping(address => bool) private _gameContracts;
+    mapping(uint256 => RevealedAttributes) private _reveals;
+    mapping(uint256 => uint256) private _revealRequests;
+    mapping(uint256 => uint256) private _generations;
+    mapping(uint256 => Lineage) private _lineages;
+    mapping(uint256 => uint64) private _breedingReadyAt;
+    /// @dev A lock only holds until `expiresAt`, so a game contract cannot keep a fighter forever.
+    mapping(uint256 => FighterLock) private _locks;
+    mapping(uint256 => address) private _creators;
+    mapping(uint256 => Experience) private _experience;
+    mapping(uint256 => address[]) private _viewers;
+    /// @dev 1-based position in `_viewers`, 0 when the address is not a viewer.
+    mapping(uint256 => mapping(address => uint256)) private _viewerPositions;
+    /// @dev 0 for grants that never expire.
+    mapping(uint256 => mapping(address => uint64)) private _viewerExpiries;
+
+    event GameContractUpdated(address indexed game, bool enabled);
+    event RendererUpdated(address indexed renderer);
+    event TrainingFeeUpdated(address indexed feeToken, uint64 fee);
+    event ExperienceGained(uint256 indexed tokenId, uint256 amount, uint256 available);
+    event FighterTrained(uint256 indexed tokenId, Attribute attribute, uint256 experienceSpent);
+    event ViewerAllowed(uint256 indexed tokenId, address indexed viewer, uint64 expiresAt);
+    event ViewerRevoked(uint256 indexed tokenId, address indexed viewer);
+    event AttributesRekeyed(uint256 indexed tokenId);
+    event AttributesRevealRequested(uint256 indexed tokenId, uint256 requestId);
+    event AttributesRevealed(uint256 indexed tokenId, uint32 agility, uint32 strength, uint32 stamina);
+    event AttributesRevealCleared(uint256 indexed tokenId);
+    event FighterLockAcquired(uint256 indexed tokenId, address indexed locker, uint64 expiresAt);
+    event FighterLockReleased(uint256 indexed tokenId, address indexed locker);
+    event FighterBred(uint256 indexed childId, uint256 indexed parentA, uint256 indexed parentB, bool parentsBurned);
 
     error FighterDoesNotExist(uint256 tokenId);
     error TokenAlreadyMinted(uint256 tokenId);
@@ -60,6 +156,17 @@ contract FighterNFT is IERC721Metadata, SepoliaConfig {
     error InvalidAddress();
     error AttributeTotalMismatch();
     error AttributeOutOfRange();
+    error RevealAlreadyRequested(uint256 tokenId);
+    error InsufficientExperience(uint256 tokenId);
+    error ViewerNotFound(uint256 tokenId, address viewer);
+    error TooManyViewers(uint256 tokenId);
+    error InvalidExpiry();
+    error InvalidBatchSize(uint256 handleCount);
+    error InvalidParents();
+    error FighterLocked(uint256 tokenId, address locker);
+    error InvalidLockDuration(uint64 duration);
+    error BreedingCooldown(uint256 tokenId, uint64 readyAt);
+    error TrainingFeeNotApproved(address account);
 
     modifier onlyExistingToken(uint256 tokenId) {
         if (!_exists(tokenId)) {
@@ -75,9 +182,38 @@ contract FighterNFT is IERC721Metadata, SepoliaConfig {
         _;
     }
 
+    modifier onlyAdmin() {
+        if (msg.sender != _admin) {
+            revert NotAuthorized();
+        }
+        _;
+    }
+
+    modifier onlyGameContract() {
+        if (!_gameContracts[msg.sender]) {
+            revert NotAuthorized();
+        }
+        _;
+    }
+
+    constructor() {
+        _admin = msg.sender;
+    }
+
     function supportsInterface(bytes4 interfaceId) external pure override returns (bool) {
         return interfaceId == type(IERC165).interfaceId || interfaceId == type(IERC721).interfaceId
-            || interfaceId == type(IERC721Metadata).interfaceId;
+            || interfaceId == type(IERC721Metadata).interfaceId || interfaceId == type(IERC2981).interfaceId;
+    }
+
+    /// @notice ERC-2981 royalty of 5% of the sale price, paid to the address that minted the fighter.
+    function royaltyInfo(uint256 tokenId, uint256 salePrice)
+        external
+        view
+        override
+        onlyExistingToken(tokenId)
+        returns (address receiver, uint256 royaltyAmount)
+    {
+        return (_creators[tokenId], (salePrice * _ROYALTY_BPS) / _BPS_DENOMINATOR);
     }
 
     function name() external pure override returns (string memory) {
@@ -88,12 +224,16 @@ contract FighterNFT is IERC721Metadata, SepoliaConfig {
         return _TOKEN_SYMBOL;
     }
 
-    function tokenURI(uint256) external pure override returns (string memory) {
-        return "";
+    /// @notice Metadata is rendered on-chain by the configured renderer. Returns an empty string until one is set.
+    function tokenURI(uint256 tokenId) external view override onlyExistingToken(tokenId) returns (string memory) {
+        if (address(_renderer) == address(0)) {
+            return "";
+        }
+        return _renderer.tokenURI(tokenId);
     }
 
     function totalSupply() external view returns (uint256) {
-        return _totalMinted;
+        return _totalMinted - _totalBurned;
     }
 
     function balanceOf(address owner) external view override nonZeroAddress(owner) returns (uint256) {
@@ -116,6 +256,74 @@ contract FighterNFT is IERC721Metadata, SepoliaConfig {
         return _ownedTokens[owner];
     }
 
+    /// @notice Minted fighters are generation 0.
+    function generationOf(uint256 tokenId) external view onlyExistingToken(tokenId) returns (uint256) {
+        return _generations[tokenId];
+    }
+
+    /// @notice Parent ids are 0 for minted fighters. Parents stay recorded after they are burned.
+    function getLineage(uint256 tokenId)
+        external
+        view
+        onlyExistingToken(tokenId)
+        returns (uint256 parentA, uint256 parentB, uint256 generation)
+    {
+        Lineage storage lineage = _lineages[tokenId];
+        return (lineage.parentA, lineage.parentB, _generations[tokenId]);
+    }
+
+    /// @notice Timestamp from which the fighter can breed again, 0 if it has never bred.
+    function breedingReadyAt(uint256 tokenId) external view onlyExistingToken(tokenId) returns (uint64) {
+        return _breedingReadyAt[tokenId];
+    }
+
+    /// @notice Returns the game contract that locked the fighter, address(0) if it is unlocked or the lock expired.
+    function lockerOf(uint256 tokenId) external view onlyExistingToken(tokenId) returns (address) {
+        return _activeLocker(tokenId);
+    }
+
+    /// @notice Returns the active lock on the fighter, or zeros if it is unlocked or the lock expired.
+    function getLock(uint256 tokenId)
+        external
+        view
+        onlyExistingToken(tokenId)
+        returns (address locker, uint64 expiresAt)
+    {
+        locker = _activeLocker(tokenId);
+        if (locker != address(0)) {
+            expiresAt = _locks[tokenId].expiresAt;
+        }
+    }
+
+    function maxLockDuration() external pure returns (uint64) {
+        return _MAX_LOCK_DURATION;
+    }
+
+    function creatorOf(uint256 tokenId) external view onlyExistingToken(tokenId) returns (address) {
+        return _creators[tokenId];
+    }
+
+    function admin() external view returns (address) {
+        return _admin;
+    }
+
+    function isGameContract(address game) external view returns (bool) {
+        return _gameContracts[game];
+    }
+
+    function renderer() external view returns (address) {
+        return address(_renderer);
+    }
+
+    function isApprovedOrOwner(address spender, uint256 tokenId)
+        external
+        view
+        onlyExistingToken(tokenId)
+        returns (bool)
+    {
+        return _isApprovedOrOwner(spender, tokenId, _owners[tokenId]);
+    }
+
     function getEncryptedAttributes(uint256 tokenId)
         external
         view
@@ -126,6 +334,63 @@ contract FighterNFT is IERC721Metadata, SepoliaConfig {
         return (attributes.agility, attributes.strength, attributes.stamina);
     }
 
+    function getEncryptedValidity(uint256 tokenId) external view onlyExistingToken(tokenId) returns (ebool valid) {
+        return _attributesValid[tokenId];
+    }
+
+    function getRevealedAttributes(uint256 tokenId)
+        external
+        view
+        onlyExistingToken(tokenId)
+        returns (bool revealed, bool pending, uint32 agility, uint32 strength, uint32 stamina)
+    {
+        RevealedAttributes storage reveal = _reveals[tokenId];
+        return (reveal.revealed, reveal.pending, reveal.agility, reveal.strength, reveal.stamina);
+    }
+
+    /// @notice `attributeCap` is the highest value training can raise a single attribute to at the current `level`.
+    function getExperience(uint256 tokenId)
+        external
+        view
+        onlyExistingToken(tokenId)
+        returns (uint256 available, uint256 total, uint256 level, uint32 attributeCap)
+    {
+        Experience storage experience = _experience[tokenId];
+        level = _level(experience.total);
+        return (experience.available, experience.total, level, _attributeCap(level));
+    }
+
+    function trainingCost() external pure returns (uint256) {
+        return _TRAINING_COST;
+    }
+
+    /// @notice `FighterCoin` fee charged per training, paid to the admin. A zero fee means training is free.
+    function getTrainingFee() external view returns (address feeToken, uint64 fee) {
+        return (address(_feeToken), _trainingFee);
+    }
+
+    function breedingCooldown() external pure returns (uint64) {
+        return _BREEDING_COOLDOWN;
+    }
+
+    /// @notice Lists viewers with their grant expiry. Lapsed grants stay listed until `expireViewers` rotates them out.
+    function getViewers(uint256 tokenId)
+        external
+        view
+        onlyExistingToken(tokenId)
+        returns (address[] memory viewers, uint64[] memory expiries)
+    {
+        viewers = _viewers[tokenId];
+        expiries = new uint64[](viewers.length);
+        for (uint256 i = 0; i < viewers.length; i++) {
+            expiries[i] = _viewerExpiries[tokenId][viewers[i]];
+        }
+    }
+
+    function isViewer(uint256 tokenId, address viewer) external view onlyExistingToken(tokenId) returns (bool) {
+        return _viewerPositions[tokenId][viewer] != 0 && !_isExpired(_viewerExpiries[tokenId][viewer]);
+    }
+
     function mintFighter(
         externalEuint32 agilityHandle,
         externalEuint32 strengthHandle,
@@ -135,20 +400,23 @@ contract FighterNFT is IERC721Metadata, SepoliaConfig {
         external
         returns (uint256 tokenId)
     {
-        tokenId = _nextTokenId;
-        _nextTokenId++;
-        _totalMinted++;
-
-        FighterAttributes memory encryptedAttributes =
-            _createAttributes(agilityHandle, strengthHandle, staminaHandle, inputProof);
-
-        _fighterAttributes[tokenId] = encryptedAttributes;
+        tokenId = _mintFighter(agilityHandle, strengthHandle, staminaHandle, inputProof);
+    }
 
-        FighterAttributes storage storedAttributes = _fighterAttributes[tokenId];
-        _allowContract(storedAttributes);
-        _allowViewer(storedAttributes, msg.sender);
+    /// @notice Mints one fighter per `(agility, strength, stamina)` triple of `handles`, all encrypted under one proof.
+    /// @dev Batches are capped at 10 fighters to stay within the per-transaction FHE compute limit.
+    function mintFighters(externalEuint32[] calldata handles, bytes calldata inputProof)
+        external
+        returns (uint256[] memory tokenIds)
+    {
+        if (handles.length == 0 || handles.length % 3 != 0 || handles.length / 3 > _MAX_BATCH_SIZE) {
+            revert InvalidBatchSize(handles.length);
+        }
 
-        _mint(msg.sender, tokenId);
+        tokenIds = new uint256[](handles.length / 3);
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            tokenIds[i] = _mintFighter(handles[i * 3], handles[i * 3 + 1], handles[i * 3 + 2], inputProof);
+        }
     }
 
     function updateAttributes(
@@ -165,18 +433,163 @@ contract FighterNFT is IERC721Metadata, SepoliaConfig {
         if (!_isApprovedOrOwner(msg.sender, tokenId, owner)) {
             revert NotAuthorized();
         }
+        _requireUnlocked(tokenId);
 
-        FighterAttributes memory encryptedAttributes =
+        (FighterAttributes memory encryptedAttributes, ebool valid) =
             _createAttributes(agilityHandle, strengthHandle, staminaHandle, inputProof);
 
         _fighterAttributes[tokenId] = encryptedAttributes;
+        _storeValidity(tokenId, valid);
 
-        FighterAttributes storage storedAttributes = _fighterAttributes[tokenId];
-        _allowContract(storedAttributes);
-        _allowViewer(storedAttributes, owner);
+        _allowContract(_fighterAttributes[tokenId]);
+        _grantAccess(tokenId, owner);
+
+        _clearReveal(tokenId);
+    }
+
+    /// @notice Mints a fighter whose attributes are rolled on-chain with FHE randomness, so not even the minter knows
+    /// them until they decrypt.
+    function mintRandomFighter() external returns (uint256 tokenId) {
+        tokenId = _createFighter(msg.sender, _randomAttributes(), FHE.asEbool(true));
     }
 
-    function allowViewer(uint256 tokenId, address viewer) external onlyExistingToken(tokenId) {
+    /// @notice Breeds two fighters of the same owner into a new one, minted to that owner. The child's attributes are
+    /// derived homomorphically from both parents with on-chain randomness and always spend exactly 10 points.
+    /// @dev Parents either go on a breeding cooldown or, with `burnParents`, are burned once the child is minted.
+    function breed(uint256 parentA, uint256 parentB, bool burnParents)
+        external
+        onlyExistingToken(parentA)
+        onlyExistingToken(parentB)
+        returns (uint256 childId)
+    {
+        address owner = _owners[parentA];
+        if (parentA == parentB || _owners[parentB] != owner) {
+            revert InvalidParents();
+        }
+        if (!_isApprovedOrOwner(msg.sender, parentA, owner) || !_isApprovedOrOwner(msg.sender, parentB, owner)) {
+            revert NotAuthorized();
+        }
+        _requireReadyToBreed(parentA);
+        _requireReadyToBreed(parentB);
+
+        childId = _createFighter(
+            owner, _offspringAttributes(_fighterAttributes[parentA], _fighterAttributes[parentB]), FHE.asEbool(true)
+        );
+        _lineages[childId] = Lineage({parentA: parentA, parentB: parentB});
+        uint256 generationA = _generations[parentA];
+        uint256 generationB = _generations[parentB];
+        _generations[childId] = (generationA > generationB ? generationA : generationB) + 1;
+
+        emit FighterBred(childId, parentA, parentB, burnParents);
+
+        if (burnParents) {
+            _burn(parentA, owner);
+            _burn(parentB, owner);
+        } else {
+            uint64 readyAt = uint64(block.timestamp) + _BREEDING_COOLDOWN;
+            _breedingReadyAt[parentA] = readyAt;
+            _breedingReadyAt[parentB] = readyAt;
+        }
+    }
+
+    /// @notice Destroys a fighter along with its encrypted attributes, experience and viewer grants.
+    function burn(uint256 tokenId) external onlyExistingToken(tokenId) {
+        address owner = _owners[tokenId];
+        if (!_isApprovedOrOwner(msg.sender, tokenId, owner)) {
+            revert NotAuthorized();
+        }
+        _burn(tokenId, owner);
+    }
+
+    /// @notice Spends experience, plus the `FighterCoin` training fee when one is set, to add one encrypted point to
+    /// `attribute`. While a fee is set, the caller must have made this contract an operator on the coin, or the call
+    /// reverts before any experience is spent.
+    /// @dev A point that would exceed the level cap, or that the caller's coin balance cannot pay for, is dropped
+    /// homomorphically, and the experience is spent either way.
+    function trainAttribute(uint256 tokenId, Attribute attribute) external onlyExistingToken(tokenId) {
+        address owner = _owners[tokenId];
+        if (!_isApprovedOrOwner(msg.sender, tokenId, owner)) {
+            revert NotAuthorized();
+        }
+        _requireUnlocked(tokenId);
+        if (_trainingFee != 0 && !_feeToken.isOperator(msg.sender, address(this))) {
+            revert TrainingFeeNotApproved(msg.sender);
+        }
+        Experience storage experience = _experience[tokenId];
+        if (experience.available < _TRAINING_COST) {
+            revert InsufficientExperience(tokenId);
+        }
+        experience.available -= _TRAINING_COST;
+        ebool feePaid = _chargeTrainingFee();
+
+        FighterAttributes storage attributes = _fighterAttributes[tokenId];
+        uint32 cap = _attributeCap(_level(experience.total));
+        if (attribute == Attribute.Agility) {
+            attributes.agility = _trainedValue(attributes.agility, cap, feePaid);
+        } else if (attribute == Attribute.Strength) {
+            attributes.strength = _trainedValue(attributes.strength, cap, feePaid);
+        } else {
+            attributes.stamina = _trainedValue(attributes.stamina, cap, feePaid);
+        }
+        _grantAccess(tokenId, owner);
+
+        _clearReveal(tokenId);
+
+        emit FighterTrained(tokenId, attribute, _TRAINING_COST);
+    }
+
+    /// @notice Makes the fighter's current attributes publicly decryptable and asks the oracle to record them on-chain.
+    function revealAttributes(uint256 tokenId) external onlyExistingToken(tokenId) returns (uint256 requestId) {
+        if (msg.sender != _owners[tokenId]) {
+            revert NotAuthorized();
+        }
+        RevealedAttributes storage reveal = _reveals[tokenId];
+        if (reveal.pending || reveal.revealed) {
+            revert RevealAlreadyRequested(tokenId);
+        }
+
+        FighterAttributes storage attributes = _fighterAttributes[tokenId];
+        FHE.makePubliclyDecryptable(attributes.agility);
+        FHE.makePubliclyDecryptable(attributes.strength);
+        FHE.makePubliclyDecryptable(attributes.stamina);
+
+        bytes32[] memory handles = new bytes32[](3);
+        handles[0] = FHE.toBytes32(attributes.agility);
+        handles[1] = FHE.toBytes32(attributes.strength);
+        handles[2] = FHE.toBytes32(attributes.stamina);
+        requestId = _requestPublicDecryption(handles, this.resolveReveal.selector);
+
+        reveal.requestId = requestId;
+        reveal.pending = true;
+        _revealRequests[requestId] = tokenId;
+
+        emit AttributesRevealRequested(tokenId, requestId);
+    }
+
+    /// @notice Decryption oracle callback recording the cleartext attributes of the fighter linked to `requestId`.
+    function resolveReveal(uint256 requestId, bytes memory cleartexts, bytes memory decryptionProof) external {
+        _consumeDecryption(requestId, cleartexts, decryptionProof);
+
+        uint256 tokenId = _revealRequests[requestId];
+        delete _revealRequests[requestId];
+
+        RevealedAttributes storage reveal = _reveals[tokenId];
+        if (!reveal.pending || reveal.requestId != requestId) {
+            return;
+        }
+
+        (uint32 agility, uint32 strength, uint32 stamina) = abi.decode(cleartexts, (uint32, uint32, uint32));
+        reveal.pending = false;
+        reveal.revealed = true;
+        reveal.agility = agility;
+        reveal.strength = strength;
+        reveal.stamina = stamina;
+
+        emit AttributesRevealed(tokenId, agility, strength, stamina);
+    }
+
+    /// @notice Grants `viewer` decryption access until `expiresAt`, or permanently when `expiresAt` is 0.
+    function allowViewer(uint256 tokenId, address viewer, uint64 expiresAt) external onlyExistingToken(tokenId) {
         if (viewer == address(0)) {
             revert InvalidAddress();
         }
@@ -184,9 +597,134 @@ contract FighterNFT is IERC721Metadata, SepoliaConfig {
         if (!_isApprovedOrOwner(msg.sender, tokenId, owner)) {
             revert NotAuthorized();
         }
+        if (expiresAt != 0 && expiresAt <= block.timestamp) {
+            revert InvalidExpiry();
+        }
+
+        if (_viewerPositions[tokenId][viewer] == 0) {
+            // A full list first makes room by dropping lapsed grants.
+            if (_viewers[tokenId].length == _MAX_VIEWERS && _expireViewers(tokenId, owner) == 0) {
+                revert TooManyViewers(tokenId);
+            }
+            _viewers[tokenId].push(viewer);
+            _viewerPositions[tokenId][viewer] = _viewers[tokenId].length;
+        }
+        _viewerExpiries[tokenId][viewer] = expiresAt;
 
         FighterAttributes storage attributes = _fighterAttributes[tokenId];
         _allowViewer(attributes, viewer);
+
+        emit ViewerAllowed(tokenId, viewer, expiresAt);
+    }
+
+    /// @notice Keeper entry point: removes lapsed grants and re-keys the attributes if any were found.
+    function expireViewers(uint256 tokenId) external onlyExistingToken(tokenId) returns (uint256 expired) {
+        return _expireViewers(tokenId, _owners[tokenId]);
+    }
+
+    /// @notice Removes `viewer` and moves the attributes to fresh handles, since ACL grants cannot be withdrawn.
+    function revokeViewer(uint256 tokenId, address viewer) external onlyExistingToken(tokenId) {
+        address owner = _owners[tokenId];
+        if (!_isApprovedOrOwner(msg.sender, tokenId, owner)) {
+            revert NotAuthorized();
+        }
+        if (_viewerPositions[tokenId][viewer] == 0) {
+            revert ViewerNotFound(tokenId, viewer);
+        }
+
+        _removeViewer(tokenId, viewer);
+        _rekey(tokenId, owner);
+    }
+
+    function setGameContract(address game, bool enabled) external onlyAdmin nonZeroAddress(game) {
+        _gameContracts[game] = enabled;
+        emit GameContractUpdated(game, enabled);
+    }
+
+    /// @notice Lets game contracts grant experience, for example after a battle outcome is decrypted.
+    function awardExperience(uint256 tokenId, uint256 amount) external onlyGameContract {
+        // Awards for fighters that no longer exist are skipped so asynchronous callbacks never revert.
+        if (!_exists(tokenId)) {
+            return;
+        }
+
+        Experience storage experience = _experience[tokenId];
+        experience.available += amount;
+        experience.total += amount;
+
+        emit ExperienceGained(tokenId, amount, experience.available);
+    }
+
+    /// @notice Lets a game contract hold a fighter for up to `duration` seconds, for example for the length of a
+    /// tournament. Locked fighters cannot be transferred, approved, burned, trained or have their attributes reassigned
+    /// until the same contract unlocks them or the lock expires.
+    function lockFighter(uint256 tokenId, uint64 duration) external onlyGameContract onlyExistingToken(tokenId) {
+        if (duration == 0 || duration > _MAX_LOCK_DURATION) {
+            revert InvalidLockDuration(duration);
+        }
+        _requireUnlocked(tokenId);
+
+        uint64 expiresAt = uint64(block.timestamp) + duration;
+        _locks[tokenId] = FighterLock({locker: msg.sender, expiresAt: expiresAt});
+        emit FighterLockAcquired(tokenId, msg.sender, expiresAt);
+    }
+
+    /// @notice Releases a lock before it expires. Only the contract that took it can release it.
+    function unlockFighter(uint256 tokenId) external onlyExistingToken(tokenId) {
+        if (_locks[tokenId].locker != msg.sender) {
+            revert NotAuthorized();
+        }
+        delete _locks[tokenId];
+        emit FighterLockReleased(tokenId, msg.sender);
+    }
+
+    function setRenderer(address newRenderer) external onlyAdmin {
+        _renderer = IFighterRenderer(newRenderer);
+        emit RendererUpdated(newRenderer);
+    }
+
+    function setTrainingFee(address feeToken, uint64 fee) external onlyAdmin {
+        if (fee != 0 && feeToken == address(0)) {
+            revert InvalidAddress();
+        }
+        _feeToken = FighterCoin(feeToken);
+        _trainingFee = fee;
+        emit TrainingFeeUpdated(feeToken, fee);
+    }
+
+    /// @notice Fights `fighterId` against `opponentId` and returns the encrypted outcome to the calling game contract.
+    /// @dev Each side deals `max(strength - opposing stamina, 0)` damage and the side dealing more damage wins.
+    ///      Equal damage is settled by the higher agility, and equal agility is a draw.
+    ///      Outcome: 0 = draw, 1 = `fighterId` wins, 2 = `opponentId` wins.
+    function resolveBattle(uint256 fighterId, uint256 opponentId)
+        external
+        onlyGameContract
+        onlyExistingToken(fighterId)
+        onlyExistingToken(opponentId)
+        returns (euint8 outcome)
+    {
+        outcome = _battleOutcome(_fighterAttributes[fighterId], _fighterAttributes[opponentId]);
+        FHE.allowThis(outcome);
+        FHE.allow(outcome, msg.sender);
+    }
+
+    /// @notice Compares the two fighters attribute by attribute and returns whether `fighterId` is strictly higher,
+    /// allowed to the calling game contract only. No attribute value leaves the encrypted domain.
+    function compareAttributes(uint256 fighterId, uint256 opponentId)
+        external
+        onlyGameContract
+        onlyExistingToken(fighterId)
+        onlyExistingToken(opponentId)
+        returns (ebool agility, ebool strength, ebool stamina)
+    {
+        FighterAttributes storage fighter = _fighterAttributes[fighterId];
+        FighterAttributes storage opponent = _fighterAttributes[opponentId];
+        agility = FHE.gt(fighter.agility, opponent.agility);
+        strength = FHE.gt(fighter.strength, opponent.strength);
+        stamina = FHE.gt(fighter.stamina, opponent.stamina);
+        FHE.allow(agility, msg.sender);
+        FHE.allow(strength, msg.sender);
+        FHE.allow(stamina, msg.sender);
     }
 
     function approve(address to, uint256 tokenId) external override onlyExistingToken(tokenId) {
@@ -194,6 +732,7 @@ contract FighterNFT is IERC721Metadata, SepoliaConfig {
         if (msg.sender != owner && !_operatorApprovals[owner][msg.sender]) {
             revert NotAuthorized();
         }
+        _requireUnlocked(tokenId);
         _tokenApprovals[tokenId] = to;
         emit Approval(owner, to, tokenId);
     }
@@ -228,6 +767,7 @@ contract FighterNFT is IERC721Metadata, SepoliaConfig {
 
         _beforeTokenTransfer(address(0), to, tokenId);
 
+        _totalMinted++;
         _balances[to] += 1;
         _owners[tokenId] = to;
         emit Transfer(address(0), to, tokenId);
@@ -235,6 +775,21 @@ contract FighterNFT is IERC721Metadata, SepoliaConfig {
         _afterTokenTransfer(address(0), to, tokenId);
     }
 
+    function _burn(uint256 tokenId, address owner) private {
+        _requireUnlocked(tokenId);
+
+        _beforeTokenTransfer(owner, address(0), tokenId);
+
+        delete _tokenApprovals[tokenId];
+
+        _totalBurned++;
+        _balances[owner] -= 1;
+        delete _owners[tokenId];
+        emit Transfer(owner, address(0), tokenId);
+
+        _afterTokenTransfer(owner, address(0), tokenId);
+    }
+
     function _transfer(address from, address to, uint256 tokenId) private nonZeroAddress(to) {
         if (!_exists(tokenId)) {
             revert FighterDoesNotExist(tokenId);
@@ -249,6 +804,7 @@ contract FighterNFT is IERC721Metadata, SepoliaConfig {
         if (to == address(0)) {
             revert InvalidAddress();
         }
+        _requireUnlocked(tokenId);
 
         _beforeTokenTransfer(from, to, tokenId);
 
@@ -271,6 +827,38 @@ contract FighterNFT is IERC721Metadata, SepoliaConfig {
         return _owners[tokenId] != address(0);
     }
 
+    function _mintFighter(
+        externalEuint32 agilityHandle,
+        externalEuint32 strengthHandle,
+        externalEuint32 staminaHandle,
+        bytes calldata inputProof
+    )
+        private
+        returns (uint256 tokenId)
+    {
+        (FighterAttributes memory encryptedAttributes, ebool valid) =
+            _createAttributes(agilityHandle, strengthHandle, staminaHandle, inputProof);
+        tokenId = _createFighter(msg.sender, encryptedAttributes, valid);
+    }
+
+    function _createFighter(address owner, FighterAttributes memory attributes, ebool valid)
+        private
+        returns (uint256 tokenId)
+    {
+        tokenId = _nextTokenId;
+        _nextTokenId++;
+        _creators[tokenId] = owner;
+
+        _fighterAttributes[tokenId] = attributes;
+        _storeValidity(tokenId, valid);
+
+        FighterAttributes storage storedAttributes = _fighterAttributes[tokenId];
+        _allowContract(storedAttributes);
+        _allowViewer(storedAttributes, owner);
+
+        _mint(owner, tokenId);
+    }
+
     function _createAttributes(
         externalEuint32 agilityHandle,
         externalEuint32 strengthHandle,
@@ -278,15 +866,181 @@ contract FighterNFT is IERC721Metadata, SepoliaConfig {
         bytes calldata inputProof
     )
         private
-        returns (FighterAttributes memory attributes)
+        returns (FighterAttributes memory attributes, ebool valid)
     {
+        euint32 agility = FHE.fromExternal(agilityHandle, inputProof);
+        euint32 strength = FHE.fromExternal(strengthHandle, inputProof);
+        euint32 stamina = FHE.fromExternal(staminaHandle, inputProof);
+
+        valid = _validateAttributes(agility, strength, stamina);
+
+        // Invalid submissions cannot revert without leaking the values, so they fall back to the default fighter.
         attributes = FighterAttributes({
-            agility: FHE.fromExternal(agilityHandle, inputProof),
-            strength: FHE.fromExternal(strengthHandle, inputProof),
-            stamina: FHE.fromExternal(staminaHandle, inputProof)
+            agility: FHE.select(valid, agility, FHE.asEuint32(_DEFAULT_AGILITY)),
+            strength: FHE.select(valid, strength, FHE.asEuint32(_DEFAULT_STRENGTH)),
+            stamina: FHE.select(valid, stamina, FHE.asEuint32(_DEFAULT_STAMINA))
+        });
+    }
+
+    /// @dev Two random cuts in [0, 10] split the budget into three parts, so the rolled attributes always sum to 10.
+    function _randomAttributes() private returns (FighterAttributes memory) {
+        euint32 firstCut = FHE.rem(FHE.randEuint32(), _TOTAL_ATTRIBUTE_POINTS + 1);
+        euint32 secondCut = FHE.rem(FHE.randEuint32(), _TOTAL_ATTRIBUTE_POINTS + 1);
+        euint32 lower = FHE.min(firstCut, secondCut);
+        euint32 upper = FHE.max(firstCut, secondCut);
+
+        return FighterAttributes({
+            agility: lower,
+            strength: FHE.sub(upper, lower),
+            stamina: FHE.sub(_TOTAL_ATTRIBUTE_POINTS, upper)
         });
     }
 
+    function _validateAttributes(euint32 agility, euint32 strength, euint32 stamina) private returns (ebool) {
+        ebool inRange = FHE.and(
+            FHE.le(agility, _MAX_ATTRIBUTE_POINTS),
+            FHE.and(FHE.le(strength, _MAX_ATTRIBUTE_POINTS), FHE.le(stamina, _MAX_ATTRIBUTE_POINTS))
+        );
+        // The range check also rules out sums that wrap around the 32-bit boundary.
+        euint32 total = FHE.add(FHE.add(agility, strength), stamina);
+        return FHE.and(inRange, FHE.eq(total, _TOTAL_ATTRIBUTE_POINTS));
+    }
+
+    /// @dev Each child attribute starts as the parents' average, capped at 10. Trained parents can push the total
+    ///      over budget, in which case it is halved until it fits. The missing points go to a random attribute, then a
+    ///      random mutation may move one point from an attribute to the one before it.
+    function _offspringAttributes(FighterAttributes storage parentA, FighterAttributes storage parentB)
+        private
+        returns (FighterAttributes memory)
+    {
+        euint32[3] memory a = [parentA.agility, parentA.strength, parentA.stamina];
+        euint32[3] memory b = [parentB.agility, parentB.strength, parentB.stamina];
+        euint32[3] memory child;
+        for (uint256 i = 0; i < 3; i++) {
+            child[i] = FHE.min(FHE.div(FHE.add(a[i], b[i]), 2), _MAX_ATTRIBUTE_POINTS);
+        }
+
+        // Capped averages add up to at most 30, so two halvings always bring the total back within the budget.
+        for (uint256 round = 0; round < 2; round++) {
+            ebool overBudget = FHE.gt(_sum(child), _TOTAL_ATTRIBUTE_POINTS);
+            for (uint256 i = 0; i < 3; i++) {
+                child[i] = FHE.select(overBudget, FHE.div(child[i], 2), child[i]);
+            }
+        }
+
+        euint32 missing = FHE.sub(_TOTAL_ATTRIBUTE_POINTS, _sum(child));
+        euint32 bonusSlot = FHE.rem(FHE.randEuint32(), 3);
+        // Slot 3 means no mutation, so three in four children mutate.
+        euint32 mutationSlot = FHE.randEuint32(4);
+
+        ebool[3] memory gains;
+        for (uint256 i = 0; i < 3; i++) {
+            gains[i] = FHE.and(FHE.eq(mutationSlot, uint32(i)), FHE.gt(child[(i + 1) % 3], 0));
+        }
+        for (uint256 i = 0; i < 3; i++) {
+            euint32 bonus = FHE.select(FHE.eq(bonusSlot, uint32(i)), missing, FHE.asEuint32(0));
+            euint32 gained = FHE.add(FHE.add(child[i], bonus), FHE.asEuint32(gains[i]));
+            child[i] = FHE.sub(gained, FHE.asEuint32(gains[(i + 2) % 3]));
+        }
+
+        return FighterAttributes({agility: child[0], strength: child[1], stamina: child[2]});
+    }
+
+    function _sum(euint32[3] memory values) private returns (euint32) {
+        return FHE.add(FHE.add(values[0], values[1]), values[2]);
+    }
+
+    function _requireUnlocked(uint256 tokenId) private view {
+        address locker = _activeLocker(tokenId);
+        if (locker != address(0)) {
+            revert FighterLocked(tokenId, locker);
+        }
+    }
+
+    function _activeLocker(uint256 tokenId) private view returns (address) {
+        FighterLock storage lock = _locks[tokenId];
+        return lock.expiresAt > block.timestamp ? lock.locker : address(0);
+    }
+
+    function _requireReadyToBreed(uint256 tokenId) private view {
+        uint64 readyAt = _breedingReadyAt[tokenId];
+        if (readyAt > block.timestamp) {
+            revert BreedingCooldown(tokenId, readyAt);
+        }
+    }
+
+    /// @dev `feePaid` is left uninitialized when training is free.
+    function _trainedValue(euint32 value, uint32 cap, ebool feePaid) private returns (euint32 trained) {
+        euint32 incremented = FHE.add(value, 1);
+        ebool canTrain = FHE.le(incremented, cap);
+        if (FHE.isInitialized(feePaid)) {
+            canTrain = FHE.and(canTrain, feePaid);
+        }
+        trained = FHE.select(canTrain, incremented, value);
+        FHE.allowThis(trained);
+    }
+
+    /// @dev The coin moves zero instead of reverting on an insufficient balance, so payment is checked by comparing
+    /// the amount actually transferred with the fee.
+    function _chargeTrainingFee() private returns (ebool feePaid) {
+        if (_trainingFee == 0) {
+            return feePaid;
+        }
+        euint64 fee = FHE.asEuint64(_trainingFee);
+        FHE.allowTransient(fee, address(_feeToken));
+        euint64 transferred = _feeToken.confidentialTransferFrom(msg.sender, _admin, fee);
+        feePaid = FHE.eq(transferred, fee);
+    }
+
+    function _level(uint256 totalExperience) private pure returns (uint256) {
+        return 1 + totalExperience / _EXPERIENCE_PER_LEVEL;
+    }
+
+    function _attributeCap(uint256 level) private pure returns (uint32) {
+        return _MAX_ATTRIBUTE_POINTS + uint32(level) - 1;
+    }
+
+    function _clearReveal(uint256 tokenId) private {
+        // A reveal describes the previous stats, so it is dropped along with any callback still in flight.
+        RevealedAttributes storage reveal = _reveals[tokenId];
+        if (reveal.pending || reveal.revealed) {
+            delete _reveals[tokenId];
+            emit AttributesRevealCleared(tokenId);
+        }
+    }
+
+    function _storeValidity(uint256 tokenId, ebool valid) private {
+        _attributesValid[tokenId] = valid;
+        FHE.allowThis(valid);
+        FHE.makePubliclyDecryptable(valid);
+    }
+
+    function _battleOutcome(FighterAttributes storage fighter, FighterAttributes storage opponent)
+        private
+        returns (euint8)
+    {
+        euint32 damageToOpponent = _damage(fighter.strength, opponent.stamina);
+        euint32 damageToFighter = _damage(opponent.strength, fighter.stamina);
+
+        ebool sameDamage = FHE.eq(damageToOpponent, damageToFighter);
+        ebool fighterWins = FHE.or(
+            FHE.gt(damageToOpponent, damageToFighter), FHE.and(sameDamage, FHE.gt(fighter.agility, opponent.agility))
+        );
+        ebool opponentWins = FHE.or(
+            FHE.lt(damageToOpponent, damageToFighter), FHE.and(sameDamage, FHE.lt(fighter.agility, opponent.agility))
+        );
+
+        return FHE.select(
+            fighterWins,
+            FHE.asEuint8(_OUTCOME_FIGHTER_WINS),
+            FHE.select(opponentWins, FHE.asEuint8(_OUTCOME_OPPONENT_WINS), FHE.asEuint8(_OUTCOME_DRAW))
+        );
+    }
+
+    function _damage(euint32 strength, euint32 stamina) private returns (euint32) {
+        return FHE.select(FHE.gt(strength, stamina), FHE.sub(strength, stamina), FHE.asEuint32(0));
+    }
+
     function _allowContract(FighterAttributes storage attributes) private {
         FHE.allowThis(attributes.agility);
         FHE.allowThis(attributes.strength);
@@ -299,6 +1053,78 @@ contract FighterNFT is IERC721Metadata, SepoliaConfig {
         FHE.allow(attributes.stamina, viewer);
     }
 
+    function _grantAccess(uint256 tokenId, address owner) private {
+        FighterAttributes storage attributes = _fighterAttributes[tokenId];
+        _allowViewer(attributes, owner);
+
+        address[] storage viewers = _viewers[tokenId];
+        for (uint256 i = 0; i < viewers.length; i++) {
+            if (!_isExpired(_viewerExpiries[tokenId][viewers[i]])) {
+                _allowViewer(attributes, viewers[i]);
+            }
+        }
+    }
+
+    function _isExpired(uint64 expiresAt) private view returns (bool) {
+        return expiresAt != 0 && expiresAt <= block.timestamp;
+    }
+
+    /// @dev Adding zero yields new handles with the same values. Only this contract, the owner and the remaining
+    ///      viewers are allowed on them, so grants on the previous handles stop mattering.
+    function _rekey(uint256 tokenId, address owner) private {
+        FighterAttributes storage attributes = _fighterAttributes[tokenId];
+        attributes.agility = FHE.add(attributes.agility, 0);
+        attributes.strength = FHE.add(attributes.strength, 0);
+        attributes.stamina = FHE.add(attributes.stamina, 0);
+
+        _allowContract(attributes);
+        _grantAccess(tokenId, owner);
+
+        emit AttributesRekeyed(tokenId);
+    }
+
+    function _expireViewers(uint256 tokenId, address owner) private returns (uint256 expired) {
+        address[] storage viewers = _viewers[tokenId];
+        uint256 i = viewers.length;
+        while (i > 0) {
+            i--;
+            address viewer = viewers[i];
+            if (_isExpired(_viewerExpiries[tokenId][viewer])) {
+                _removeViewer(tokenId, viewer);
+                expired++;
+            }
+        }
+
+        if (expired > 0) {
+            _rekey(tokenId, owner);
+        }
+    }
+
+    function _removeViewer(uint256 tokenId, address viewer) private {
+        address[] storage viewers = _viewers[tokenId];
+        uint256 position = _viewerPositions[tokenId][viewer];
+        uint256 lastPosition = viewers.length;
+
+        if (position != lastPosition) {
+            address lastViewer = viewers[lastPosition - 1];
+            viewers[position - 1] = lastViewer;
+            _viewerPositions[tokenId][lastViewer] = position;
+        }
+
+        viewers.pop();
+        delete _viewerPositions[tokenId][viewer];
+        delete _viewerExpiries[tokenId][viewer];
+
+        emit ViewerRevoked(tokenId, viewer);
+    }
+
+    function _removeAllViewers(uint256 tokenId) private {
+        address[] storage viewers = _viewers[tokenId];
+        while (viewers.length > 0) {
+            _removeViewer(tokenId, viewers[viewers.length - 1]);
+        }
+    }
+
     function _beforeTokenTransfer(address from, address to, uint256 tokenId) private {
         if (from == to) {
             return;
@@ -326,8 +1152,15 @@ contract FighterNFT is IERC721Metadata, SepoliaConfig {
 
     function _afterTokenTransfer(address from, address to, uint256 tokenId) private {
         if (from != address(0) && to != address(0)) {
-            FighterAttributes storage attributes = _fighterAttributes[tokenId];
-            _allowViewer(attributes, to);
+            // The previous owner and their viewers must not keep decrypting the fighter after a sale.
+            _removeAllViewers(tokenId);
+            _rekey(tokenId, to);
+        } else if (to == address(0)) {
+            _removeAllViewers(tokenId);
+            _clearReveal(tokenId);
+            delete _fighterAttributes[tokenId];
+            delete _experience[tokenId];
+            delete _breedingReadyAt[tokenId];
         }
     }
 
@@ -0,0 +1,139 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FighterNFT} from "./FighterNFT.sol";
+
+/// @notice Builds the on-chain `tokenURI` document of a fighter: base64 JSON metadata with an embedded SVG card.
+/// @dev Attribute traits are only filled in once the owner has revealed them through `FighterNFT.revealAttributes`.
+contract FighterRenderer {
+    bytes private constant _BASE64_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+    string private constant _ENCRYPTED = "Encrypted";
+    string private constant _DESCRIPTION =
+        "A fighter whose attributes are encrypted with FHE. Stats are only shown once the owner reveals them.";
+
+    FighterNFT private immutable _fighters;
+
+    constructor(FighterNFT fighterNFT) {
+        _fighters = fighterNFT;
+    }
+
+    function fighters() external view returns (address) {
+        return address(_fighters);
+    }
+
+    function tokenURI(uint256 tokenId) external view returns (string memory) {
+        string memory title = string.concat(_fighters.name(), " #", _toString(tokenId));
+        string memory generation = _toString(_fighters.generationOf(tokenId));
+        (bool revealed,, uint32 agility, uint32 strength, uint32 stamina) = _fighters.getRevealedAttributes(tokenId);
+
+        string memory image = _svg(
+            title,
+            generation,
+            revealed ? _toString(agility) : _ENCRYPTED,
+            revealed ? _toString(strength) : _ENCRYPTED,
+            revealed ? _toString(stamina) : _ENCRYPTED
+        );
+
+        string memory json = string.concat(
+            "{\"name\":\"",
+            title,
+            "\",\"description\":\"",
+            _DESCRIPTION,
+            "\",\"image\":\"data:image/svg+xml;base64,",
+            _base64(bytes(image)),
+            "\",\"attributes\":[{\"trait_type\":\"Generation\",\"display_type\":\"number\",\"value\":",
+            generation,
+            "},",
+            _trait("Agility", revealed, agility),
+            ",",
+            _trait("Strength", revealed, strength),
+            ",",
+            _trait("Stamina", revealed, stamina),
+            "]}"
+        );
+
+        return string.concat("data:application/json;base64,", _base64(bytes(json)));
+    }
+
+    function _trait(string memory traitType, bool revealed, uint32 value) private pure returns (string memory) {
+        string memory traitValue = revealed ? _toString(value) : string.concat("\"", _ENCRYPTED, "\"");
+        return string.concat("{\"trait_type\":\"", traitType, "\",\"value\":", traitValue, "}");
+    }
+
+    function _svg(
+        string memory title,
+        string memory generation,
+        string memory agility,
+        string memory strength,
+        string memory stamina
+    )
+        private
+        pure
+        returns (string memory)
+    {
+        return string.concat(
+            "<svg xmlns=\"http://www.w3.org/2000/svg\" width=\"350\" height=\"350\" viewBox=\"0 0 350 350\">",
+            "<rect width=\"350\" height=\"350\" rx=\"24\" fill=\"#1e1b4b\"/>",
+            "<text x=\"24\" y=\"48\" font-family=\"monospace\" font-size=\"20\" fill=\"#e0e7ff\">",
+            title,
+            "</text><text x=\"24\" y=\"84\" font-family=\"monospace\" font-size=\"16\" fill=\"#a5b4fc\">Generation ",
+            generation,
+            "</text>",
+            _svgStat("160", "Agility", agility),
+            _svgStat("210", "Strength", strength),
+            _svgStat("260", "Stamina", stamina),
+            "</svg>"
+        );
+    }
+
+    function _svgStat(string memory y, string memory label, string memory value) private pure returns (string memory) {
+        return string.concat(
+            "<text x=\"24\" y=\"",
+            y,
+            "\" font-family=\"monospace\" font-size=\"18\" fill=\"#f8fafc\">",
+            label,
+            ": ",
+            value,
+            "</text>"
+        );
+    }
+
+    function _toString(uint256 value) private pure returns (string memory) {
+        if (value == 0) {
+            return "0";
+        }
+
+        uint256 digits;
+        for (uint256 remaining = value; remaining != 0; remaining /= 10) {
+            digits++;
+        }
+
+        bytes memory buffer = new bytes(digits);
+        while (value != 0) {
+            digits--;
+            buffer[digits] = bytes1(uint8(48 + (value % 10)));
+            value /= 10;
+        }
+        return string(buffer);
+    }
+
+    function _base64(bytes memory data) private pure returns (string memory) {
+        bytes memory result = new bytes(4 * ((data.length + 2) / 3));
+        uint256 resultIndex;
+        for (uint256 i = 0; i < data.length; i += 3) {
+            uint256 chunk = uint256(uint8(data[i])) << 16;
+            if (i + 1 < data.length) {
+                chunk |= uint256(uint8(data[i + 1])) << 8;
+            }
+            if (i + 2 < data.length) {
+                chunk |= uint256(uint8(data[i + 2]));
+            }
+
+            result[resultIndex++] = _BASE64_ALPHABET[(chunk >> 18) & 0x3f];
+            result[resultIndex++] = _BASE64_ALPHABET[(chunk >> 12) & 0x3f];
+            result[resultIndex++] = i + 1 < data.length ? _BASE64_ALPHABET[(chunk >> 6) & 0x3f] : bytes1("=");
+            result[resultIndex++] = i + 2 < data.length ? _BASE64_ALPHABET[chunk & 0x3f] : bytes1("=");
+        }
+        return string(result);
+    }
+}
@@ -0,0 +1,119 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint64, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+
+/// @notice Confidential reward token paid out by `FighterStaking`. Only the staking vault that deployed it can mint,
+/// and it mints encrypted amounts, so a claim never reveals the power score the rewards were earned with.
+/// @dev Transfers follow `FighterCoin`: an amount that exceeds the sender's balance moves zero instead of reverting.
+contract FighterRewardToken is SepoliaConfig {
+    string private constant _TOKEN_NAME = "Fighter Reward";
+    string private constant _TOKEN_SYMBOL = "FRWD";
+    uint8 private constant _DECIMALS = 6;
+
+    address private immutable _minter;
+
+    mapping(address => euint64) private _balances;
+
+    event ConfidentialTransfer(address indexed from, address indexed to, euint64 indexed amount);
+
+    error NotAuthorized();
+    error InvalidAddress();
+    error UnauthorizedUseOfEncryptedAmount(euint64 amount, address user);
+
+    modifier nonZeroAddress(address account) {
+        if (account == address(0)) {
+            revert InvalidAddress();
+        }
+        _;
+    }
+
+    constructor(address minter_) nonZeroAddress(minter_) {
+        _minter = minter_;
+    }
+
+    function name() external pure returns (string memory) {
+        return _TOKEN_NAME;
+    }
+
+    function symbol() external pure returns (string memory) {
+        return _TOKEN_SYMBOL;
+    }
+
+    /// @notice Six decimals keep a long-running reward balance well within the `euint64` the vault accrues it in.
+    function decimals() external pure returns (uint8) {
+        return _DECIMALS;
+    }
+
+    function minter() external view returns (address) {
+        return _minter;
+    }
+
+    /// @notice Encrypted balance of `account`, decryptable by the account itself.
+    function confidentialBalanceOf(address account) external view returns (euint64) {
+        return _balances[account];
+    }
+
+    /// @notice Credits an encrypted amount the vault is allowed on. There is no public supply, since summing the
+    /// mints would reveal them.
+    function mint(address to, euint64 amount) external nonZeroAddress(to) {
+        if (msg.sender != _minter) {
+            revert NotAuthorized();
+        }
+        _requireAllowed(amount);
+
+        _balances[to] = FHE.add(_balances[to], amount);
+        _allowBalance(to);
+
+        FHE.allowThis(amount);
+        FHE.allow(amount, to);
+        emit ConfidentialTransfer(address(0), to, amount);
+    }
+
+    /// @notice Transfers an encrypted amount input by the caller and returns the amount actually moved.
+    function confidentialTransfer(address to, externalEuint64 encryptedAmount, bytes calldata inputProof)
+        external
+        returns (euint64 transferred)
+    {
+        return _transfer(msg.sender, to, FHE.fromExternal(encryptedAmount, inputProof));
+    }
+
+    /// @notice Transfers an amount handle the caller is already allowed on, for example from another contract.
+    function confidentialTransfer(address to, euint64 amount) external returns (euint64 transferred) {
+        _requireAllowed(amount);
+        return _transfer(msg.sender, to, amount);
+    }
+
+    /// @dev Moves `amount` if `from` can cover it and zero otherwise.
+    function _transfer(address from, address to, euint64 amount)
+        private
+        nonZeroAddress(to)
+        returns (euint64 transferred)
+    {
+        ebool enough = FHE.le(amount, _balances[from]);
+        transferred = FHE.select(enough, amount, FHE.asEuint64(0));
+
+        _balances[from] = FHE.sub(_balances[from], transferred);
+        _allowBalance(from);
+        _balances[to] = FHE.add(_balances[to], transferred);
+        _allowBalance(to);
+
+        FHE.allowThis(transferred);
+        FHE.allow(transferred, from);
+        FHE.allow(transferred, to);
+        FHE.allowTransient(transferred, msg.sender);
+        emit ConfidentialTransfer(from, to, transferred);
+    }
+
+    function _allowBalance(address account) private {
+        FHE.allowThis(_balances[account]);
+        FHE.allow(_balances[account], account);
+    }
+
+    function _requireAllowed(euint64 amount) private view {
+        if (!FHE.isSenderAllowed(amount)) {
+            revert UnauthorizedUseOfEncryptedAmount(amount, msg.sender);
+        }
+    }
+}
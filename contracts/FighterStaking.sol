@@ -0,0 +1,202 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint32, euint64} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+
+import {FighterNFT, IERC721Receiver} from "./FighterNFT.sol";
+import {FighterRewardToken} from "./FighterRewardToken.sol";
+
+/// @notice Staking vault for fighters. Owners stake by sending a fighter with `safeTransferFrom` and earn
+/// the confidential `FighterRewardToken` in proportion to its encrypted power score. Power scores, pending rewards and
+/// claimed amounts all stay encrypted, so nothing about a staked fighter is ever decrypted publicly.
+/// @dev The vault owns staked fighters, so `FighterNFT` re-keys their attributes to it on deposit and back to the
+/// staker on withdrawal. That is what lets the vault compute the power score homomorphically.
+contract FighterStaking is SepoliaConfig, IERC721Receiver {
+    struct Staker {
+        euint64 power;
+        euint64 pendingRewards;
+        uint64 lastAccrual;
+    }
+
+    /// @dev Reward units (6 decimals) earned per power point and second, about 0.86 FRWD per point and day.
+    uint64 private constant _REWARD_RATE = 10;
+    uint32 private constant _STRENGTH_WEIGHT = 2;
+
+    FighterNFT private immutable _fighters;
+    FighterRewardToken private immutable _rewardToken;
+
+    mapping(address => Staker) private _stakers;
+    mapping(uint256 => address) private _stakerOf;
+    mapping(uint256 => euint64) private _tokenPower;
+    mapping(address => uint256[]) private _stakedTokens;
+    mapping(uint256 => uint256) private _stakedTokensIndex;
+
+    event FighterStaked(uint256 indexed tokenId, address indexed owner);
+    event FighterUnstaked(uint256 indexed tokenId, address indexed owner);
+    event RewardsClaimed(address indexed account);
+
+    error NotAuthorized();
+    error NotStaked(uint256 tokenId);
+    error NothingToClaim();
+
+    constructor(FighterNFT fighterNFT) {
+        _fighters = fighterNFT;
+        _rewardToken = new FighterRewardToken(address(this));
+    }
+
+    function fighters() external view returns (address) {
+        return address(_fighters);
+    }
+
+    function rewardToken() external view returns (address) {
+        return address(_rewardToken);
+    }
+
+    function rewardRate() external pure returns (uint64) {
+        return _REWARD_RATE;
+    }
+
+    /// @notice Returns the address that staked the fighter, address(0) if it is not staked.
+    function stakerOf(uint256 tokenId) external view returns (address) {
+        return _stakerOf[tokenId];
+    }
+
+    function stakedTokensOf(address account) external view returns (uint256[] memory) {
+        return _stakedTokens[account];
+    }
+
+    /// @notice Encrypted power score of a staked fighter, decryptable by its staker.
+    function getPower(uint256 tokenId) external view returns (euint64) {
+        if (_stakerOf[tokenId] == address(0)) {
+            revert NotStaked(tokenId);
+        }
+        return _tokenPower[tokenId];
+    }
+
+    /// @notice Encrypted total power and pending rewards of `account`. Rewards are accrued up to `accruedUntil`; call
+    /// `checkpoint` first to bring them up to date before decrypting.
+    function getStaker(address account)
+        external
+        view
+        returns (euint64 power, euint64 pendingRewards, uint64 accruedUntil)
+    {
+        Staker storage staker = _stakers[account];
+        return (staker.power, staker.pendingRewards, staker.lastAccrual);
+    }
+
+    /// @notice Stakes the fighter for `from`. Only called by `FighterNFT` during `safeTransferFrom`.
+    /// @dev Power is `agility + 2 * strength + stamina`, computed on the attributes the vault was just allowed on.
+    function onERC721Received(address, address from, uint256 tokenId, bytes calldata)
+        external
+        override
+        returns (bytes4)
+    {
+        if (msg.sender != address(_fighters)) {
+            revert NotAuthorized();
+        }
+
+        Staker storage staker = _stakers[from];
+        if (!FHE.isInitialized(staker.power)) {
+            staker.power = FHE.asEuint64(0);
+            staker.pendingRewards = FHE.asEuint64(0);
+            _allowStaker(staker, from);
+        }
+        _accrue(from);
+
+        (euint32 agility, euint32 strength, euint32 stamina) = _fighters.getEncryptedAttributes(tokenId);
+        euint64 power = FHE.asEuint64(FHE.add(FHE.add(agility, FHE.mul(strength, _STRENGTH_WEIGHT)), stamina));
+        FHE.allowThis(power);
+        FHE.allow(power, from);
+        _tokenPower[tokenId] = power;
+
+        staker.power = FHE.add(staker.power, power);
+        _allowStaker(staker, from);
+
+        _stakerOf[tokenId] = from;
+        _stakedTokensIndex[tokenId] = _stakedTokens[from].length;
+        _stakedTokens[from].push(tokenId);
+
+        emit FighterStaked(tokenId, from);
+        return IERC721Receiver.onERC721Received.selector;
+    }
+
+    /// @notice Returns the fighter to its staker. Rewards earned so far stay pending until they are claimed.
+    function unstake(uint256 tokenId) external {
+        if (_stakerOf[tokenId] != msg.sender) {
+            revert NotAuthorized();
+        }
+
+        _accrue(msg.sender);
+
+        Staker storage staker = _stakers[msg.sender];
+        staker.power = FHE.sub(staker.power, _tokenPower[tokenId]);
+        _allowStaker(staker, msg.sender);
+
+        _removeStakedToken(msg.sender, tokenId);
+        delete _stakerOf[tokenId];
+
+        emit FighterUnstaked(tokenId, msg.sender);
+
+        _fighters.safeTransferFrom(address(this), msg.sender, tokenId);
+    }
+
+    /// @notice Accrues the caller's rewards up to the current block so the encrypted balance can be decrypted.
+    function checkpoint() external {
+        _accrue(msg.sender);
+    }
+
+    /// @notice Mints the caller's pending rewards as `FighterRewardToken` and resets them to zero. The amount is
+    /// never decrypted: with a single fighter staked, the amount over the elapsed time would give away its power score.
+    function claimRewards() external {
+        Staker storage staker = _stakers[msg.sender];
+        if (!FHE.isInitialized(staker.pendingRewards)) {
+            revert NothingToClaim();
+        }
+
+        _accrue(msg.sender);
+
+        euint64 claimed = staker.pendingRewards;
+        FHE.allowTransient(claimed, address(_rewardToken));
+        _rewardToken.mint(msg.sender, claimed);
+
+        staker.pendingRewards = FHE.asEuint64(0);
+        _allowStaker(staker, msg.sender);
+
+        emit RewardsClaimed(msg.sender);
+    }
+
+    /// @dev Adds `power * elapsed * rate` to the pending rewards. Nothing is staked between the last accrual and the
+    /// first deposit, so the timestamp is simply moved forward then.
+    function _accrue(address account) private {
+        Staker storage staker = _stakers[account];
+        uint64 elapsed = uint64(block.timestamp) - staker.lastAccrual;
+        if (elapsed != 0 && _stakedTokens[account].length != 0) {
+            staker.pendingRewards = FHE.add(staker.pendingRewards, FHE.mul(staker.power, elapsed * _REWARD_RATE));
+            _allowStaker(staker, account);
+        }
+        staker.lastAccrual = uint64(block.timestamp);
+    }
+
+    function _allowStaker(Staker storage staker, address account) private {
+        FHE.allowThis(staker.power);
+        FHE.allow(staker.power, account);
+        FHE.allowThis(staker.pendingRewards);
+        FHE.allow(staker.pendingRewards, account);
+    }
+
+    function _removeStakedToken(address account, uint256 tokenId) private {
+        uint256[] storage tokens = _stakedTokens[account];
+        uint256 lastIndex = tokens.length - 1;
+        uint256 tokenIndex = _stakedTokensIndex[tokenId];
+
+        if (tokenIndex != lastIndex) {
+            uint256 lastTokenId = tokens[lastIndex];
+            tokens[tokenIndex] = lastTokenId;
+            _stakedTokensIndex[lastTokenId] = tokenIndex;
+        }
+
+        tokens.pop();
+        delete _stakedTokensIndex[tokenId];
+    }
+}
@@ -0,0 +1,389 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint8} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+
+import {FighterNFT} from "./FighterNFT.sol";
+import {PublicDecryptionConsumer} from "./PublicDecryptionConsumer.sol";
+
+/// @notice Single-elimination tournaments for 8 or 16 fighters. Every match of a round is fought homomorphically and
+/// only the outcomes are decrypted, so the bracket advances without revealing any attributes.
+/// @dev Registered fighters stay locked in `FighterNFT` until they are eliminated, the tournament is cancelled or it
+/// ends. Locks are capped in `FighterNFT`, so every round renews them, and a fighter that could not be kept locked
+/// forfeits its match. A bracket that is not full by its registration deadline, or not finished by its running
+/// deadline, can be called off by anyone, so entrants are never stuck waiting on the organizer or the decryption
+/// oracle. The contract must be registered as a game contract.
+contract FighterTournament is SepoliaConfig, PublicDecryptionConsumer {
+    enum TournamentStatus {
+        None,
+        Registration,
+        Running,
+        Completed,
+        Cancelled
+    }
+
+    struct Tournament {
+        address organizer;
+        uint8 size;
+        uint256 entryFee;
+        uint64 registrationDeadline;
+        uint64 runningDeadline;
+        TournamentStatus status;
+        uint8 currentRound;
+        bool roundPending;
+        uint256 requestId;
+        uint256 champion;
+        address prizeRecipient;
+        bool prizeClaimed;
+    }
+
+    uint8 private constant _OUTCOME_FIGHTER_WINS = 1;
+    uint8 private constant _OUTCOME_OPPONENT_WINS = 2;
+    uint64 private constant _LOCK_DURATION = 30 days;
+    uint64 private constant _REGISTRATION_PERIOD = 7 days;
+    /// @dev Well within `_LOCK_DURATION`, so the locks renewed by a round outlast the whole bracket.
+    uint64 private constant _RUNNING_PERIOD = 7 days;
+
+    FighterNFT private immutable _fighters;
+    uint256 private _nextTournamentId = 1;
+
+    mapping(uint256 => Tournament) private _tournaments;
+    /// @dev Round 0 holds the registered fighters in slot order, round `r + 1` the winners of round `r`.
+    mapping(uint256 => mapping(uint256 => uint256[])) private _rounds;
+    mapping(uint256 => mapping(address => uint256)) private _refunds;
+    mapping(uint256 => uint256) private _roundRequests;
+
+    event TournamentCreated(uint256 indexed tournamentId, address indexed organizer, uint8 size, uint256 entryFee);
+    event FighterRegistered(uint256 indexed tournamentId, uint256 indexed tokenId, address indexed owner, uint256 slot);
+    event TournamentCancelled(uint256 indexed tournamentId);
+    event RoundStarted(uint256 indexed tournamentId, uint8 round, uint256 requestId);
+    event MatchResolved(
+        uint256 indexed tournamentId, uint8 round, uint256 indexed winnerId, uint256 indexed loserId, uint8 outcome
+    );
+    event TournamentCompleted(uint256 indexed tournamentId, uint256 indexed champion, address winner, uint256 prize);
+    event Withdrawal(uint256 indexed tournamentId, address indexed account, uint256 amount);
+
+    error TournamentDoesNotExist(uint256 tournamentId);
+    error InvalidTournamentStatus(uint256 tournamentId);
+    error InvalidBracketSize(uint8 size);
+    error TournamentFull(uint256 tournamentId);
+    error RegistrationClosed(uint256 tournamentId);
+    error RunningDeadlinePassed(uint256 tournamentId);
+    error TournamentNotFull(uint256 tournamentId);
+    error RoundPending(uint256 tournamentId);
+    error IncorrectEntryFee();
+    error NotAuthorized();
+    error NothingToClaim();
+    error TransferFailed();
+
+    modifier onlyExistingTournament(uint256 tournamentId) {
+        if (_tournaments[tournamentId].status == TournamentStatus.None) {
+            revert TournamentDoesNotExist(tournamentId);
+        }
+        _;
+    }
+
+    constructor(FighterNFT fighterNFT) {
+        _fighters = fighterNFT;
+    }
+
+    function fighters() external view returns (address) {
+        return address(_fighters);
+    }
+
+    function totalTournaments() external view returns (uint256) {
+        return _nextTournamentId - 1;
+    }
+
+    function registrationPeriod() external pure returns (uint64) {
+        return _REGISTRATION_PERIOD;
+    }
+
+    /// @notice Time a bracket has from its first round to completion before anyone can cancel it.
+    function runningPeriod() external pure returns (uint64) {
+        return _RUNNING_PERIOD;
+    }
+
+    function getTournament(uint256 tournamentId)
+        external
+        view
+        onlyExistingTournament(tournamentId)
+        returns (Tournament memory)
+    {
+        return _tournaments[tournamentId];
+    }
+
+    /// @notice Fighters of `round` in bracket order. Slots `2i` and `2i + 1` meet, and the winners form the next round.
+    function getRound(uint256 tournamentId, uint8 round)
+        external
+        view
+        onlyExistingTournament(tournamentId)
+        returns (uint256[] memory)
+    {
+        return _rounds[tournamentId][round];
+    }
+
+    function createTournament(uint8 size, uint256 entryFee) external returns (uint256 tournamentId) {
+        if (size != 8 && size != 16) {
+            revert InvalidBracketSize(size);
+        }
+
+        tournamentId = _nextTournamentId;
+        _nextTournamentId++;
+
+        Tournament storage tournament = _tournaments[tournamentId];
+        tournament.organizer = msg.sender;
+        tournament.size = size;
+        tournament.entryFee = entryFee;
+        tournament.registrationDeadline = uint64(block.timestamp) + _REGISTRATION_PERIOD;
+        tournament.status = TournamentStatus.Registration;
+
+        emit TournamentCreated(tournamentId, msg.sender, size, entryFee);
+    }
+
+    /// @notice Enters a fighter for the entry fee and locks it until it is eliminated or the tournament ends.
+    function register(uint256 tournamentId, uint256 tokenId) external payable onlyExistingTournament(tournamentId) {
+        Tournament storage tournament = _tournaments[tournamentId];
+        if (tournament.status != TournamentStatus.Registration) {
+            revert InvalidTournamentStatus(tournamentId);
+        }
+        if (block.timestamp >= tournament.registrationDeadline) {
+            revert RegistrationClosed(tournamentId);
+        }
+        if (msg.value != tournament.entryFee) {
+            revert IncorrectEntryFee();
+        }
+        if (_fighters.ownerOf(tokenId) != msg.sender) {
+            revert NotAuthorized();
+        }
+        uint256[] storage entrants = _rounds[tournamentId][0];
+        if (entrants.length == tournament.size) {
+            revert TournamentFull(tournamentId);
+        }
+
+        // Reverts if the fighter is already locked, which also keeps it out of two brackets at once.
+        _fighters.lockFighter(tokenId, _LOCK_DURATION);
+        entrants.push(tokenId);
+        _refunds[tournamentId][msg.sender] += msg.value;
+
+        emit FighterRegistered(tournamentId, tokenId, msg.sender, entrants.length - 1);
+    }
+
+    /// @notice Lets the organizer call off a tournament that has not started, and anyone once the registration deadline
+    /// passed without filling the bracket or the running deadline passed before a champion was found. Entrants get
+    /// their fighters back immediately and withdraw their entry fees, and a round still being decrypted is dropped.
+    function cancelTournament(uint256 tournamentId) external onlyExistingTournament(tournamentId) {
+        Tournament storage tournament = _tournaments[tournamentId];
+        if (tournament.status != TournamentStatus.Registration && tournament.status != TournamentStatus.Running) {
+            revert InvalidTournamentStatus(tournamentId);
+        }
+        if (!_lapsed(tournamentId, tournament)) {
+            if (tournament.status == TournamentStatus.Running || msg.sender != tournament.organizer) {
+                revert NotAuthorized();
+            }
+        }
+
+        _cancel(tournamentId, tournament);
+    }
+
+    /// @notice Fights every match of the current round. Anyone may call it once the bracket is full and the previous
+    /// round has been decrypted, until the running deadline. Winners are known once the decryption oracle calls
+    /// `resolveRound`.
+    /// @dev A fighter that was burned or locked by another game after its lock lapsed forfeits. Its match still gets
+    /// an outcome, encrypted from the known result, so every match of the round is decrypted in the same request.
+    function playRound(uint256 tournamentId) external onlyExistingTournament(tournamentId) {
+        Tournament storage tournament = _tournaments[tournamentId];
+        if (tournament.status == TournamentStatus.Registration) {
+            if (_rounds[tournamentId][0].length != tournament.size) {
+                revert TournamentNotFull(tournamentId);
+            }
+            tournament.status = TournamentStatus.Running;
+            tournament.runningDeadline = uint64(block.timestamp) + _RUNNING_PERIOD;
+        } else if (tournament.status != TournamentStatus.Running) {
+            revert InvalidTournamentStatus(tournamentId);
+        }
+        if (tournament.roundPending) {
+            revert RoundPending(tournamentId);
+        }
+        if (block.timestamp >= tournament.runningDeadline) {
+            revert RunningDeadlinePassed(tournamentId);
+        }
+
+        uint256[] storage entrants = _rounds[tournamentId][tournament.currentRound];
+        bytes32[] memory handles = new bytes32[](entrants.length / 2);
+        for (uint256 i = 0; i < handles.length; i++) {
+            (uint256 fighterId, uint256 opponentId) = (entrants[2 * i], entrants[2 * i + 1]);
+            bool fighterIn = _renewLock(fighterId);
+            bool opponentIn = _renewLock(opponentId);
+
+            euint8 outcome;
+            if (fighterIn && opponentIn) {
+                outcome = _fighters.resolveBattle(fighterId, opponentId);
+            } else {
+                // With both sides gone, the lower slot goes through as on a draw and forfeits the next round.
+                outcome = FHE.asEuint8(fighterIn || !opponentIn ? _OUTCOME_FIGHTER_WINS : _OUTCOME_OPPONENT_WINS);
+            }
+            FHE.allowThis(outcome);
+            FHE.makePubliclyDecryptable(outcome);
+            handles[i] = FHE.toBytes32(outcome);
+        }
+
+        uint256 requestId = _requestPublicDecryption(handles, this.resolveRound.selector);
+        _roundRequests[requestId] = tournamentId;
+        tournament.roundPending = true;
+        tournament.requestId = requestId;
+
+        emit RoundStarted(tournamentId, tournament.currentRound, requestId);
+    }
+
+    /// @notice Decryption oracle callback carrying one outcome per match of the round linked to `requestId`.
+    /// @dev A draw sends the fighter in the lower slot through, which rewards registering early.
+    function resolveRound(uint256 requestId, bytes memory cleartexts, bytes memory decryptionProof) external {
+        _consumeDecryption(requestId, cleartexts, decryptionProof);
+
+        uint256 tournamentId = _roundRequests[requestId];
+        delete _roundRequests[requestId];
+
+        Tournament storage tournament = _tournaments[tournamentId];
+        uint8 round = tournament.currentRound;
+        uint256[] storage entrants = _rounds[tournamentId][round];
+        uint256[] storage winners = _rounds[tournamentId][round + 1];
+
+        for (uint256 i = 0; i < entrants.length / 2; i++) {
+            uint8 outcome = _outcomeAt(cleartexts, i);
+            (uint256 winnerId, uint256 loserId) = outcome == _OUTCOME_OPPONENT_WINS
+                ? (entrants[2 * i + 1], entrants[2 * i])
+                : (entrants[2 * i], entrants[2 * i + 1]);
+
+            winners.push(winnerId);
+            _release(loserId);
+            emit MatchResolved(tournamentId, round, winnerId, loserId, outcome);
+        }
+
+        tournament.roundPending = false;
+        tournament.currentRound = round + 1;
+
+        if (winners.length == 1) {
+            _complete(tournamentId, winners[0]);
+        }
+    }
+
+    /// @notice Pays the prize to the champion's owner, or refunds entry fees once a tournament is cancelled. A bracket
+    /// left unfilled past its registration deadline, or unfinished past its running deadline, is cancelled on the first
+    /// withdrawal.
+    function withdraw(uint256 tournamentId) external onlyExistingTournament(tournamentId) {
+        Tournament storage tournament = _tournaments[tournamentId];
+        if (_lapsed(tournamentId, tournament)) {
+            _cancel(tournamentId, tournament);
+        }
+
+        uint256 amount;
+        if (tournament.status == TournamentStatus.Cancelled) {
+            amount = _refunds[tournamentId][msg.sender];
+            delete _refunds[tournamentId][msg.sender];
+        } else if (tournament.status == TournamentStatus.Completed) {
+            if (msg.sender == tournament.prizeRecipient && !tournament.prizeClaimed) {
+                tournament.prizeClaimed = true;
+                amount = _prizePool(tournament);
+            }
+        } else {
+            revert InvalidTournamentStatus(tournamentId);
+        }
+
+        if (amount == 0) {
+            revert NothingToClaim();
+        }
+
+        emit Withdrawal(tournamentId, msg.sender, amount);
+
+        (bool success,) = msg.sender.call{value: amount}("");
+        if (!success) {
+            revert TransferFailed();
+        }
+    }
+
+    function _cancel(uint256 tournamentId, Tournament storage tournament) private {
+        tournament.status = TournamentStatus.Cancelled;
+        if (tournament.roundPending) {
+            tournament.roundPending = false;
+            _discardDecryption(tournament.requestId);
+            delete _roundRequests[tournament.requestId];
+        }
+        uint256[] storage entrants = _rounds[tournamentId][0];
+        for (uint256 i = 0; i < entrants.length; i++) {
+            _release(entrants[i]);
+        }
+
+        emit TournamentCancelled(tournamentId);
+    }
+
+    /// @dev Whether anyone may cancel: registration closed on an unfilled bracket, or a started one ran out of time.
+    function _lapsed(uint256 tournamentId, Tournament storage tournament) private view returns (bool) {
+        if (tournament.status == TournamentStatus.Registration) {
+            return block.timestamp >= tournament.registrationDeadline
+                && _rounds[tournamentId][0].length < tournament.size;
+        }
+        return tournament.status == TournamentStatus.Running && block.timestamp >= tournament.runningDeadline;
+    }
+
+    /// @dev A champion burned after its lock lapsed, which takes a decryption callback weeks late, leaves nobody to
+    /// pay, so the tournament is cancelled and every entry fee refunded instead.
+    function _complete(uint256 tournamentId, uint256 champion) private {
+        Tournament storage tournament = _tournaments[tournamentId];
+        address prizeRecipient;
+        try _fighters.ownerOf(champion) returns (address owner) {
+            prizeRecipient = owner;
+        } catch {
+            _cancel(tournamentId, tournament);
+            return;
+        }
+
+        tournament.status = TournamentStatus.Completed;
+        tournament.champion = champion;
+        // Locked fighters cannot change hands, so unless the lock lapsed this is the owner who registered the champion.
+        tournament.prizeRecipient = prizeRecipient;
+
+        _release(champion);
+        emit TournamentCompleted(tournamentId, champion, prizeRecipient, _prizePool(tournament));
+    }
+
+    /// @dev Locks the fighter for another `_LOCK_DURATION`, and returns false if it was burned or another game locked
+    /// it after this contract's lock lapsed.
+    function _renewLock(uint256 tokenId) private returns (bool) {
+        try _fighters.lockerOf(tokenId) returns (address locker) {
+            if (locker == address(this)) {
+                _fighters.unlockFighter(tokenId);
+            }
+        } catch {
+            return false;
+        }
+        try _fighters.lockFighter(tokenId, _LOCK_DURATION) {
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /// @dev Skips fighters that were burned or whose lock lapsed, since another game may have locked them since.
+    function _release(uint256 tokenId) private {
+        try _fighters.lockerOf(tokenId) returns (address locker) {
+            if (locker == address(this)) {
+                _fighters.unlockFighter(tokenId);
+            }
+        } catch {}
+    }
+
+    function _prizePool(Tournament storage tournament) private view returns (uint256) {
+        return tournament.entryFee * tournament.size;
+    }
+
+    /// @dev Cleartexts are ABI-encoded, so each `uint8` outcome fills its own 32-byte word.
+    function _outcomeAt(bytes memory cleartexts, uint256 index) private pure returns (uint8 outcome) {
+        uint256 word;
+        assembly {
+            word := mload(add(cleartexts, mul(add(index, 1), 32)))
+        }
+        outcome = uint8(word);
+    }
+}
@@ -0,0 +1,41 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @notice Tracks public decryption requests sent to the decryption oracle so each callback is accepted exactly once.
+abstract contract PublicDecryptionConsumer {
+    mapping(uint256 => bool) private _pendingDecryptions;
+
+    event DecryptionRequested(uint256 indexed requestId);
+
+    error UnknownDecryptionRequest(uint256 requestId);
+
+    function isDecryptionPending(uint256 requestId) external view returns (bool) {
+        return _pendingDecryptions[requestId];
+    }
+
+    function _requestPublicDecryption(bytes32[] memory handles, bytes4 callbackSelector)
+        internal
+        returns (uint256 requestId)
+    {
+        requestId = FHE.requestDecryption(handles, callbackSelector);
+        _pendingDecryptions[requestId] = true;
+        emit DecryptionRequested(requestId);
+    }
+
+    /// @dev Must be the first call of every oracle callback. Reverts on replayed requests and forged KMS signatures.
+    function _consumeDecryption(uint256 requestId, bytes memory cleartexts, bytes memory decryptionProof) internal {
+        if (!_pendingDecryptions[requestId]) {
+            revert UnknownDecryptionRequest(requestId);
+        }
+        delete _pendingDecryptions[requestId];
+
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+    }
+
+    /// @dev Drops a request whose result is no longer wanted, so its callback reverts like a replay if it still comes.
+    function _discardDecryption(uint256 requestId) internal {
+        delete _pendingDecryptions[requestId];
+    }
+}
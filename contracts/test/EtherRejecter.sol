@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @notice Test account that refuses plain ether transfers and relays calls so it can act as a creator or seller.
+contract EtherRejecter {
+    /// @dev Bubbles up the revert data of a failed call so tests can match the target's custom errors.
+    function execute(address target, bytes calldata data) external returns (bytes memory result) {
+        bool success;
+        (success, result) = target.call(data);
+        if (!success) {
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+    }
+}
@@ -0,0 +1,27 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, execute, get, log, read } = hre.deployments;
+
+  const fighterNFT = await get("FighterNFT");
+
+  const deployedArena = await deploy("FighterArena", {
+    from: deployer,
+    args: [fighterNFT.address],
+    log: true,
+  });
+
+  log(`FighterArena contract deployed at ${deployedArena.address}`);
+
+  const registered = await read("FighterNFT", "isGameContract", deployedArena.address);
+  if (!registered) {
+    await execute("FighterNFT", { from: deployer, log: true }, "setGameContract", deployedArena.address, true);
+  }
+};
+
+export default func;
+func.id = "deploy_fighter_arena";
+func.tags = ["FighterArena"];
+func.dependencies = ["FighterNFT"];
@@ -0,0 +1,22 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, get, log } = hre.deployments;
+
+  const fighterNFT = await get("FighterNFT");
+
+  const deployedAuction = await deploy("FighterAuction", {
+    from: deployer,
+    args: [fighterNFT.address],
+    log: true,
+  });
+
+  log(`FighterAuction contract deployed at ${deployedAuction.address}`);
+};
+
+export default func;
+func.id = "deploy_fighter_auction";
+func.tags = ["FighterAuction"];
+func.dependencies = ["FighterNFT"];
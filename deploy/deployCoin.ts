@@ -0,0 +1,29 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// FighterCoin uses 6 decimals: 1,000,000 FGC for the deployer to distribute. The training fee stays off until the
+// admin turns it on with FighterNFT.setTrainingFee, so nobody's training starts failing on deploy.
+const INITIAL_SUPPLY = 1_000_000_000_000n;
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, execute, get, log } = hre.deployments;
+
+  await get("FighterNFT");
+
+  const deployedCoin = await deploy("FighterCoin", {
+    from: deployer,
+    log: true,
+  });
+
+  log(`FighterCoin contract deployed at ${deployedCoin.address}`);
+
+  if (deployedCoin.newlyDeployed) {
+    await execute("FighterCoin", { from: deployer, log: true }, "mint", deployer, INITIAL_SUPPLY);
+  }
+};
+
+export default func;
+func.id = "deploy_fighter_coin";
+func.tags = ["FighterCoin"];
+func.dependencies = ["FighterNFT"];
@@ -0,0 +1,27 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, execute, get, log, read } = hre.deployments;
+
+  const fighterNFT = await get("FighterNFT");
+
+  const deployedComparator = await deploy("FighterComparator", {
+    from: deployer,
+    args: [fighterNFT.address],
+    log: true,
+  });
+
+  log(`FighterComparator contract deployed at ${deployedComparator.address}`);
+
+  const registered = await read("FighterNFT", "isGameContract", deployedComparator.address);
+  if (!registered) {
+    await execute("FighterNFT", { from: deployer, log: true }, "setGameContract", deployedComparator.address, true);
+  }
+};
+
+export default func;
+func.id = "deploy_fighter_comparator";
+func.tags = ["FighterComparator"];
+func.dependencies = ["FighterNFT"];
@@ -0,0 +1,27 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, execute, get, log, read } = hre.deployments;
+
+  const fighterNFT = await get("FighterNFT");
+
+  const deployedRenderer = await deploy("FighterRenderer", {
+    from: deployer,
+    args: [fighterNFT.address],
+    log: true,
+  });
+
+  log(`FighterRenderer contract deployed at ${deployedRenderer.address}`);
+
+  const currentRenderer = await read("FighterNFT", "renderer");
+  if (currentRenderer !== deployedRenderer.address) {
+    await execute("FighterNFT", { from: deployer, log: true }, "setRenderer", deployedRenderer.address);
+  }
+};
+
+export default func;
+func.id = "deploy_fighter_renderer";
+func.tags = ["FighterRenderer"];
+func.dependencies = ["FighterNFT"];
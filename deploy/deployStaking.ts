@@ -0,0 +1,23 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, get, log, read } = hre.deployments;
+
+  const fighterNFT = await get("FighterNFT");
+
+  const deployedStaking = await deploy("FighterStaking", {
+    from: deployer,
+    args: [fighterNFT.address],
+    log: true,
+  });
+
+  log(`FighterStaking contract deployed at ${deployedStaking.address}`);
+  log(`FighterRewardToken deployed by the vault at ${await read("FighterStaking", "rewardToken")}`);
+};
+
+export default func;
+func.id = "deploy_fighter_staking";
+func.tags = ["FighterStaking"];
+func.dependencies = ["FighterNFT"];
@@ -0,0 +1,27 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, execute, get, log, read } = hre.deployments;
+
+  const fighterNFT = await get("FighterNFT");
+
+  const deployedTournament = await deploy("FighterTournament", {
+    from: deployer,
+    args: [fighterNFT.address],
+    log: true,
+  });
+
+  log(`FighterTournament contract deployed at ${deployedTournament.address}`);
+
+  const registered = await read("FighterNFT", "isGameContract", deployedTournament.address);
+  if (!registered) {
+    await execute("FighterNFT", { from: deployer, log: true }, "setGameContract", deployedTournament.address, true);
+  }
+};
+
+export default func;
+func.id = "deploy_fighter_tournament";
+func.tags = ["FighterTournament"];
+func.dependencies = ["FighterNFT"];
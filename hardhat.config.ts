@@ -9,8 +9,17 @@ import type { HardhatUserConfig } from "hardhat/config";
 import "solidity-coverage";
 import * as dotenv from "dotenv";
 
+import "./tasks/abi";
 import "./tasks/accounts";
+import "./tasks/deployments";
+import "./tasks/FighterArena";
+import "./tasks/FighterAuction";
+import "./tasks/FighterCoin";
+import "./tasks/FighterComparator";
+import "./tasks/FighterMarket";
 import "./tasks/FighterNFT";
+import "./tasks/FighterStaking";
+import "./tasks/FighterTournament";
 
 dotenv.config();
 
@@ -0,0 +1,151 @@
+import {
+  Contract,
+  ZeroAddress,
+  type ContractTransactionReceipt,
+  type ContractTransactionResponse,
+  type Signer,
+} from "ethers";
+
+import { FIGHTER_NFT_ABI } from "./abi";
+import type { FighterEncryptor } from "./encryptor";
+import type { DecryptedAttributes, Distribution } from "./types";
+
+export type FighterClientOptions = {
+  /** FighterNFT deployment address. */
+  address: string;
+  /** Account that sends transactions and signs decryption requests. */
+  signer: Signer;
+  encryptor: FighterEncryptor;
+};
+
+export type MintResult = {
+  tokenId: bigint;
+  receipt: ContractTransactionReceipt;
+};
+
+export type SquadMintResult = {
+  tokenIds: bigint[];
+  receipt: ContractTransactionReceipt;
+};
+
+/** Typed wrapper around FighterNFT that encrypts attributes on the way in and decrypts them on the way out. */
+export class FighterClient {
+  readonly address: string;
+
+  private readonly signer: Signer;
+  private readonly encryptor: FighterEncryptor;
+  private readonly contract: Contract;
+
+  constructor({ address, signer, encryptor }: FighterClientOptions) {
+    this.address = address;
+    this.signer = signer;
+    this.encryptor = encryptor;
+    this.contract = new Contract(address, FIGHTER_NFT_ABI, signer);
+  }
+
+  async mint(distribution: Distribution): Promise<MintResult> {
+    const [agility, strength, stamina, inputProof] = await this.encryptDistribution(distribution);
+    const receipt = await this.send(this.contract.mintFighter(agility, strength, stamina, inputProof));
+    const [tokenId] = this.mintedTokenIds(receipt);
+    return { tokenId, receipt };
+  }
+
+  /** Mints every fighter of `squad` in one transaction, with the attributes encrypted under a single proof. */
+  async mintSquad(squad: Distribution[]): Promise<SquadMintResult> {
+    const encrypted = await this.encryptor.encrypt32(
+      this.address,
+      await this.signer.getAddress(),
+      squad.flatMap((member) => [member.agility, member.strength, member.stamina]),
+    );
+    const receipt = await this.send(this.contract.mintFighters(encrypted.handles, encrypted.inputProof));
+    return { tokenIds: this.mintedTokenIds(receipt), receipt };
+  }
+
+  /** Mints a fighter whose attributes the contract rolls with FHE randomness, so nothing is encrypted locally. */
+  async mintRandom(): Promise<MintResult> {
+    const receipt = await this.send(this.contract.mintRandomFighter());
+    const [tokenId] = this.mintedTokenIds(receipt);
+    return { tokenId, receipt };
+  }
+
+  async update(tokenId: bigint, distribution: Distribution): Promise<ContractTransactionReceipt> {
+    const [agility, strength, stamina, inputProof] = await this.encryptDistribution(distribution);
+    return this.send(this.contract.updateAttributes(tokenId, agility, strength, stamina, inputProof));
+  }
+
+  /** Decrypts the attributes of a fighter the signer owns or has been allowed to view. */
+  async decrypt(tokenId: bigint): Promise<DecryptedAttributes> {
+    const decrypted = await this.decryptAll([tokenId]);
+    return decrypted.get(tokenId)!;
+  }
+
+  /**
+   * Decrypts several fighters, all of the signer's by default, with every attribute handle in one user decryption so
+   * the wallet signs at most once.
+   */
+  async decryptAll(tokenIds?: bigint[]): Promise<Map<bigint, DecryptedAttributes>> {
+    const ids = tokenIds ?? (await this.listOwned());
+    const [attributeHandles, validityHandles] = await Promise.all([
+      Promise.all(
+        ids.map(async (tokenId): Promise<string[]> => [...(await this.contract.getEncryptedAttributes(tokenId))]),
+      ),
+      Promise.all(ids.map((tokenId): Promise<string> => this.contract.getEncryptedValidity(tokenId))),
+    ]);
+
+    const values = await this.encryptor.userDecrypt(attributeHandles.flat(), this.address, this.signer);
+    const validity = await this.encryptor.publicDecryptBools(validityHandles);
+
+    const decrypted = new Map<bigint, DecryptedAttributes>();
+    ids.forEach((tokenId, index) => {
+      const [agility, strength, stamina] = values.slice(index * 3, index * 3 + 3);
+      decrypted.set(tokenId, {
+        agility: Number(agility),
+        strength: Number(strength),
+        stamina: Number(stamina),
+        valid: validity[index],
+      });
+    });
+    return decrypted;
+  }
+
+  /** Lets `viewer` decrypt the attributes until `expiresAt` (unix seconds), or for good when it is 0. */
+  async allowViewer(
+    tokenId: bigint,
+    viewer: string,
+    expiresAt: number | bigint = 0,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.allowViewer(tokenId, viewer, expiresAt));
+  }
+
+  /** Token ids held by `owner`, the signer by default. */
+  async listOwned(owner?: string): Promise<bigint[]> {
+    const tokenIds: bigint[] = await this.contract.fightersOf(owner ?? (await this.signer.getAddress()));
+    return [...tokenIds];
+  }
+
+  private async encryptDistribution(distribution: Distribution): Promise<[string, string, string, string]> {
+    const encrypted = await this.encryptor.encrypt32(this.address, await this.signer.getAddress(), [
+      distribution.agility,
+      distribution.strength,
+      distribution.stamina,
+    ]);
+    const [agility, strength, stamina] = encrypted.handles;
+    return [agility, strength, stamina, encrypted.inputProof];
+  }
+
+  private async send(pending: Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+    const receipt = await (await pending).wait();
+    if (!receipt) {
+      throw new Error("Transaction receipt is unavailable");
+    }
+    return receipt;
+  }
+
+  private mintedTokenIds(receipt: ContractTransactionReceipt): bigint[] {
+    return receipt.logs
+      .filter((log) => log.address.toLowerCase() === this.address.toLowerCase())
+      .map((log) => this.contract.interface.parseLog(log))
+      .filter((event) => event?.name === "Transfer" && event.args.from === ZeroAddress)
+      .map((event) => event!.args.tokenId as bigint);
+  }
+}
@@ -0,0 +1,12 @@
+// Only the FighterNFT entry points the client uses, so the package does not depend on the compiled artifacts.
+export const FIGHTER_NFT_ABI = [
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+  "function fightersOf(address owner) view returns (uint256[])",
+  "function getEncryptedAttributes(uint256 tokenId) view returns (bytes32 agility, bytes32 strength, bytes32 stamina)",
+  "function getEncryptedValidity(uint256 tokenId) view returns (bytes32 valid)",
+  "function mintFighter(bytes32 agility, bytes32 strength, bytes32 stamina, bytes inputProof) returns (uint256)",
+  "function mintFighters(bytes32[] handles, bytes inputProof) returns (uint256[])",
+  "function mintRandomFighter() returns (uint256)",
+  "function updateAttributes(uint256 tokenId, bytes32 agility, bytes32 strength, bytes32 stamina, bytes inputProof)",
+  "function allowViewer(uint256 tokenId, address viewer, uint64 expiresAt)",
+] as const;
@@ -0,0 +1,43 @@
+/**
+ * A signed user-decryption request: the keypair the relayer re-encrypts results for, and the EIP-712 signature that
+ * authorizes it for `contractAddresses` from `startTimestamp` for `durationDays`.
+ */
+export type DecryptionAuthorization = {
+  publicKey: string;
+  privateKey: string;
+  /** Signature without the `0x` prefix, as the relayer expects it. */
+  signature: string;
+  userAddress: string;
+  contractAddresses: string[];
+  startTimestamp: number;
+  durationDays: number;
+};
+
+/** Keeps authorizations between decryptions so a wallet only signs once per contract set and validity window. */
+export interface AuthorizationStore {
+  get(key: string): Promise<DecryptionAuthorization | null>;
+  set(key: string, authorization: DecryptionAuthorization): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/** Store that lives as long as the encryptor using it. */
+export class MemoryAuthorizationStore implements AuthorizationStore {
+  private readonly authorizations = new Map<string, DecryptionAuthorization>();
+
+  async get(key: string): Promise<DecryptionAuthorization | null> {
+    return this.authorizations.get(key) ?? null;
+  }
+
+  async set(key: string, authorization: DecryptionAuthorization): Promise<void> {
+    this.authorizations.set(key, authorization);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.authorizations.delete(key);
+  }
+}
+
+/** Unix seconds after which the relayer rejects `authorization`. */
+export function authorizationExpiry(authorization: DecryptionAuthorization): number {
+  return authorization.startTimestamp + authorization.durationDays * 24 * 60 * 60;
+}
@@ -0,0 +1,202 @@
+import { getAddress, hexlify, type Signer } from "ethers";
+import type { DecryptedResults, FhevmInstance } from "@zama-fhe/relayer-sdk/node";
+
+import {
+  MemoryAuthorizationStore,
+  authorizationExpiry,
+  type AuthorizationStore,
+  type DecryptionAuthorization,
+} from "./authorization";
+import type { EncryptedValues } from "./types";
+
+/** Encrypts inputs for and decrypts handles of an FHEVM contract on behalf of `FighterClient`. */
+export interface FighterEncryptor {
+  encrypt32(contractAddress: string, userAddress: string, values: number[]): Promise<EncryptedValues>;
+  userDecrypt(handles: string[], contractAddress: string, signer: Signer): Promise<bigint[]>;
+  publicDecryptBools(handles: string[]): Promise<boolean[]>;
+}
+
+/** The part of a relayer SDK instance the encryptor uses. The Hardhat plugin's `fhevm` exposes the same API. */
+export type RelayerInstance = Pick<
+  FhevmInstance,
+  "createEncryptedInput" | "generateKeypair" | "createEIP712" | "userDecrypt" | "publicDecrypt"
+>;
+
+export type RelayerEncryptorOptions = {
+  /** Where signed authorizations are kept between decryptions. Defaults to memory, for the encryptor's lifetime. */
+  store?: AuthorizationStore;
+  /**
+   * Contracts every authorization covers besides the one being decrypted, so a single signature serves all of them.
+   * The relayer accepts at most 10.
+   */
+  contractAddresses?: string[];
+  durationDays?: number;
+};
+
+const DEFAULT_DURATION_DAYS = 1;
+
+// An authorization this close to expiry is signed again rather than risk the relayer rejecting it mid-request.
+const EXPIRY_MARGIN_SECONDS = 5 * 60;
+
+// The relayer refuses requests above this many encrypted bits, so larger batches are split.
+const MAX_BITS_PER_REQUEST = 2048;
+const ENCRYPTED_BITS: Record<number, number> = { 0: 2, 2: 8, 3: 16, 4: 32, 5: 64, 6: 128, 7: 160, 8: 256 };
+
+function encryptedBits(handle: string): number {
+  // The type discriminant is the second to last byte of a handle.
+  const bits = ENCRYPTED_BITS[parseInt(handle.slice(-4, -2), 16)];
+  if (bits === undefined) {
+    throw new Error(`Handle ${handle} is not of a supported type`);
+  }
+  return bits;
+}
+
+function splitByBits(handles: string[]): string[][] {
+  const batches: string[][] = [];
+  let batch: string[] = [];
+  let batchBits = 0;
+  for (const handle of handles) {
+    const bits = encryptedBits(handle);
+    if (batch.length > 0 && batchBits + bits > MAX_BITS_PER_REQUEST) {
+      batches.push(batch);
+      batch = [];
+      batchBits = 0;
+    }
+    batch.push(handle);
+    batchBits += bits;
+  }
+  if (batch.length > 0) {
+    batches.push(batch);
+  }
+  return batches;
+}
+
+/**
+ * Encryptor backed by `@zama-fhe/relayer-sdk` in the browser, or by the Hardhat plugin in tasks and tests.
+ *
+ * User decryptions reuse one keypair and EIP-712 signature per account and chain until it expires or a contract it
+ * does not cover is decrypted, so the wallet is not asked to sign for every handle.
+ */
+export class RelayerEncryptor implements FighterEncryptor {
+  private readonly instance: RelayerInstance;
+  private readonly store: AuthorizationStore;
+  private readonly contractAddresses: string[];
+  private readonly durationDays: number;
+  private readonly pendingAuthorizations = new Map<string, Promise<DecryptionAuthorization>>();
+
+  constructor(instance: RelayerInstance, options: RelayerEncryptorOptions = {}) {
+    this.instance = instance;
+    this.store = options.store ?? new MemoryAuthorizationStore();
+    this.contractAddresses = (options.contractAddresses ?? []).map((address) => getAddress(address));
+    this.durationDays = options.durationDays ?? DEFAULT_DURATION_DAYS;
+  }
+
+  async encrypt32(contractAddress: string, userAddress: string, values: number[]): Promise<EncryptedValues> {
+    const input = this.instance.createEncryptedInput(contractAddress, userAddress);
+    for (const value of values) {
+      input.add32(value);
+    }
+    const encrypted = await input.encrypt();
+    return {
+      handles: encrypted.handles.map((handle) => hexlify(handle)),
+      inputProof: hexlify(encrypted.inputProof),
+    };
+  }
+
+  /** Decrypts `handles` of one contract with a cached authorization, splitting them across relayer requests. */
+  async userDecrypt(handles: string[], contractAddress: string, signer: Signer): Promise<bigint[]> {
+    if (handles.length === 0) {
+      return [];
+    }
+    const authorization = await this.authorize(getAddress(contractAddress), signer);
+
+    const results: DecryptedResults = {};
+    for (const batch of splitByBits(handles)) {
+      Object.assign(
+        results,
+        await this.instance.userDecrypt(
+          batch.map((handle) => ({ handle, contractAddress })),
+          authorization.privateKey,
+          authorization.publicKey,
+          authorization.signature,
+          authorization.contractAddresses,
+          authorization.userAddress,
+          authorization.startTimestamp,
+          authorization.durationDays,
+        ),
+      );
+    }
+    return handles.map((handle) => BigInt(results[handle]));
+  }
+
+  async publicDecryptBools(handles: string[]): Promise<boolean[]> {
+    const results: DecryptedResults = {};
+    for (const batch of splitByBits(handles)) {
+      Object.assign(results, await this.instance.publicDecrypt(batch));
+    }
+    return handles.map((handle) => Boolean(results[handle]));
+  }
+
+  /** Drops the cached authorization of `signer`, so the next decryption asks for a new signature. */
+  async forget(signer: Signer): Promise<void> {
+    await this.store.delete(await this.authorizationKey(signer));
+  }
+
+  private async authorize(contractAddress: string, signer: Signer): Promise<DecryptionAuthorization> {
+    const key = await this.authorizationKey(signer);
+
+    const cached = await this.store.get(key);
+    const now = Math.floor(Date.now() / 1000);
+    const isUsable = cached !== null && authorizationExpiry(cached) - EXPIRY_MARGIN_SECONDS > now;
+    if (isUsable && cached.contractAddresses.includes(contractAddress)) {
+      return cached;
+    }
+
+    // Concurrent decryptions share one wallet prompt instead of racing each other.
+    let pending = this.pendingAuthorizations.get(key);
+    if (!pending) {
+      const contractAddresses = new Set([
+        ...this.contractAddresses,
+        ...(isUsable ? cached.contractAddresses : []),
+        contractAddress,
+      ]);
+      pending = this.sign(key, [...contractAddresses], signer).finally(() => this.pendingAuthorizations.delete(key));
+      this.pendingAuthorizations.set(key, pending);
+    }
+
+    const authorization = await pending;
+    if (!authorization.contractAddresses.includes(contractAddress)) {
+      return this.authorize(contractAddress, signer);
+    }
+    return authorization;
+  }
+
+  private async sign(key: string, contractAddresses: string[], signer: Signer): Promise<DecryptionAuthorization> {
+    const keypair = this.instance.generateKeypair();
+    const startTimestamp = Math.floor(Date.now() / 1000);
+
+    const eip712 = this.instance.createEIP712(keypair.publicKey, contractAddresses, startTimestamp, this.durationDays);
+    const signature = await signer.signTypedData(
+      eip712.domain,
+      { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+      eip712.message,
+    );
+
+    const authorization: DecryptionAuthorization = {
+      publicKey: keypair.publicKey,
+      privateKey: keypair.privateKey,
+      signature: signature.replace("0x", ""),
+      userAddress: getAddress(await signer.getAddress()),
+      contractAddresses,
+      startTimestamp,
+      durationDays: this.durationDays,
+    };
+    await this.store.set(key, authorization);
+    return authorization;
+  }
+
+  private async authorizationKey(signer: Signer): Promise<string> {
+    const network = await signer.provider?.getNetwork();
+    return `${network?.chainId ?? "unknown"}:${getAddress(await signer.getAddress())}`;
+  }
+}
@@ -0,0 +1,8 @@
+export { FIGHTER_NFT_ABI } from "./abi";
+export { FighterClient } from "./FighterClient";
+export type { FighterClientOptions, MintResult, SquadMintResult } from "./FighterClient";
+export { MemoryAuthorizationStore, authorizationExpiry } from "./authorization";
+export type { AuthorizationStore, DecryptionAuthorization } from "./authorization";
+export { RelayerEncryptor } from "./encryptor";
+export type { FighterEncryptor, RelayerEncryptorOptions, RelayerInstance } from "./encryptor";
+export type { DecryptedAttributes, Distribution, EncryptedValues } from "./types";
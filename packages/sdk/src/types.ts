@@ -0,0 +1,17 @@
+/** Points spent on each attribute. A valid distribution uses whole numbers that sum to 10. */
+export type Distribution = {
+  agility: number;
+  strength: number;
+  stamina: number;
+};
+
+/** `valid` is false when the contract replaced an invalid distribution with the default one. */
+export type DecryptedAttributes = Distribution & {
+  valid: boolean;
+};
+
+/** Encrypted values as hex strings, ready to pass to the contract together with their shared proof. */
+export type EncryptedValues = {
+  handles: string[];
+  inputProof: string;
+};
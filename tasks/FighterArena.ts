@@ -0,0 +1,201 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import type { FighterArena } from "../types";
+
+const CONTRACT_NAME = "FighterArena";
+
+const OUTCOME_LABELS: Record<string, string> = {
+  "0": "Draw",
+  "1": "Fighter wins",
+  "2": "Opponent wins",
+};
+
+const OUTCOME_FIGHTER_WINS = 1n;
+const OUTCOME_OPPONENT_WINS = 2n;
+
+// Many RPC providers cap eth_getLogs ranges, so events are fetched in pages of this many blocks.
+const DEFAULT_LOG_PAGE_SIZE = 5000;
+
+type Standing = {
+  fighterId: bigint;
+  wins: number;
+  losses: number;
+  draws: number;
+  rating: bigint;
+};
+
+const SORT_KEYS: Record<string, (standing: Standing) => number> = {
+  rating: (standing) => Number(standing.rating),
+  wins: (standing) => standing.wins,
+  losses: (standing) => standing.losses,
+  draws: (standing) => standing.draws,
+  winrate: (standing) => winRate(standing),
+};
+
+async function getContract(hre: HardhatRuntimeEnvironment, addressOverride?: string) {
+  const { deployments, ethers } = hre;
+  if (addressOverride) {
+    return {
+      address: addressOverride,
+      instance: await ethers.getContractAt(CONTRACT_NAME, addressOverride),
+    };
+  }
+  const deployment = await deployments.get(CONTRACT_NAME);
+  return {
+    address: deployment.address,
+    instance: await ethers.getContractAt(CONTRACT_NAME, deployment.address),
+  };
+}
+
+task("fighter:battle", "Fights two fighters and decrypts the public outcome")
+  .addParam("fighter", "Token id of the first fighter")
+  .addParam("opponent", "Token id of the opponent")
+  .addOptionalParam("address", "Override FighterArena deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { instance } = await getContract(hre, taskArguments.address);
+    const [signer] = await ethers.getSigners();
+
+    const fighterId = BigInt(taskArguments.fighter);
+    const opponentId = BigInt(taskArguments.opponent);
+
+    const tx = await instance.connect(signer).battle(fighterId, opponentId);
+    console.log(`Battle transaction submitted: ${tx.hash}`);
+    const receipt = await tx.wait();
+
+    const battleEvent = receipt?.logs
+      .map((log) => instance.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "BattleFought");
+    if (!battleEvent) {
+      throw new Error("BattleFought event not found in receipt");
+    }
+
+    const battleId = battleEvent.args.battleId as bigint;
+    const outcome = await fhevm.publicDecryptEuint(FhevmType.euint8, battleEvent.args.outcome);
+
+    console.log(`Battle ${battleId.toString()}: fighter ${fighterId.toString()} vs ${opponentId.toString()}`);
+    console.log(`  Outcome: ${OUTCOME_LABELS[outcome.toString()] ?? outcome.toString()}`);
+
+    if (fhevm.isMock) {
+      await fhevm.awaitDecryptionOracle();
+    }
+    await printBattleResult(instance, battleId);
+  });
+
+task("fighter:battle-result", "Prints the on-chain resolution of a battle")
+  .addParam("battle", "Battle id")
+  .addOptionalParam("address", "Override FighterArena deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { instance } = await getContract(hre, taskArguments.address);
+    await printBattleResult(instance, BigInt(taskArguments.battle));
+  });
+
+task("fighter:leaderboard", "Builds the arena leaderboard from BattleResolved events")
+  .addOptionalParam("sort", `Column to sort by: ${Object.keys(SORT_KEYS).join(", ")}`, "rating")
+  .addOptionalParam("limit", "Number of rows to print", "20")
+  .addOptionalParam("fromblock", "First block to scan (defaults to the arena deployment block)")
+  .addOptionalParam("pagesize", "Blocks per eth_getLogs request", DEFAULT_LOG_PAGE_SIZE.toString())
+  .addOptionalParam("address", "Override FighterArena deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { deployments, ethers } = hre;
+
+    const sortKey = SORT_KEYS[taskArguments.sort];
+    if (!sortKey) {
+      throw new Error(`Unknown sort column ${taskArguments.sort}`);
+    }
+
+    const { instance } = await getContract(hre, taskArguments.address);
+
+    let fromBlock = 0;
+    if (taskArguments.fromblock !== undefined) {
+      fromBlock = Number(taskArguments.fromblock);
+    } else if (!taskArguments.address) {
+      fromBlock = (await deployments.get(CONTRACT_NAME)).receipt?.blockNumber ?? 0;
+    }
+    const latestBlock = await ethers.provider.getBlockNumber();
+    const pageSize = Number(taskArguments.pagesize);
+
+    const standings = new Map<bigint, Standing>();
+    const standingOf = (fighterId: bigint) => {
+      let standing = standings.get(fighterId);
+      if (!standing) {
+        standing = { fighterId, wins: 0, losses: 0, draws: 0, rating: 0n };
+        standings.set(fighterId, standing);
+      }
+      return standing;
+    };
+
+    let battles = 0;
+    for (let start = fromBlock; start <= latestBlock; start += pageSize) {
+      const end = Math.min(start + pageSize - 1, latestBlock);
+      const events = await instance.queryFilter(instance.filters.BattleResolved(), start, end);
+      for (const event of events) {
+        const { fighterId, opponentId, outcome, ranked, fighterRating, opponentRating } = event.args;
+        // Battles between fighters of the same owner leave records and ratings untouched.
+        if (!ranked) {
+          continue;
+        }
+        const fighter = standingOf(fighterId);
+        const opponent = standingOf(opponentId);
+        if (outcome === OUTCOME_FIGHTER_WINS) {
+          fighter.wins++;
+          opponent.losses++;
+        } else if (outcome === OUTCOME_OPPONENT_WINS) {
+          fighter.losses++;
+          opponent.wins++;
+        } else {
+          fighter.draws++;
+          opponent.draws++;
+        }
+        // Events come back in chain order, so the last one seen carries the current rating.
+        fighter.rating = fighterRating;
+        opponent.rating = opponentRating;
+        battles++;
+      }
+    }
+
+    if (standings.size === 0) {
+      console.log("No resolved battles yet");
+      return;
+    }
+
+    const rows = [...standings.values()]
+      .sort((a, b) => sortKey(b) - sortKey(a) || Number(b.rating - a.rating) || Number(a.fighterId - b.fighterId))
+      .slice(0, Number(taskArguments.limit));
+
+    console.log(`${battles} resolved battles between ${standings.size} fighters (blocks ${fromBlock}-${latestBlock})`);
+    const widths = [3, 8, 7, 4, 4, 4, 9];
+    const printRow = (cells: string[]) => console.log(cells.map((cell, i) => cell.padStart(widths[i])).join("  "));
+
+    printRow(["#", "Fighter", "Rating", "W", "L", "D", "Win rate"]);
+    rows.forEach((standing, index) => {
+      printRow([
+        (index + 1).toString(),
+        standing.fighterId.toString(),
+        standing.rating.toString(),
+        standing.wins.toString(),
+        standing.losses.toString(),
+        standing.draws.toString(),
+        `${(winRate(standing) * 100).toFixed(1)}%`,
+      ]);
+    });
+  });
+
+function winRate(standing: Standing) {
+  const total = standing.wins + standing.losses + standing.draws;
+  return total === 0 ? 0 : standing.wins / total;
+}
+
+async function printBattleResult(instance: FighterArena, battleId: bigint) {
+  const [resolved, outcome, requestId] = await instance.getBattleResult(battleId);
+  if (resolved) {
+    console.log(`  Resolved on-chain: ${OUTCOME_LABELS[outcome.toString()] ?? outcome.toString()}`);
+  } else {
+    console.log(`  Awaiting decryption oracle (request ${requestId.toString()})`);
+  }
+}
@@ -0,0 +1,185 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import type { FighterAuction } from "../types";
+
+const CONTRACT_NAME = "FighterAuction";
+
+const STATUS_LABELS = ["None", "Open", "Settling", "Settled"];
+
+async function getContract(hre: HardhatRuntimeEnvironment, addressOverride?: string) {
+  const { deployments, ethers } = hre;
+  if (addressOverride) {
+    return {
+      address: addressOverride,
+      instance: await ethers.getContractAt(CONTRACT_NAME, addressOverride),
+    };
+  }
+  const deployment = await deployments.get(CONTRACT_NAME);
+  return {
+    address: deployment.address,
+    instance: await ethers.getContractAt(CONTRACT_NAME, deployment.address),
+  };
+}
+
+task("auction:create", "Opens a sealed-bid auction for a fighter, approving the auction contract first if needed")
+  .addParam("tokenid", "Token id to auction")
+  .addParam("duration", "Auction duration in seconds (at most 30 days)")
+  .addOptionalParam("reserve", "Reserve price in ETH", "0")
+  .addOptionalParam("address", "Override FighterAuction deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { address, instance } = await getContract(hre, taskArguments.address);
+    const [signer] = await ethers.getSigners();
+
+    const tokenId = BigInt(taskArguments.tokenid);
+
+    const fighters = await ethers.getContractAt("FighterNFT", await instance.fighters());
+    if (!(await fighters.isApprovedOrOwner(address, tokenId))) {
+      const approval = await fighters.connect(signer).approve(address, tokenId);
+      console.log(`Approval transaction submitted: ${approval.hash}`);
+      await approval.wait();
+    }
+
+    const tx = await instance
+      .connect(signer)
+      .createAuction(tokenId, ethers.parseEther(taskArguments.reserve), BigInt(taskArguments.duration));
+    console.log(`Create transaction submitted: ${tx.hash}`);
+    const receipt = await tx.wait();
+
+    const createdEvent = receipt?.logs
+      .map((log) => instance.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "AuctionCreated");
+    if (createdEvent) {
+      const endTime = new Date(Number(createdEvent.args.endTime) * 1000).toISOString();
+      console.log(`Auction ${createdEvent.args.auctionId.toString()} open until ${endTime}`);
+    }
+  });
+
+task("auction:bid", "Places an encrypted bid backed by an ETH deposit")
+  .addParam("auction", "Auction id")
+  .addParam("amount", "Bid in ETH, encrypted before it is sent")
+  .addOptionalParam("deposit", "Deposit in ETH (defaults to the bid). A larger deposit hides the bid amount")
+  .addOptionalParam("address", "Override FighterAuction deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    const amount = ethers.parseEther(taskArguments.amount);
+    const deposit = ethers.parseEther(taskArguments.deposit ?? taskArguments.amount);
+    if (amount > deposit) {
+      throw new Error("The bid must not exceed the deposit, or it will be counted as 0");
+    }
+
+    await fhevm.initializeCLIApi();
+
+    const { address, instance } = await getContract(hre, taskArguments.address);
+    const [signer] = await ethers.getSigners();
+
+    const input = fhevm.createEncryptedInput(address, signer.address);
+    input.add64(amount);
+    const encrypted = await input.encrypt();
+
+    const tx = await instance
+      .connect(signer)
+      .bid(BigInt(taskArguments.auction), encrypted.handles[0], encrypted.inputProof, { value: deposit });
+    console.log(`Bid transaction submitted: ${tx.hash}`);
+    const receipt = await tx.wait();
+    console.log(`Bid transaction status: ${receipt?.status}`);
+
+    const [handle] = await instance.getBid(BigInt(taskArguments.auction), signer.address);
+    const recorded = await fhevm.userDecryptEuint(FhevmType.euint64, handle, address, signer);
+    console.log(`Recorded bid: ${ethers.formatEther(recorded)} ETH (deposit ${ethers.formatEther(deposit)} ETH)`);
+  });
+
+task("auction:settle", "Closes an ended auction and decrypts the winning bid")
+  .addParam("auction", "Auction id")
+  .addOptionalParam("address", "Override FighterAuction deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { instance } = await getContract(hre, taskArguments.address);
+    const [signer] = await ethers.getSigners();
+
+    const auctionId = BigInt(taskArguments.auction);
+
+    const tx = await instance.connect(signer).settle(auctionId);
+    console.log(`Settle transaction submitted: ${tx.hash}`);
+    await tx.wait();
+
+    if (fhevm.isMock) {
+      await fhevm.awaitDecryptionOracle();
+    }
+    await printAuction(hre, instance, auctionId);
+  });
+
+task("auction:close", "Closes an auction whose settlement stalled past its deadline, without a sale")
+  .addParam("auction", "Auction id")
+  .addOptionalParam("address", "Override FighterAuction deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { instance } = await getContract(hre, taskArguments.address);
+    const [signer] = await ethers.getSigners();
+
+    const auctionId = BigInt(taskArguments.auction);
+    const tx = await instance.connect(signer).closeStalledAuction(auctionId);
+    console.log(`Close transaction submitted: ${tx.hash}`);
+    await tx.wait();
+    await printAuction(hre, instance, auctionId);
+  });
+
+task("auction:withdraw", "Withdraws the proceeds or refundable deposit of a settled or stalled auction")
+  .addParam("auction", "Auction id")
+  .addOptionalParam("address", "Override FighterAuction deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { instance } = await getContract(hre, taskArguments.address);
+    const [signer] = await ethers.getSigners();
+
+    const tx = await instance.connect(signer).withdraw(BigInt(taskArguments.auction));
+    console.log(`Withdraw transaction submitted: ${tx.hash}`);
+    const receipt = await tx.wait();
+
+    const withdrawal = receipt?.logs
+      .map((log) => instance.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "Withdrawal");
+    if (withdrawal) {
+      console.log(`Withdrew ${ethers.formatEther(withdrawal.args.amount)} ETH`);
+    }
+  });
+
+task("auction:info", "Prints the state of an auction")
+  .addParam("auction", "Auction id")
+  .addOptionalParam("address", "Override FighterAuction deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { instance } = await getContract(hre, taskArguments.address);
+    await printAuction(hre, instance, BigInt(taskArguments.auction));
+  });
+
+async function printAuction(hre: HardhatRuntimeEnvironment, instance: FighterAuction, auctionId: bigint) {
+  const { ethers } = hre;
+  const auction = await instance.getAuction(auctionId);
+
+  console.log(`Auction ${auctionId.toString()} for fighter ${auction.tokenId.toString()}:`);
+  console.log(`  Seller : ${auction.seller}`);
+  console.log(`  Reserve: ${ethers.formatEther(auction.reservePrice)} ETH`);
+  console.log(`  Ends   : ${new Date(Number(auction.endTime) * 1000).toISOString()}`);
+  console.log(`  Bids   : ${auction.bidCount.toString()}`);
+  console.log(`  Status : ${STATUS_LABELS[Number(auction.status)]}`);
+  if (Number(auction.status) === 2) {
+    const deadline = new Date(Number(auction.settlementDeadline) * 1000).toISOString();
+    console.log(`  Closing: ${deadline}, then anyone can close it without a sale`);
+  }
+  if (Number(auction.status) === 3) {
+    console.log(
+      auction.winner === ethers.ZeroAddress
+        ? "  Result : no sale"
+        : `  Result : won by ${auction.winner} for ${ethers.formatEther(auction.winningBid)} ETH`,
+    );
+  }
+}
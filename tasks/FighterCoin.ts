@@ -0,0 +1,93 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+const CONTRACT_NAME = "FighterCoin";
+
+// FighterCoin uses 6 decimals.
+const COIN_DECIMALS = 6;
+
+async function getContract(hre: HardhatRuntimeEnvironment, addressOverride?: string) {
+  const { deployments, ethers } = hre;
+  if (addressOverride) {
+    return {
+      address: addressOverride,
+      instance: await ethers.getContractAt(CONTRACT_NAME, addressOverride),
+    };
+  }
+  const deployment = await deployments.get(CONTRACT_NAME);
+  return {
+    address: deployment.address,
+    instance: await ethers.getContractAt(CONTRACT_NAME, deployment.address),
+  };
+}
+
+task("coin:balance", "Decrypts your FighterCoin balance")
+  .addOptionalParam("address", "Override FighterCoin deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { address, instance } = await getContract(hre, taskArguments.address);
+    const [signer] = await ethers.getSigners();
+
+    const handle = await instance.confidentialBalanceOf(signer.address);
+    if (handle === ethers.ZeroHash) {
+      console.log(`${signer.address}: 0 FGC`);
+      return;
+    }
+
+    const balance = await fhevm.userDecryptEuint(FhevmType.euint64, handle, address, signer);
+    console.log(`${signer.address}: ${ethers.formatUnits(balance, COIN_DECIMALS)} FGC`);
+  });
+
+task("coin:transfer", "Sends an encrypted amount of FighterCoin")
+  .addParam("to", "Recipient address")
+  .addParam("amount", "Amount in FGC, for example 2.5")
+  .addOptionalParam("address", "Override FighterCoin deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { address, instance } = await getContract(hre, taskArguments.address);
+    const [signer] = await ethers.getSigners();
+
+    const amount = ethers.parseUnits(String(taskArguments.amount), COIN_DECIMALS);
+    const input = fhevm.createEncryptedInput(address, signer.address);
+    input.add64(amount);
+    const encrypted = await input.encrypt();
+
+    const tx = await instance
+      .connect(signer)
+      ["confidentialTransfer(address,bytes32,bytes)"](taskArguments.to, encrypted.handles[0], encrypted.inputProof);
+    console.log(`Transfer transaction submitted: ${tx.hash}`);
+    await tx.wait();
+    // An amount above the balance moves nothing instead of reverting, so point at coin:balance to check.
+    console.log(`Sent up to ${taskArguments.amount} FGC to ${taskArguments.to}; run coin:balance to confirm`);
+  });
+
+task("coin:operator", "Lets a contract spend your FighterCoin, for example FighterNFT for training fees")
+  .addOptionalParam("operator", "Operator address (defaults to the FighterNFT deployment)")
+  .addOptionalParam("days", "How long the approval lasts, 0 revokes it", "30")
+  .addOptionalParam("address", "Override FighterCoin deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { deployments, ethers } = hre;
+
+    const { instance } = await getContract(hre, taskArguments.address);
+    const [signer] = await ethers.getSigners();
+
+    const operator = taskArguments.operator ?? (await deployments.get("FighterNFT")).address;
+    const days = Number(taskArguments.days);
+    const until = days === 0 ? 0 : Math.floor(Date.now() / 1000) + days * 24 * 60 * 60;
+
+    const tx = await instance.connect(signer).setOperator(operator, until);
+    console.log(`Operator transaction submitted: ${tx.hash}`);
+    await tx.wait();
+    console.log(
+      until === 0
+        ? `Revoked ${operator}`
+        : `${operator} can spend your FGC until ${new Date(until * 1000).toISOString()}`,
+    );
+  });
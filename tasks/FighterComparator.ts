@@ -0,0 +1,121 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import type { FighterComparator } from "../types";
+
+const CONTRACT_NAME = "FighterComparator";
+
+const STATUS_LABELS = ["None", "Pending", "Completed", "Cancelled"];
+const STATUS_COMPLETED = 2n;
+
+async function getContract(hre: HardhatRuntimeEnvironment, addressOverride?: string) {
+  const { deployments, ethers } = hre;
+  if (addressOverride) {
+    return {
+      address: addressOverride,
+      instance: await ethers.getContractAt(CONTRACT_NAME, addressOverride),
+    };
+  }
+  const deployment = await deployments.get(CONTRACT_NAME);
+  return {
+    address: deployment.address,
+    instance: await ethers.getContractAt(CONTRACT_NAME, deployment.address),
+  };
+}
+
+async function printComparison(
+  hre: HardhatRuntimeEnvironment,
+  instance: FighterComparator,
+  address: string,
+  comparisonId: bigint,
+) {
+  const { ethers, fhevm } = hre;
+  const [signer] = await ethers.getSigners();
+
+  const comparison = await instance.getComparison(comparisonId);
+  const { fighterId, opponentId } = comparison;
+  console.log(`Comparison ${comparisonId.toString()}: fighter ${fighterId.toString()} vs ${opponentId.toString()}`);
+  console.log(`  Status: ${STATUS_LABELS[Number(comparison.status)]}`);
+  if (comparison.status !== STATUS_COMPLETED) {
+    return;
+  }
+  if (comparison.requester !== signer.address) {
+    console.log("  Only the requester can decrypt the result");
+    return;
+  }
+
+  const results: [string, string][] = [
+    ["Agility", comparison.agilityHigher],
+    ["Strength", comparison.strengthHigher],
+    ["Stamina", comparison.staminaHigher],
+  ];
+  for (const [label, handle] of results) {
+    const higher = await fhevm.userDecryptEbool(handle, address, signer);
+    console.log(`  ${label.padEnd(8)}: ${higher ? "higher" : "not higher"}`);
+  }
+}
+
+task("fighter:compare", "Compares your fighter with another one, attribute by attribute, without revealing either")
+  .addParam("fighter", "Token id of your fighter")
+  .addParam("opponent", "Token id of the fighter to compare against")
+  .addOptionalParam("address", "Override FighterComparator deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { address, instance } = await getContract(hre, taskArguments.address);
+    const [signer] = await ethers.getSigners();
+    const fighters = await ethers.getContractAt("FighterNFT", await instance.fighters());
+
+    const fighterId = BigInt(taskArguments.fighter);
+    const opponentId = BigInt(taskArguments.opponent);
+
+    const tx = await instance.connect(signer).requestComparison(fighterId, opponentId);
+    console.log(`Comparison request submitted: ${tx.hash}`);
+    const receipt = await tx.wait();
+
+    const requestEvent = receipt?.logs
+      .map((log) => instance.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "ComparisonRequested");
+    if (!requestEvent) {
+      throw new Error("ComparisonRequested event not found in receipt");
+    }
+    const comparisonId = requestEvent.args.comparisonId as bigint;
+
+    // Consent is implicit when the same account controls both fighters.
+    if (!(await fighters.isApprovedOrOwner(signer.address, opponentId))) {
+      console.log(`Comparison ${comparisonId.toString()} is waiting for the owner of fighter ${opponentId.toString()}`);
+      console.log(`They can accept it with fighter:compare-accept --id ${comparisonId.toString()}`);
+      return;
+    }
+    await (await instance.connect(signer).acceptComparison(comparisonId)).wait();
+    await printComparison(hre, instance, address, comparisonId);
+  });
+
+task("fighter:compare-accept", "Consents to a comparison against your fighter; only the requester sees the result")
+  .addParam("id", "Comparison id")
+  .addOptionalParam("address", "Override FighterComparator deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { instance } = await getContract(hre, taskArguments.address);
+    const [signer] = await ethers.getSigners();
+
+    const tx = await instance.connect(signer).acceptComparison(BigInt(taskArguments.id));
+    console.log(`Accept transaction submitted: ${tx.hash}`);
+    await tx.wait();
+    console.log(`Comparison ${taskArguments.id} completed`);
+  });
+
+task("fighter:compare-result", "Prints a comparison and decrypts it if you requested it")
+  .addParam("id", "Comparison id")
+  .addOptionalParam("address", "Override FighterComparator deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { address, instance } = await getContract(hre, taskArguments.address);
+    await printComparison(hre, instance, address, BigInt(taskArguments.id));
+  });
@@ -0,0 +1,145 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+const CONTRACT_NAME = "FighterMarket";
+
+async function getContract(hre: HardhatRuntimeEnvironment, addressOverride?: string) {
+  const { deployments, ethers } = hre;
+  if (addressOverride) {
+    return {
+      address: addressOverride,
+      instance: await ethers.getContractAt(CONTRACT_NAME, addressOverride),
+    };
+  }
+  const deployment = await deployments.get(CONTRACT_NAME);
+  return {
+    address: deployment.address,
+    instance: await ethers.getContractAt(CONTRACT_NAME, deployment.address),
+  };
+}
+
+task("market:list", "Lists a fighter for sale, approving the market first if needed")
+  .addParam("tokenid", "Token id to list")
+  .addParam("price", "Price in ETH")
+  .addOptionalParam("preview", "Seconds of viewer access granted to prospective buyers (0 disables previews)", "0")
+  .addOptionalParam("address", "Override FighterMarket deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { address, instance } = await getContract(hre, taskArguments.address);
+    const [signer] = await ethers.getSigners();
+
+    const tokenId = BigInt(taskArguments.tokenid);
+    const price = ethers.parseEther(taskArguments.price);
+    const preview = BigInt(taskArguments.preview);
+
+    const fighters = await ethers.getContractAt("FighterNFT", await instance.fighters());
+    if (!(await fighters.isApprovedOrOwner(address, tokenId))) {
+      const approval = await fighters.connect(signer).approve(address, tokenId);
+      console.log(`Approval transaction submitted: ${approval.hash}`);
+      await approval.wait();
+    }
+
+    const tx = await instance.connect(signer).listFighter(tokenId, price, preview);
+    console.log(`List transaction submitted: ${tx.hash}`);
+    const receipt = await tx.wait();
+    console.log(`List transaction status: ${receipt?.status}`);
+  });
+
+task("market:cancel", "Cancels a fighter listing")
+  .addParam("tokenid", "Token id to delist")
+  .addOptionalParam("address", "Override FighterMarket deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { instance } = await getContract(hre, taskArguments.address);
+    const [signer] = await ethers.getSigners();
+
+    const tx = await instance.connect(signer).cancelListing(BigInt(taskArguments.tokenid));
+    console.log(`Cancel transaction submitted: ${tx.hash}`);
+    const receipt = await tx.wait();
+    console.log(`Cancel transaction status: ${receipt?.status}`);
+  });
+
+task("market:listing", "Prints the listing and royalty split of a fighter")
+  .addParam("tokenid", "Token id")
+  .addOptionalParam("address", "Override FighterMarket deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { instance } = await getContract(hre, taskArguments.address);
+    const tokenId = BigInt(taskArguments.tokenid);
+
+    const listing = await instance.getListing(tokenId);
+    const fighters = await ethers.getContractAt("FighterNFT", await instance.fighters());
+    const [royaltyReceiver, royalty] = await fighters.royaltyInfo(tokenId, listing.price);
+
+    console.log(`Fighter ${tokenId.toString()} listing:`);
+    console.log(`  Seller  : ${listing.seller}`);
+    console.log(`  Price   : ${ethers.formatEther(listing.price)} ETH`);
+    console.log(`  Royalty : ${ethers.formatEther(royalty)} ETH to ${royaltyReceiver}`);
+    console.log(
+      `  Preview : ${listing.previewDuration === 0n ? "disabled" : `${listing.previewDuration.toString()} seconds`}`,
+    );
+  });
+
+task("market:preview", "Requests a time-limited viewer grant on a listed fighter")
+  .addParam("tokenid", "Token id to preview")
+  .addOptionalParam("address", "Override FighterMarket deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { instance } = await getContract(hre, taskArguments.address);
+    const [signer] = await ethers.getSigners();
+
+    const tx = await instance.connect(signer).requestPreview(BigInt(taskArguments.tokenid));
+    console.log(`Preview transaction submitted: ${tx.hash}`);
+    const receipt = await tx.wait();
+
+    const previewEvent = receipt?.logs
+      .map((log) => instance.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "PreviewGranted");
+    if (previewEvent) {
+      const expiresAt = new Date(Number(previewEvent.args.expiresAt) * 1000).toISOString();
+      console.log(`Preview granted until ${expiresAt}. Decrypt with fighter:attributes.`);
+    }
+  });
+
+task("market:buy", "Buys a listed fighter at its listing price")
+  .addParam("tokenid", "Token id to buy")
+  .addOptionalParam("address", "Override FighterMarket deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { instance } = await getContract(hre, taskArguments.address);
+    const [signer] = await ethers.getSigners();
+
+    const tokenId = BigInt(taskArguments.tokenid);
+    const listing = await instance.getListing(tokenId);
+
+    const tx = await instance.connect(signer).buyFighter(tokenId, { value: listing.price });
+    console.log(`Buy transaction submitted: ${tx.hash}`);
+    const receipt = await tx.wait();
+    console.log(`Buy transaction status: ${receipt?.status}`);
+    console.log(`Bought fighter ${tokenId.toString()} for ${ethers.formatEther(listing.price)} ETH`);
+  });
+
+task("market:withdraw", "Withdraws the sale proceeds and royalties the market credited to you")
+  .addOptionalParam("address", "Override FighterMarket deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { instance } = await getContract(hre, taskArguments.address);
+    const [signer] = await ethers.getSigners();
+
+    const tx = await instance.connect(signer).withdraw();
+    console.log(`Withdraw transaction submitted: ${tx.hash}`);
+    const receipt = await tx.wait();
+
+    const withdrawal = receipt?.logs
+      .map((log) => instance.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "Withdrawal");
+    if (withdrawal) {
+      console.log(`Withdrew ${ethers.formatEther(withdrawal.args.amount)} ETH`);
+    }
+  });
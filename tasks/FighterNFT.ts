@@ -1,9 +1,13 @@
-import { FhevmType } from "@fhevm/hardhat-plugin";
+import { FighterClient, RelayerEncryptor, type DecryptedAttributes, type Distribution } from "@fighters/sdk";
+import { readFileSync } from "fs";
+import { extname } from "path";
 import { task } from "hardhat/config";
-import type { TaskArguments } from "hardhat/types";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
 
 const CONTRACT_NAME = "FighterNFT";
 
+const TRAINABLE_ATTRIBUTES = ["agility", "strength", "stamina"];
+
 function parseAttribute(value: string, attribute: string): number {
   const parsed = Number(value);
   if (!Number.isInteger(parsed)) {
@@ -15,7 +19,79 @@ function parseAttribute(value: string, attribute: string): number {
   return parsed;
 }
 
-async function getContract(hre: any, addressOverride?: string) {
+function parseDistribution(values: unknown[], label: string): Distribution {
+  if (values.length !== 3) {
+    throw new Error(`${label}: expected agility, strength and stamina`);
+  }
+  const [agility, strength, stamina] = TRAINABLE_ATTRIBUTES.map((attribute, index) =>
+    parseAttribute(String(values[index]).trim(), `${label} ${attribute}`),
+  );
+  if (agility + strength + stamina !== 10) {
+    throw new Error(`${label}: attribute points must sum to 10`);
+  }
+  return { agility, strength, stamina };
+}
+
+// Reads a squad from a JSON array (of `{ agility, strength, stamina }` objects or `[agility, strength, stamina]`
+// tuples) or from a CSV file with one fighter per line and an optional `agility,strength,stamina` header.
+function parseSquadFile(file: string): Distribution[] {
+  const contents = readFileSync(file, "utf8");
+
+  if (extname(file).toLowerCase() === ".json") {
+    const entries: unknown = JSON.parse(contents);
+    if (!Array.isArray(entries)) {
+      throw new Error("Squad JSON must be an array of fighters");
+    }
+    return entries.map((entry, index) => {
+      const values = Array.isArray(entry)
+        ? entry
+        : TRAINABLE_ATTRIBUTES.map((attribute) => (entry as Record<string, unknown>)[attribute]);
+      return parseDistribution(values, `Fighter ${index + 1}`);
+    });
+  }
+
+  const rows = contents
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+  if (rows.length > 0 && /^agility\s*,/i.test(rows[0])) {
+    rows.shift();
+  }
+  return rows.map((row, index) => parseDistribution(row.split(","), `Fighter ${index + 1}`));
+}
+
+function parseExpiry(value: string | undefined): number {
+  if (value === undefined) {
+    return 0;
+  }
+  const timestamp = /^\d+$/.test(value) ? Number(value) : Math.floor(Date.parse(value) / 1000);
+  if (!Number.isSafeInteger(timestamp) || timestamp <= 0) {
+    throw new Error("until must be a unix timestamp in seconds or an ISO 8601 date");
+  }
+  return timestamp;
+}
+
+function formatExpiry(expiresAt: bigint): string {
+  return expiresAt === 0n ? "never expires" : `expires ${new Date(Number(expiresAt) * 1000).toISOString()}`;
+}
+
+function decodeDataUri(uri: string, mimeType: string): string {
+  const prefix = `data:${mimeType};base64,`;
+  if (!uri.startsWith(prefix)) {
+    throw new Error(`Expected a base64 ${mimeType} data URI`);
+  }
+  return Buffer.from(uri.slice(prefix.length), "base64").toString("utf8");
+}
+
+function printAttributes(tokenId: bigint, attributes: DecryptedAttributes, label = "attributes") {
+  console.log(`Fighter ${tokenId.toString()} ${label}:`);
+  console.log(`  Agility : ${attributes.agility}`);
+  console.log(`  Strength: ${attributes.strength}`);
+  console.log(`  Stamina : ${attributes.stamina}`);
+  console.log(`  Valid   : ${attributes.valid ? "yes" : "no (default distribution applied)"}`);
+}
+
+async function getContract(hre: HardhatRuntimeEnvironment, addressOverride?: string) {
   const { deployments, ethers } = hre;
   if (addressOverride) {
     return {
@@ -30,6 +106,14 @@ async function getContract(hre: any, addressOverride?: string) {
   };
 }
 
+/** FighterClient for the first signer. Call `fhevm.initializeCLIApi()` before encrypting or decrypting. */
+async function getClient(hre: HardhatRuntimeEnvironment, addressOverride?: string) {
+  const { address, instance } = await getContract(hre, addressOverride);
+  const [signer] = await hre.ethers.getSigners();
+  const client = new FighterClient({ address, signer, encryptor: new RelayerEncryptor(hre.fhevm) });
+  return { address, instance, signer, client };
+}
+
 task("fighter:address", "Prints the FighterNFT address")
   .addOptionalParam("address", "Override deployment address")
   .setAction(async function (taskArguments: TaskArguments, hre) {
@@ -45,109 +129,370 @@ task("fighter:mint", "Mints a new fighter with encrypted attributes")
   .addParam("stamina", "Stamina points (0-10)")
   .addOptionalParam("address", "Override deployment address")
   .setAction(async function (taskArguments: TaskArguments, hre) {
-    const { ethers, fhevm } = hre;
+    const { fhevm } = hre;
 
-    const agility = parseAttribute(taskArguments.agility, "agility");
-    const strength = parseAttribute(taskArguments.strength, "strength");
-    const stamina = parseAttribute(taskArguments.stamina, "stamina");
+    const distribution = parseDistribution(
+      [taskArguments.agility, taskArguments.strength, taskArguments.stamina],
+      "Fighter",
+    );
 
-    if (agility + strength + stamina !== 10) {
-      throw new Error("Attribute points must sum to 10");
-    }
+    await fhevm.initializeCLIApi();
 
-    const { address, instance } = await getContract(hre, taskArguments.address);
+    const { client } = await getClient(hre, taskArguments.address);
 
-    const [signer] = await ethers.getSigners();
+    const { tokenId, receipt } = await client.mint(distribution);
+    console.log(`Mint transaction: ${receipt.hash} (status ${receipt.status})`);
+    console.log(`Minted fighter tokenId: ${tokenId.toString()}`);
+  });
 
-    const input = fhevm.createEncryptedInput(address, signer.address);
-    input.add32(agility);
-    input.add32(strength);
-    input.add32(stamina);
-    const encrypted = await input.encrypt();
+task("fighter:mint-random", "Mints a fighter whose attributes are rolled on-chain with FHE randomness")
+  .addOptionalParam("address", "Override deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
 
-    const tx = await instance
-      .connect(signer)
-      .mintFighter(encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.inputProof);
+    await fhevm.initializeCLIApi();
 
-    console.log(`Mint transaction submitted: ${tx.hash}`);
-    const receipt = await tx.wait();
-    console.log(`Mint transaction status: ${receipt?.status}`);
+    const { client } = await getClient(hre, taskArguments.address);
+
+    const { tokenId, receipt } = await client.mintRandom();
+    console.log(`Random mint transaction: ${receipt.hash} (status ${receipt.status})`);
+
+    printAttributes(tokenId, await client.decrypt(tokenId), "rolled attributes");
+  });
+
+task("fighter:mint-batch", "Mints a squad of fighters from a JSON or CSV file in one transaction")
+  .addParam("file", "Path to a .json or .csv file with one agility/strength/stamina distribution per fighter")
+  .addOptionalParam("address", "Override deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    const squad = parseSquadFile(taskArguments.file);
+    if (squad.length === 0) {
+      throw new Error("The squad file does not contain any fighters");
+    }
 
-    const totalSupply = await instance.totalSupply();
-    console.log(`Minted fighter tokenId: ${totalSupply.toString()}`);
+    await fhevm.initializeCLIApi();
+
+    const { client } = await getClient(hre, taskArguments.address);
+
+    const { tokenIds, receipt } = await client.mintSquad(squad);
+    console.log(`Batch mint transaction: ${receipt.hash} (status ${receipt.status}, gas used ${receipt.gasUsed})`);
+    console.log(`Minted ${tokenIds.length} fighters: ${tokenIds.join(", ")}`);
   });
 
 task("fighter:attributes", "Decrypt fighter attributes")
   .addParam("tokenid", "Token id to decrypt")
   .addOptionalParam("address", "Override deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { client } = await getClient(hre, taskArguments.address);
+
+    const tokenId = BigInt(taskArguments.tokenid);
+    printAttributes(tokenId, await client.decrypt(tokenId));
+  });
+
+task("fighter:update", "Updates fighter attributes")
+  .addParam("tokenid", "Token id to update")
+  .addParam("agility", "Agility points (0-10)")
+  .addParam("strength", "Strength points (0-10)")
+  .addParam("stamina", "Stamina points (0-10)")
+  .addOptionalParam("address", "Override deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    const distribution = parseDistribution(
+      [taskArguments.agility, taskArguments.strength, taskArguments.stamina],
+      "Fighter",
+    );
+
+    await fhevm.initializeCLIApi();
+
+    const { client } = await getClient(hre, taskArguments.address);
+
+    const tokenId = BigInt(taskArguments.tokenid);
+    const receipt = await client.update(tokenId, distribution);
+    console.log(`Update transaction: ${receipt.hash}`);
+    console.log(`Attributes updated for fighter ${tokenId.toString()}`);
+  });
+
+task("fighter:allow", "Allows a viewer address to decrypt fighter attributes")
+  .addParam("tokenid", "Token id to share")
+  .addParam("viewer", "Address to grant access")
+  .addOptionalParam("until", "Expiry as a unix timestamp or ISO 8601 date (defaults to a permanent grant)")
+  .addOptionalParam("address", "Override deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const expiresAt = parseExpiry(taskArguments.until);
+
+    const { client } = await getClient(hre, taskArguments.address);
+
+    const tokenId = BigInt(taskArguments.tokenid);
+    const viewer = taskArguments.viewer as string;
+
+    const receipt = await client.allowViewer(tokenId, viewer, expiresAt);
+    console.log(`Allow viewer transaction: ${receipt.hash}`);
+    console.log(`Access granted to ${viewer} for fighter ${tokenId.toString()} (${formatExpiry(BigInt(expiresAt))})`);
+  });
+
+task("fighter:reveal", "Publicly reveals fighter attributes through the decryption oracle")
+  .addParam("tokenid", "Token id to reveal")
+  .addOptionalParam("address", "Override deployment address")
   .setAction(async function (taskArguments: TaskArguments, hre) {
     const { ethers, fhevm } = hre;
 
     await fhevm.initializeCLIApi();
 
-    const { address, instance } = await getContract(hre, taskArguments.address);
+    const { instance } = await getContract(hre, taskArguments.address);
     const [signer] = await ethers.getSigners();
 
     const tokenId = BigInt(taskArguments.tokenid);
 
-    const attributes = await instance.getEncryptedAttributes(tokenId);
+    const [alreadyRevealed, alreadyPending] = await instance.getRevealedAttributes(tokenId);
+    if (!alreadyRevealed && !alreadyPending) {
+      const tx = await instance.connect(signer).revealAttributes(tokenId);
+      console.log(`Reveal transaction submitted: ${tx.hash}`);
+      await tx.wait();
+    }
 
-    const agility = await fhevm.userDecryptEuint(FhevmType.euint32, attributes[0], address, signer);
-    const strength = await fhevm.userDecryptEuint(FhevmType.euint32, attributes[1], address, signer);
-    const stamina = await fhevm.userDecryptEuint(FhevmType.euint32, attributes[2], address, signer);
+    if (fhevm.isMock) {
+      await fhevm.awaitDecryptionOracle();
+    }
 
-    console.log(`Fighter ${tokenId.toString()} attributes:`);
+    const [revealed, , agility, strength, stamina] = await instance.getRevealedAttributes(tokenId);
+    if (!revealed) {
+      console.log(`Reveal of fighter ${tokenId.toString()} is awaiting the decryption oracle`);
+      return;
+    }
+
+    console.log(`Fighter ${tokenId.toString()} revealed attributes:`);
     console.log(`  Agility : ${agility.toString()}`);
     console.log(`  Strength: ${strength.toString()}`);
     console.log(`  Stamina : ${stamina.toString()}`);
   });
 
-task("fighter:update", "Updates fighter attributes")
-  .addParam("tokenid", "Token id to update")
-  .addParam("agility", "Agility points (0-10)")
-  .addParam("strength", "Strength points (0-10)")
-  .addParam("stamina", "Stamina points (0-10)")
+task("fighter:metadata", "Decodes and prints the on-chain fighter metadata")
+  .addParam("tokenid", "Token id to inspect")
+  .addFlag("svg", "Also print the decoded SVG card")
   .addOptionalParam("address", "Override deployment address")
   .setAction(async function (taskArguments: TaskArguments, hre) {
-    const { ethers, fhevm } = hre;
+    const { instance } = await getContract(hre, taskArguments.address);
+
+    const tokenId = BigInt(taskArguments.tokenid);
+    const uri: string = await instance.tokenURI(tokenId);
+    if (uri === "") {
+      console.log(`No renderer configured, fighter ${tokenId.toString()} has no metadata`);
+      return;
+    }
 
-    const agility = parseAttribute(taskArguments.agility, "agility");
-    const strength = parseAttribute(taskArguments.strength, "strength");
-    const stamina = parseAttribute(taskArguments.stamina, "stamina");
+    const metadata = JSON.parse(decodeDataUri(uri, "application/json"));
+    console.log(JSON.stringify(metadata, null, 2));
 
-    if (agility + strength + stamina !== 10) {
-      throw new Error("Attribute points must sum to 10");
+    if (taskArguments.svg) {
+      console.log(decodeDataUri(metadata.image, "image/svg+xml"));
     }
+  });
+
+task("fighter:xp", "Prints the experience and level of a fighter")
+  .addParam("tokenid", "Token id to inspect")
+  .addOptionalParam("address", "Override deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { instance } = await getContract(hre, taskArguments.address);
 
-    const { address, instance } = await getContract(hre, taskArguments.address);
+    const tokenId = BigInt(taskArguments.tokenid);
+    const [available, total, level, attributeCap] = await instance.getExperience(tokenId);
+    const trainingCost = await instance.trainingCost();
+
+    console.log(`Fighter ${tokenId.toString()} experience:`);
+    console.log(`  Available    : ${available.toString()} XP (${trainingCost.toString()} XP per training)`);
+    console.log(`  Total earned : ${total.toString()} XP`);
+    console.log(`  Level        : ${level.toString()}`);
+    console.log(`  Attribute cap: ${attributeCap.toString()}`);
+  });
+
+task("fighter:train", "Spends experience to add an encrypted point to an attribute")
+  .addParam("tokenid", "Token id to train")
+  .addParam("attribute", `Attribute to train (${TRAINABLE_ATTRIBUTES.join(", ")})`)
+  .addOptionalParam("address", "Override deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const attribute = TRAINABLE_ATTRIBUTES.indexOf(String(taskArguments.attribute).toLowerCase());
+    if (attribute === -1) {
+      throw new Error(`attribute must be one of ${TRAINABLE_ATTRIBUTES.join(", ")}`);
+    }
+
+    const { instance } = await getContract(hre, taskArguments.address);
     const [signer] = await ethers.getSigners();
 
     const tokenId = BigInt(taskArguments.tokenid);
 
-    const input = fhevm.createEncryptedInput(address, signer.address);
-    input.add32(agility);
-    input.add32(strength);
-    input.add32(stamina);
-    const encrypted = await input.encrypt();
-
-    const tx = await instance
-      .connect(signer)
-      .updateAttributes(
-        tokenId,
-        encrypted.handles[0],
-        encrypted.handles[1],
-        encrypted.handles[2],
-        encrypted.inputProof,
-      );
+    const [feeToken, fee] = await instance.getTrainingFee();
+    if (fee > 0n) {
+      // Paid in FighterCoin; an unpaid fee drops the point. See coin:operator and coin:balance.
+      console.log(`Training fee: ${ethers.formatUnits(fee, 6)} FGC`);
 
-    console.log(`Update transaction submitted: ${tx.hash}`);
+      const coin = await ethers.getContractAt("FighterCoin", feeToken);
+      if (!(await coin.isOperator(signer.address, await instance.getAddress()))) {
+        throw new Error("FighterNFT cannot charge your training fee yet: run coin:operator first");
+      }
+    }
+
+    const tx = await instance.connect(signer).trainAttribute(tokenId, attribute);
+    console.log(`Train transaction submitted: ${tx.hash}`);
     await tx.wait();
-    console.log(`Attributes updated for fighter ${tokenId.toString()}`);
+
+    const [available, , level] = await instance.getExperience(tokenId);
+    console.log(`Trained ${TRAINABLE_ATTRIBUTES[attribute]} for fighter ${tokenId.toString()}`);
+    console.log(`  Level ${level.toString()}, ${available.toString()} XP left`);
   });
 
-task("fighter:allow", "Allows a viewer address to decrypt fighter attributes")
-  .addParam("tokenid", "Token id to share")
-  .addParam("viewer", "Address to grant access")
+task("fighter:breed", "Breeds two fighters into a new one with encrypted attributes derived from both parents")
+  .addParam("parenta", "Token id of the first parent")
+  .addParam("parentb", "Token id of the second parent")
+  .addFlag("burn", "Burn both parents instead of putting them on a breeding cooldown")
+  .addOptionalParam("address", "Override deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { instance, signer, client } = await getClient(hre, taskArguments.address);
+
+    const parentA = BigInt(taskArguments.parenta);
+    const parentB = BigInt(taskArguments.parentb);
+
+    const tx = await instance.connect(signer).breed(parentA, parentB, Boolean(taskArguments.burn));
+    console.log(`Breed transaction submitted: ${tx.hash}`);
+    const receipt = await tx.wait();
+
+    const bredEvent = receipt?.logs
+      .map((log) => instance.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "FighterBred");
+    if (!bredEvent) {
+      throw new Error("FighterBred event not found in receipt");
+    }
+    const childId = bredEvent.args.childId as bigint;
+    const [, , generation] = await instance.getLineage(childId);
+
+    printAttributes(childId, await client.decrypt(childId), `(generation ${generation.toString()})`);
+    if (taskArguments.burn) {
+      console.log(`  Parents ${parentA.toString()} and ${parentB.toString()} were burned`);
+    } else {
+      const readyAt = await instance.breedingReadyAt(parentA);
+      console.log(`  Parents can breed again from ${new Date(Number(readyAt) * 1000).toISOString()}`);
+    }
+  });
+
+task("fighter:burn", "Burns a fighter along with its encrypted attributes")
+  .addParam("tokenid", "Token id to burn")
+  .addOptionalParam("address", "Override deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { instance } = await getContract(hre, taskArguments.address);
+    const [signer] = await ethers.getSigners();
+
+    const tokenId = BigInt(taskArguments.tokenid);
+
+    const tx = await instance.connect(signer).burn(tokenId);
+    console.log(`Burn transaction submitted: ${tx.hash}`);
+    await tx.wait();
+    console.log(`Burned fighter ${tokenId.toString()}`);
+  });
+
+task("fighter:lineage", "Prints the parents, generation and breeding cooldown of a fighter")
+  .addParam("tokenid", "Token id to inspect")
+  .addOptionalParam("address", "Override deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { instance } = await getContract(hre, taskArguments.address);
+
+    const tokenId = BigInt(taskArguments.tokenid);
+    const [parentA, parentB, generation] = await instance.getLineage(tokenId);
+    const readyAt: bigint = await instance.breedingReadyAt(tokenId);
+
+    console.log(`Fighter ${tokenId.toString()} lineage:`);
+    console.log(`  Generation: ${generation.toString()}`);
+    console.log(
+      parentA === 0n ? "  Parents   : none (minted)" : `  Parents   : ${parentA.toString()} and ${parentB.toString()}`,
+    );
+    const latest = await ethers.provider.getBlock("latest");
+    const now = BigInt(latest?.timestamp ?? 0);
+    console.log(
+      readyAt > now
+        ? `  Breeding  : on cooldown until ${new Date(Number(readyAt) * 1000).toISOString()}`
+        : "  Breeding  : ready",
+    );
+  });
+
+task("fighter:lock", "Prints the game contract holding a fighter and when its lock expires")
+  .addParam("tokenid", "Token id to inspect")
+  .addOptionalParam("address", "Override deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { instance } = await getContract(hre, taskArguments.address);
+
+    const tokenId = BigInt(taskArguments.tokenid);
+    const [locker, expiresAt]: [string, bigint] = await instance.getLock(tokenId);
+
+    if (locker === ethers.ZeroAddress) {
+      console.log(`Fighter ${tokenId.toString()} is not locked`);
+      return;
+    }
+    console.log(`Fighter ${tokenId.toString()} is locked by ${locker}`);
+    console.log(`  Expires: ${new Date(Number(expiresAt) * 1000).toISOString()}`);
+  });
+
+task("fighter:viewers", "Lists the addresses allowed to decrypt fighter attributes")
+  .addParam("tokenid", "Token id to inspect")
+  .addOptionalParam("address", "Override deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { instance } = await getContract(hre, taskArguments.address);
+
+    const tokenId = BigInt(taskArguments.tokenid);
+    const owner: string = await instance.ownerOf(tokenId);
+    const [viewers, expiries]: [string[], bigint[]] = await instance.getViewers(tokenId);
+
+    console.log(`Fighter ${tokenId.toString()} owner: ${owner}`);
+    if (viewers.length === 0) {
+      console.log("  Not shared with any viewer");
+      return;
+    }
+    viewers.forEach((viewer, index) => {
+      console.log(`  Viewer: ${viewer} (${formatExpiry(expiries[index])})`);
+    });
+  });
+
+task("fighter:expire-viewers", "Removes lapsed viewer grants and re-keys the fighter attributes")
+  .addParam("tokenid", "Token id to clean up")
+  .addOptionalParam("address", "Override deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { instance } = await getContract(hre, taskArguments.address);
+    const [signer] = await ethers.getSigners();
+
+    const tokenId = BigInt(taskArguments.tokenid);
+
+    const expired: bigint = await instance.connect(signer).expireViewers.staticCall(tokenId);
+    if (expired === 0n) {
+      console.log(`No lapsed viewer grants on fighter ${tokenId.toString()}`);
+      return;
+    }
+
+    const tx = await instance.connect(signer).expireViewers(tokenId);
+    console.log(`Expire viewers transaction submitted: ${tx.hash}`);
+    await tx.wait();
+    console.log(`Removed ${expired.toString()} lapsed viewer grant(s) from fighter ${tokenId.toString()}`);
+  });
+
+task("fighter:revoke", "Revokes a viewer and re-keys the fighter attributes")
+  .addParam("tokenid", "Token id to update")
+  .addParam("viewer", "Address to revoke")
   .addOptionalParam("address", "Override deployment address")
   .setAction(async function (taskArguments: TaskArguments, hre) {
     const { ethers } = hre;
@@ -158,8 +503,59 @@ task("fighter:allow", "Allows a viewer address to decrypt fighter attributes")
     const tokenId = BigInt(taskArguments.tokenid);
     const viewer = taskArguments.viewer as string;
 
-    const tx = await instance.connect(signer).allowViewer(tokenId, viewer);
-    console.log(`Allow viewer transaction submitted: ${tx.hash}`);
+    const tx = await instance.connect(signer).revokeViewer(tokenId, viewer);
+    console.log(`Revoke viewer transaction submitted: ${tx.hash}`);
     await tx.wait();
-    console.log(`Access granted to ${viewer} for fighter ${tokenId.toString()}`);
+    console.log(`Access revoked for ${viewer} on fighter ${tokenId.toString()}`);
+  });
+
+// Demo builds handed out round-robin, so neighbouring accounts start with different squads.
+const DEMO_SQUAD: Distribution[] = [
+  { agility: 4, strength: 3, stamina: 3 },
+  { agility: 6, strength: 2, stamina: 2 },
+  { agility: 2, strength: 6, stamina: 2 },
+  { agility: 2, strength: 2, stamina: 6 },
+  { agility: 1, strength: 5, stamina: 4 },
+];
+
+task("fighter:seed", "Mints demo fighters for the default accounts of a local node")
+  .addOptionalParam("accounts", "Number of accounts to seed", "4")
+  .addOptionalParam("count", "Fighters per account", "3")
+  .addOptionalParam("address", "Override deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+    if (!fhevm.isMock) {
+      throw new Error("fighter:seed needs the mock FHEVM (--network hardhat or localhost)");
+    }
+
+    const accounts = Number(taskArguments.accounts);
+    const count = Number(taskArguments.count);
+    if (!Number.isInteger(accounts) || accounts < 1 || !Number.isInteger(count) || count < 1 || count > 10) {
+      throw new Error("accounts must be a positive integer and count between 1 and 10");
+    }
+
+    const { address } = await getContract(hre, taskArguments.address);
+    const signers = (await ethers.getSigners()).slice(0, accounts);
+    const encryptor = new RelayerEncryptor(fhevm);
+
+    for (const [index, signer] of signers.entries()) {
+      const client = new FighterClient({ address, signer, encryptor });
+
+      // Re-running the task tops accounts up instead of minting another full squad.
+      const owned = await client.listOwned();
+      const missing = count - owned.length;
+      if (missing <= 0) {
+        console.log(`${signer.address} already owns ${owned.length} fighter(s)`);
+        continue;
+      }
+
+      const squad = Array.from(
+        { length: missing },
+        (_, i) => DEMO_SQUAD[(index + owned.length + i) % DEMO_SQUAD.length],
+      );
+      const { tokenIds } = await client.mintSquad(squad);
+      console.log(`${signer.address} minted fighters ${tokenIds.join(", ")}`);
+    }
   });
@@ -0,0 +1,139 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+const CONTRACT_NAME = "FighterStaking";
+
+// FighterRewardToken uses 6 decimals.
+const REWARD_DECIMALS = 6;
+
+async function getContract(hre: HardhatRuntimeEnvironment, addressOverride?: string) {
+  const { deployments, ethers } = hre;
+  if (addressOverride) {
+    return {
+      address: addressOverride,
+      instance: await ethers.getContractAt(CONTRACT_NAME, addressOverride),
+    };
+  }
+  const deployment = await deployments.get(CONTRACT_NAME);
+  return {
+    address: deployment.address,
+    instance: await ethers.getContractAt(CONTRACT_NAME, deployment.address),
+  };
+}
+
+task("stake:deposit", "Stakes a fighter in the vault with safeTransferFrom")
+  .addParam("tokenid", "Token id to stake")
+  .addOptionalParam("address", "Override FighterStaking deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { address, instance } = await getContract(hre, taskArguments.address);
+    const [signer] = await ethers.getSigners();
+    const fighters = await ethers.getContractAt("FighterNFT", await instance.fighters());
+
+    const tokenId = BigInt(taskArguments.tokenid);
+    const tx = await fighters
+      .connect(signer)
+      ["safeTransferFrom(address,address,uint256)"](signer.address, address, tokenId);
+    console.log(`Stake transaction submitted: ${tx.hash}`);
+    await tx.wait();
+    console.log(`Fighter ${tokenId.toString()} staked`);
+  });
+
+task("stake:withdraw", "Unstakes a fighter and returns it to its owner")
+  .addParam("tokenid", "Token id to unstake")
+  .addOptionalParam("address", "Override FighterStaking deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { instance } = await getContract(hre, taskArguments.address);
+    const [signer] = await ethers.getSigners();
+
+    const tx = await instance.connect(signer).unstake(BigInt(taskArguments.tokenid));
+    console.log(`Unstake transaction submitted: ${tx.hash}`);
+    await tx.wait();
+    console.log(`Fighter ${taskArguments.tokenid} returned to ${signer.address}`);
+  });
+
+task("stake:rewards", "Accrues and decrypts your staked power and pending rewards")
+  .addFlag("nocheckpoint", "Skip the checkpoint transaction and decrypt the last accrued balance")
+  .addOptionalParam("address", "Override FighterStaking deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { address, instance } = await getContract(hre, taskArguments.address);
+    const [signer] = await ethers.getSigners();
+
+    const stakedTokens = await instance.stakedTokensOf(signer.address);
+    console.log(`Staked fighters: ${stakedTokens.length === 0 ? "none" : stakedTokens.join(", ")}`);
+
+    if (!taskArguments.nocheckpoint) {
+      await (await instance.connect(signer).checkpoint()).wait();
+    }
+
+    const [powerHandle, pendingHandle, accruedUntil] = await instance.getStaker(signer.address);
+    if (accruedUntil === 0n) {
+      console.log("Nothing staked yet");
+      return;
+    }
+
+    for (const tokenId of stakedTokens) {
+      const power = await fhevm.userDecryptEuint(FhevmType.euint64, await instance.getPower(tokenId), address, signer);
+      console.log(`  Fighter ${tokenId.toString()} power: ${power.toString()}`);
+    }
+    const power = await fhevm.userDecryptEuint(FhevmType.euint64, powerHandle, address, signer);
+    const pending = await fhevm.userDecryptEuint(FhevmType.euint64, pendingHandle, address, signer);
+
+    console.log(`Total power    : ${power.toString()}`);
+    console.log(`Pending rewards: ${ethers.formatUnits(pending, REWARD_DECIMALS)} FRWD`);
+    console.log(`Accrued until  : ${new Date(Number(accruedUntil) * 1000).toISOString()}`);
+  });
+
+task("stake:claim", "Claims pending rewards as FighterRewardToken")
+  .addOptionalParam("address", "Override FighterStaking deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { instance } = await getContract(hre, taskArguments.address);
+    const [signer] = await ethers.getSigners();
+
+    const tx = await instance.connect(signer).claimRewards();
+    console.log(`Claim transaction submitted: ${tx.hash}`);
+    await tx.wait();
+
+    const rewardTokenAddress = await instance.rewardToken();
+    const rewardToken = await ethers.getContractAt("FighterRewardToken", rewardTokenAddress);
+    const balance = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await rewardToken.confidentialBalanceOf(signer.address),
+      rewardTokenAddress,
+      signer,
+    );
+    console.log(`Reward balance: ${ethers.formatUnits(balance, REWARD_DECIMALS)} FRWD`);
+  });
+
+task("stake:balance", "Decrypts your FighterRewardToken balance")
+  .addOptionalParam("address", "Override FighterStaking deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { instance } = await getContract(hre, taskArguments.address);
+    const [signer] = await ethers.getSigners();
+
+    const rewardTokenAddress = await instance.rewardToken();
+    const rewardToken = await ethers.getContractAt("FighterRewardToken", rewardTokenAddress);
+    const handle = await rewardToken.confidentialBalanceOf(signer.address);
+    if (handle === ethers.ZeroHash) {
+      console.log(`${signer.address}: 0 FRWD`);
+      return;
+    }
+    const balance = await fhevm.userDecryptEuint(FhevmType.euint64, handle, rewardTokenAddress, signer);
+    console.log(`${signer.address}: ${ethers.formatUnits(balance, REWARD_DECIMALS)} FRWD`);
+  });
@@ -0,0 +1,237 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import type { FighterTournament } from "../types";
+
+const CONTRACT_NAME = "FighterTournament";
+
+const STATUS_LABELS = ["None", "Registration", "Running", "Completed", "Cancelled"];
+const STATUS_REGISTRATION = 1n;
+const STATUS_RUNNING = 2n;
+const STATUS_COMPLETED = 3n;
+
+async function getContract(hre: HardhatRuntimeEnvironment, addressOverride?: string) {
+  const { deployments, ethers } = hre;
+  if (addressOverride) {
+    return {
+      address: addressOverride,
+      instance: await ethers.getContractAt(CONTRACT_NAME, addressOverride),
+    };
+  }
+  const deployment = await deployments.get(CONTRACT_NAME);
+  return {
+    address: deployment.address,
+    instance: await ethers.getContractAt(CONTRACT_NAME, deployment.address),
+  };
+}
+
+function parseSize(value: string): number {
+  const size = Number(value);
+  if (size !== 8 && size !== 16) {
+    throw new Error("size must be 8 or 16");
+  }
+  return size;
+}
+
+task("tournament:create", "Creates an 8- or 16-fighter tournament")
+  .addParam("size", "Bracket size (8 or 16)")
+  .addOptionalParam("fee", "Entry fee in ETH", "0")
+  .addOptionalParam("address", "Override FighterTournament deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { instance } = await getContract(hre, taskArguments.address);
+    const [signer] = await ethers.getSigners();
+
+    const tx = await instance
+      .connect(signer)
+      .createTournament(parseSize(taskArguments.size), ethers.parseEther(taskArguments.fee));
+    console.log(`Create transaction submitted: ${tx.hash}`);
+    const receipt = await tx.wait();
+
+    const createdEvent = receipt?.logs
+      .map((log) => instance.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "TournamentCreated");
+    if (createdEvent) {
+      console.log(`Tournament ${createdEvent.args.tournamentId.toString()} is open for registration`);
+    }
+  });
+
+task("tournament:register", "Registers a fighter for the entry fee and locks it for the tournament")
+  .addParam("tournament", "Tournament id")
+  .addParam("tokenid", "Token id to register")
+  .addOptionalParam("address", "Override FighterTournament deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { instance } = await getContract(hre, taskArguments.address);
+    const [signer] = await ethers.getSigners();
+
+    const tournamentId = BigInt(taskArguments.tournament);
+    const { entryFee } = await instance.getTournament(tournamentId);
+
+    const tx = await instance.connect(signer).register(tournamentId, BigInt(taskArguments.tokenid), {
+      value: entryFee,
+    });
+    console.log(`Register transaction submitted: ${tx.hash}`);
+    await tx.wait();
+    console.log(`Fighter ${taskArguments.tokenid} registered for ${ethers.formatEther(entryFee)} ETH`);
+  });
+
+task("tournament:play", "Fights the current round and, on a mock network, waits for the outcomes")
+  .addParam("tournament", "Tournament id")
+  .addOptionalParam("address", "Override FighterTournament deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { instance } = await getContract(hre, taskArguments.address);
+    const [signer] = await ethers.getSigners();
+
+    const tournamentId = BigInt(taskArguments.tournament);
+
+    const tx = await instance.connect(signer).playRound(tournamentId);
+    console.log(`Play round transaction submitted: ${tx.hash}`);
+    await tx.wait();
+
+    if (fhevm.isMock) {
+      await fhevm.awaitDecryptionOracle();
+    }
+    await printBracket(hre, instance, tournamentId);
+  });
+
+task("tournament:cancel", "Cancels a tournament that has not started, or one that lapsed unfilled or unfinished")
+  .addParam("tournament", "Tournament id")
+  .addOptionalParam("address", "Override FighterTournament deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { instance } = await getContract(hre, taskArguments.address);
+    const [signer] = await ethers.getSigners();
+
+    const tx = await instance.connect(signer).cancelTournament(BigInt(taskArguments.tournament));
+    console.log(`Cancel transaction submitted: ${tx.hash}`);
+    await tx.wait();
+    console.log(`Tournament ${taskArguments.tournament} cancelled, entrants can withdraw their fees`);
+  });
+
+task("tournament:withdraw", "Withdraws the prize of a completed tournament or the fees of a cancelled or lapsed one")
+  .addParam("tournament", "Tournament id")
+  .addOptionalParam("address", "Override FighterTournament deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { instance } = await getContract(hre, taskArguments.address);
+    const [signer] = await ethers.getSigners();
+
+    const tx = await instance.connect(signer).withdraw(BigInt(taskArguments.tournament));
+    console.log(`Withdraw transaction submitted: ${tx.hash}`);
+    const receipt = await tx.wait();
+
+    const withdrawal = receipt?.logs
+      .map((log) => instance.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "Withdrawal");
+    if (withdrawal) {
+      console.log(`Withdrew ${ethers.formatEther(withdrawal.args.amount)} ETH`);
+    }
+  });
+
+task("tournament:bracket", "Prints the bracket of a tournament")
+  .addParam("tournament", "Tournament id")
+  .addOptionalParam("address", "Override FighterTournament deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { instance } = await getContract(hre, taskArguments.address);
+    await printBracket(hre, instance, BigInt(taskArguments.tournament));
+  });
+
+task("tournament:run-local", "Mints random fighters for the local accounts and plays a full bracket (mock only)")
+  .addOptionalParam("size", "Bracket size (8 or 16)", "8")
+  .addOptionalParam("fee", "Entry fee in ETH", "0.01")
+  .addOptionalParam("address", "Override FighterTournament deployment address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+    if (!fhevm.isMock) {
+      throw new Error("tournament:run-local needs the mock FHEVM (--network hardhat or localhost)");
+    }
+
+    const size = parseSize(taskArguments.size);
+    const entryFee = ethers.parseEther(taskArguments.fee);
+
+    const { instance } = await getContract(hre, taskArguments.address);
+    const fighters = await ethers.getContractAt("FighterNFT", await instance.fighters());
+    const signers = await ethers.getSigners();
+    if (signers.length < size + 1) {
+      throw new Error(`Need ${size + 1} local accounts, found ${signers.length}`);
+    }
+    const [organizer, ...entrants] = signers;
+
+    const createTx = await instance.connect(organizer).createTournament(size, entryFee);
+    const createReceipt = await createTx.wait();
+    const createdEvent = createReceipt?.logs
+      .map((log) => instance.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "TournamentCreated");
+    if (!createdEvent) {
+      throw new Error("TournamentCreated event not found in receipt");
+    }
+    const tournamentId = createdEvent.args.tournamentId as bigint;
+    console.log(`Created tournament ${tournamentId.toString()} (${size} slots)`);
+
+    for (const entrant of entrants.slice(0, size)) {
+      const mintReceipt = await (await fighters.connect(entrant).mintRandomFighter()).wait();
+      const mintEvent = mintReceipt?.logs
+        .map((log) => fighters.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "Transfer");
+      if (!mintEvent) {
+        throw new Error("Transfer event not found in mint receipt");
+      }
+      const tokenId = mintEvent.args.tokenId as bigint;
+      await (await instance.connect(entrant).register(tournamentId, tokenId, { value: entryFee })).wait();
+      console.log(`  ${entrant.address} registered fighter ${tokenId.toString()}`);
+    }
+
+    while ((await instance.getTournament(tournamentId)).status !== STATUS_COMPLETED) {
+      await (await instance.connect(organizer).playRound(tournamentId)).wait();
+      await fhevm.awaitDecryptionOracle();
+    }
+
+    await printBracket(hre, instance, tournamentId);
+  });
+
+async function printBracket(hre: HardhatRuntimeEnvironment, instance: FighterTournament, tournamentId: bigint) {
+  const { ethers } = hre;
+  const tournament = await instance.getTournament(tournamentId);
+
+  console.log(`Tournament ${tournamentId.toString()}:`);
+  console.log(`  Organizer: ${tournament.organizer}`);
+  console.log(`  Entry fee: ${ethers.formatEther(tournament.entryFee)} ETH`);
+  console.log(`  Status   : ${STATUS_LABELS[Number(tournament.status)]}`);
+  if (tournament.status === STATUS_REGISTRATION) {
+    const deadline = new Date(Number(tournament.registrationDeadline) * 1000).toISOString();
+    console.log(`  Deadline : ${deadline}, then entrants of an unfilled bracket can withdraw`);
+  } else if (tournament.status === STATUS_RUNNING) {
+    const deadline = new Date(Number(tournament.runningDeadline) * 1000).toISOString();
+    console.log(`  Deadline : ${deadline}, then entrants of an unfinished bracket can withdraw`);
+  }
+
+  for (let round = 0; round <= Number(tournament.currentRound); round++) {
+    const entrants = await instance.getRound(tournamentId, round);
+    if (entrants.length === 0) {
+      break;
+    }
+    if (entrants.length === 1) {
+      console.log(`  Champion : fighter ${entrants[0].toString()}, prize to ${tournament.prizeRecipient}`);
+      break;
+    }
+
+    const winners = await instance.getRound(tournamentId, round + 1);
+    console.log(`  Round ${round + 1}:`);
+    for (let i = 0; i < entrants.length; i += 2) {
+      const winner = winners[i / 2];
+      const result = winner === undefined ? "pending" : `fighter ${winner.toString()} advances`;
+      console.log(`    ${entrants[i].toString()} vs ${entrants[i + 1]?.toString() ?? "(open slot)"}: ${result}`);
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import fs from "fs";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import path from "path";
+
+const DEFAULT_OUTPUT = path.join("ui", "src", "config", "abis.ts");
+
+// Contracts the UI talks to, with the constant their ABI is exported as.
+const UI_CONTRACTS: [string, string][] = [
+  ["FighterNFT", "CONTRACT_ABI"],
+  ["FighterArena", "ARENA_ABI"],
+  ["FighterAuction", "AUCTION_ABI"],
+  ["FighterCoin", "COIN_ABI"],
+  ["FighterComparator", "COMPARATOR_ABI"],
+  ["FighterMarket", "MARKET_ABI"],
+  ["FighterRewardToken", "REWARD_TOKEN_ABI"],
+  ["FighterStaking", "STAKING_ABI"],
+  ["FighterTournament", "TOURNAMENT_ABI"],
+];
+
+// `as const` lets viem infer argument and return types from the ABI, so UI reads need no casts.
+async function renderDeclarations(hre: HardhatRuntimeEnvironment) {
+  return Promise.all(
+    UI_CONTRACTS.map(async ([contractName, constName]) => {
+      const { abi } = await hre.artifacts.readArtifact(contractName);
+      return `export const ${constName} = ${JSON.stringify(abi, null, 2)} as const;\n`;
+    }),
+  );
+}
+
+task("fighter:export-abi", "Writes the ABIs of the compiled contracts into the UI as const-asserted modules")
+  .addOptionalParam("out", "Module to write", DEFAULT_OUTPUT)
+  .addFlag("check", "Fail instead of writing when the module is out of date")
+  .setAction(async function (taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
+    await hre.run("compile", { quiet: true });
+
+    const outFile = path.resolve(hre.config.paths.root, taskArguments.out);
+    const relativeOut = path.relative(hre.config.paths.root, outFile);
+    const declarations = await renderDeclarations(hre);
+    const content = [
+      "// Generated by `npx hardhat fighter:export-abi` from the compiled artifacts. Do not edit by hand.\n",
+      ...declarations,
+    ].join("\n");
+    const current = fs.existsSync(outFile) ? fs.readFileSync(outFile, "utf8") : "";
+
+    if (taskArguments.check) {
+      if (current !== content) {
+        const stale = UI_CONTRACTS.filter((_, i) => !current.includes(declarations[i])).map(([name]) => name);
+        throw new Error(
+          `${relativeOut} is out of date with the compiled contracts${stale.length > 0 ? ` (${stale.join(", ")})` : ""}, ` +
+            "run npx hardhat fighter:export-abi",
+        );
+      }
+      console.log(`${relativeOut} is up to date`);
+      return;
+    }
+
+    if (current === content) {
+      console.log(`${relativeOut} is up to date`);
+      return;
+    }
+    fs.writeFileSync(outFile, content);
+    console.log(`Wrote ${UI_CONTRACTS.length} ABIs to ${relativeOut}`);
+  });
@@ -0,0 +1,82 @@
+import fs from "fs";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import path from "path";
+
+const HEADER = "// Generated by `npx hardhat fighter:export-deployments`. Do not edit by hand.\n";
+const REGISTRY_PATTERN = /export const DEPLOYMENTS = ([\s\S]*) as const;/;
+
+const DEFAULT_OUTPUT = path.join("ui", "src", "config", "deployments.ts");
+
+type ContractEntry = { address: string; blockNumber: number };
+type NetworkEntry = { network: string; contracts: Record<string, ContractEntry> };
+type DeploymentRegistry = Record<string, NetworkEntry>;
+
+function readNetworkDeployments(directory: string, network: string): [string, NetworkEntry] | null {
+  const chainIdFile = path.join(directory, ".chainId");
+  if (!fs.existsSync(chainIdFile)) {
+    return null;
+  }
+  const chainId = fs.readFileSync(chainIdFile, "utf8").trim();
+
+  const contracts: Record<string, ContractEntry> = {};
+  for (const file of fs.readdirSync(directory).sort()) {
+    if (!file.endsWith(".json")) {
+      continue;
+    }
+    const deployment = JSON.parse(fs.readFileSync(path.join(directory, file), "utf8"));
+    contracts[path.basename(file, ".json")] = {
+      address: deployment.address,
+      blockNumber: deployment.receipt?.blockNumber ?? 0,
+    };
+  }
+  return [chainId, { network, contracts }];
+}
+
+// The registry is a const-asserted module, so the UI sees every address as a `0x${string}` literal.
+function readRegistry(file: string): DeploymentRegistry {
+  if (!fs.existsSync(file)) {
+    return {};
+  }
+  const match = fs.readFileSync(file, "utf8").match(REGISTRY_PATTERN);
+  if (!match) {
+    throw new Error(`${file} is not a registry written by fighter:export-deployments`);
+  }
+  return JSON.parse(match[1]);
+}
+
+task("fighter:export-deployments", "Writes the deployed contract addresses of every network into the UI registry")
+  .addOptionalParam("networks", "Comma-separated deployment folders to export, all of them by default")
+  .addOptionalParam("out", "Registry file to update", DEFAULT_OUTPUT)
+  .setAction(async function (taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
+    const deploymentsDir = hre.config.paths.deployments;
+    const outFile = path.resolve(hre.config.paths.root, taskArguments.out);
+
+    const networks: string[] = taskArguments.networks
+      ? taskArguments.networks.split(",").map((name: string) => name.trim())
+      : fs.existsSync(deploymentsDir)
+        ? fs
+            .readdirSync(deploymentsDir, { withFileTypes: true })
+            .filter((entry) => entry.isDirectory())
+            .map((entry) => entry.name)
+        : [];
+
+    // Chains without local deployment files keep their entries, so exporting a local node never drops Sepolia.
+    const registry = readRegistry(outFile);
+    for (const network of networks) {
+      const entry = readNetworkDeployments(path.join(deploymentsDir, network), network);
+      if (!entry) {
+        throw new Error(`No deployments found for network ${network}`);
+      }
+      const [chainId, deployment] = entry;
+      registry[chainId] = deployment;
+      console.log(`${network} (chain ${chainId}):`);
+      for (const [name, contract] of Object.entries(deployment.contracts)) {
+        console.log(`  ${name.padEnd(18)} ${contract.address} (block ${contract.blockNumber})`);
+      }
+    }
+
+    fs.mkdirSync(path.dirname(outFile), { recursive: true });
+    fs.writeFileSync(outFile, `${HEADER}\nexport const DEPLOYMENTS = ${JSON.stringify(registry, null, 2)} as const;\n`);
+    console.log(`Wrote ${Object.keys(registry).length} network(s) to ${path.relative(hre.config.paths.root, outFile)}`);
+  });
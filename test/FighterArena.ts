@@ -0,0 +1,418 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { FighterArena, FighterArena__factory } from "../types";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployFighters, mintFighter } from "./helpers";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const OUTCOME_DRAW = 0n;
+const OUTCOME_FIGHTER_WINS = 1n;
+const OUTCOME_OPPONENT_WINS = 2n;
+
+async function deployFixture() {
+  const { fighters, fightersAddress } = await deployFighters();
+
+  const arenaFactory = (await ethers.getContractFactory("FighterArena")) as FighterArena__factory;
+  const arena = (await arenaFactory.deploy(fightersAddress)) as FighterArena;
+  const arenaAddress = await arena.getAddress();
+
+  await fighters.setGameContract(arenaAddress, true);
+
+  return { fighters, fightersAddress, arena, arenaAddress };
+}
+
+describe("FighterArena", function () {
+  let signers: Signers;
+
+  before(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+
+    const accounts: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: accounts[0], alice: accounts[1], bob: accounts[2] };
+  });
+
+  it("declares the fighter with more damage the winner", async function () {
+    const { fighters, fightersAddress, arena } = await deployFixture();
+
+    await mintFighter(fighters, fightersAddress, signers.alice, [2, 5, 3]);
+    await mintFighter(fighters, fightersAddress, signers.alice, [4, 3, 3]);
+
+    await arena.connect(signers.alice).battle(1n, 2n);
+
+    const [, , outcome] = await arena.getBattle(1n);
+    expect(await fhevm.publicDecryptEuint(FhevmType.euint8, outcome)).to.equal(OUTCOME_FIGHTER_WINS);
+  });
+
+  it("declares the opponent the winner when the fighter deals less damage", async function () {
+    const { fighters, fightersAddress, arena } = await deployFixture();
+
+    await mintFighter(fighters, fightersAddress, signers.alice, [6, 1, 3]);
+    await mintFighter(fighters, fightersAddress, signers.alice, [1, 6, 3]);
+
+    await arena.connect(signers.alice).battle(1n, 2n);
+
+    const [, , outcome] = await arena.getBattle(1n);
+    expect(await fhevm.publicDecryptEuint(FhevmType.euint8, outcome)).to.equal(OUTCOME_OPPONENT_WINS);
+  });
+
+  it("uses agility as the tiebreaker when damage is equal", async function () {
+    const { fighters, fightersAddress, arena } = await deployFixture();
+
+    await mintFighter(fighters, fightersAddress, signers.alice, [4, 3, 3]);
+    await mintFighter(fighters, fightersAddress, signers.alice, [2, 3, 5]);
+
+    await arena.connect(signers.alice).battle(1n, 2n);
+
+    const [, , outcome] = await arena.getBattle(1n);
+    expect(await fhevm.publicDecryptEuint(FhevmType.euint8, outcome)).to.equal(OUTCOME_FIGHTER_WINS);
+  });
+
+  it("ends in a draw when damage and agility are equal", async function () {
+    const { fighters, fightersAddress, arena } = await deployFixture();
+
+    await mintFighter(fighters, fightersAddress, signers.alice, [4, 3, 3]);
+    await mintFighter(fighters, fightersAddress, signers.alice, [4, 3, 3]);
+
+    await arena.connect(signers.alice).battle(1n, 2n);
+
+    const [, , outcome] = await arena.getBattle(1n);
+    expect(await fhevm.publicDecryptEuint(FhevmType.euint8, outcome)).to.equal(OUTCOME_DRAW);
+  });
+
+  it("lets both owners decrypt the outcome", async function () {
+    const { fighters, fightersAddress, arena, arenaAddress } = await deployFixture();
+
+    await mintFighter(fighters, fightersAddress, signers.alice, [2, 5, 3]);
+    await mintFighter(fighters, fightersAddress, signers.bob, [4, 3, 3]);
+    await fighters.connect(signers.bob).approve(signers.alice.address, 2n);
+
+    const tx = await arena.connect(signers.alice).battle(1n, 2n);
+    await expect(tx).to.emit(arena, "BattleFought");
+
+    const [fighterId, opponentId, outcome] = await arena.getBattle(1n);
+    expect(fighterId).to.equal(1n);
+    expect(opponentId).to.equal(2n);
+
+    const aliceView = await fhevm.userDecryptEuint(FhevmType.euint8, outcome, arenaAddress, signers.alice);
+    const bobView = await fhevm.userDecryptEuint(FhevmType.euint8, outcome, arenaAddress, signers.bob);
+    expect(aliceView).to.equal(OUTCOME_FIGHTER_WINS);
+    expect(bobView).to.equal(OUTCOME_FIGHTER_WINS);
+  });
+
+  it("requires control of both fighters", async function () {
+    const { fighters, fightersAddress, arena } = await deployFixture();
+
+    await mintFighter(fighters, fightersAddress, signers.alice, [2, 5, 3]);
+    await mintFighter(fighters, fightersAddress, signers.bob, [4, 3, 3]);
+
+    await expect(arena.connect(signers.alice).battle(1n, 2n)).to.be.revertedWithCustomError(arena, "NotAuthorized");
+    await expect(arena.connect(signers.alice).battle(1n, 1n)).to.be.revertedWithCustomError(arena, "InvalidOpponent");
+  });
+
+  it("only lets registered game contracts resolve battles", async function () {
+    const { fighters, fightersAddress } = await deployFixture();
+
+    await mintFighter(fighters, fightersAddress, signers.alice, [2, 5, 3]);
+    await mintFighter(fighters, fightersAddress, signers.alice, [4, 3, 3]);
+
+    await expect(fighters.connect(signers.alice).resolveBattle(1n, 2n)).to.be.revertedWithCustomError(
+      fighters,
+      "NotAuthorized",
+    );
+    await expect(
+      fighters.connect(signers.alice).setGameContract(signers.alice.address, true),
+    ).to.be.revertedWithCustomError(fighters, "NotAuthorized");
+  });
+
+  describe("public decryption", function () {
+    it("stores the cleartext outcome once the oracle calls back", async function () {
+      const { fighters, fightersAddress, arena } = await deployFixture();
+
+      await mintFighter(fighters, fightersAddress, signers.alice, [2, 5, 3]);
+      await mintFighter(fighters, fightersAddress, signers.alice, [4, 3, 3]);
+
+      await expect(arena.connect(signers.alice).battle(1n, 2n)).to.emit(arena, "DecryptionRequested");
+
+      const [resolvedBefore, , requestId] = await arena.getBattleResult(1n);
+      expect(resolvedBefore).to.equal(false);
+      expect(await arena.isDecryptionPending(requestId)).to.equal(true);
+
+      await fhevm.awaitDecryptionOracle();
+
+      const [resolved, outcome] = await arena.getBattleResult(1n);
+      expect(resolved).to.equal(true);
+      expect(outcome).to.equal(OUTCOME_FIGHTER_WINS);
+      expect(await arena.isDecryptionPending(requestId)).to.equal(false);
+
+      const [resolvedEvent] = await arena.queryFilter(arena.filters.BattleResolved(1n));
+      expect(resolvedEvent.args.outcome).to.equal(OUTCOME_FIGHTER_WINS);
+    });
+
+    it("awards experience by outcome once the battle is resolved", async function () {
+      const { fighters, fightersAddress, arena } = await deployFixture();
+
+      await mintFighter(fighters, fightersAddress, signers.alice, [2, 5, 3]);
+      await mintFighter(fighters, fightersAddress, signers.bob, [4, 3, 3]);
+      await mintFighter(fighters, fightersAddress, signers.alice, [4, 3, 3]);
+      await fighters.connect(signers.bob).setApprovalForAll(signers.alice.address, true);
+
+      await arena.connect(signers.alice).battle(1n, 2n);
+      await arena.connect(signers.alice).battle(2n, 3n);
+      expect((await fighters.getExperience(1n)).total).to.equal(0n);
+
+      await fhevm.awaitDecryptionOracle();
+
+      expect((await fighters.getExperience(1n)).total).to.equal(3n);
+      expect((await fighters.getExperience(2n)).total).to.equal(1n + 2n);
+      expect((await fighters.getExperience(3n)).total).to.equal(2n);
+    });
+
+    it("leaves experience, records and ratings alone for battles between fighters of the same owner", async function () {
+      const { fighters, fightersAddress, arena } = await deployFixture();
+
+      await mintFighter(fighters, fightersAddress, signers.alice, [2, 5, 3]);
+      await mintFighter(fighters, fightersAddress, signers.alice, [4, 3, 3]);
+
+      await arena.connect(signers.alice).battle(1n, 2n);
+      await fhevm.awaitDecryptionOracle();
+
+      expect((await arena.getBattleResult(1n)).resolved).to.equal(true);
+      expect((await fighters.getExperience(1n)).total).to.equal(0n);
+      expect((await fighters.getExperience(2n)).total).to.equal(0n);
+      expect(await arena.getRecord(1n)).to.deep.equal([0n, 0n, 0n, 1200n]);
+      expect(await arena.getRecord(2n)).to.deep.equal([0n, 0n, 0n, 1200n]);
+
+      const [resolvedEvent] = await arena.queryFilter(arena.filters.BattleResolved(1n));
+      expect(resolvedEvent.args.outcome).to.equal(OUTCOME_FIGHTER_WINS);
+      expect(resolvedEvent.args.ranked).to.equal(false);
+      expect(resolvedEvent.args.fighterRating).to.equal(1200n);
+      expect(resolvedEvent.args.opponentRating).to.equal(1200n);
+    });
+
+    it("keeps public records and ratings for resolved battles", async function () {
+      const { fighters, fightersAddress, arena } = await deployFixture();
+
+      await mintFighter(fighters, fightersAddress, signers.alice, [2, 5, 3]);
+      await mintFighter(fighters, fightersAddress, signers.bob, [4, 3, 3]);
+      await mintFighter(fighters, fightersAddress, signers.deployer, [4, 3, 3]);
+      await fighters.connect(signers.bob).setApprovalForAll(signers.alice.address, true);
+      await fighters.connect(signers.deployer).setApprovalForAll(signers.alice.address, true);
+      expect(await arena.getRecord(1n)).to.deep.equal([0n, 0n, 0n, 1200n]);
+
+      // Resolve one at a time so each rating update sees the previous one.
+      await arena.connect(signers.alice).battle(1n, 2n);
+      await fhevm.awaitDecryptionOracle();
+      expect(await arena.getRecord(1n)).to.deep.equal([1n, 0n, 0n, 1216n]);
+      expect(await arena.getRecord(2n)).to.deep.equal([0n, 1n, 0n, 1184n]);
+
+      // A draw against a slightly stronger fighter moves less than a point, which rounds to nothing.
+      await arena.connect(signers.alice).battle(2n, 3n);
+      await fhevm.awaitDecryptionOracle();
+      expect(await arena.getRecord(2n)).to.deep.equal([0n, 1n, 1n, 1184n]);
+      expect(await arena.getRecord(3n)).to.deep.equal([0n, 0n, 1n, 1200n]);
+
+      await arena.connect(signers.alice).battle(1n, 3n);
+      await fhevm.awaitDecryptionOracle();
+      expect(await arena.getRecord(1n)).to.deep.equal([2n, 0n, 0n, 1231n]);
+      expect(await arena.getRecord(3n)).to.deep.equal([0n, 1n, 1n, 1185n]);
+
+      const [resolvedEvent] = await arena.queryFilter(arena.filters.BattleResolved(3n));
+      expect(resolvedEvent.args.fighterId).to.equal(1n);
+      expect(resolvedEvent.args.opponentId).to.equal(3n);
+      expect(resolvedEvent.args.ranked).to.equal(true);
+      expect(resolvedEvent.args.fighterRating).to.equal(1231n);
+      expect(resolvedEvent.args.opponentRating).to.equal(1185n);
+      expect(await arena.queryFilter(arena.filters.BattleResolved(undefined, undefined, 3n))).to.have.length(2);
+    });
+
+    it("rejects a replayed callback", async function () {
+      const { fighters, fightersAddress, arena, arenaAddress } = await deployFixture();
+
+      await mintFighter(fighters, fightersAddress, signers.alice, [2, 5, 3]);
+      await mintFighter(fighters, fightersAddress, signers.alice, [4, 3, 3]);
+      await arena.connect(signers.alice).battle(1n, 2n);
+      await fhevm.awaitDecryptionOracle();
+
+      const [resolvedEvent] = await arena.queryFilter(arena.filters.BattleResolved(1n));
+      const callback = await ethers.provider.getTransaction(resolvedEvent.transactionHash);
+
+      await expect(
+        signers.bob.sendTransaction({ to: arenaAddress, data: callback!.data }),
+      ).to.be.revertedWithCustomError(arena, "UnknownDecryptionRequest");
+    });
+
+    it("rejects a callback whose proof does not match the requested handles", async function () {
+      const { fighters, fightersAddress, arena } = await deployFixture();
+
+      await mintFighter(fighters, fightersAddress, signers.alice, [2, 5, 3]);
+      await mintFighter(fighters, fightersAddress, signers.alice, [4, 3, 3]);
+      await arena.connect(signers.alice).battle(1n, 2n);
+      await fhevm.awaitDecryptionOracle();
+
+      const [resolvedEvent] = await arena.queryFilter(arena.filters.BattleResolved(1n));
+      const callback = await ethers.provider.getTransaction(resolvedEvent.transactionHash);
+      const [, , decryptionProof] = arena.interface.decodeFunctionData("resolveBattleOutcome", callback!.data);
+
+      // Reuse the genuine proof of the first battle to claim the opposite outcome for the second one.
+      await arena.connect(signers.alice).battle(2n, 1n);
+      const [, , requestId] = await arena.getBattleResult(2n);
+      const forgedCleartexts = ethers.AbiCoder.defaultAbiCoder().encode(["uint8"], [OUTCOME_FIGHTER_WINS]);
+
+      await expect(arena.connect(signers.bob).resolveBattleOutcome(requestId, forgedCleartexts, decryptionProof)).to.be
+        .reverted;
+      expect(await arena.isDecryptionPending(requestId)).to.equal(true);
+
+      await fhevm.awaitDecryptionOracle();
+      const [resolved, outcome] = await arena.getBattleResult(2n);
+      expect(resolved).to.equal(true);
+      expect(outcome).to.equal(OUTCOME_OPPONENT_WINS);
+    });
+  });
+
+  describe("challenges", function () {
+    const stake = ethers.parseEther("1");
+
+    it("escrows both stakes and pays the winner once the outcome is decrypted", async function () {
+      const { fighters, fightersAddress, arena, arenaAddress } = await deployFixture();
+
+      await mintFighter(fighters, fightersAddress, signers.alice, [2, 5, 3]);
+      await mintFighter(fighters, fightersAddress, signers.bob, [4, 3, 3]);
+
+      await expect(arena.connect(signers.alice).createChallenge(1n, 0n, { value: stake }))
+        .to.emit(arena, "ChallengeCreated")
+        .withArgs(1n, signers.alice.address, 1n, 0n, stake);
+
+      await expect(arena.connect(signers.bob).acceptChallenge(1n, 2n, { value: stake })).to.emit(
+        arena,
+        "ChallengeAccepted",
+      );
+      expect(await ethers.provider.getBalance(arenaAddress)).to.equal(stake * 2n);
+
+      await expect(arena.connect(signers.alice).claimChallenge(1n)).to.be.revertedWithCustomError(
+        arena,
+        "InvalidChallengeStatus",
+      );
+
+      await fhevm.awaitDecryptionOracle();
+
+      const challenge = await arena.getChallenge(1n);
+      expect(challenge.status).to.equal(3n);
+      expect(challenge.outcome).to.equal(OUTCOME_FIGHTER_WINS);
+      expect((await arena.getBattleResult(challenge.battleId)).outcome).to.equal(OUTCOME_FIGHTER_WINS);
+
+      await expect(arena.connect(signers.bob).claimChallenge(1n)).to.be.revertedWithCustomError(
+        arena,
+        "NothingToClaim",
+      );
+      await expect(arena.connect(signers.alice).claimChallenge(1n)).to.changeEtherBalances(
+        [signers.alice, arena],
+        [stake * 2n, -stake * 2n],
+      );
+      await expect(arena.connect(signers.alice).claimChallenge(1n)).to.be.revertedWithCustomError(
+        arena,
+        "NothingToClaim",
+      );
+    });
+
+    it("refunds both sides after a draw", async function () {
+      const { fighters, fightersAddress, arena } = await deployFixture();
+
+      await mintFighter(fighters, fightersAddress, signers.alice, [4, 3, 3]);
+      await mintFighter(fighters, fightersAddress, signers.bob, [4, 3, 3]);
+
+      await arena.connect(signers.alice).createChallenge(1n, 2n, { value: stake });
+      await arena.connect(signers.bob).acceptChallenge(1n, 2n, { value: stake });
+      await fhevm.awaitDecryptionOracle();
+
+      expect((await arena.getChallenge(1n)).outcome).to.equal(OUTCOME_DRAW);
+
+      await expect(arena.connect(signers.alice).claimChallenge(1n)).to.changeEtherBalance(signers.alice, stake);
+      await expect(arena.connect(signers.bob).claimChallenge(1n)).to.changeEtherBalance(signers.bob, stake);
+    });
+
+    it("refunds both stakes of a challenge whose outcome is never decrypted", async function () {
+      const { fighters, fightersAddress, arena } = await deployFixture();
+
+      await mintFighter(fighters, fightersAddress, signers.alice, [2, 5, 3]);
+      await mintFighter(fighters, fightersAddress, signers.bob, [4, 3, 3]);
+
+      await arena.connect(signers.alice).createChallenge(1n, 0n, { value: stake });
+      await arena.connect(signers.bob).acceptChallenge(1n, 2n, { value: stake });
+      const [, , requestId] = await arena.getBattleResult(1n);
+
+      await expect(arena.reclaimStalledChallenge(1n))
+        .to.be.revertedWithCustomError(arena, "ChallengeNotStalled")
+        .withArgs(1n);
+      await time.increase(await arena.challengeTimeout());
+
+      await expect(arena.reclaimStalledChallenge(1n)).to.changeEtherBalances(
+        [signers.alice, signers.bob, arena],
+        [stake, stake, -stake * 2n],
+      );
+      expect((await arena.getChallenge(1n)).status).to.equal(4n);
+      expect(await arena.isDecryptionPending(requestId)).to.equal(false);
+
+      // The oracle answering late cannot resolve the refunded challenge.
+      await expect(fhevm.awaitDecryptionOracle()).to.be.revertedWithCustomError(arena, "UnknownDecryptionRequest");
+      expect((await arena.getBattleResult(1n)).resolved).to.equal(false);
+      await expect(arena.connect(signers.alice).claimChallenge(1n)).to.be.revertedWithCustomError(
+        arena,
+        "InvalidChallengeStatus",
+      );
+      await expect(arena.reclaimStalledChallenge(1n)).to.be.revertedWithCustomError(arena, "InvalidChallengeStatus");
+    });
+
+    it("refunds the challenger on cancellation", async function () {
+      const { fighters, fightersAddress, arena } = await deployFixture();
+
+      await mintFighter(fighters, fightersAddress, signers.alice, [2, 5, 3]);
+      await mintFighter(fighters, fightersAddress, signers.bob, [4, 3, 3]);
+
+      await arena.connect(signers.alice).createChallenge(1n, 0n, { value: stake });
+
+      await expect(arena.connect(signers.bob).cancelChallenge(1n)).to.be.revertedWithCustomError(
+        arena,
+        "NotAuthorized",
+      );
+      await expect(arena.connect(signers.alice).cancelChallenge(1n)).to.changeEtherBalance(signers.alice, stake);
+      await expect(arena.connect(signers.bob).acceptChallenge(1n, 2n, { value: stake })).to.be.revertedWithCustomError(
+        arena,
+        "InvalidChallengeStatus",
+      );
+    });
+
+    it("validates the stake and the accepting fighter", async function () {
+      const { fighters, fightersAddress, arena } = await deployFixture();
+
+      await mintFighter(fighters, fightersAddress, signers.alice, [2, 5, 3]);
+      await mintFighter(fighters, fightersAddress, signers.bob, [4, 3, 3]);
+      await mintFighter(fighters, fightersAddress, signers.bob, [3, 4, 3]);
+
+      await expect(
+        arena.connect(signers.alice).createChallenge(2n, 0n, { value: stake }),
+      ).to.be.revertedWithCustomError(arena, "NotAuthorized");
+
+      await arena.connect(signers.alice).createChallenge(1n, 2n, { value: stake });
+
+      await expect(
+        arena.connect(signers.bob).acceptChallenge(1n, 2n, { value: stake / 2n }),
+      ).to.be.revertedWithCustomError(arena, "IncorrectStake");
+      await expect(arena.connect(signers.bob).acceptChallenge(1n, 3n, { value: stake })).to.be.revertedWithCustomError(
+        arena,
+        "InvalidOpponent",
+      );
+      await expect(
+        arena.connect(signers.alice).acceptChallenge(1n, 2n, { value: stake }),
+      ).to.be.revertedWithCustomError(arena, "NotAuthorized");
+    });
+  });
+});
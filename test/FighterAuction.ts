@@ -0,0 +1,302 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { FighterAuction, FighterAuction__factory } from "../types";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployFighters, mintFighter } from "./helpers";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+  dave: HardhatEthersSigner;
+};
+
+const DURATION = 3600;
+const RESERVE = ethers.parseEther("0.1");
+
+async function deployFixture() {
+  const { fighters, fightersAddress } = await deployFighters();
+
+  const auctionFactory = (await ethers.getContractFactory("FighterAuction")) as FighterAuction__factory;
+  const auction = (await auctionFactory.deploy(fightersAddress)) as FighterAuction;
+  const auctionAddress = await auction.getAddress();
+
+  return { fighters, fightersAddress, auction, auctionAddress };
+}
+
+async function placeBid(
+  auction: FighterAuction,
+  auctionAddress: string,
+  auctionId: bigint,
+  signer: HardhatEthersSigner,
+  amount: bigint,
+  deposit: bigint,
+) {
+  const input = fhevm.createEncryptedInput(auctionAddress, signer.address);
+  input.add64(amount);
+  const encrypted = await input.encrypt();
+
+  return auction.connect(signer).bid(auctionId, encrypted.handles[0], encrypted.inputProof, { value: deposit });
+}
+
+async function decryptBid(
+  auction: FighterAuction,
+  auctionAddress: string,
+  auctionId: bigint,
+  signer: HardhatEthersSigner,
+) {
+  const [amount] = await auction.getBid(auctionId, signer.address);
+  return fhevm.userDecryptEuint(FhevmType.euint64, amount, auctionAddress, signer);
+}
+
+describe("FighterAuction", function () {
+  let signers: Signers;
+
+  before(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+
+    const accounts: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: accounts[0], alice: accounts[1], bob: accounts[2], carol: accounts[3], dave: accounts[4] };
+  });
+
+  async function openAuction() {
+    const fixture = await deployFixture();
+    const { fighters, fightersAddress, auction, auctionAddress } = fixture;
+
+    await mintFighter(fighters, fightersAddress, signers.alice, [4, 3, 3]);
+    await fighters.connect(signers.alice).approve(auctionAddress, 1n);
+    await auction.connect(signers.alice).createAuction(1n, RESERVE, DURATION);
+
+    return fixture;
+  }
+
+  it("sells the fighter to the highest sealed bid and settles the deposits", async function () {
+    const { fighters, auction, auctionAddress } = await openAuction();
+
+    await placeBid(auction, auctionAddress, 1n, signers.bob, ethers.parseEther("0.5"), ethers.parseEther("1"));
+    await placeBid(auction, auctionAddress, 1n, signers.carol, ethers.parseEther("0.8"), ethers.parseEther("0.8"));
+    await placeBid(auction, auctionAddress, 1n, signers.dave, ethers.parseEther("0.3"), ethers.parseEther("2"));
+
+    expect(await decryptBid(auction, auctionAddress, 1n, signers.bob)).to.equal(ethers.parseEther("0.5"));
+    expect(await decryptBid(auction, auctionAddress, 1n, signers.carol)).to.equal(ethers.parseEther("0.8"));
+
+    await expect(auction.settle(1n)).to.be.revertedWithCustomError(auction, "AuctionNotEnded").withArgs(1n);
+    await time.increase(DURATION);
+    await expect(auction.settle(1n)).to.emit(auction, "AuctionSettling");
+    await fhevm.awaitDecryptionOracle();
+
+    const settled = await auction.getAuction(1n);
+    expect(settled.winner).to.equal(signers.carol.address);
+    expect(settled.winningBid).to.equal(ethers.parseEther("0.8"));
+    expect(await fighters.ownerOf(1n)).to.equal(signers.carol.address);
+    expect(await auction.activeAuctionOf(1n)).to.equal(0n);
+
+    await expect(auction.connect(signers.alice).withdraw(1n)).to.changeEtherBalance(
+      signers.alice,
+      ethers.parseEther("0.8"),
+    );
+    await expect(auction.connect(signers.bob).withdraw(1n)).to.changeEtherBalance(signers.bob, ethers.parseEther("1"));
+    await expect(auction.connect(signers.dave).withdraw(1n)).to.changeEtherBalance(
+      signers.dave,
+      ethers.parseEther("2"),
+    );
+    // The winner bid their whole deposit, so there is nothing left to refund.
+    await expect(auction.connect(signers.carol).withdraw(1n)).to.be.revertedWithCustomError(auction, "NothingToClaim");
+    await expect(auction.connect(signers.bob).withdraw(1n)).to.be.revertedWithCustomError(auction, "NothingToClaim");
+  });
+
+  it("counts bids above the deposit or below the reserve as zero", async function () {
+    const { fighters, auction, auctionAddress } = await openAuction();
+
+    await placeBid(auction, auctionAddress, 1n, signers.bob, ethers.parseEther("3"), ethers.parseEther("1"));
+    await placeBid(auction, auctionAddress, 1n, signers.carol, ethers.parseEther("0.05"), ethers.parseEther("1"));
+    await placeBid(auction, auctionAddress, 1n, signers.dave, ethers.parseEther("0.2"), ethers.parseEther("0.2"));
+
+    expect(await decryptBid(auction, auctionAddress, 1n, signers.bob)).to.equal(0n);
+    expect(await decryptBid(auction, auctionAddress, 1n, signers.carol)).to.equal(0n);
+
+    await time.increase(DURATION);
+    await auction.settle(1n);
+    await fhevm.awaitDecryptionOracle();
+
+    const settled = await auction.getAuction(1n);
+    expect(settled.winner).to.equal(signers.dave.address);
+    expect(settled.winningBid).to.equal(ethers.parseEther("0.2"));
+    expect(await fighters.ownerOf(1n)).to.equal(signers.dave.address);
+  });
+
+  it("keeps the highest bid hidden from bidders until settlement", async function () {
+    const { auction, auctionAddress } = await openAuction();
+
+    await placeBid(auction, auctionAddress, 1n, signers.bob, ethers.parseEther("0.5"), ethers.parseEther("0.5"));
+
+    const { highestBid } = await auction.getAuction(1n);
+    await expect(fhevm.userDecryptEuint(FhevmType.euint64, highestBid, auctionAddress, signers.bob)).to.be.rejected;
+  });
+
+  it("closes without a sale when there are no bids", async function () {
+    const { fighters, auction } = await openAuction();
+
+    await time.increase(DURATION);
+    await expect(auction.settle(1n)).to.emit(auction, "AuctionSettled").withArgs(1n, ethers.ZeroAddress, 0);
+
+    expect(await fighters.ownerOf(1n)).to.equal(signers.alice.address);
+    await expect(auction.connect(signers.alice).withdraw(1n)).to.be.revertedWithCustomError(auction, "NothingToClaim");
+  });
+
+  it("refunds every bidder when the seller no longer backs the sale", async function () {
+    const { fighters, auction, auctionAddress } = await openAuction();
+
+    await placeBid(auction, auctionAddress, 1n, signers.bob, ethers.parseEther("0.5"), ethers.parseEther("0.5"));
+    await fighters.connect(signers.alice).transferFrom(signers.alice.address, signers.carol.address, 1n);
+
+    await time.increase(DURATION);
+    await auction.settle(1n);
+    await fhevm.awaitDecryptionOracle();
+
+    expect((await auction.getAuction(1n)).winner).to.equal(ethers.ZeroAddress);
+    expect(await fighters.ownerOf(1n)).to.equal(signers.carol.address);
+    await expect(auction.connect(signers.bob).withdraw(1n)).to.changeEtherBalance(
+      signers.bob,
+      ethers.parseEther("0.5"),
+    );
+  });
+
+  it("refunds every bidder when the seller burns the fighter before settlement", async function () {
+    const { fighters, auction, auctionAddress } = await openAuction();
+
+    await placeBid(auction, auctionAddress, 1n, signers.bob, ethers.parseEther("0.5"), ethers.parseEther("0.5"));
+    await fighters.connect(signers.alice).burn(1n);
+
+    await time.increase(DURATION);
+    await auction.settle(1n);
+    await fhevm.awaitDecryptionOracle();
+
+    const settled = await auction.getAuction(1n);
+    expect(settled.status).to.equal(3n);
+    expect(settled.winner).to.equal(ethers.ZeroAddress);
+    await expect(auction.connect(signers.bob).withdraw(1n)).to.changeEtherBalance(
+      signers.bob,
+      ethers.parseEther("0.5"),
+    );
+  });
+
+  it("refunds every bidder when a game contract locks the fighter before settlement", async function () {
+    const { fighters, auction, auctionAddress } = await openAuction();
+
+    await placeBid(auction, auctionAddress, 1n, signers.bob, ethers.parseEther("0.5"), ethers.parseEther("0.5"));
+    await fighters.setGameContract(signers.deployer.address, true);
+    await fighters.connect(signers.deployer).lockFighter(1n, 86400);
+
+    await time.increase(DURATION);
+    await auction.settle(1n);
+    await fhevm.awaitDecryptionOracle();
+
+    const settled = await auction.getAuction(1n);
+    expect(settled.status).to.equal(3n);
+    expect(settled.winner).to.equal(ethers.ZeroAddress);
+    expect(await fighters.ownerOf(1n)).to.equal(signers.alice.address);
+    await expect(auction.connect(signers.bob).withdraw(1n)).to.changeEtherBalance(
+      signers.bob,
+      ethers.parseEther("0.5"),
+    );
+  });
+
+  it("closes a stalled settlement without a sale and refunds every bidder", async function () {
+    const { fighters, auction, auctionAddress } = await openAuction();
+
+    await placeBid(auction, auctionAddress, 1n, signers.bob, ethers.parseEther("0.5"), ethers.parseEther("0.5"));
+    await placeBid(auction, auctionAddress, 1n, signers.carol, ethers.parseEther("0.3"), ethers.parseEther("0.4"));
+    await time.increase(DURATION);
+    await auction.settle(1n);
+    const { requestId } = await auction.getAuction(1n);
+
+    await expect(auction.connect(signers.dave).closeStalledAuction(1n))
+      .to.be.revertedWithCustomError(auction, "SettlementNotStalled")
+      .withArgs(1n);
+    await time.increase(await auction.settlementTimeout());
+
+    await expect(auction.connect(signers.dave).closeStalledAuction(1n))
+      .to.emit(auction, "AuctionSettled")
+      .withArgs(1n, ethers.ZeroAddress, 0);
+    expect(await auction.isDecryptionPending(requestId)).to.equal(false);
+    expect(await auction.activeAuctionOf(1n)).to.equal(0n);
+    // The oracle answering late cannot sell the fighter any more.
+    await expect(fhevm.awaitDecryptionOracle()).to.be.revertedWithCustomError(auction, "UnknownDecryptionRequest");
+    expect(await fighters.ownerOf(1n)).to.equal(signers.alice.address);
+
+    await expect(auction.connect(signers.bob).withdraw(1n)).to.changeEtherBalance(
+      signers.bob,
+      ethers.parseEther("0.5"),
+    );
+    await expect(auction.connect(signers.carol).withdraw(1n)).to.changeEtherBalance(
+      signers.carol,
+      ethers.parseEther("0.4"),
+    );
+
+    // The seller can list the fighter again, and a withdrawal closes that auction too once it stalls.
+    await auction.connect(signers.alice).createAuction(1n, RESERVE, DURATION);
+    await placeBid(auction, auctionAddress, 2n, signers.bob, ethers.parseEther("0.5"), ethers.parseEther("0.5"));
+    await time.increase(DURATION);
+    await auction.settle(2n);
+    await time.increase(await auction.settlementTimeout());
+
+    await expect(auction.connect(signers.bob).withdraw(2n)).to.changeEtherBalance(
+      signers.bob,
+      ethers.parseEther("0.5"),
+    );
+    expect((await auction.getAuction(2n)).status).to.equal(3n);
+    await expect(fhevm.awaitDecryptionOracle()).to.be.revertedWithCustomError(auction, "UnknownDecryptionRequest");
+  });
+
+  it("validates auctions and bids", async function () {
+    const { fighters, fightersAddress, auction, auctionAddress } = await deployFixture();
+
+    await mintFighter(fighters, fightersAddress, signers.alice, [4, 3, 3]);
+    await expect(auction.connect(signers.alice).createAuction(1n, RESERVE, DURATION))
+      .to.be.revertedWithCustomError(auction, "AuctionNotApproved")
+      .withArgs(1n);
+    await fighters.connect(signers.alice).approve(auctionAddress, 1n);
+    await expect(auction.connect(signers.bob).createAuction(1n, RESERVE, DURATION)).to.be.revertedWithCustomError(
+      auction,
+      "NotAuthorized",
+    );
+    await expect(auction.connect(signers.alice).createAuction(1n, RESERVE, 0)).to.be.revertedWithCustomError(
+      auction,
+      "InvalidDuration",
+    );
+
+    await auction.connect(signers.alice).createAuction(1n, RESERVE, DURATION);
+    await expect(auction.connect(signers.alice).createAuction(1n, RESERVE, DURATION))
+      .to.be.revertedWithCustomError(auction, "AuctionAlreadyActive")
+      .withArgs(1n);
+
+    await expect(placeBid(auction, auctionAddress, 1n, signers.alice, RESERVE, RESERVE)).to.be.revertedWithCustomError(
+      auction,
+      "NotAuthorized",
+    );
+    await expect(placeBid(auction, auctionAddress, 1n, signers.bob, RESERVE, 0n)).to.be.revertedWithCustomError(
+      auction,
+      "InvalidDeposit",
+    );
+
+    await placeBid(auction, auctionAddress, 1n, signers.bob, RESERVE, RESERVE);
+    await expect(placeBid(auction, auctionAddress, 1n, signers.bob, RESERVE, RESERVE))
+      .to.be.revertedWithCustomError(auction, "AlreadyBid")
+      .withArgs(1n);
+    await expect(auction.connect(signers.bob).withdraw(1n))
+      .to.be.revertedWithCustomError(auction, "InvalidAuctionStatus")
+      .withArgs(1n);
+
+    await time.increase(DURATION);
+    await expect(placeBid(auction, auctionAddress, 1n, signers.carol, RESERVE, RESERVE))
+      .to.be.revertedWithCustomError(auction, "AuctionEnded")
+      .withArgs(1n);
+    await expect(auction.getAuction(2n)).to.be.revertedWithCustomError(auction, "AuctionDoesNotExist");
+  });
+});
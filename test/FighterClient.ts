@@ -0,0 +1,179 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  FighterClient,
+  MemoryAuthorizationStore,
+  RelayerEncryptor,
+  type FighterEncryptor,
+  type RelayerInstance,
+} from "@fighters/sdk";
+import { deployFighters } from "./helpers";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+function createClient(
+  address: string,
+  signer: HardhatEthersSigner,
+  encryptor: FighterEncryptor = new RelayerEncryptor(fhevm),
+) {
+  return new FighterClient({ address, signer, encryptor });
+}
+
+// Hardhat's fhevm behind counters, to see how often the wallet is asked to sign and the relayer is called.
+function countingInstance() {
+  const counts = { signatures: 0, userDecrypts: 0 };
+  const instance: RelayerInstance = {
+    createEncryptedInput: (...args) => fhevm.createEncryptedInput(...args),
+    generateKeypair: () => fhevm.generateKeypair(),
+    createEIP712: (...args) => {
+      counts.signatures++;
+      return fhevm.createEIP712(...args);
+    },
+    userDecrypt: (...args) => {
+      counts.userDecrypts++;
+      return fhevm.userDecrypt(...args);
+    },
+    publicDecrypt: (...args) => fhevm.publicDecrypt(...args),
+  };
+  return { instance, counts };
+}
+
+describe("FighterClient", function () {
+  let signers: Signers;
+
+  before(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+
+    const accounts: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: accounts[0], alice: accounts[1], bob: accounts[2] };
+  });
+
+  it("mints, lists and decrypts fighters", async function () {
+    const { fighters, fightersAddress } = await deployFighters();
+    const client = createClient(fightersAddress, signers.alice);
+
+    const { tokenId } = await client.mint({ agility: 5, strength: 3, stamina: 2 });
+    expect(tokenId).to.equal(1n);
+    expect(await fighters.ownerOf(tokenId)).to.equal(signers.alice.address);
+
+    const { tokenIds } = await client.mintSquad([
+      { agility: 1, strength: 4, stamina: 5 },
+      { agility: 10, strength: 0, stamina: 0 },
+    ]);
+    expect(tokenIds).to.deep.equal([2n, 3n]);
+    expect(await client.listOwned()).to.deep.equal([1n, 2n, 3n]);
+    expect(await client.listOwned(signers.bob.address)).to.deep.equal([]);
+
+    expect(await client.decrypt(1n)).to.deep.equal({ agility: 5, strength: 3, stamina: 2, valid: true });
+    expect(await client.decrypt(3n)).to.deep.equal({ agility: 10, strength: 0, stamina: 0, valid: true });
+  });
+
+  it("updates attributes and reports distributions the contract replaced", async function () {
+    const { fightersAddress } = await deployFighters();
+    const client = createClient(fightersAddress, signers.alice);
+
+    const { tokenId } = await client.mint({ agility: 4, strength: 3, stamina: 3 });
+    await client.update(tokenId, { agility: 2, strength: 2, stamina: 6 });
+    expect(await client.decrypt(tokenId)).to.deep.equal({ agility: 2, strength: 2, stamina: 6, valid: true });
+
+    // Points that do not sum to 10 are swapped for the default distribution under FHE.
+    await client.update(tokenId, { agility: 9, strength: 9, stamina: 9 });
+    const decrypted = await client.decrypt(tokenId);
+    expect(decrypted.valid).to.equal(false);
+    expect(decrypted.agility + decrypted.strength + decrypted.stamina).to.equal(10);
+  });
+
+  it("shares attributes with an allowed viewer only", async function () {
+    const { fightersAddress } = await deployFighters();
+    const alice = createClient(fightersAddress, signers.alice);
+    const bob = createClient(fightersAddress, signers.bob);
+
+    const { tokenId } = await alice.mint({ agility: 6, strength: 2, stamina: 2 });
+    await expect(bob.decrypt(tokenId)).to.be.rejected;
+
+    await alice.allowViewer(tokenId, signers.bob.address);
+    expect(await bob.decrypt(tokenId)).to.deep.equal({ agility: 6, strength: 2, stamina: 2, valid: true });
+  });
+
+  it("works with any encryptor implementation", async function () {
+    const { fightersAddress } = await deployFighters();
+    const relayer = new RelayerEncryptor(fhevm);
+    const calls: string[] = [];
+    const encryptor: FighterEncryptor = {
+      encrypt32: (...args) => {
+        calls.push("encrypt32");
+        return relayer.encrypt32(...args);
+      },
+      userDecrypt: (...args) => {
+        calls.push("userDecrypt");
+        return relayer.userDecrypt(...args);
+      },
+      publicDecryptBools: (...args) => {
+        calls.push("publicDecryptBools");
+        return relayer.publicDecryptBools(...args);
+      },
+    };
+    const client = createClient(fightersAddress, signers.alice, encryptor);
+
+    const { tokenId } = await client.mint({ agility: 3, strength: 3, stamina: 4 });
+    expect(await client.decrypt(tokenId)).to.deep.equal({ agility: 3, strength: 3, stamina: 4, valid: true });
+    expect(calls).to.deep.equal(["encrypt32", "userDecrypt", "publicDecryptBools"]);
+  });
+
+  it("decrypts every fighter with a single signature", async function () {
+    const { fightersAddress } = await deployFighters();
+    const { instance, counts } = countingInstance();
+    const client = createClient(fightersAddress, signers.alice, new RelayerEncryptor(instance));
+
+    await client.mintSquad([
+      { agility: 5, strength: 3, stamina: 2 },
+      { agility: 1, strength: 4, stamina: 5 },
+      { agility: 0, strength: 0, stamina: 10 },
+    ]);
+
+    const decrypted = await client.decryptAll();
+    expect([...decrypted.keys()]).to.deep.equal([1n, 2n, 3n]);
+    expect(decrypted.get(2n)).to.deep.equal({ agility: 1, strength: 4, stamina: 5, valid: true });
+    expect(counts).to.deep.equal({ signatures: 1, userDecrypts: 1 });
+
+    expect(await client.decrypt(3n)).to.deep.equal({ agility: 0, strength: 0, stamina: 10, valid: true });
+    expect(counts).to.deep.equal({ signatures: 1, userDecrypts: 2 });
+    expect(await client.decryptAll([])).to.deep.equal(new Map());
+  });
+
+  it("shares authorizations through a store and splits oversized batches", async function () {
+    const { fightersAddress } = await deployFighters();
+    const store = new MemoryAuthorizationStore();
+    const first = countingInstance();
+    const second = countingInstance();
+    const alice = createClient(fightersAddress, signers.alice, new RelayerEncryptor(first.instance, { store }));
+    const sameSession = createClient(fightersAddress, signers.alice, new RelayerEncryptor(second.instance, { store }));
+    const bob = createClient(fightersAddress, signers.bob, new RelayerEncryptor(second.instance, { store }));
+
+    // 25 fighters hold 2400 encrypted bits, over the relayer's 2048-bit limit per request.
+    const squad = Array.from({ length: 10 }, () => ({ agility: 4, strength: 3, stamina: 3 }));
+    await alice.mintSquad(squad);
+    await alice.mintSquad(squad);
+    await alice.mintSquad(squad.slice(0, 5));
+
+    const decrypted = await sameSession.decryptAll();
+    expect(decrypted.size).to.equal(25);
+    expect(decrypted.get(25n)).to.deep.equal({ agility: 4, strength: 3, stamina: 3, valid: true });
+    expect(second.counts).to.deep.equal({ signatures: 1, userDecrypts: 2 });
+
+    await alice.decrypt(1n);
+    expect(first.counts).to.deep.equal({ signatures: 0, userDecrypts: 1 });
+
+    // Every account signs its own authorization.
+    const { tokenId } = await bob.mint({ agility: 2, strength: 2, stamina: 6 });
+    await bob.decrypt(tokenId);
+    expect(second.counts.signatures).to.equal(2);
+  });
+});
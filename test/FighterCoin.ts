@@ -0,0 +1,191 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { FighterCoin, FighterCoin__factory } from "../types";
+import { deployFighters, mintFighter } from "./helpers";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const STRENGTH = 1;
+
+async function deployFixture() {
+  const coinFactory = (await ethers.getContractFactory("FighterCoin")) as FighterCoin__factory;
+  const coin = (await coinFactory.deploy()) as FighterCoin;
+  const coinAddress = await coin.getAddress();
+
+  const { fighters, fightersAddress } = await deployFighters();
+
+  return { coin, coinAddress, fighters, fightersAddress };
+}
+
+async function decryptBalance(coin: FighterCoin, coinAddress: string, signer: HardhatEthersSigner) {
+  const handle = await coin.confidentialBalanceOf(signer.address);
+  return fhevm.userDecryptEuint(FhevmType.euint64, handle, coinAddress, signer);
+}
+
+async function transfer(
+  coin: FighterCoin,
+  coinAddress: string,
+  from: HardhatEthersSigner,
+  to: HardhatEthersSigner,
+  amount: number,
+) {
+  const input = fhevm.createEncryptedInput(coinAddress, from.address);
+  input.add64(amount);
+  const encrypted = await input.encrypt();
+
+  return coin
+    .connect(from)
+    ["confidentialTransfer(address,bytes32,bytes)"](to.address, encrypted.handles[0], encrypted.inputProof);
+}
+
+describe("FighterCoin", function () {
+  let signers: Signers;
+
+  before(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+
+    const accounts: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: accounts[0], alice: accounts[1], bob: accounts[2] };
+  });
+
+  it("mints and transfers encrypted balances", async function () {
+    const { coin, coinAddress } = await deployFixture();
+
+    await expect(coin.connect(signers.alice).mint(signers.alice.address, 100n)).to.be.revertedWithCustomError(
+      coin,
+      "NotAuthorized",
+    );
+    await coin.mint(signers.alice.address, 100n);
+    expect(await coin.totalSupply()).to.equal(100n);
+    expect(await decryptBalance(coin, coinAddress, signers.alice)).to.equal(100n);
+
+    await expect(transfer(coin, coinAddress, signers.alice, signers.bob, 30)).to.emit(coin, "ConfidentialTransfer");
+    expect(await decryptBalance(coin, coinAddress, signers.alice)).to.equal(70n);
+    expect(await decryptBalance(coin, coinAddress, signers.bob)).to.equal(30n);
+
+    // Balances are only readable by their holder.
+    const aliceBalance = await coin.confidentialBalanceOf(signers.alice.address);
+    await expect(fhevm.userDecryptEuint(FhevmType.euint64, aliceBalance, coinAddress, signers.bob)).to.be.rejected;
+  });
+
+  it("moves nothing when the balance cannot cover the transfer", async function () {
+    const { coin, coinAddress } = await deployFixture();
+    await coin.mint(signers.alice.address, 100n);
+
+    // The transfer succeeds so that it does not leak the balance, but the amount moved is zero.
+    await transfer(coin, coinAddress, signers.alice, signers.bob, 101);
+    expect(await decryptBalance(coin, coinAddress, signers.alice)).to.equal(100n);
+    expect(await decryptBalance(coin, coinAddress, signers.bob)).to.equal(0n);
+
+    // Accounts that never held coins can send too, they just move nothing.
+    await transfer(coin, coinAddress, signers.bob, signers.alice, 5);
+    expect(await decryptBalance(coin, coinAddress, signers.alice)).to.equal(100n);
+  });
+
+  it("lets operators transfer until their approval expires", async function () {
+    const { coin, coinAddress } = await deployFixture();
+    await coin.mint(signers.alice.address, 100n);
+
+    const input = fhevm.createEncryptedInput(coinAddress, signers.bob.address);
+    input.add64(40);
+    const encrypted = await input.encrypt();
+    const transferFrom = coin.connect(signers.bob)["confidentialTransferFrom(address,address,bytes32,bytes)"];
+    const spend = () =>
+      transferFrom(signers.alice.address, signers.bob.address, encrypted.handles[0], encrypted.inputProof);
+
+    await expect(spend())
+      .to.be.revertedWithCustomError(coin, "UnauthorizedSpender")
+      .withArgs(signers.alice.address, signers.bob.address);
+
+    const until = (await time.latest()) + 100;
+    await expect(coin.connect(signers.alice).setOperator(signers.bob.address, until))
+      .to.emit(coin, "OperatorSet")
+      .withArgs(signers.alice.address, signers.bob.address, until);
+    expect(await coin.isOperator(signers.alice.address, signers.bob.address)).to.equal(true);
+
+    await spend();
+    expect(await decryptBalance(coin, coinAddress, signers.alice)).to.equal(60n);
+    expect(await decryptBalance(coin, coinAddress, signers.bob)).to.equal(40n);
+
+    await time.increaseTo(until + 1);
+    expect(await coin.isOperator(signers.alice.address, signers.bob.address)).to.equal(false);
+    await expect(spend()).to.be.revertedWithCustomError(coin, "UnauthorizedSpender");
+  });
+
+  it("charges the training fee and drops the point when it is not paid", async function () {
+    const { coin, coinAddress, fighters, fightersAddress } = await deployFixture();
+
+    await expect(fighters.connect(signers.alice).setTrainingFee(coinAddress, 10n)).to.be.revertedWithCustomError(
+      fighters,
+      "NotAuthorized",
+    );
+    await expect(fighters.setTrainingFee(coinAddress, 10n))
+      .to.emit(fighters, "TrainingFeeUpdated")
+      .withArgs(coinAddress, 10n);
+    expect(await fighters.getTrainingFee()).to.deep.equal([coinAddress, 10n]);
+
+    await mintFighter(fighters, fightersAddress, signers.alice, [2, 5, 3]);
+    await fighters.setGameContract(signers.deployer.address, true);
+    await fighters.awardExperience(1n, 15);
+
+    const decryptStrength = async () => {
+      const [, strength] = await fighters.getEncryptedAttributes(1n);
+      return fhevm.userDecryptEuint(FhevmType.euint32, strength, fightersAddress, signers.alice);
+    };
+
+    // FighterNFT has to be an operator before it can charge the fee.
+    await expect(fighters.connect(signers.alice).trainAttribute(1n, STRENGTH))
+      .to.be.revertedWithCustomError(fighters, "TrainingFeeNotApproved")
+      .withArgs(signers.alice.address);
+    await coin.connect(signers.alice).setOperator(fightersAddress, (await time.latest()) + 1000);
+
+    await coin.mint(signers.alice.address, 15n);
+    await fighters.connect(signers.alice).trainAttribute(1n, STRENGTH);
+    expect(await decryptStrength()).to.equal(6n);
+    expect(await decryptBalance(coin, coinAddress, signers.alice)).to.equal(5n);
+    expect(await decryptBalance(coin, coinAddress, signers.deployer)).to.equal(10n);
+
+    // The remaining 5 coins do not cover the fee: the experience is spent but the point is dropped.
+    await fighters.connect(signers.alice).trainAttribute(1n, STRENGTH);
+    expect(await decryptStrength()).to.equal(6n);
+    expect(await decryptBalance(coin, coinAddress, signers.alice)).to.equal(5n);
+    expect((await fighters.getExperience(1n)).available).to.equal(5n);
+
+    // A zero fee makes training free again.
+    await fighters.setTrainingFee(ethers.ZeroAddress, 0n);
+    await fighters.connect(signers.alice).trainAttribute(1n, STRENGTH);
+    expect(await decryptStrength()).to.equal(7n);
+  });
+
+  it("refuses to train without operator approval instead of spending the experience", async function () {
+    const { coin, coinAddress, fighters, fightersAddress } = await deployFixture();
+    await fighters.setTrainingFee(coinAddress, 10n);
+
+    await mintFighter(fighters, fightersAddress, signers.alice, [2, 5, 3]);
+    await fighters.setGameContract(signers.deployer.address, true);
+    await fighters.awardExperience(1n, 10);
+    await coin.mint(signers.alice.address, 10n);
+
+    const train = () => fighters.connect(signers.alice).trainAttribute(1n, STRENGTH);
+
+    await expect(train()).to.be.revertedWithCustomError(fighters, "TrainingFeeNotApproved");
+    expect((await fighters.getExperience(1n)).available).to.equal(10n);
+
+    // An approval that has expired is refused the same way.
+    const until = (await time.latest()) + 100;
+    await coin.connect(signers.alice).setOperator(fightersAddress, until);
+    await time.increaseTo(until + 1);
+    await expect(train()).to.be.revertedWithCustomError(fighters, "TrainingFeeNotApproved");
+    expect((await fighters.getExperience(1n)).available).to.equal(10n);
+    expect(await decryptBalance(coin, coinAddress, signers.alice)).to.equal(10n);
+  });
+});
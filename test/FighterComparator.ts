@@ -0,0 +1,162 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { FighterComparator, FighterComparator__factory } from "../types";
+import { deployFighters, mintFighter } from "./helpers";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+const STATUS_PENDING = 1n;
+const STATUS_COMPLETED = 2n;
+const STATUS_CANCELLED = 3n;
+
+async function deployFixture() {
+  const { fighters, fightersAddress } = await deployFighters();
+
+  const comparatorFactory = (await ethers.getContractFactory("FighterComparator")) as FighterComparator__factory;
+  const comparator = (await comparatorFactory.deploy(fightersAddress)) as FighterComparator;
+  const comparatorAddress = await comparator.getAddress();
+
+  await fighters.setGameContract(comparatorAddress, true);
+
+  return { fighters, fightersAddress, comparator, comparatorAddress };
+}
+
+async function decryptResult(
+  comparator: FighterComparator,
+  comparatorAddress: string,
+  comparisonId: bigint,
+  signer: HardhatEthersSigner,
+) {
+  const comparison = await comparator.getComparison(comparisonId);
+  return [
+    await fhevm.userDecryptEbool(comparison.agilityHigher, comparatorAddress, signer),
+    await fhevm.userDecryptEbool(comparison.strengthHigher, comparatorAddress, signer),
+    await fhevm.userDecryptEbool(comparison.staminaHigher, comparatorAddress, signer),
+  ];
+}
+
+describe("FighterComparator", function () {
+  let signers: Signers;
+
+  before(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+
+    const accounts: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: accounts[0], alice: accounts[1], bob: accounts[2], carol: accounts[3] };
+  });
+
+  it("compares each attribute once the opponent's owner consents", async function () {
+    const { fighters, fightersAddress, comparator, comparatorAddress } = await deployFixture();
+    await mintFighter(fighters, fightersAddress, signers.alice, [5, 3, 2]);
+    await mintFighter(fighters, fightersAddress, signers.bob, [2, 3, 5]);
+
+    await expect(comparator.connect(signers.alice).requestComparison(1n, 2n))
+      .to.emit(comparator, "ComparisonRequested")
+      .withArgs(1n, signers.alice.address, 1n, 2n);
+    expect((await comparator.getComparison(1n)).status).to.equal(STATUS_PENDING);
+
+    await expect(comparator.connect(signers.alice).acceptComparison(1n)).to.be.revertedWithCustomError(
+      comparator,
+      "NotAuthorized",
+    );
+    await expect(comparator.connect(signers.bob).acceptComparison(1n))
+      .to.emit(comparator, "ComparisonCompleted")
+      .withArgs(1n, signers.bob.address);
+    expect((await comparator.getComparison(1n)).status).to.equal(STATUS_COMPLETED);
+
+    // Higher agility, equal strength (not strictly higher), lower stamina.
+    expect(await decryptResult(comparator, comparatorAddress, 1n, signers.alice)).to.deep.equal([true, false, false]);
+
+    await expect(comparator.connect(signers.bob).acceptComparison(1n))
+      .to.be.revertedWithCustomError(comparator, "InvalidComparisonStatus")
+      .withArgs(1n);
+  });
+
+  it("keeps the raw attributes and the result undisclosed", async function () {
+    const { fighters, fightersAddress, comparator, comparatorAddress } = await deployFixture();
+    await mintFighter(fighters, fightersAddress, signers.alice, [5, 3, 2]);
+    await mintFighter(fighters, fightersAddress, signers.bob, [2, 3, 5]);
+    const [bobAgility, bobStrength, bobStamina] = await fighters.getEncryptedAttributes(2n);
+
+    await comparator.connect(signers.alice).requestComparison(1n, 2n);
+    await comparator.connect(signers.bob).acceptComparison(1n);
+
+    // The comparison neither re-keys nor shares the opponent's attributes.
+    expect(await fighters.getEncryptedAttributes(2n)).to.deep.equal([bobAgility, bobStrength, bobStamina]);
+    for (const handle of [bobAgility, bobStrength, bobStamina]) {
+      await expect(fhevm.userDecryptEuint(FhevmType.euint32, handle, fightersAddress, signers.alice)).to.be.rejected;
+      await expect(fhevm.publicDecryptEuint(FhevmType.euint32, handle)).to.be.rejected;
+    }
+    const [aliceAgility] = await fighters.getEncryptedAttributes(1n);
+    await expect(fhevm.userDecryptEuint(FhevmType.euint32, aliceAgility, fightersAddress, signers.bob)).to.be.rejected;
+
+    // Only the requester can decrypt the outcome, and it is not public either.
+    const comparison = await comparator.getComparison(1n);
+    for (const result of [comparison.agilityHigher, comparison.strengthHigher, comparison.staminaHigher]) {
+      await expect(fhevm.userDecryptEbool(result, comparatorAddress, signers.bob)).to.be.rejected;
+      await expect(fhevm.publicDecryptEbool(result)).to.be.rejected;
+    }
+  });
+
+  it("lets either side cancel a pending request", async function () {
+    const { fighters, fightersAddress, comparator } = await deployFixture();
+    await mintFighter(fighters, fightersAddress, signers.alice, [4, 3, 3]);
+    await mintFighter(fighters, fightersAddress, signers.bob, [4, 3, 3]);
+
+    await expect(comparator.connect(signers.alice).requestComparison(1n, 1n)).to.be.revertedWithCustomError(
+      comparator,
+      "InvalidOpponent",
+    );
+    await expect(comparator.connect(signers.carol).requestComparison(1n, 2n)).to.be.revertedWithCustomError(
+      comparator,
+      "NotAuthorized",
+    );
+
+    await comparator.connect(signers.alice).requestComparison(1n, 2n);
+    await comparator.connect(signers.alice).requestComparison(1n, 2n);
+
+    await expect(comparator.connect(signers.carol).cancelComparison(1n)).to.be.revertedWithCustomError(
+      comparator,
+      "NotAuthorized",
+    );
+    await expect(comparator.connect(signers.alice).cancelComparison(1n))
+      .to.emit(comparator, "ComparisonCancelled")
+      .withArgs(1n, signers.alice.address);
+    await expect(comparator.connect(signers.bob).cancelComparison(2n))
+      .to.emit(comparator, "ComparisonCancelled")
+      .withArgs(2n, signers.bob.address);
+    expect((await comparator.getComparison(2n)).status).to.equal(STATUS_CANCELLED);
+
+    await expect(comparator.connect(signers.bob).acceptComparison(2n))
+      .to.be.revertedWithCustomError(comparator, "InvalidComparisonStatus")
+      .withArgs(2n);
+    await expect(comparator.getComparison(3n)).to.be.revertedWithCustomError(comparator, "ComparisonDoesNotExist");
+  });
+
+  it("requires the requester to still control their fighter", async function () {
+    const { fighters, fightersAddress, comparator } = await deployFixture();
+    await mintFighter(fighters, fightersAddress, signers.alice, [4, 3, 3]);
+    await mintFighter(fighters, fightersAddress, signers.bob, [4, 3, 3]);
+
+    await comparator.connect(signers.alice).requestComparison(1n, 2n);
+    await fighters.connect(signers.alice).transferFrom(signers.alice.address, signers.carol.address, 1n);
+
+    await expect(comparator.connect(signers.bob).acceptComparison(1n)).to.be.revertedWithCustomError(
+      comparator,
+      "NotAuthorized",
+    );
+    await expect(fighters.connect(signers.alice).compareAttributes(1n, 2n)).to.be.revertedWithCustomError(
+      fighters,
+      "NotAuthorized",
+    );
+  });
+});
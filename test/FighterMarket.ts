@@ -0,0 +1,273 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { EtherRejecter, EtherRejecter__factory, FighterMarket, FighterMarket__factory, FighterNFT } from "../types";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployFighters, mintFighter } from "./helpers";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+const PRICE = ethers.parseEther("1");
+const ROYALTY = ethers.parseEther("0.05");
+const PREVIEW_DURATION = 3600;
+
+async function deployFixture() {
+  const { fighters, fightersAddress } = await deployFighters();
+
+  const marketFactory = (await ethers.getContractFactory("FighterMarket")) as FighterMarket__factory;
+  const market = (await marketFactory.deploy(fightersAddress)) as FighterMarket;
+  const marketAddress = await market.getAddress();
+
+  return { fighters, fightersAddress, market, marketAddress };
+}
+
+async function canDecrypt(
+  fighters: FighterNFT,
+  fightersAddress: string,
+  tokenId: bigint,
+  signer: HardhatEthersSigner,
+): Promise<boolean> {
+  const [agility] = await fighters.getEncryptedAttributes(tokenId);
+  try {
+    await fhevm.userDecryptEuint(FhevmType.euint32, agility, fightersAddress, signer);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe("FighterMarket", function () {
+  let signers: Signers;
+
+  before(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+
+    const accounts: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: accounts[0], alice: accounts[1], bob: accounts[2], carol: accounts[3] };
+  });
+
+  it("reports an ERC-2981 royalty for the creator", async function () {
+    const { fighters, fightersAddress } = await deployFixture();
+
+    await mintFighter(fighters, fightersAddress, signers.alice, [4, 3, 3]);
+
+    expect(await fighters.supportsInterface("0x2a55205a")).to.equal(true);
+    expect(await fighters.creatorOf(1n)).to.equal(signers.alice.address);
+    expect(await fighters.royaltyInfo(1n, PRICE)).to.deep.equal([signers.alice.address, ROYALTY]);
+  });
+
+  it("sells a listed fighter and credits the creator royalty", async function () {
+    const { fighters, fightersAddress, market, marketAddress } = await deployFixture();
+
+    await mintFighter(fighters, fightersAddress, signers.alice, [4, 3, 3]);
+    await fighters.connect(signers.alice).transferFrom(signers.alice.address, signers.bob.address, 1n);
+
+    await fighters.connect(signers.bob).approve(marketAddress, 1n);
+    await expect(market.connect(signers.bob).listFighter(1n, PRICE, 0))
+      .to.emit(market, "FighterListed")
+      .withArgs(1n, signers.bob.address, PRICE, 0);
+
+    const purchase = market.connect(signers.carol).buyFighter(1n, { value: PRICE });
+    await expect(purchase)
+      .to.emit(market, "FighterSold")
+      .withArgs(1n, signers.bob.address, signers.carol.address, PRICE, ROYALTY);
+    await expect(purchase).to.changeEtherBalances([signers.carol, market], [-PRICE, PRICE]);
+    expect(await market.proceedsOf(signers.bob.address)).to.equal(PRICE - ROYALTY);
+    expect(await market.proceedsOf(signers.alice.address)).to.equal(ROYALTY);
+
+    expect(await fighters.ownerOf(1n)).to.equal(signers.carol.address);
+    await expect(market.getListing(1n)).to.be.revertedWithCustomError(market, "NotListed");
+
+    const withdrawal = market.connect(signers.bob).withdraw();
+    await expect(withdrawal)
+      .to.emit(market, "Withdrawal")
+      .withArgs(signers.bob.address, PRICE - ROYALTY);
+    await expect(withdrawal).to.changeEtherBalances([market, signers.bob], [-(PRICE - ROYALTY), PRICE - ROYALTY]);
+    await expect(market.connect(signers.alice).withdraw()).to.changeEtherBalance(signers.alice, ROYALTY);
+
+    expect(await market.proceedsOf(signers.bob.address)).to.equal(0n);
+    await expect(market.connect(signers.bob).withdraw()).to.be.revertedWithCustomError(market, "NothingToClaim");
+  });
+
+  it("keeps selling when the royalty receiver rejects ether", async function () {
+    const { fighters, fightersAddress, market, marketAddress } = await deployFixture();
+
+    const rejecterFactory = (await ethers.getContractFactory("EtherRejecter")) as EtherRejecter__factory;
+    const rejecter = (await rejecterFactory.deploy()) as EtherRejecter;
+    const rejecterAddress = await rejecter.getAddress();
+
+    // The rejecter mints the fighter, so it is the creator that receives the royalty.
+    const input = fhevm.createEncryptedInput(fightersAddress, rejecterAddress);
+    input.add32(4);
+    input.add32(3);
+    input.add32(3);
+    const encrypted = await input.encrypt();
+    await rejecter.execute(
+      fightersAddress,
+      fighters.interface.encodeFunctionData("mintFighter", [
+        encrypted.handles[0],
+        encrypted.handles[1],
+        encrypted.handles[2],
+        encrypted.inputProof,
+      ]),
+    );
+    await rejecter.execute(
+      fightersAddress,
+      fighters.interface.encodeFunctionData("transferFrom", [rejecterAddress, signers.alice.address, 1n]),
+    );
+    expect(await fighters.creatorOf(1n)).to.equal(rejecterAddress);
+
+    await fighters.connect(signers.alice).approve(marketAddress, 1n);
+    await market.connect(signers.alice).listFighter(1n, PRICE, 0);
+    await market.connect(signers.bob).buyFighter(1n, { value: PRICE });
+    expect(await fighters.ownerOf(1n)).to.equal(signers.bob.address);
+
+    await expect(market.connect(signers.alice).withdraw()).to.changeEtherBalance(signers.alice, PRICE - ROYALTY);
+
+    // Only the receiver that rejects ether is affected: its withdrawal fails and the royalty stays credited.
+    const withdrawRoyalty = () => rejecter.execute(marketAddress, market.interface.encodeFunctionData("withdraw"));
+    await expect(withdrawRoyalty()).to.be.revertedWithCustomError(market, "TransferFailed");
+    expect(await market.proceedsOf(rejecterAddress)).to.equal(ROYALTY);
+  });
+
+  it("moves decryption rights from the seller and previewers to the buyer", async function () {
+    const { fighters, fightersAddress, market, marketAddress } = await deployFixture();
+
+    await mintFighter(fighters, fightersAddress, signers.alice, [2, 5, 3]);
+    await fighters.connect(signers.alice).approve(marketAddress, 1n);
+    await market.connect(signers.alice).listFighter(1n, PRICE, PREVIEW_DURATION);
+
+    expect(await canDecrypt(fighters, fightersAddress, 1n, signers.bob)).to.equal(false);
+    await expect(market.connect(signers.bob).requestPreview(1n)).to.emit(market, "PreviewGranted");
+    expect(await fighters.isViewer(1n, signers.bob.address)).to.equal(true);
+    expect(await canDecrypt(fighters, fightersAddress, 1n, signers.bob)).to.equal(true);
+
+    await market.connect(signers.carol).buyFighter(1n, { value: PRICE });
+
+    const [viewers] = await fighters.getViewers(1n);
+    expect(viewers).to.deep.equal([]);
+    expect(await canDecrypt(fighters, fightersAddress, 1n, signers.carol)).to.equal(true);
+    expect(await canDecrypt(fighters, fightersAddress, 1n, signers.alice)).to.equal(false);
+    expect(await canDecrypt(fighters, fightersAddress, 1n, signers.bob)).to.equal(false);
+  });
+
+  it("lets previews lapse after the listing's preview duration", async function () {
+    const { fighters, fightersAddress, market, marketAddress } = await deployFixture();
+
+    await mintFighter(fighters, fightersAddress, signers.alice, [2, 5, 3]);
+    await fighters.connect(signers.alice).approve(marketAddress, 1n);
+    await market.connect(signers.alice).listFighter(1n, PRICE, PREVIEW_DURATION);
+    await market.connect(signers.bob).requestPreview(1n);
+
+    await time.increase(PREVIEW_DURATION + 1);
+    expect(await fighters.isViewer(1n, signers.bob.address)).to.equal(false);
+
+    await fighters.expireViewers(1n);
+    expect(await canDecrypt(fighters, fightersAddress, 1n, signers.bob)).to.equal(false);
+    expect(await canDecrypt(fighters, fightersAddress, 1n, signers.alice)).to.equal(true);
+  });
+
+  it("caps running previews so they never use up the owner's viewer slots", async function () {
+    const { fighters, fightersAddress, market, marketAddress } = await deployFixture();
+    const accounts = await ethers.getSigners();
+    const previewers = accounts.slice(4, 9);
+    const viewers = Array.from({ length: 12 }, () => ethers.Wallet.createRandom().address);
+
+    await mintFighter(fighters, fightersAddress, signers.alice, [2, 5, 3]);
+    await fighters.connect(signers.alice).approve(marketAddress, 1n);
+    await market.connect(signers.alice).listFighter(1n, PRICE, PREVIEW_DURATION);
+
+    const maxPreviews = Number(await market.maxPreviews());
+    for (const previewer of previewers.slice(0, maxPreviews)) {
+      await market.connect(previewer).requestPreview(1n);
+    }
+    await expect(market.connect(previewers[maxPreviews]).requestPreview(1n))
+      .to.be.revertedWithCustomError(market, "TooManyPreviews")
+      .withArgs(1n);
+    // Asking again extends a running preview instead of taking another slot.
+    await market.connect(previewers[0]).requestPreview(1n);
+    expect(await market.getPreviews(1n)).to.have.length(maxPreviews);
+
+    // The owner can still fill the remaining slots.
+    for (const viewer of viewers) {
+      await fighters.connect(signers.alice).allowViewer(1n, viewer, 0);
+    }
+    const [allViewers] = await fighters.getViewers(1n);
+    expect(allViewers).to.have.length(maxPreviews + viewers.length);
+    await expect(fighters.connect(signers.alice).allowViewer(1n, ethers.Wallet.createRandom().address, 0))
+      .to.be.revertedWithCustomError(fighters, "TooManyViewers")
+      .withArgs(1n);
+
+    // Once the previews lapse, new ones replace them without anyone calling expireViewers.
+    await time.increase(PREVIEW_DURATION + 1);
+    await expect(market.connect(previewers[maxPreviews]).requestPreview(1n)).to.emit(market, "PreviewGranted");
+    expect(await market.getPreviews(1n)).to.have.length(1);
+    expect(await fighters.isViewer(1n, previewers[maxPreviews].address)).to.equal(true);
+    expect(await fighters.isViewer(1n, previewers[0].address)).to.equal(false);
+    const [remainingViewers] = await fighters.getViewers(1n);
+    expect(remainingViewers).to.have.length(viewers.length + 1);
+  });
+
+  it("validates listings, previews and payments", async function () {
+    const { fighters, fightersAddress, market, marketAddress } = await deployFixture();
+
+    await mintFighter(fighters, fightersAddress, signers.alice, [4, 3, 3]);
+
+    await expect(market.connect(signers.alice).listFighter(1n, PRICE, 0))
+      .to.be.revertedWithCustomError(market, "MarketNotApproved")
+      .withArgs(1n);
+    await fighters.connect(signers.alice).setApprovalForAll(marketAddress, true);
+    await expect(market.connect(signers.bob).listFighter(1n, PRICE, 0)).to.be.revertedWithCustomError(
+      market,
+      "NotAuthorized",
+    );
+    await expect(market.connect(signers.alice).listFighter(1n, 0, 0)).to.be.revertedWithCustomError(
+      market,
+      "InvalidPrice",
+    );
+
+    await market.connect(signers.alice).listFighter(1n, PRICE, 0);
+    await expect(market.connect(signers.bob).requestPreview(1n))
+      .to.be.revertedWithCustomError(market, "PreviewsDisabled")
+      .withArgs(1n);
+    await expect(market.connect(signers.bob).buyFighter(1n, { value: PRICE - 1n })).to.be.revertedWithCustomError(
+      market,
+      "IncorrectPayment",
+    );
+    await expect(market.connect(signers.bob).cancelListing(1n)).to.be.revertedWithCustomError(market, "NotAuthorized");
+
+    await expect(market.connect(signers.alice).cancelListing(1n)).to.emit(market, "ListingCancelled").withArgs(1n);
+    await expect(market.connect(signers.bob).buyFighter(1n, { value: PRICE }))
+      .to.be.revertedWithCustomError(market, "NotListed")
+      .withArgs(1n);
+  });
+
+  it("rejects purchases of listings the seller no longer backs", async function () {
+    const { fighters, fightersAddress, market, marketAddress } = await deployFixture();
+
+    await mintFighter(fighters, fightersAddress, signers.alice, [4, 3, 3]);
+    await fighters.connect(signers.alice).setApprovalForAll(marketAddress, true);
+    await market.connect(signers.alice).listFighter(1n, PRICE, PREVIEW_DURATION);
+
+    await fighters.connect(signers.alice).setApprovalForAll(marketAddress, false);
+    await expect(market.connect(signers.bob).buyFighter(1n, { value: PRICE }))
+      .to.be.revertedWithCustomError(market, "StaleListing")
+      .withArgs(1n);
+
+    await fighters.connect(signers.alice).setApprovalForAll(marketAddress, true);
+    await fighters.connect(signers.alice).transferFrom(signers.alice.address, signers.carol.address, 1n);
+    await expect(market.connect(signers.bob).requestPreview(1n)).to.be.revertedWithCustomError(market, "StaleListing");
+    await expect(market.connect(signers.bob).buyFighter(1n, { value: PRICE })).to.be.revertedWithCustomError(
+      market,
+      "StaleListing",
+    );
+  });
+});
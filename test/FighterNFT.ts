@@ -1,9 +1,12 @@
 import { expect } from "chai";
 import { ethers, fhevm } from "hardhat";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
-import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
 import { FighterNFT, FighterNFT__factory } from "../types";
 import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+const AGILITY = 0;
+const STRENGTH = 1;
 
 type Signers = {
   deployer: HardhatEthersSigner;
@@ -59,6 +62,25 @@ async function decryptAttributes(
   };
 }
 
+async function canDecrypt(
+  contract: FighterNFT,
+  contractAddress: string,
+  tokenId: number,
+  signer: HardhatEthersSigner,
+): Promise<boolean> {
+  try {
+    await decryptAttributes(contract, contractAddress, tokenId, signer);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function decryptValidity(contract: FighterNFT, tokenId: number) {
+  const handle = await contract.getEncryptedValidity(tokenId);
+  return fhevm.publicDecryptEbool(handle);
+}
+
 describe("FighterNFT", function () {
   let signers: Signers;
 
@@ -72,7 +94,7 @@ describe("FighterNFT", function () {
   });
 
   it("mints fighters with encrypted attributes", async function () {
-    const { contract, address } = await loadFixture(deployFixture);
+    const { contract, address } = await deployFixture();
 
     const encrypted = await encryptAttributes(address, signers.alice, [4, 3, 3]);
     const tx = await contract
@@ -95,7 +117,7 @@ describe("FighterNFT", function () {
   });
 
   it("updates attributes and maintains access", async function () {
-    const { contract, address } = await loadFixture(deployFixture);
+    const { contract, address } = await deployFixture();
 
     const initialAttributes = await encryptAttributes(address, signers.alice, [3, 4, 3]);
     await contract
@@ -124,14 +146,14 @@ describe("FighterNFT", function () {
   });
 
   it("grants viewer access and handles transfers", async function () {
-    const { contract, address } = await loadFixture(deployFixture);
+    const { contract, address } = await deployFixture();
 
     const encrypted = await encryptAttributes(address, signers.alice, [2, 4, 4]);
     await contract
       .connect(signers.alice)
       .mintFighter(encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.proof);
 
-    await contract.connect(signers.alice).allowViewer(1n, signers.bob.address);
+    await contract.connect(signers.alice).allowViewer(1n, signers.bob.address, 0);
 
     const bobView = await decryptAttributes(contract, address, 1, signers.bob);
     expect(bobView).to.deep.equal({ agility: 2, strength: 4, stamina: 4 });
@@ -150,4 +172,827 @@ describe("FighterNFT", function () {
     const decryptedAfterTransfer = await decryptAttributes(contract, address, 1, signers.bob);
     expect(decryptedAfterTransfer).to.deep.equal({ agility: 2, strength: 4, stamina: 4 });
   });
+
+  it("flags valid distributions as valid", async function () {
+    const { contract, address } = await deployFixture();
+
+    const encrypted = await encryptAttributes(address, signers.alice, [10, 0, 0]);
+    await contract
+      .connect(signers.alice)
+      .mintFighter(encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.proof);
+
+    expect(await decryptValidity(contract, 1)).to.equal(true);
+
+    const decrypted = await decryptAttributes(contract, address, 1, signers.alice);
+    expect(decrypted).to.deep.equal({ agility: 10, strength: 0, stamina: 0 });
+  });
+
+  it("replaces distributions that do not sum to 10 with the default fighter", async function () {
+    const { contract, address } = await deployFixture();
+
+    const encrypted = await encryptAttributes(address, signers.alice, [5, 5, 5]);
+    await contract
+      .connect(signers.alice)
+      .mintFighter(encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.proof);
+
+    expect(await decryptValidity(contract, 1)).to.equal(false);
+
+    const decrypted = await decryptAttributes(contract, address, 1, signers.alice);
+    expect(decrypted).to.deep.equal({ agility: 4, strength: 3, stamina: 3 });
+  });
+
+  it("replaces out-of-range attributes with the default fighter", async function () {
+    const { contract, address } = await deployFixture();
+
+    const encrypted = await encryptAttributes(address, signers.alice, [4_000_000_000, 0, 0]);
+    await contract
+      .connect(signers.alice)
+      .mintFighter(encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.proof);
+
+    expect(await decryptValidity(contract, 1)).to.equal(false);
+
+    const decrypted = await decryptAttributes(contract, address, 1, signers.alice);
+    expect(decrypted).to.deep.equal({ agility: 4, strength: 3, stamina: 3 });
+  });
+
+  it("rejects out-of-range attributes whose sum wraps around to 10", async function () {
+    const { contract, address } = await deployFixture();
+
+    const encrypted = await encryptAttributes(address, signers.alice, [4_294_967_295, 11, 0]);
+    await contract
+      .connect(signers.alice)
+      .mintFighter(encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.proof);
+
+    expect(await decryptValidity(contract, 1)).to.equal(false);
+
+    const decrypted = await decryptAttributes(contract, address, 1, signers.alice);
+    expect(decrypted).to.deep.equal({ agility: 4, strength: 3, stamina: 3 });
+  });
+
+  it("validates updated attributes", async function () {
+    const { contract, address } = await deployFixture();
+
+    const initialAttributes = await encryptAttributes(address, signers.alice, [2, 4, 4]);
+    await contract
+      .connect(signers.alice)
+      .mintFighter(
+        initialAttributes.handles[0],
+        initialAttributes.handles[1],
+        initialAttributes.handles[2],
+        initialAttributes.proof,
+      );
+
+    const updatedAttributes = await encryptAttributes(address, signers.alice, [0, 11, 0]);
+    await contract
+      .connect(signers.alice)
+      .updateAttributes(
+        1n,
+        updatedAttributes.handles[0],
+        updatedAttributes.handles[1],
+        updatedAttributes.handles[2],
+        updatedAttributes.proof,
+      );
+
+    expect(await decryptValidity(contract, 1)).to.equal(false);
+
+    const decrypted = await decryptAttributes(contract, address, 1, signers.alice);
+    expect(decrypted).to.deep.equal({ agility: 4, strength: 3, stamina: 3 });
+  });
+
+  describe("reveal", function () {
+    it("records the revealed attributes once the oracle calls back", async function () {
+      const { contract, address } = await deployFixture();
+
+      const encrypted = await encryptAttributes(address, signers.alice, [2, 5, 3]);
+      await contract
+        .connect(signers.alice)
+        .mintFighter(encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.proof);
+
+      await expect(contract.connect(signers.bob).revealAttributes(1n)).to.be.revertedWithCustomError(
+        contract,
+        "NotAuthorized",
+      );
+      await expect(contract.connect(signers.alice).revealAttributes(1n)).to.emit(contract, "AttributesRevealRequested");
+      await expect(contract.connect(signers.alice).revealAttributes(1n)).to.be.revertedWithCustomError(
+        contract,
+        "RevealAlreadyRequested",
+      );
+
+      const [revealedBefore, pendingBefore] = await contract.getRevealedAttributes(1n);
+      expect(revealedBefore).to.equal(false);
+      expect(pendingBefore).to.equal(true);
+
+      await fhevm.awaitDecryptionOracle();
+
+      const [revealed, pending, agility, strength, stamina] = await contract.getRevealedAttributes(1n);
+      expect(revealed).to.equal(true);
+      expect(pending).to.equal(false);
+      expect([agility, strength, stamina]).to.deep.equal([2n, 5n, 3n]);
+
+      const [agilityHandle] = await contract.getEncryptedAttributes(1n);
+      expect(await fhevm.publicDecryptEuint(FhevmType.euint32, agilityHandle)).to.equal(2n);
+    });
+
+    it("clears the reveal when the attributes change", async function () {
+      const { contract, address } = await deployFixture();
+
+      const encrypted = await encryptAttributes(address, signers.alice, [2, 5, 3]);
+      await contract
+        .connect(signers.alice)
+        .mintFighter(encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.proof);
+      await contract.connect(signers.alice).revealAttributes(1n);
+      await fhevm.awaitDecryptionOracle();
+
+      const updatedAttributes = await encryptAttributes(address, signers.alice, [4, 3, 3]);
+      await expect(
+        contract
+          .connect(signers.alice)
+          .updateAttributes(
+            1n,
+            updatedAttributes.handles[0],
+            updatedAttributes.handles[1],
+            updatedAttributes.handles[2],
+            updatedAttributes.proof,
+          ),
+      ).to.emit(contract, "AttributesRevealCleared");
+
+      const [revealed, pending, agility] = await contract.getRevealedAttributes(1n);
+      expect(revealed).to.equal(false);
+      expect(pending).to.equal(false);
+      expect(agility).to.equal(0n);
+    });
+
+    it("ignores a pending reveal that was superseded by an update", async function () {
+      const { contract, address } = await deployFixture();
+
+      const encrypted = await encryptAttributes(address, signers.alice, [2, 5, 3]);
+      await contract
+        .connect(signers.alice)
+        .mintFighter(encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.proof);
+      await contract.connect(signers.alice).revealAttributes(1n);
+
+      const updatedAttributes = await encryptAttributes(address, signers.alice, [4, 3, 3]);
+      await contract
+        .connect(signers.alice)
+        .updateAttributes(
+          1n,
+          updatedAttributes.handles[0],
+          updatedAttributes.handles[1],
+          updatedAttributes.handles[2],
+          updatedAttributes.proof,
+        );
+      await fhevm.awaitDecryptionOracle();
+
+      const [revealed] = await contract.getRevealedAttributes(1n);
+      expect(revealed).to.equal(false);
+    });
+  });
+
+  describe("training", function () {
+    async function mintWithExperience(distribution: [number, number, number], experience: number) {
+      const { contract, address } = await deployFixture();
+
+      const encrypted = await encryptAttributes(address, signers.alice, distribution);
+      await contract
+        .connect(signers.alice)
+        .mintFighter(encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.proof);
+
+      // The deployer stands in for a game contract to hand out experience directly.
+      await contract.setGameContract(signers.deployer.address, true);
+      if (experience > 0) {
+        await contract.awardExperience(1n, experience);
+      }
+
+      return { contract, address };
+    }
+
+    it("spends experience to add an encrypted point", async function () {
+      const { contract, address } = await mintWithExperience([2, 5, 3], 7);
+
+      await expect(contract.connect(signers.bob).trainAttribute(1n, STRENGTH)).to.be.revertedWithCustomError(
+        contract,
+        "NotAuthorized",
+      );
+      await expect(contract.connect(signers.alice).trainAttribute(1n, STRENGTH))
+        .to.emit(contract, "FighterTrained")
+        .withArgs(1n, STRENGTH, 5n);
+
+      const decrypted = await decryptAttributes(contract, address, 1, signers.alice);
+      expect(decrypted).to.deep.equal({ agility: 2, strength: 6, stamina: 3 });
+
+      const [available, total, level, attributeCap] = await contract.getExperience(1n);
+      expect([available, total, level, attributeCap]).to.deep.equal([2n, 7n, 1n, 10n]);
+
+      await expect(contract.connect(signers.alice).trainAttribute(1n, AGILITY)).to.be.revertedWithCustomError(
+        contract,
+        "InsufficientExperience",
+      );
+    });
+
+    it("raises the attribute cap with the level", async function () {
+      const { contract, address } = await mintWithExperience([0, 10, 0], 5);
+
+      await contract.connect(signers.alice).trainAttribute(1n, STRENGTH);
+      expect((await decryptAttributes(contract, address, 1, signers.alice)).strength).to.equal(10);
+
+      await contract.awardExperience(1n, 5);
+      const [, , level, attributeCap] = await contract.getExperience(1n);
+      expect(level).to.equal(2n);
+      expect(attributeCap).to.equal(11n);
+
+      await contract.connect(signers.alice).trainAttribute(1n, STRENGTH);
+      expect((await decryptAttributes(contract, address, 1, signers.alice)).strength).to.equal(11);
+    });
+
+    it("only lets game contracts award experience and clears reveals on training", async function () {
+      const { contract } = await mintWithExperience([2, 5, 3], 5);
+
+      await expect(contract.connect(signers.alice).awardExperience(1n, 100)).to.be.revertedWithCustomError(
+        contract,
+        "NotAuthorized",
+      );
+
+      await contract.connect(signers.alice).revealAttributes(1n);
+      await fhevm.awaitDecryptionOracle();
+      await expect(contract.connect(signers.alice).trainAttribute(1n, AGILITY)).to.emit(
+        contract,
+        "AttributesRevealCleared",
+      );
+    });
+  });
+
+  describe("viewers", function () {
+    async function mintWithViewer(distribution: [number, number, number]) {
+      const { contract, address } = await deployFixture();
+
+      const encrypted = await encryptAttributes(address, signers.alice, distribution);
+      await contract
+        .connect(signers.alice)
+        .mintFighter(encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.proof);
+      await expect(contract.connect(signers.alice).allowViewer(1n, signers.bob.address, 0))
+        .to.emit(contract, "ViewerAllowed")
+        .withArgs(1n, signers.bob.address, 0n);
+
+      return { contract, address };
+    }
+
+    it("lists viewers and re-keys the attributes on revoke", async function () {
+      const { contract, address } = await mintWithViewer([2, 5, 3]);
+
+      await contract.connect(signers.alice).allowViewer(1n, signers.deployer.address, 0);
+      await contract.connect(signers.alice).allowViewer(1n, signers.bob.address, 0);
+      expect((await contract.getViewers(1n)).viewers).to.deep.equal([signers.bob.address, signers.deployer.address]);
+      expect(await canDecrypt(contract, address, 1, signers.bob)).to.equal(true);
+
+      const handlesBefore = await contract.getEncryptedAttributes(1n);
+      await expect(contract.connect(signers.alice).revokeViewer(1n, signers.bob.address))
+        .to.emit(contract, "ViewerRevoked")
+        .withArgs(1n, signers.bob.address)
+        .and.to.emit(contract, "AttributesRekeyed");
+
+      const handlesAfter = await contract.getEncryptedAttributes(1n);
+      expect(handlesAfter[0]).to.not.equal(handlesBefore[0]);
+      expect((await contract.getViewers(1n)).viewers).to.deep.equal([signers.deployer.address]);
+      expect(await contract.isViewer(1n, signers.bob.address)).to.equal(false);
+
+      expect(await canDecrypt(contract, address, 1, signers.bob)).to.equal(false);
+      expect(await decryptAttributes(contract, address, 1, signers.alice)).to.deep.equal({
+        agility: 2,
+        strength: 5,
+        stamina: 3,
+      });
+      expect(await canDecrypt(contract, address, 1, signers.deployer)).to.equal(true);
+    });
+
+    it("stops honouring a timed grant once it is expired", async function () {
+      const { contract, address } = await mintWithViewer([2, 5, 3]);
+
+      const expiresAt = (await time.latest()) + 3600;
+      await expect(contract.connect(signers.alice).allowViewer(1n, signers.deployer.address, expiresAt))
+        .to.emit(contract, "ViewerAllowed")
+        .withArgs(1n, signers.deployer.address, expiresAt);
+
+      const [viewers, expiries] = await contract.getViewers(1n);
+      expect(viewers).to.deep.equal([signers.bob.address, signers.deployer.address]);
+      expect(expiries).to.deep.equal([0n, BigInt(expiresAt)]);
+      expect(await canDecrypt(contract, address, 1, signers.deployer)).to.equal(true);
+
+      expect(await contract.expireViewers.staticCall(1n)).to.equal(0n);
+
+      await time.increaseTo(expiresAt);
+      expect(await contract.isViewer(1n, signers.deployer.address)).to.equal(false);
+
+      await expect(contract.connect(signers.bob).expireViewers(1n))
+        .to.emit(contract, "ViewerRevoked")
+        .withArgs(1n, signers.deployer.address)
+        .and.to.emit(contract, "AttributesRekeyed");
+
+      expect((await contract.getViewers(1n)).viewers).to.deep.equal([signers.bob.address]);
+      expect(await canDecrypt(contract, address, 1, signers.deployer)).to.equal(false);
+      expect(await canDecrypt(contract, address, 1, signers.bob)).to.equal(true);
+    });
+
+    it("does not re-grant lapsed viewers on updates", async function () {
+      const { contract, address } = await mintWithViewer([2, 5, 3]);
+
+      const expiresAt = (await time.latest()) + 60;
+      await contract.connect(signers.alice).allowViewer(1n, signers.deployer.address, expiresAt);
+      await time.increaseTo(expiresAt);
+
+      await contract.connect(signers.alice).revokeViewer(1n, signers.bob.address);
+      expect((await contract.getViewers(1n)).viewers).to.deep.equal([signers.deployer.address]);
+      expect(await canDecrypt(contract, address, 1, signers.deployer)).to.equal(false);
+    });
+
+    it("rejects expiries in the past", async function () {
+      const { contract } = await mintWithViewer([2, 5, 3]);
+
+      await expect(
+        contract.connect(signers.alice).allowViewer(1n, signers.deployer.address, await time.latest()),
+      ).to.be.revertedWithCustomError(contract, "InvalidExpiry");
+    });
+
+    it("validates revocations", async function () {
+      const { contract } = await mintWithViewer([2, 5, 3]);
+
+      await expect(contract.connect(signers.bob).revokeViewer(1n, signers.bob.address)).to.be.revertedWithCustomError(
+        contract,
+        "NotAuthorized",
+      );
+      await expect(contract.connect(signers.alice).revokeViewer(1n, signers.deployer.address))
+        .to.be.revertedWithCustomError(contract, "ViewerNotFound")
+        .withArgs(1n, signers.deployer.address);
+    });
+
+    it("drops the previous owner and viewers on transfer", async function () {
+      const { contract, address } = await mintWithViewer([2, 4, 4]);
+
+      await contract.connect(signers.alice).transferFrom(signers.alice.address, signers.deployer.address, 1n);
+
+      expect((await contract.getViewers(1n)).viewers).to.deep.equal([]);
+      expect(await canDecrypt(contract, address, 1, signers.alice)).to.equal(false);
+      expect(await canDecrypt(contract, address, 1, signers.bob)).to.equal(false);
+      expect(await decryptAttributes(contract, address, 1, signers.deployer)).to.deep.equal({
+        agility: 2,
+        strength: 4,
+        stamina: 4,
+      });
+    });
+
+    it("keeps viewer access across attribute updates", async function () {
+      const { contract, address } = await mintWithViewer([2, 5, 3]);
+
+      const updatedAttributes = await encryptAttributes(address, signers.alice, [4, 3, 3]);
+      await contract
+        .connect(signers.alice)
+        .updateAttributes(
+          1n,
+          updatedAttributes.handles[0],
+          updatedAttributes.handles[1],
+          updatedAttributes.handles[2],
+          updatedAttributes.proof,
+        );
+
+      expect(await decryptAttributes(contract, address, 1, signers.bob)).to.deep.equal({
+        agility: 4,
+        strength: 3,
+        stamina: 3,
+      });
+    });
+  });
+
+  describe("batch minting", function () {
+    async function encryptSquad(
+      contractAddress: string,
+      signer: HardhatEthersSigner,
+      squad: [number, number, number][],
+    ) {
+      const input = fhevm.createEncryptedInput(contractAddress, signer.address);
+      for (const distribution of squad) {
+        input.add32(distribution[0]);
+        input.add32(distribution[1]);
+        input.add32(distribution[2]);
+      }
+      return input.encrypt();
+    }
+
+    it("mints one fighter per distribution under a single proof", async function () {
+      const { contract, address } = await deployFixture();
+
+      const encrypted = await encryptSquad(address, signers.alice, [
+        [2, 5, 3],
+        [10, 0, 0],
+        [6, 6, 6],
+      ]);
+      await contract.connect(signers.alice).mintFighters(encrypted.handles, encrypted.inputProof);
+
+      expect((await contract.fightersOf(signers.alice.address)).map(Number)).to.deep.equal([1, 2, 3]);
+      expect(await decryptAttributes(contract, address, 1, signers.alice)).to.deep.equal({
+        agility: 2,
+        strength: 5,
+        stamina: 3,
+      });
+      expect(await decryptAttributes(contract, address, 2, signers.alice)).to.deep.equal({
+        agility: 10,
+        strength: 0,
+        stamina: 0,
+      });
+      expect(await decryptAttributes(contract, address, 3, signers.alice)).to.deep.equal({
+        agility: 4,
+        strength: 3,
+        stamina: 3,
+      });
+      expect(await decryptValidity(contract, 2)).to.equal(true);
+      expect(await decryptValidity(contract, 3)).to.equal(false);
+    });
+
+    it("rejects empty, partial and oversized batches", async function () {
+      const { contract, address } = await deployFixture();
+
+      const partial = fhevm.createEncryptedInput(address, signers.alice.address);
+      partial.add32(4);
+      partial.add32(3);
+      const partialEncrypted = await partial.encrypt();
+      await expect(contract.connect(signers.alice).mintFighters(partialEncrypted.handles, partialEncrypted.inputProof))
+        .to.be.revertedWithCustomError(contract, "InvalidBatchSize")
+        .withArgs(2);
+      await expect(
+        contract.connect(signers.alice).mintFighters([], partialEncrypted.inputProof),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatchSize");
+
+      const oversized = await encryptSquad(address, signers.alice, Array(11).fill([4, 3, 3]));
+      await expect(contract.connect(signers.alice).mintFighters(oversized.handles, oversized.inputProof))
+        .to.be.revertedWithCustomError(contract, "InvalidBatchSize")
+        .withArgs(33);
+    });
+
+    it("costs less gas per fighter than individual mints", async function () {
+      const squad: [number, number, number][] = [
+        [4, 3, 3],
+        [2, 5, 3],
+        [3, 3, 4],
+        [1, 1, 8],
+        [5, 5, 0],
+      ];
+
+      const single = await deployFixture();
+      let singleGas = 0n;
+      for (const distribution of squad) {
+        const encrypted = await encryptAttributes(single.address, signers.alice, distribution);
+        const tx = await single.contract
+          .connect(signers.alice)
+          .mintFighter(encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.proof);
+        singleGas += (await tx.wait())!.gasUsed;
+      }
+
+      const batch = await deployFixture();
+      const encrypted = await encryptSquad(batch.address, signers.alice, squad);
+      const tx = await batch.contract.connect(signers.alice).mintFighters(encrypted.handles, encrypted.inputProof);
+      const batchGas = (await tx.wait())!.gasUsed;
+
+      expect(batchGas).to.be.lessThan(singleGas);
+    });
+  });
+
+  describe("random minting", function () {
+    const ROLLS = 12;
+
+    it("rolls valid distributions that sum to 10", async function () {
+      const { contract, address } = await deployFixture();
+
+      const seen = new Set<string>();
+      for (let tokenId = 1; tokenId <= ROLLS; tokenId++) {
+        await expect(contract.connect(signers.alice).mintRandomFighter())
+          .to.emit(contract, "Transfer")
+          .withArgs(ethers.ZeroAddress, signers.alice.address, tokenId);
+
+        const rolled = await decryptAttributes(contract, address, tokenId, signers.alice);
+        expect(rolled.agility + rolled.strength + rolled.stamina).to.equal(10);
+        for (const value of Object.values(rolled)) {
+          expect(value).to.be.within(0, 10);
+        }
+        expect(await decryptValidity(contract, tokenId)).to.equal(true);
+        seen.add(`${rolled.agility}/${rolled.strength}/${rolled.stamina}`);
+      }
+
+      // Twelve identical rolls out of 66 possible distributions would mean the randomness is not being used.
+      expect(seen.size).to.be.greaterThan(1);
+      expect(await contract.totalSupply()).to.equal(BigInt(ROLLS));
+    });
+
+    it("keeps rolled stats private to the minter", async function () {
+      const { contract, address } = await deployFixture();
+
+      await contract.connect(signers.alice).mintRandomFighter();
+
+      expect(await contract.creatorOf(1n)).to.equal(signers.alice.address);
+      expect(await canDecrypt(contract, address, 1, signers.alice)).to.equal(true);
+      expect(await canDecrypt(contract, address, 1, signers.bob)).to.equal(false);
+    });
+  });
+
+  describe("breeding", function () {
+    const COOLDOWN = 24 * 60 * 60;
+
+    async function mintParents(owner: HardhatEthersSigner, distributions: [number, number, number][]) {
+      const { contract, address } = await deployFixture();
+
+      for (const distribution of distributions) {
+        const encrypted = await encryptAttributes(address, owner, distribution);
+        await contract
+          .connect(owner)
+          .mintFighter(encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.proof);
+      }
+
+      return { contract, address };
+    }
+
+    async function expectWithinBudget(contract: FighterNFT, address: string, tokenId: number) {
+      const child = await decryptAttributes(contract, address, tokenId, signers.alice);
+      expect(child.agility + child.strength + child.stamina).to.equal(10);
+      for (const value of Object.values(child)) {
+        expect(value).to.be.within(0, 10);
+      }
+      return child;
+    }
+
+    it("breeds a child that spends exactly 10 points and records its lineage", async function () {
+      const { contract, address } = await mintParents(signers.alice, [
+        [2, 5, 3],
+        [6, 2, 2],
+      ]);
+
+      await expect(contract.connect(signers.alice).breed(1n, 2n, false))
+        .to.emit(contract, "FighterBred")
+        .withArgs(3n, 1n, 2n, false);
+
+      expect(await contract.ownerOf(3n)).to.equal(signers.alice.address);
+      expect(await contract.totalSupply()).to.equal(3n);
+      expect(await contract.getLineage(3n)).to.deep.equal([1n, 2n, 1n]);
+      expect(await contract.getLineage(1n)).to.deep.equal([0n, 0n, 0n]);
+      expect(await contract.creatorOf(3n)).to.equal(signers.alice.address);
+      expect(await decryptValidity(contract, 3)).to.equal(true);
+      await expectWithinBudget(contract, address, 3);
+      expect(await canDecrypt(contract, address, 3, signers.bob)).to.equal(false);
+
+      const readyAt = BigInt((await time.latest()) + COOLDOWN);
+      expect(await contract.breedingReadyAt(1n)).to.equal(readyAt);
+      expect(await contract.breedingReadyAt(2n)).to.equal(readyAt);
+      expect(await contract.breedingReadyAt(3n)).to.equal(0n);
+
+      const encrypted = await encryptAttributes(address, signers.alice, [4, 3, 3]);
+      await contract
+        .connect(signers.alice)
+        .mintFighter(encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.proof);
+      await contract.connect(signers.alice).breed(3n, 4n, false);
+      expect(await contract.getLineage(5n)).to.deep.equal([3n, 4n, 2n]);
+    });
+
+    it("keeps children of lopsided and trained parents within the budget", async function () {
+      const lopsided = await mintParents(signers.alice, [
+        [10, 0, 0],
+        [10, 0, 0],
+      ]);
+      await lopsided.contract.connect(signers.alice).breed(1n, 2n, false);
+      const child = await expectWithinBudget(lopsided.contract, lopsided.address, 3);
+      // Only a mutation can move a point, and strength has none to give.
+      expect(child.agility).to.be.at.least(9);
+      expect(child.strength).to.equal(0);
+
+      const trained = await mintParents(signers.alice, [
+        [5, 5, 0],
+        [5, 5, 0],
+      ]);
+      await trained.contract.setGameContract(signers.deployer.address, true);
+      for (const tokenId of [1n, 2n]) {
+        await trained.contract.awardExperience(tokenId, 5);
+        await trained.contract.connect(signers.alice).trainAttribute(tokenId, 0);
+      }
+      expect(await decryptAttributes(trained.contract, trained.address, 1, signers.alice)).to.deep.equal({
+        agility: 6,
+        strength: 5,
+        stamina: 0,
+      });
+
+      await trained.contract.connect(signers.alice).breed(1n, 2n, false);
+      await expectWithinBudget(trained.contract, trained.address, 3);
+    });
+
+    it("puts both parents on a cooldown", async function () {
+      const { contract } = await mintParents(signers.alice, [
+        [4, 3, 3],
+        [3, 4, 3],
+      ]);
+
+      await contract.connect(signers.alice).breed(1n, 2n, false);
+      const readyAt = await contract.breedingReadyAt(1n);
+      await expect(contract.connect(signers.alice).breed(2n, 1n, false))
+        .to.be.revertedWithCustomError(contract, "BreedingCooldown")
+        .withArgs(2n, readyAt);
+
+      await time.increaseTo(readyAt);
+      await expect(contract.connect(signers.alice).breed(2n, 1n, false)).to.emit(contract, "FighterBred");
+    });
+
+    it("burns both parents when asked to", async function () {
+      const { contract, address } = await mintParents(signers.alice, [
+        [4, 3, 3],
+        [3, 4, 3],
+      ]);
+
+      await expect(contract.connect(signers.alice).breed(1n, 2n, true))
+        .to.emit(contract, "Transfer")
+        .withArgs(signers.alice.address, ethers.ZeroAddress, 1n);
+
+      await expect(contract.ownerOf(2n)).to.be.revertedWithCustomError(contract, "FighterDoesNotExist").withArgs(2n);
+      expect(await contract.totalSupply()).to.equal(1n);
+      expect((await contract.fightersOf(signers.alice.address)).map(Number)).to.deep.equal([3]);
+      expect(await contract.getLineage(3n)).to.deep.equal([1n, 2n, 1n]);
+      await expectWithinBudget(contract, address, 3);
+    });
+
+    it("validates parents", async function () {
+      const { contract, address } = await mintParents(signers.alice, [
+        [4, 3, 3],
+        [3, 4, 3],
+      ]);
+      const encrypted = await encryptAttributes(address, signers.bob, [4, 3, 3]);
+      await contract
+        .connect(signers.bob)
+        .mintFighter(encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.proof);
+
+      await expect(contract.connect(signers.alice).breed(1n, 1n, false)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidParents",
+      );
+      await expect(contract.connect(signers.alice).breed(1n, 3n, false)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidParents",
+      );
+      await expect(contract.connect(signers.bob).breed(1n, 2n, false)).to.be.revertedWithCustomError(
+        contract,
+        "NotAuthorized",
+      );
+      await expect(contract.connect(signers.alice).breed(1n, 4n, false))
+        .to.be.revertedWithCustomError(contract, "FighterDoesNotExist")
+        .withArgs(4n);
+    });
+  });
+
+  describe("burning", function () {
+    it("destroys the fighter and its encrypted state", async function () {
+      const { contract, address } = await deployFixture();
+
+      const encrypted = await encryptAttributes(address, signers.alice, [4, 3, 3]);
+      await contract
+        .connect(signers.alice)
+        .mintFighter(encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.proof);
+      await contract.connect(signers.alice).allowViewer(1n, signers.bob.address, 0);
+      await contract.setGameContract(signers.deployer.address, true);
+
+      await expect(contract.connect(signers.bob).burn(1n)).to.be.revertedWithCustomError(contract, "NotAuthorized");
+      await contract.connect(signers.alice).approve(signers.bob.address, 1n);
+      await expect(contract.connect(signers.bob).burn(1n))
+        .to.emit(contract, "ViewerRevoked")
+        .withArgs(1n, signers.bob.address)
+        .and.to.emit(contract, "Transfer")
+        .withArgs(signers.alice.address, ethers.ZeroAddress, 1n);
+
+      expect(await contract.balanceOf(signers.alice.address)).to.equal(0n);
+      expect(await contract.fightersOf(signers.alice.address)).to.deep.equal([]);
+      expect(await contract.totalSupply()).to.equal(0n);
+      await expect(contract.getEncryptedAttributes(1n))
+        .to.be.revertedWithCustomError(contract, "FighterDoesNotExist")
+        .withArgs(1n);
+      await expect(contract.burn(1n)).to.be.revertedWithCustomError(contract, "FighterDoesNotExist");
+      // Late experience awards for the burned fighter are ignored rather than reverting.
+      await expect(contract.awardExperience(1n, 10)).not.to.emit(contract, "ExperienceGained");
+    });
+  });
+
+  describe("locking", function () {
+    const LOCK_DURATION = 60 * 60;
+
+    // Mints fighters 1 and 2 for alice and lets the deployer act as the locking game contract.
+    async function lockedFixture() {
+      const { contract, address } = await deployFixture();
+      for (let i = 0; i < 2; i++) {
+        const encrypted = await encryptAttributes(address, signers.alice, [4, 3, 3]);
+        await contract
+          .connect(signers.alice)
+          .mintFighter(encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.proof);
+      }
+      await contract.setGameContract(signers.deployer.address, true);
+      await contract.lockFighter(1n, LOCK_DURATION);
+
+      return { contract, address };
+    }
+
+    it("blocks transfers, approvals, attribute updates, training and burns while locked", async function () {
+      const { contract, address } = await lockedFixture();
+      const { alice, bob, deployer } = signers;
+
+      const expiresAt = BigInt((await time.latest()) + LOCK_DURATION);
+      expect(await contract.getLock(1n)).to.deep.equal([deployer.address, expiresAt]);
+      expect(await contract.lockerOf(2n)).to.equal(ethers.ZeroAddress);
+
+      await expect(contract.connect(alice).transferFrom(alice.address, bob.address, 1n))
+        .to.be.revertedWithCustomError(contract, "FighterLocked")
+        .withArgs(1n, deployer.address);
+      await expect(
+        contract.connect(alice)["safeTransferFrom(address,address,uint256)"](alice.address, bob.address, 1n),
+      ).to.be.revertedWithCustomError(contract, "FighterLocked");
+      await expect(
+        contract
+          .connect(alice)
+          ["safeTransferFrom(address,address,uint256,bytes)"](alice.address, bob.address, 1n, "0x"),
+      ).to.be.revertedWithCustomError(contract, "FighterLocked");
+      await expect(contract.connect(alice).approve(bob.address, 1n))
+        .to.be.revertedWithCustomError(contract, "FighterLocked")
+        .withArgs(1n, deployer.address);
+
+      const encrypted = await encryptAttributes(address, alice, [3, 4, 3]);
+      await expect(
+        contract
+          .connect(alice)
+          .updateAttributes(1n, encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.proof),
+      ).to.be.revertedWithCustomError(contract, "FighterLocked");
+
+      await contract.awardExperience(1n, 5);
+      await expect(contract.connect(alice).trainAttribute(1n, STRENGTH))
+        .to.be.revertedWithCustomError(contract, "FighterLocked")
+        .withArgs(1n, deployer.address);
+
+      await expect(contract.connect(alice).burn(1n)).to.be.revertedWithCustomError(contract, "FighterLocked");
+      await expect(contract.connect(alice).breed(1n, 2n, true)).to.be.revertedWithCustomError(
+        contract,
+        "FighterLocked",
+      );
+
+      // An operator approved before the lock is blocked as well.
+      await contract.connect(alice).setApprovalForAll(bob.address, true);
+      await expect(contract.connect(bob).transferFrom(alice.address, bob.address, 1n)).to.be.revertedWithCustomError(
+        contract,
+        "FighterLocked",
+      );
+
+      // The other fighter is unaffected.
+      await contract.connect(alice).approve(bob.address, 2n);
+      await contract.connect(bob).transferFrom(alice.address, bob.address, 2n);
+      expect(await contract.ownerOf(2n)).to.equal(bob.address);
+    });
+
+    it("only lets game contracts lock and the locker unlock", async function () {
+      const { contract } = await lockedFixture();
+      const { alice, bob, deployer } = signers;
+
+      await expect(contract.connect(alice).lockFighter(2n, LOCK_DURATION)).to.be.revertedWithCustomError(
+        contract,
+        "NotAuthorized",
+      );
+      await expect(contract.lockFighter(2n, 0))
+        .to.be.revertedWithCustomError(contract, "InvalidLockDuration")
+        .withArgs(0);
+      const maxDuration = await contract.maxLockDuration();
+      await expect(contract.lockFighter(2n, maxDuration + 1n))
+        .to.be.revertedWithCustomError(contract, "InvalidLockDuration")
+        .withArgs(maxDuration + 1n);
+
+      // A second game contract cannot take over a held lock.
+      await contract.setGameContract(bob.address, true);
+      await expect(contract.connect(bob).lockFighter(1n, LOCK_DURATION))
+        .to.be.revertedWithCustomError(contract, "FighterLocked")
+        .withArgs(1n, deployer.address);
+
+      await expect(contract.connect(alice).unlockFighter(1n)).to.be.revertedWithCustomError(contract, "NotAuthorized");
+      await expect(contract.connect(bob).unlockFighter(1n)).to.be.revertedWithCustomError(contract, "NotAuthorized");
+      await expect(contract.unlockFighter(1n)).to.emit(contract, "FighterLockReleased").withArgs(1n, deployer.address);
+
+      expect(await contract.getLock(1n)).to.deep.equal([ethers.ZeroAddress, 0n]);
+      await contract.connect(alice).transferFrom(alice.address, bob.address, 1n);
+      expect(await contract.ownerOf(1n)).to.equal(bob.address);
+    });
+
+    it("releases the fighter once the lock times out", async function () {
+      const { contract } = await lockedFixture();
+      const { alice, bob, deployer } = signers;
+
+      await time.increase(LOCK_DURATION);
+
+      expect(await contract.lockerOf(1n)).to.equal(ethers.ZeroAddress);
+      await contract.connect(alice).approve(bob.address, 1n);
+      await contract.connect(bob).transferFrom(alice.address, bob.address, 1n);
+
+      // The lapsed lock no longer blocks other games, and its former holder cannot release the new one.
+      await contract.setGameContract(bob.address, true);
+      await expect(contract.connect(bob).lockFighter(1n, LOCK_DURATION))
+        .to.emit(contract, "FighterLockAcquired")
+        .withArgs(1n, bob.address, BigInt((await time.latest()) + 1 + LOCK_DURATION));
+      await expect(contract.connect(deployer).unlockFighter(1n)).to.be.revertedWithCustomError(
+        contract,
+        "NotAuthorized",
+      );
+      expect(await contract.lockerOf(1n)).to.equal(bob.address);
+    });
+  });
 });
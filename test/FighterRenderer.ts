@@ -0,0 +1,111 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { FighterRenderer, FighterRenderer__factory } from "../types";
+import { deployFighters, mintFighter } from "./helpers";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+};
+
+type Trait = {
+  trait_type: string;
+  display_type?: string;
+  value: string | number;
+};
+
+type Metadata = {
+  name: string;
+  description: string;
+  image: string;
+  attributes: Trait[];
+};
+
+async function deployFixture() {
+  const { fighters, fightersAddress } = await deployFighters();
+
+  const rendererFactory = (await ethers.getContractFactory("FighterRenderer")) as FighterRenderer__factory;
+  const renderer = (await rendererFactory.deploy(fightersAddress)) as FighterRenderer;
+
+  await fighters.setRenderer(await renderer.getAddress());
+
+  return { fighters, fightersAddress, renderer };
+}
+
+function decodeDataUri(uri: string, mimeType: string): string {
+  const prefix = `data:${mimeType};base64,`;
+  expect(uri.startsWith(prefix)).to.equal(true);
+  return Buffer.from(uri.slice(prefix.length), "base64").toString("utf8");
+}
+
+function parseMetadata(uri: string): Metadata {
+  return JSON.parse(decodeDataUri(uri, "application/json")) as Metadata;
+}
+
+describe("FighterRenderer", function () {
+  let signers: Signers;
+
+  before(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+
+    const accounts: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: accounts[0], alice: accounts[1] };
+  });
+
+  it("renders encrypted traits until the fighter is revealed", async function () {
+    const { fighters, fightersAddress } = await deployFixture();
+
+    await mintFighter(fighters, fightersAddress, signers.alice, [2, 5, 3]);
+
+    const metadata = parseMetadata(await fighters.tokenURI(1n));
+    expect(metadata.name).to.equal("Encrypted Fighter #1");
+    expect(metadata.attributes).to.deep.equal([
+      { trait_type: "Generation", display_type: "number", value: 0 },
+      { trait_type: "Agility", value: "Encrypted" },
+      { trait_type: "Strength", value: "Encrypted" },
+      { trait_type: "Stamina", value: "Encrypted" },
+    ]);
+
+    const svg = decodeDataUri(metadata.image, "image/svg+xml");
+    expect(svg).to.match(/^<svg /);
+    expect(svg).to.contain("Encrypted Fighter #1");
+    expect(svg).to.contain("Generation 0");
+    expect(svg).to.contain("Agility: Encrypted");
+  });
+
+  it("renders revealed traits as numbers", async function () {
+    const { fighters, fightersAddress } = await deployFixture();
+
+    await mintFighter(fighters, fightersAddress, signers.alice, [2, 5, 3]);
+    await fighters.connect(signers.alice).revealAttributes(1n);
+    await fhevm.awaitDecryptionOracle();
+
+    const metadata = parseMetadata(await fighters.tokenURI(1n));
+    expect(metadata.attributes.slice(1)).to.deep.equal([
+      { trait_type: "Agility", value: 2 },
+      { trait_type: "Strength", value: 5 },
+      { trait_type: "Stamina", value: 3 },
+    ]);
+
+    const svg = decodeDataUri(metadata.image, "image/svg+xml");
+    expect(svg).to.contain("Strength: 5");
+  });
+
+  it("is configured by the admin and rejects unknown tokens", async function () {
+    const { fighters, fightersAddress } = await deployFixture();
+
+    await mintFighter(fighters, fightersAddress, signers.alice, [4, 3, 3]);
+
+    await expect(fighters.connect(signers.alice).setRenderer(signers.alice.address)).to.be.revertedWithCustomError(
+      fighters,
+      "NotAuthorized",
+    );
+    await expect(fighters.tokenURI(2n)).to.be.revertedWithCustomError(fighters, "FighterDoesNotExist");
+
+    await fighters.setRenderer(ethers.ZeroAddress);
+    expect(await fighters.tokenURI(1n)).to.equal("");
+  });
+});
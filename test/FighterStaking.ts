@@ -0,0 +1,225 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { FighterNFT, FighterRewardToken, FighterStaking, FighterStaking__factory } from "../types";
+import { deployFighters, mintFighter } from "./helpers";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const { fighters, fightersAddress } = await deployFighters();
+
+  const stakingFactory = (await ethers.getContractFactory("FighterStaking")) as FighterStaking__factory;
+  const staking = (await stakingFactory.deploy(fightersAddress)) as FighterStaking;
+  const stakingAddress = await staking.getAddress();
+
+  const rewardToken = (await ethers.getContractAt(
+    "FighterRewardToken",
+    await staking.rewardToken(),
+  )) as unknown as FighterRewardToken;
+
+  return { fighters, fightersAddress, staking, stakingAddress, rewardToken };
+}
+
+async function stake(fighters: FighterNFT, stakingAddress: string, signer: HardhatEthersSigner, tokenId: bigint) {
+  return fighters.connect(signer)["safeTransferFrom(address,address,uint256)"](signer.address, stakingAddress, tokenId);
+}
+
+async function decryptPending(staking: FighterStaking, stakingAddress: string, signer: HardhatEthersSigner) {
+  const [, pendingRewards] = await staking.getStaker(signer.address);
+  return fhevm.userDecryptEuint(FhevmType.euint64, pendingRewards, stakingAddress, signer);
+}
+
+describe("FighterStaking", function () {
+  let signers: Signers;
+
+  before(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+
+    const accounts: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: accounts[0], alice: accounts[1], bob: accounts[2] };
+  });
+
+  it("stakes a fighter and accrues encrypted rewards from its power score", async function () {
+    const { fighters, fightersAddress, staking, stakingAddress } = await deployFixture();
+    const rate = await staking.rewardRate();
+
+    await mintFighter(fighters, fightersAddress, signers.alice, [4, 3, 3]);
+    await expect(stake(fighters, stakingAddress, signers.alice, 1n))
+      .to.emit(staking, "FighterStaked")
+      .withArgs(1n, signers.alice.address);
+
+    expect(await fighters.ownerOf(1n)).to.equal(stakingAddress);
+    expect(await staking.stakerOf(1n)).to.equal(signers.alice.address);
+    expect(await staking.stakedTokensOf(signers.alice.address)).to.deep.equal([1n]);
+
+    // 4 agility + 2 * 3 strength + 3 stamina.
+    const powerHandle = await staking.getPower(1n);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, powerHandle, stakingAddress, signers.alice)).to.equal(13n);
+
+    const [, , stakedAt] = await staking.getStaker(signers.alice.address);
+    await time.increase(100);
+    await staking.connect(signers.alice).checkpoint();
+    const [, , accruedUntil] = await staking.getStaker(signers.alice.address);
+
+    expect(await decryptPending(staking, stakingAddress, signers.alice)).to.equal(
+      13n * (accruedUntil - stakedAt) * rate,
+    );
+
+    // Neither the power score nor the rewards can be decrypted by anyone else.
+    await expect(fhevm.userDecryptEuint(FhevmType.euint64, powerHandle, stakingAddress, signers.bob)).to.be.rejected;
+    const [, alicePending] = await staking.getStaker(signers.alice.address);
+    await expect(fhevm.userDecryptEuint(FhevmType.euint64, alicePending, stakingAddress, signers.bob)).to.be.rejected;
+  });
+
+  it("weights emissions by power", async function () {
+    const { fighters, fightersAddress, staking, stakingAddress } = await deployFixture();
+
+    // Power 20 against power 10.
+    await mintFighter(fighters, fightersAddress, signers.alice, [0, 10, 0]);
+    await mintFighter(fighters, fightersAddress, signers.bob, [10, 0, 0]);
+    await stake(fighters, stakingAddress, signers.alice, 1n);
+    await stake(fighters, stakingAddress, signers.bob, 2n);
+    const [, , aliceSince] = await staking.getStaker(signers.alice.address);
+    const [, , bobSince] = await staking.getStaker(signers.bob.address);
+
+    await time.increase(1000);
+    await staking.connect(signers.alice).checkpoint();
+    await staking.connect(signers.bob).checkpoint();
+    const [, , aliceUntil] = await staking.getStaker(signers.alice.address);
+    const [, , bobUntil] = await staking.getStaker(signers.bob.address);
+
+    const rate = await staking.rewardRate();
+    expect(await decryptPending(staking, stakingAddress, signers.alice)).to.equal(
+      20n * rate * (aliceUntil - aliceSince),
+    );
+    expect(await decryptPending(staking, stakingAddress, signers.bob)).to.equal(10n * rate * (bobUntil - bobSince));
+  });
+
+  it("mints the encrypted rewards on claim", async function () {
+    const { fighters, fightersAddress, staking, stakingAddress, rewardToken } = await deployFixture();
+    const rewardTokenAddress = await rewardToken.getAddress();
+
+    await mintFighter(fighters, fightersAddress, signers.alice, [4, 3, 3]);
+    await stake(fighters, stakingAddress, signers.alice, 1n);
+    const [, , stakedAt] = await staking.getStaker(signers.alice.address);
+    await time.increase(500);
+
+    await expect(staking.connect(signers.bob).claimRewards()).to.be.revertedWithCustomError(staking, "NothingToClaim");
+
+    await expect(staking.connect(signers.alice).claimRewards())
+      .to.emit(staking, "RewardsClaimed")
+      .withArgs(signers.alice.address);
+    const [, , claimedAt] = await staking.getStaker(signers.alice.address);
+
+    const rate = await staking.rewardRate();
+    const claimed = 13n * rate * (claimedAt - stakedAt);
+    const balance = await rewardToken.confidentialBalanceOf(signers.alice.address);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, balance, rewardTokenAddress, signers.alice)).to.equal(
+      claimed,
+    );
+
+    // The pending balance restarts from zero at the claim.
+    await staking.connect(signers.alice).checkpoint();
+    const [, , accruedUntil] = await staking.getStaker(signers.alice.address);
+    expect(await decryptPending(staking, stakingAddress, signers.alice)).to.equal(
+      13n * rate * (accruedUntil - claimedAt),
+    );
+
+    await expect(rewardToken.mint(signers.alice.address, balance)).to.be.revertedWithCustomError(
+      rewardToken,
+      "NotAuthorized",
+    );
+
+    const input = fhevm.createEncryptedInput(rewardTokenAddress, signers.alice.address);
+    input.add64(claimed);
+    const encrypted = await input.encrypt();
+    await rewardToken
+      .connect(signers.alice)
+      ["confidentialTransfer(address,bytes32,bytes)"](signers.bob.address, encrypted.handles[0], encrypted.inputProof);
+    const bobBalance = await rewardToken.confidentialBalanceOf(signers.bob.address);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, bobBalance, rewardTokenAddress, signers.bob)).to.equal(
+      claimed,
+    );
+  });
+
+  it("does not reveal a single staked fighter's strength on claim", async function () {
+    const { fighters, fightersAddress, staking, stakingAddress, rewardToken } = await deployFixture();
+    const rewardTokenAddress = await rewardToken.getAddress();
+
+    await mintFighter(fighters, fightersAddress, signers.alice, [1, 8, 1]);
+    await stake(fighters, stakingAddress, signers.alice, 1n);
+    await time.increase(500);
+    const receipt = await (await staking.connect(signers.alice).claimRewards()).wait();
+
+    // Neither the claim nor the mint carries a plaintext amount the power score could be derived from.
+    const minted = await rewardToken.queryFilter(rewardToken.filters.ConfidentialTransfer(), receipt!.blockNumber);
+    expect(minted).to.have.length(1);
+    const amount = minted[0].args.amount;
+    await expect(fhevm.publicDecryptEuint(FhevmType.euint64, amount)).to.be.rejected;
+    await expect(fhevm.userDecryptEuint(FhevmType.euint64, amount, rewardTokenAddress, signers.bob)).to.be.rejected;
+
+    const balance = await rewardToken.confidentialBalanceOf(signers.alice.address);
+    await expect(fhevm.publicDecryptEuint(FhevmType.euint64, balance)).to.be.rejected;
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, amount, rewardTokenAddress, signers.alice)).to.equal(
+      await fhevm.userDecryptEuint(FhevmType.euint64, balance, rewardTokenAddress, signers.alice),
+    );
+  });
+
+  it("returns the fighter on unstake and stops its emissions", async function () {
+    const { fighters, fightersAddress, staking, stakingAddress } = await deployFixture();
+
+    await mintFighter(fighters, fightersAddress, signers.alice, [4, 3, 3]);
+    await mintFighter(fighters, fightersAddress, signers.alice, [0, 10, 0]);
+    await stake(fighters, stakingAddress, signers.alice, 1n);
+    await stake(fighters, stakingAddress, signers.alice, 2n);
+
+    const [powerHandle] = await staking.getStaker(signers.alice.address);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, powerHandle, stakingAddress, signers.alice)).to.equal(33n);
+
+    await expect(staking.connect(signers.bob).unstake(1n)).to.be.revertedWithCustomError(staking, "NotAuthorized");
+    await expect(staking.connect(signers.alice).unstake(1n))
+      .to.emit(staking, "FighterUnstaked")
+      .withArgs(1n, signers.alice.address);
+
+    expect(await fighters.ownerOf(1n)).to.equal(signers.alice.address);
+    expect(await staking.stakerOf(1n)).to.equal(ethers.ZeroAddress);
+    expect(await staking.stakedTokensOf(signers.alice.address)).to.deep.equal([2n]);
+    await expect(staking.getPower(1n)).to.be.revertedWithCustomError(staking, "NotStaked").withArgs(1n);
+
+    // Transfers re-key the attributes, so the owner can decrypt the fighter again.
+    const [agility] = await fighters.getEncryptedAttributes(1n);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, agility, fightersAddress, signers.alice)).to.equal(4n);
+
+    const [remainingPower] = await staking.getStaker(signers.alice.address);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, remainingPower, stakingAddress, signers.alice)).to.equal(
+      20n,
+    );
+
+    await staking.connect(signers.alice).unstake(2n);
+    const [, , unstakedAt] = await staking.getStaker(signers.alice.address);
+    const pending = await decryptPending(staking, stakingAddress, signers.alice);
+
+    await time.increase(1000);
+    await staking.connect(signers.alice).checkpoint();
+    expect((await staking.getStaker(signers.alice.address)).accruedUntil).to.be.greaterThan(unstakedAt);
+    expect(await decryptPending(staking, stakingAddress, signers.alice)).to.equal(pending);
+  });
+
+  it("only accepts fighters sent by FighterNFT", async function () {
+    const { staking } = await deployFixture();
+
+    await expect(
+      staking.connect(signers.alice).onERC721Received(signers.alice.address, signers.alice.address, 1n, "0x"),
+    ).to.be.revertedWithCustomError(staking, "NotAuthorized");
+    expect(await staking.stakedTokensOf(signers.alice.address)).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,330 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { FighterTournament, FighterTournament__factory } from "../types";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployFighters, Distribution, mintFighter } from "./helpers";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+const ENTRY_FEE = ethers.parseEther("0.01");
+const STATUS_RUNNING = 2n;
+const STATUS_COMPLETED = 3n;
+const STATUS_CANCELLED = 4n;
+
+// Identical fighters always draw, and a draw sends the lower slot through.
+const AVERAGE: Distribution = [4, 3, 3];
+// Deals 7 damage to an average fighter and takes 3.
+const BRAWLER: Distribution = [0, 10, 0];
+
+async function deployFixture() {
+  const { fighters, fightersAddress } = await deployFighters();
+
+  const tournamentFactory = (await ethers.getContractFactory("FighterTournament")) as FighterTournament__factory;
+  const tournament = (await tournamentFactory.deploy(fightersAddress)) as FighterTournament;
+  const tournamentAddress = await tournament.getAddress();
+
+  await fighters.setGameContract(tournamentAddress, true);
+
+  return { fighters, fightersAddress, tournament, tournamentAddress };
+}
+
+describe("FighterTournament", function () {
+  let signers: Signers;
+
+  before(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+
+    const accounts: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: accounts[0], alice: accounts[1], bob: accounts[2], carol: accounts[3] };
+  });
+
+  // Mints one fighter per entry, alternating between alice and bob, and registers them in order.
+  async function fillBracket(size: number, entries: Distribution[]) {
+    const fixture = await deployFixture();
+    const { fighters, fightersAddress, tournament } = fixture;
+
+    await tournament.connect(signers.carol).createTournament(size, ENTRY_FEE);
+    for (let i = 0; i < entries.length; i++) {
+      const owner = i % 2 === 0 ? signers.alice : signers.bob;
+      await mintFighter(fighters, fightersAddress, owner, entries[i]);
+      await tournament.connect(owner).register(1n, BigInt(i + 1), { value: ENTRY_FEE });
+    }
+
+    return fixture;
+  }
+
+  async function playToCompletion(tournament: FighterTournament) {
+    while ((await tournament.getTournament(1n)).status !== STATUS_COMPLETED) {
+      await tournament.playRound(1n);
+      await fhevm.awaitDecryptionOracle();
+    }
+  }
+
+  it("advances winners round by round and pays the prize pool to the champion", async function () {
+    const entries: Distribution[] = Array(8).fill(AVERAGE);
+    entries[5] = BRAWLER;
+    const { fighters, tournament } = await fillBracket(8, entries);
+
+    await expect(tournament.playRound(1n)).to.emit(tournament, "RoundStarted");
+    expect((await tournament.getTournament(1n)).status).to.equal(STATUS_RUNNING);
+    await fhevm.awaitDecryptionOracle();
+
+    expect(await tournament.getRound(1n, 1)).to.deep.equal([1n, 3n, 6n, 7n]);
+    // Eliminated fighters are released straight away.
+    expect(await fighters.lockerOf(2n)).to.equal(ethers.ZeroAddress);
+    expect(await fighters.lockerOf(6n)).to.equal(await tournament.getAddress());
+
+    await playToCompletion(tournament);
+
+    expect(await tournament.getRound(1n, 2)).to.deep.equal([1n, 6n]);
+    expect(await tournament.getRound(1n, 3)).to.deep.equal([6n]);
+
+    const completed = await tournament.getTournament(1n);
+    expect(completed.champion).to.equal(6n);
+    expect(completed.prizeRecipient).to.equal(signers.bob.address);
+    expect(await fighters.lockerOf(6n)).to.equal(ethers.ZeroAddress);
+
+    await expect(tournament.connect(signers.alice).withdraw(1n)).to.be.revertedWithCustomError(
+      tournament,
+      "NothingToClaim",
+    );
+    await expect(tournament.connect(signers.bob).withdraw(1n)).to.changeEtherBalance(signers.bob, ENTRY_FEE * 8n);
+    await expect(tournament.connect(signers.bob).withdraw(1n)).to.be.revertedWithCustomError(
+      tournament,
+      "NothingToClaim",
+    );
+  });
+
+  it("runs a 16-fighter bracket in four rounds", async function () {
+    const entries: Distribution[] = Array(16).fill(AVERAGE);
+    entries[11] = BRAWLER;
+    const { tournament } = await fillBracket(16, entries);
+
+    await playToCompletion(tournament);
+
+    expect(await tournament.getRound(1n, 1)).to.deep.equal([1n, 3n, 5n, 7n, 9n, 12n, 13n, 15n]);
+    expect(await tournament.getRound(1n, 4)).to.deep.equal([12n]);
+    expect((await tournament.getTournament(1n)).currentRound).to.equal(4n);
+  });
+
+  it("locks registered fighters against transfers and attribute updates", async function () {
+    const { fighters, fightersAddress, tournament } = await fillBracket(8, [AVERAGE]);
+    const tournamentAddress = await tournament.getAddress();
+
+    await expect(fighters.connect(signers.alice).transferFrom(signers.alice.address, signers.bob.address, 1n))
+      .to.be.revertedWithCustomError(fighters, "FighterLocked")
+      .withArgs(1n, tournamentAddress);
+
+    const input = fhevm.createEncryptedInput(fightersAddress, signers.alice.address);
+    input.add32(3);
+    input.add32(4);
+    input.add32(3);
+    const encrypted = await input.encrypt();
+    await expect(
+      fighters
+        .connect(signers.alice)
+        .updateAttributes(1n, encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.inputProof),
+    ).to.be.revertedWithCustomError(fighters, "FighterLocked");
+
+    await expect(fighters.connect(signers.alice).burn(1n)).to.be.revertedWithCustomError(fighters, "FighterLocked");
+    // Only the locking contract can release the fighter.
+    await expect(fighters.connect(signers.alice).unlockFighter(1n)).to.be.revertedWithCustomError(
+      fighters,
+      "NotAuthorized",
+    );
+  });
+
+  it("refunds entry fees and unlocks fighters when the organizer cancels", async function () {
+    const { fighters, tournament } = await fillBracket(8, [AVERAGE, AVERAGE, AVERAGE]);
+
+    await expect(tournament.connect(signers.alice).cancelTournament(1n)).to.be.revertedWithCustomError(
+      tournament,
+      "NotAuthorized",
+    );
+    await expect(tournament.connect(signers.carol).cancelTournament(1n)).to.emit(tournament, "TournamentCancelled");
+    expect((await tournament.getTournament(1n)).status).to.equal(STATUS_CANCELLED);
+
+    await fighters.connect(signers.alice).transferFrom(signers.alice.address, signers.carol.address, 1n);
+    await expect(tournament.connect(signers.alice).withdraw(1n)).to.changeEtherBalance(signers.alice, ENTRY_FEE * 2n);
+    await expect(tournament.connect(signers.bob).withdraw(1n)).to.changeEtherBalance(signers.bob, ENTRY_FEE);
+    await expect(tournament.connect(signers.bob).withdraw(1n)).to.be.revertedWithCustomError(
+      tournament,
+      "NothingToClaim",
+    );
+    await expect(tournament.playRound(1n))
+      .to.be.revertedWithCustomError(tournament, "InvalidTournamentStatus")
+      .withArgs(1n);
+  });
+
+  it("lets entrants withdraw their fees and fighters once registration lapses", async function () {
+    const { fighters, fightersAddress, tournament } = await fillBracket(8, [AVERAGE, AVERAGE, AVERAGE]);
+    await tournament.connect(signers.carol).createTournament(8, 0);
+    await mintFighter(fighters, fightersAddress, signers.bob, AVERAGE);
+    await tournament.connect(signers.bob).register(2n, 4n);
+
+    await expect(tournament.connect(signers.alice).withdraw(1n))
+      .to.be.revertedWithCustomError(tournament, "InvalidTournamentStatus")
+      .withArgs(1n);
+    await expect(tournament.connect(signers.alice).cancelTournament(1n)).to.be.revertedWithCustomError(
+      tournament,
+      "NotAuthorized",
+    );
+
+    await time.increase(await tournament.registrationPeriod());
+    await mintFighter(fighters, fightersAddress, signers.bob, AVERAGE);
+    await expect(tournament.connect(signers.bob).register(1n, 5n, { value: ENTRY_FEE }))
+      .to.be.revertedWithCustomError(tournament, "RegistrationClosed")
+      .withArgs(1n);
+
+    // The first withdrawal calls the tournament off and releases every entrant.
+    await expect(tournament.connect(signers.alice).withdraw(1n)).to.changeEtherBalance(signers.alice, ENTRY_FEE * 2n);
+    expect((await tournament.getTournament(1n)).status).to.equal(STATUS_CANCELLED);
+    for (const tokenId of [1n, 2n, 3n]) {
+      expect(await fighters.lockerOf(tokenId)).to.equal(ethers.ZeroAddress);
+    }
+    await expect(tournament.connect(signers.bob).withdraw(1n)).to.changeEtherBalance(signers.bob, ENTRY_FEE);
+
+    // Without fees to withdraw, entrants cancel the lapsed tournament themselves.
+    await expect(tournament.connect(signers.bob).cancelTournament(2n)).to.emit(tournament, "TournamentCancelled");
+    expect(await fighters.lockerOf(4n)).to.equal(ethers.ZeroAddress);
+  });
+
+  it("lets anyone cancel a running bracket that misses its deadline", async function () {
+    const { fighters, tournament } = await fillBracket(8, Array(8).fill(AVERAGE));
+
+    await tournament.playRound(1n);
+    await fhevm.awaitDecryptionOracle();
+    // The oracle never answers the second round.
+    await tournament.playRound(1n);
+    const { requestId } = await tournament.getTournament(1n);
+
+    await expect(tournament.connect(signers.alice).cancelTournament(1n)).to.be.revertedWithCustomError(
+      tournament,
+      "NotAuthorized",
+    );
+    await time.increase(await tournament.runningPeriod());
+
+    await expect(tournament.connect(signers.alice).cancelTournament(1n)).to.emit(tournament, "TournamentCancelled");
+    expect((await tournament.getTournament(1n)).status).to.equal(STATUS_CANCELLED);
+    expect(await tournament.isDecryptionPending(requestId)).to.equal(false);
+    // A late answer to the dropped round reverts instead of advancing the bracket.
+    await expect(fhevm.awaitDecryptionOracle()).to.be.revertedWithCustomError(tournament, "UnknownDecryptionRequest");
+    for (let tokenId = 1n; tokenId <= 8n; tokenId++) {
+      expect(await fighters.lockerOf(tokenId)).to.equal(ethers.ZeroAddress);
+    }
+
+    await expect(tournament.connect(signers.alice).withdraw(1n)).to.changeEtherBalance(signers.alice, ENTRY_FEE * 4n);
+    await expect(tournament.connect(signers.bob).withdraw(1n)).to.changeEtherBalance(signers.bob, ENTRY_FEE * 4n);
+  });
+
+  it("stops playing rounds after the running deadline and cancels on the first withdrawal", async function () {
+    const { tournament } = await fillBracket(8, Array(8).fill(AVERAGE));
+
+    await tournament.playRound(1n);
+    await fhevm.awaitDecryptionOracle();
+    await time.increase(await tournament.runningPeriod());
+
+    await expect(tournament.playRound(1n))
+      .to.be.revertedWithCustomError(tournament, "RunningDeadlinePassed")
+      .withArgs(1n);
+    await expect(tournament.connect(signers.bob).withdraw(1n)).to.changeEtherBalance(signers.bob, ENTRY_FEE * 4n);
+    expect((await tournament.getTournament(1n)).status).to.equal(STATUS_CANCELLED);
+  });
+
+  it("renews locks each round and forfeits fighters that were burned or locked elsewhere", async function () {
+    const { fighters, tournament } = await fillBracket(8, Array(8).fill(AVERAGE));
+    const tournamentAddress = await tournament.getAddress();
+
+    // Nobody starts the full bracket until every registration lock has lapsed.
+    await time.increase(31 * 24 * 60 * 60);
+    await fighters.connect(signers.bob).burn(2n);
+    await fighters.setGameContract(signers.deployer.address, true);
+    await fighters.lockFighter(3n, 60 * 60);
+
+    await tournament.playRound(1n);
+    await fhevm.awaitDecryptionOracle();
+
+    expect(await tournament.getRound(1n, 1)).to.deep.equal([1n, 4n, 5n, 7n]);
+    expect(await fighters.lockerOf(1n)).to.equal(tournamentAddress);
+    expect(await fighters.lockerOf(3n)).to.equal(signers.deployer.address);
+
+    await playToCompletion(tournament);
+    expect((await tournament.getTournament(1n)).champion).to.equal(1n);
+  });
+
+  it("refunds every entrant when the champion no longer exists", async function () {
+    const { fighters, tournament } = await fillBracket(8, Array(8).fill(AVERAGE));
+
+    for (let round = 0; round < 2; round++) {
+      await tournament.playRound(1n);
+      await fhevm.awaitDecryptionOracle();
+    }
+    expect(await tournament.getRound(1n, 2)).to.deep.equal([1n, 5n]);
+
+    // The final is decrypted only after the renewed locks lapsed and the winner was burned.
+    await tournament.playRound(1n);
+    await time.increase(31 * 24 * 60 * 60);
+    await fighters.connect(signers.alice).burn(1n);
+    await fhevm.awaitDecryptionOracle();
+
+    expect((await tournament.getTournament(1n)).status).to.equal(STATUS_CANCELLED);
+    expect(await fighters.lockerOf(5n)).to.equal(ethers.ZeroAddress);
+    await expect(tournament.connect(signers.alice).withdraw(1n)).to.changeEtherBalance(signers.alice, ENTRY_FEE * 4n);
+  });
+
+  it("validates brackets, registrations and rounds", async function () {
+    const { fighters, fightersAddress, tournament } = await deployFixture();
+
+    await expect(tournament.createTournament(4, ENTRY_FEE))
+      .to.be.revertedWithCustomError(tournament, "InvalidBracketSize")
+      .withArgs(4);
+    await tournament.connect(signers.carol).createTournament(8, ENTRY_FEE);
+    await tournament.connect(signers.carol).createTournament(8, 0);
+
+    await mintFighter(fighters, fightersAddress, signers.alice, AVERAGE);
+    await expect(tournament.connect(signers.alice).register(1n, 1n)).to.be.revertedWithCustomError(
+      tournament,
+      "IncorrectEntryFee",
+    );
+    await expect(tournament.connect(signers.bob).register(1n, 1n, { value: ENTRY_FEE })).to.be.revertedWithCustomError(
+      tournament,
+      "NotAuthorized",
+    );
+
+    await tournament.connect(signers.alice).register(1n, 1n, { value: ENTRY_FEE });
+    await expect(tournament.connect(signers.alice).register(2n, 1n)).to.be.revertedWithCustomError(
+      fighters,
+      "FighterLocked",
+    );
+    await expect(tournament.playRound(1n)).to.be.revertedWithCustomError(tournament, "TournamentNotFull").withArgs(1n);
+    await expect(tournament.getTournament(3n)).to.be.revertedWithCustomError(tournament, "TournamentDoesNotExist");
+
+    for (let tokenId = 2n; tokenId <= 8n; tokenId++) {
+      await mintFighter(fighters, fightersAddress, signers.bob, AVERAGE);
+      await tournament.connect(signers.bob).register(1n, tokenId, { value: ENTRY_FEE });
+    }
+    await mintFighter(fighters, fightersAddress, signers.bob, AVERAGE);
+    await expect(tournament.connect(signers.bob).register(1n, 9n, { value: ENTRY_FEE }))
+      .to.be.revertedWithCustomError(tournament, "TournamentFull")
+      .withArgs(1n);
+
+    await tournament.playRound(1n);
+    await expect(tournament.playRound(1n)).to.be.revertedWithCustomError(tournament, "RoundPending").withArgs(1n);
+    // Not even the organizer can call off a running bracket before its deadline.
+    await expect(tournament.connect(signers.carol).cancelTournament(1n)).to.be.revertedWithCustomError(
+      tournament,
+      "NotAuthorized",
+    );
+    await expect(tournament.connect(signers.bob).withdraw(1n))
+      .to.be.revertedWithCustomError(tournament, "InvalidTournamentStatus")
+      .withArgs(1n);
+  });
+});
@@ -0,0 +1,31 @@
+import { expect } from "chai";
+import fs from "fs";
+import hre from "hardhat";
+import os from "os";
+import path from "path";
+
+describe("UI ABIs", function () {
+  let outDir: string;
+
+  before(function () {
+    outDir = fs.mkdtempSync(path.join(os.tmpdir(), "fighter-abi-"));
+  });
+
+  after(function () {
+    fs.rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it("match the compiled contracts", async function () {
+    await hre.run("fighter:export-abi", { check: true });
+  });
+
+  it("fails the check once a contract's ABI changes", async function () {
+    const out = path.join(outDir, "abis.ts");
+    await hre.run("fighter:export-abi", { out });
+    fs.writeFileSync(out, fs.readFileSync(out, "utf8").replace('"name": "fightersOf"', '"name": "fightersOfOwner"'));
+
+    await expect(hre.run("fighter:export-abi", { out, check: true })).to.be.rejectedWith(
+      /is out of date with the compiled contracts \(FighterNFT\)/,
+    );
+  });
+});
@@ -0,0 +1,32 @@
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { FighterNFT, FighterNFT__factory } from "../types";
+
+/** Agility, strength and stamina points of a fighter, summing to 10. */
+export type Distribution = [number, number, number];
+
+export async function deployFighters() {
+  const fighterFactory = (await ethers.getContractFactory("FighterNFT")) as FighterNFT__factory;
+  const fighters = (await fighterFactory.deploy()) as FighterNFT;
+  const fightersAddress = await fighters.getAddress();
+
+  return { fighters, fightersAddress };
+}
+
+/** Encrypts `distribution` for `signer` and mints it as their next fighter. */
+export async function mintFighter(
+  fighters: FighterNFT,
+  fightersAddress: string,
+  signer: HardhatEthersSigner,
+  distribution: Distribution,
+) {
+  const input = fhevm.createEncryptedInput(fightersAddress, signer.address);
+  input.add32(distribution[0]);
+  input.add32(distribution[1]);
+  input.add32(distribution[2]);
+  const encrypted = await input.encrypt();
+
+  await fighters
+    .connect(signer)
+    .mintFighter(encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.inputProof);
+}
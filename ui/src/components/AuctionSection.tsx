@@ -0,0 +1,544 @@
+import { useEffect, useState } from 'react';
+import { usePublicClient } from 'wagmi';
+import { ethers } from 'ethers';
+
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { useDeployment } from '../hooks/useDeployment';
+import { useDecryptionSession } from '../hooks/useDecryptionSession';
+import { useZamaInstance } from '../hooks/useZamaInstance';
+import { AUCTION_ABI, CONTRACT_ABI } from '../config/abis';
+import { ZERO_ADDRESS } from '../config/fighterContract';
+
+type AuctionStatus = 'none' | 'open' | 'settling' | 'settled';
+
+const STATUS_LABELS: AuctionStatus[] = ['none', 'open', 'settling', 'settled'];
+
+const AUCTION_DURATIONS: { label: string; seconds: number }[] = [
+  { label: '1 hour', seconds: 60 * 60 },
+  { label: '1 day', seconds: 24 * 60 * 60 },
+  { label: '3 days', seconds: 3 * 24 * 60 * 60 },
+  { label: '7 days', seconds: 7 * 24 * 60 * 60 },
+];
+
+const DECRYPTION_POLL_INTERVAL_MS = 5000;
+
+type Auction = {
+  auctionId: bigint;
+  tokenId: bigint;
+  seller: `0x${string}`;
+  reservePrice: bigint;
+  endTime: bigint;
+  settlementDeadline: bigint;
+  status: AuctionStatus;
+  bidCount: bigint;
+  winner: `0x${string}`;
+  winningBid: bigint;
+  proceedsPaid: boolean;
+  myBid: MyBid | null;
+};
+
+type MyBid = {
+  handle: `0x${string}`;
+  deposit: bigint;
+  withdrawn: boolean;
+};
+
+type BidForm = {
+  amount: string;
+  deposit: string;
+};
+
+type AuctionSectionProps = {
+  fighterIds: bigint[];
+  instance: ReturnType<typeof useZamaInstance>['instance'];
+  encryptor: ReturnType<typeof useDecryptionSession>;
+  signer: ReturnType<typeof useEthersSigner>;
+  connectedAddress: `0x${string}` | undefined;
+  onTraded: () => void;
+};
+
+export function AuctionSection({
+  fighterIds,
+  instance,
+  encryptor,
+  signer,
+  connectedAddress,
+  onTraded,
+}: AuctionSectionProps) {
+  const { addresses, isDeployed } = useDeployment();
+  const publicClient = usePublicClient();
+
+  const [auctions, setAuctions] = useState<Auction[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [listError, setListError] = useState<string | null>(null);
+  const [refreshIndex, setRefreshIndex] = useState(0);
+
+  const [createFighterId, setCreateFighterId] = useState('');
+  const [createReserve, setCreateReserve] = useState('0');
+  const [createDuration, setCreateDuration] = useState(AUCTION_DURATIONS[1].seconds);
+  const [bidForms, setBidForms] = useState<Record<string, BidForm>>({});
+  const [decryptedBids, setDecryptedBids] = useState<Record<string, bigint>>({});
+
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [actionSuccess, setActionSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!publicClient || !isDeployed.FighterAuction) {
+      setAuctions([]);
+      setListError(null);
+      return;
+    }
+
+    let ignore = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      setListError(null);
+      try {
+        const createdEvents = await publicClient.getContractEvents({
+          address: addresses.FighterAuction,
+          abi: AUCTION_ABI,
+          eventName: 'AuctionCreated',
+          fromBlock: 'earliest',
+          strict: true,
+        });
+
+        const auctionData: Auction[] = await Promise.all(
+          createdEvents.map(async (event) => {
+            const auctionId = event.args.auctionId;
+            const auction = await publicClient.readContract({
+              address: addresses.FighterAuction,
+              abi: AUCTION_ABI,
+              functionName: 'getAuction',
+              args: [auctionId],
+            });
+
+            let myBid: MyBid | null = null;
+            if (connectedAddress) {
+              const [handle, deposit, withdrawn] = await publicClient.readContract({
+                address: addresses.FighterAuction,
+                abi: AUCTION_ABI,
+                functionName: 'getBid',
+                args: [auctionId, connectedAddress],
+              });
+              myBid = deposit > 0n ? { handle, deposit, withdrawn } : null;
+            }
+
+            return {
+              auctionId,
+              tokenId: auction.tokenId,
+              seller: auction.seller,
+              reservePrice: auction.reservePrice,
+              endTime: auction.endTime,
+              settlementDeadline: auction.settlementDeadline,
+              status: STATUS_LABELS[auction.status] ?? 'none',
+              bidCount: auction.bidCount,
+              winner: auction.winner,
+              winningBid: auction.winningBid,
+              proceedsPaid: auction.proceedsPaid,
+              myBid,
+            };
+          })
+        );
+
+        if (!ignore) {
+          setAuctions(auctionData.reverse());
+        }
+      } catch (error) {
+        if (!ignore) {
+          const message = error instanceof Error ? error.message : 'Failed to load auctions';
+          setListError(message);
+        }
+      } finally {
+        if (!ignore) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    load();
+
+    return () => {
+      ignore = true;
+    };
+  }, [publicClient, connectedAddress, refreshIndex, addresses.FighterAuction, isDeployed.FighterAuction]);
+
+  const hasPendingDecryption = auctions.some((auction) => auction.status === 'settling');
+
+  useEffect(() => {
+    if (!hasPendingDecryption) {
+      return;
+    }
+
+    const interval = setInterval(() => setRefreshIndex((prev) => prev + 1), DECRYPTION_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasPendingDecryption]);
+
+  const isSelf = (account: string) => connectedAddress !== undefined && account.toLowerCase() === connectedAddress.toLowerCase();
+
+  const nowSeconds = BigInt(Math.floor(Date.now() / 1000));
+  const visibleAuctions = auctions.filter(
+    (auction) => auction.status !== 'settled' || isSelf(auction.seller) || auction.myBid !== null
+  );
+  const auctionedIds = new Set(
+    auctions.filter((auction) => auction.status !== 'settled').map((auction) => auction.tokenId)
+  );
+  const auctionableFighters = fighterIds.filter((tokenId) => !auctionedIds.has(tokenId));
+
+  const runAction = async (
+    key: string,
+    successMessage: string,
+    action: (auction: ethers.Contract, fighters: ethers.Contract, account: string) => Promise<unknown>
+  ) => {
+    if (!signer) {
+      setActionError('Connect a wallet to take part in auctions');
+      return;
+    }
+
+    setActionError(null);
+    setActionSuccess(null);
+    setPendingAction(key);
+
+    try {
+      const resolvedSigner = await signer;
+      if (!resolvedSigner) {
+        throw new Error('Signer is unavailable');
+      }
+
+      const auction = new ethers.Contract(addresses.FighterAuction, AUCTION_ABI, resolvedSigner);
+      const fighters = new ethers.Contract(addresses.FighterNFT, CONTRACT_ABI, resolvedSigner);
+      const tx = (await action(
+        auction,
+        fighters,
+        await resolvedSigner.getAddress()
+      )) as ethers.ContractTransactionResponse;
+      await tx.wait();
+
+      setActionSuccess(successMessage);
+      setRefreshIndex((prev) => prev + 1);
+      onTraded();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Transaction failed';
+      setActionError(message);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!createFighterId) {
+      setActionError('Select one of your fighters');
+      return;
+    }
+
+    let reserve: bigint;
+    try {
+      reserve = ethers.parseEther(createReserve || '0');
+    } catch {
+      setActionError('Enter a valid reserve price in ETH');
+      return;
+    }
+
+    const tokenId = BigInt(createFighterId);
+    await runAction('create', `Auction opened for fighter #${createFighterId}`, async (auction, fighters) => {
+      // The fighter stays with the seller, so the auction must be approved to transfer it on settlement.
+      if (!(await fighters.isApprovedOrOwner(addresses.FighterAuction, tokenId))) {
+        const approval = (await fighters.approve(
+          addresses.FighterAuction,
+          tokenId
+        )) as ethers.ContractTransactionResponse;
+        await approval.wait();
+      }
+      return auction.createAuction(tokenId, reserve, createDuration);
+    });
+    setCreateFighterId('');
+  };
+
+  const handleBid = async (auction: Auction) => {
+    const key = auction.auctionId.toString();
+    const form = bidForms[key] ?? { amount: '', deposit: '' };
+
+    if (!instance) {
+      setActionError('Encryption service is not ready yet');
+      return;
+    }
+
+    let amount: bigint;
+    let deposit: bigint;
+    try {
+      amount = ethers.parseEther(form.amount);
+      deposit = ethers.parseEther(form.deposit || form.amount);
+    } catch {
+      setActionError('Enter a valid bid and deposit in ETH');
+      return;
+    }
+    if (amount > deposit) {
+      setActionError('Your bid cannot exceed your deposit, or it will count as zero');
+      return;
+    }
+
+    await runAction(`bid-${key}`, 'Sealed bid placed', async (contract, _fighters, account) => {
+      const buffer = instance.createEncryptedInput(addresses.FighterAuction, account);
+      buffer.add64(amount);
+      const encrypted = await buffer.encrypt();
+      return contract.bid(auction.auctionId, encrypted.handles[0], encrypted.inputProof, { value: deposit });
+    });
+  };
+
+  const handleSettle = async (auction: Auction) => {
+    await runAction(
+      `settle-${auction.auctionId.toString()}`,
+      'Auction closed, waiting for the winning bid to be decrypted',
+      (contract) => contract.settle(auction.auctionId)
+    );
+  };
+
+  const handleClose = async (auction: Auction) => {
+    await runAction(`close-${auction.auctionId.toString()}`, 'Auction closed without a sale', (contract) =>
+      contract.closeStalledAuction(auction.auctionId)
+    );
+  };
+
+  const handleWithdraw = async (auction: Auction) => {
+    await runAction(`withdraw-${auction.auctionId.toString()}`, 'Funds withdrawn', (contract) =>
+      contract.withdraw(auction.auctionId)
+    );
+  };
+
+  const handleDecryptBid = async (auction: Auction) => {
+    const key = auction.auctionId.toString();
+    if (!encryptor || !signer || !connectedAddress || !auction.myBid) {
+      setActionError('Connect a wallet and wait for the encryption service to decrypt your bid');
+      return;
+    }
+
+    setActionError(null);
+    setPendingAction(`decrypt-${key}`);
+
+    try {
+      const resolvedSigner = await signer;
+      if (!resolvedSigner) {
+        throw new Error('Signer is unavailable');
+      }
+
+      const [bid] = await encryptor.userDecrypt([auction.myBid.handle], addresses.FighterAuction, resolvedSigner);
+      setDecryptedBids((prev) => ({ ...prev, [key]: bid }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to decrypt bid';
+      setActionError(message);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  // A settlement the oracle never answered can be closed without a sale by anyone, and a withdrawal does so on its own.
+  const isStalled = (auction: Auction) => auction.status === 'settling' && auction.settlementDeadline <= nowSeconds;
+
+  const canWithdraw = (auction: Auction) => {
+    if (isStalled(auction)) {
+      return auction.myBid !== null && !auction.myBid.withdrawn;
+    }
+    if (auction.status !== 'settled') {
+      return false;
+    }
+    if (isSelf(auction.seller) && auction.winner !== ZERO_ADDRESS && !auction.proceedsPaid) {
+      return true;
+    }
+    if (!auction.myBid || auction.myBid.withdrawn) {
+      return false;
+    }
+    return !isSelf(auction.winner) || auction.myBid.deposit > auction.winningBid;
+  };
+
+  const describeResult = (auction: Auction) => {
+    if (isStalled(auction)) {
+      return 'Decryption stalled, deposits can be reclaimed';
+    }
+    if (auction.status === 'settling') {
+      return 'Awaiting decryption…';
+    }
+    if (auction.status === 'settled') {
+      return auction.winner === ZERO_ADDRESS
+        ? 'Closed without a sale'
+        : `Won for ${ethers.formatEther(auction.winningBid)} ETH${isSelf(auction.winner) ? ' (by you)' : ''}`;
+    }
+    if (auction.endTime <= nowSeconds) {
+      return 'Ended, ready to settle';
+    }
+    return `Ends ${new Date(Number(auction.endTime) * 1000).toLocaleString()}`;
+  };
+
+  return (
+    <section className="auction-section">
+      <div className="section-header">
+        <div>
+          <h2 className="section-title">Sealed-Bid Auctions</h2>
+          <p className="section-subtitle">
+            Bids are encrypted in your browser. Only the winning bid is revealed once the auction is settled.
+          </p>
+        </div>
+      </div>
+
+      {!isDeployed.FighterAuction && (
+        <p className="status-note">
+          No auction contract is deployed on this network.
+          Export it with <code>fighter:export-deployments</code> to enable auctions.
+        </p>
+      )}
+
+      <div className="challenge-form">
+        <label className="attribute-field">
+          <span>Your fighter</span>
+          <select value={createFighterId} onChange={(event) => setCreateFighterId(event.target.value)}>
+            <option value="">Select a fighter</option>
+            {auctionableFighters.map((tokenId) => (
+              <option key={tokenId.toString()} value={tokenId.toString()}>
+                Token #{tokenId.toString()}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="attribute-field">
+          <span>Reserve (ETH)</span>
+          <input type="text" value={createReserve} onChange={(event) => setCreateReserve(event.target.value)} />
+        </label>
+        <label className="attribute-field">
+          <span>Duration</span>
+          <select value={createDuration} onChange={(event) => setCreateDuration(Number(event.target.value))}>
+            {AUCTION_DURATIONS.map((duration) => (
+              <option key={duration.seconds} value={duration.seconds}>
+                {duration.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <button
+        type="button"
+        className="primary-button"
+        onClick={handleCreate}
+        disabled={pendingAction !== null || !signer || !isDeployed.FighterAuction || auctionableFighters.length === 0}
+      >
+        {pendingAction === 'create' ? 'Opening…' : 'Open Auction'}
+      </button>
+
+      {actionError && <p className="feedback-error">{actionError}</p>}
+      {actionSuccess && <p className="feedback-success">{actionSuccess}</p>}
+      {listError && <p className="feedback-error">{listError}</p>}
+      {isLoading && auctions.length === 0 && <p className="status-note">Fetching auctions…</p>}
+
+      {isDeployed.FighterAuction && !isLoading && visibleAuctions.length === 0 && (
+        <p className="status-note">No auctions running right now.</p>
+      )}
+
+      <ul className="challenge-list">
+        {visibleAuctions.map((auction) => {
+          const key = auction.auctionId.toString();
+          const form = bidForms[key] ?? { amount: '', deposit: '' };
+          const biddingOpen = auction.status === 'open' && auction.endTime > nowSeconds;
+          const canBid = biddingOpen && !isSelf(auction.seller) && auction.myBid === null;
+          const decryptedBid = decryptedBids[key];
+
+          return (
+            <li key={key} className="challenge-row">
+              <div className="challenge-summary">
+                <span className="fighter-id">Auction #{key}</span>
+                <span>Fighter #{auction.tokenId.toString()}</span>
+                <span>Reserve: {ethers.formatEther(auction.reservePrice)} ETH</span>
+                <span>
+                  {auction.bidCount.toString()} bid{auction.bidCount === 1n ? '' : 's'}
+                </span>
+                <span className={`challenge-status ${auction.status === 'settling' ? 'pending' : ''}`}>
+                  {describeResult(auction)}
+                </span>
+                {auction.myBid && (
+                  <span>
+                    Your deposit: {ethers.formatEther(auction.myBid.deposit)} ETH
+                    {decryptedBid !== undefined && ` · bid ${ethers.formatEther(decryptedBid)} ETH`}
+                  </span>
+                )}
+              </div>
+
+              <div className="challenge-actions">
+                {canBid && (
+                  <>
+                    <input
+                      type="text"
+                      placeholder="Bid (ETH)"
+                      value={form.amount}
+                      onChange={(event) =>
+                        setBidForms((prev) => ({ ...prev, [key]: { ...form, amount: event.target.value } }))
+                      }
+                    />
+                    <input
+                      type="text"
+                      placeholder="Deposit (defaults to bid)"
+                      value={form.deposit}
+                      onChange={(event) =>
+                        setBidForms((prev) => ({ ...prev, [key]: { ...form, deposit: event.target.value } }))
+                      }
+                    />
+                    <button
+                      type="button"
+                      className="outline-button"
+                      onClick={() => handleBid(auction)}
+                      disabled={pendingAction !== null || !signer || !instance || !form.amount}
+                    >
+                      {pendingAction === `bid-${key}` ? 'Encrypting…' : 'Place sealed bid'}
+                    </button>
+                  </>
+                )}
+
+                {auction.myBid && decryptedBid === undefined && (
+                  <button
+                    type="button"
+                    className="outline-button"
+                    onClick={() => handleDecryptBid(auction)}
+                    disabled={pendingAction !== null || !encryptor}
+                  >
+                    {pendingAction === `decrypt-${key}` ? 'Decrypting…' : 'Decrypt my bid'}
+                  </button>
+                )}
+
+                {auction.status === 'open' && !biddingOpen && (
+                  <button
+                    type="button"
+                    className="outline-button"
+                    onClick={() => handleSettle(auction)}
+                    disabled={pendingAction !== null || !signer}
+                  >
+                    {pendingAction === `settle-${key}` ? 'Settling…' : 'Settle'}
+                  </button>
+                )}
+
+                {isStalled(auction) && (
+                  <button
+                    type="button"
+                    className="outline-button"
+                    onClick={() => handleClose(auction)}
+                    disabled={pendingAction !== null || !signer}
+                  >
+                    {pendingAction === `close-${key}` ? 'Closing…' : 'Close without sale'}
+                  </button>
+                )}
+
+                {canWithdraw(auction) && (
+                  <button
+                    type="button"
+                    className="outline-button"
+                    onClick={() => handleWithdraw(auction)}
+                    disabled={pendingAction !== null}
+                  >
+                    {pendingAction === `withdraw-${key}` ? 'Withdrawing…' : 'Withdraw'}
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,414 @@
+import { useEffect, useState } from 'react';
+import { usePublicClient } from 'wagmi';
+import { ethers } from 'ethers';
+
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { useDeployment } from '../hooks/useDeployment';
+import { ARENA_ABI } from '../config/abis';
+
+type ChallengeStatus = 'none' | 'open' | 'accepted' | 'resolved' | 'cancelled';
+
+const STATUS_LABELS: ChallengeStatus[] = ['none', 'open', 'accepted', 'resolved', 'cancelled'];
+
+const DECRYPTION_POLL_INTERVAL_MS = 5000;
+
+type Challenge = {
+  challengeId: bigint;
+  challenger: `0x${string}`;
+  fighterId: bigint;
+  opponentId: bigint;
+  stake: bigint;
+  acceptor: `0x${string}`;
+  acceptorFighterId: bigint;
+  reclaimableAt: number;
+  status: ChallengeStatus;
+  outcome: number;
+  challengerPaid: boolean;
+  acceptorPaid: boolean;
+};
+
+type ChallengesSectionProps = {
+  fighterIds: bigint[];
+  signer: ReturnType<typeof useEthersSigner>;
+  connectedAddress: `0x${string}` | undefined;
+};
+
+export function ChallengesSection({ fighterIds, signer, connectedAddress }: ChallengesSectionProps) {
+  const { addresses, isDeployed } = useDeployment();
+  const publicClient = usePublicClient();
+
+  const [challenges, setChallenges] = useState<Challenge[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [listError, setListError] = useState<string | null>(null);
+  const [refreshIndex, setRefreshIndex] = useState(0);
+
+  const [createFighterId, setCreateFighterId] = useState('');
+  const [createOpponentId, setCreateOpponentId] = useState('');
+  const [createStake, setCreateStake] = useState('0');
+  const [acceptFighterIds, setAcceptFighterIds] = useState<Record<string, string>>({});
+
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [actionSuccess, setActionSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!publicClient || !isDeployed.FighterArena) {
+      setChallenges([]);
+      setListError(null);
+      return;
+    }
+
+    let ignore = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      setListError(null);
+      try {
+        const createdEvents = await publicClient.getContractEvents({
+          address: addresses.FighterArena,
+          abi: ARENA_ABI,
+          eventName: 'ChallengeCreated',
+          fromBlock: 'earliest',
+          strict: true,
+        });
+
+        const challengeTimeout = await publicClient.readContract({
+          address: addresses.FighterArena,
+          abi: ARENA_ABI,
+          functionName: 'challengeTimeout',
+        });
+
+        const challengeData: Challenge[] = await Promise.all(
+          createdEvents.map(async (event) => {
+            const challengeId = event.args.challengeId;
+            const challenge = await publicClient.readContract({
+              address: addresses.FighterArena,
+              abi: ARENA_ABI,
+              functionName: 'getChallenge',
+              args: [challengeId],
+            });
+
+            return {
+              challengeId,
+              challenger: challenge.challenger,
+              fighterId: challenge.fighterId,
+              opponentId: challenge.opponentId,
+              stake: challenge.stake,
+              acceptor: challenge.acceptor,
+              acceptorFighterId: challenge.acceptorFighterId,
+              reclaimableAt: Number(challenge.acceptedAt + challengeTimeout),
+              status: STATUS_LABELS[challenge.status] ?? 'none',
+              outcome: challenge.outcome,
+              challengerPaid: challenge.challengerPaid,
+              acceptorPaid: challenge.acceptorPaid,
+            };
+          })
+        );
+
+        if (!ignore) {
+          setChallenges(challengeData.reverse());
+        }
+      } catch (error) {
+        if (!ignore) {
+          const message = error instanceof Error ? error.message : 'Failed to load challenges';
+          setListError(message);
+        }
+      } finally {
+        if (!ignore) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    load();
+
+    return () => {
+      ignore = true;
+    };
+  }, [publicClient, refreshIndex, addresses.FighterArena, isDeployed.FighterArena]);
+
+  const hasPendingDecryption = challenges.some((challenge) => challenge.status === 'accepted');
+
+  useEffect(() => {
+    if (!hasPendingDecryption) {
+      return;
+    }
+
+    const interval = setInterval(() => setRefreshIndex((prev) => prev + 1), DECRYPTION_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasPendingDecryption]);
+
+  const isSelf = (account: string) => connectedAddress !== undefined && account.toLowerCase() === connectedAddress.toLowerCase();
+
+  const visibleChallenges = challenges.filter(
+    (challenge) => challenge.status === 'open' || isSelf(challenge.challenger) || isSelf(challenge.acceptor)
+  );
+
+  const runAction = async (key: string, successMessage: string, action: (contract: ethers.Contract) => Promise<unknown>) => {
+    if (!signer) {
+      setActionError('Connect a wallet to manage challenges');
+      return;
+    }
+
+    setActionError(null);
+    setActionSuccess(null);
+    setPendingAction(key);
+
+    try {
+      const resolvedSigner = await signer;
+      if (!resolvedSigner) {
+        throw new Error('Signer is unavailable');
+      }
+
+      const contract = new ethers.Contract(addresses.FighterArena, ARENA_ABI, resolvedSigner);
+      const tx = (await action(contract)) as ethers.ContractTransactionResponse;
+      await tx.wait();
+
+      setActionSuccess(successMessage);
+      setRefreshIndex((prev) => prev + 1);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Transaction failed';
+      setActionError(message);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!createFighterId) {
+      setActionError('Select one of your fighters');
+      return;
+    }
+
+    let stake: bigint;
+    try {
+      stake = ethers.parseEther(createStake || '0');
+    } catch {
+      setActionError('Enter a valid stake in ETH');
+      return;
+    }
+
+    const opponentId = createOpponentId.trim() === '' ? 0n : BigInt(createOpponentId.trim());
+    await runAction('create', 'Challenge created', (contract) =>
+      contract.createChallenge(BigInt(createFighterId), opponentId, { value: stake })
+    );
+  };
+
+  const handleAccept = async (challenge: Challenge) => {
+    const key = challenge.challengeId.toString();
+    const fighterId = acceptFighterIds[key] ?? (challenge.opponentId !== 0n ? challenge.opponentId.toString() : '');
+    if (!fighterId) {
+      setActionError('Select one of your fighters to accept the challenge');
+      return;
+    }
+
+    await runAction(`accept-${key}`, 'Challenge accepted, waiting for the result to be decrypted', (contract) =>
+      contract.acceptChallenge(challenge.challengeId, BigInt(fighterId), { value: challenge.stake })
+    );
+  };
+
+  const handleCancel = async (challenge: Challenge) => {
+    await runAction(`cancel-${challenge.challengeId.toString()}`, 'Challenge cancelled', (contract) =>
+      contract.cancelChallenge(challenge.challengeId)
+    );
+  };
+
+  const handleClaim = async (challenge: Challenge) => {
+    await runAction(`claim-${challenge.challengeId.toString()}`, 'Winnings claimed', (contract) =>
+      contract.claimChallenge(challenge.challengeId)
+    );
+  };
+
+  const handleReclaim = async (challenge: Challenge) => {
+    await runAction(`reclaim-${challenge.challengeId.toString()}`, 'Both stakes refunded', (contract) =>
+      contract.reclaimStalledChallenge(challenge.challengeId)
+    );
+  };
+
+  // An accepted challenge the oracle never resolved can be unwound by anyone once the timeout passes.
+  const isStalled = (challenge: Challenge) =>
+    challenge.status === 'accepted' && Date.now() / 1000 >= challenge.reclaimableAt;
+
+  const canClaim = (challenge: Challenge) => {
+    if (challenge.status !== 'resolved') {
+      return false;
+    }
+    if (challenge.outcome === 0) {
+      return (
+        (isSelf(challenge.challenger) && !challenge.challengerPaid) ||
+        (isSelf(challenge.acceptor) && !challenge.acceptorPaid)
+      );
+    }
+    const winner = challenge.outcome === 1 ? challenge.challenger : challenge.acceptor;
+    return isSelf(winner) && !challenge.challengerPaid && !challenge.acceptorPaid;
+  };
+
+  const describeResult = (challenge: Challenge) => {
+    if (isStalled(challenge)) {
+      return 'Decryption stalled, stakes can be reclaimed';
+    }
+    if (challenge.status === 'accepted') {
+      return 'Awaiting decryption…';
+    }
+    if (challenge.status !== 'resolved') {
+      return null;
+    }
+    if (challenge.outcome === 0) {
+      return 'Draw';
+    }
+    const winnerId = challenge.outcome === 1 ? challenge.fighterId : challenge.acceptorFighterId;
+    return `Fighter #${winnerId.toString()} won`;
+  };
+
+  return (
+    <section className="challenges-section">
+      <div className="section-header">
+        <div>
+          <h2 className="section-title">Challenges</h2>
+          <p className="section-subtitle">Stake ETH on an encrypted fight. The winner takes both stakes.</p>
+        </div>
+      </div>
+
+      {!isDeployed.FighterArena && (
+        <p className="status-note">
+          No arena contract is deployed on this network.
+          Export it with <code>fighter:export-deployments</code> to enable challenges.
+        </p>
+      )}
+
+      <div className="challenge-form">
+        <label className="attribute-field">
+          <span>Your fighter</span>
+          <select value={createFighterId} onChange={(event) => setCreateFighterId(event.target.value)}>
+            <option value="">Select a fighter</option>
+            {fighterIds.map((tokenId) => (
+              <option key={tokenId.toString()} value={tokenId.toString()}>
+                Token #{tokenId.toString()}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="attribute-field">
+          <span>Opponent token (optional)</span>
+          <input
+            type="number"
+            min={1}
+            placeholder="Open lobby"
+            value={createOpponentId}
+            onChange={(event) => setCreateOpponentId(event.target.value)}
+          />
+        </label>
+        <label className="attribute-field">
+          <span>Stake (ETH)</span>
+          <input type="text" value={createStake} onChange={(event) => setCreateStake(event.target.value)} />
+        </label>
+      </div>
+
+      <button
+        type="button"
+        className="primary-button"
+        onClick={handleCreate}
+        disabled={pendingAction !== null || !signer || !isDeployed.FighterArena || fighterIds.length === 0}
+      >
+        {pendingAction === 'create' ? 'Creating…' : 'Create Challenge'}
+      </button>
+
+      {actionError && <p className="feedback-error">{actionError}</p>}
+      {actionSuccess && <p className="feedback-success">{actionSuccess}</p>}
+      {listError && <p className="feedback-error">{listError}</p>}
+      {isLoading && challenges.length === 0 && <p className="status-note">Fetching challenges…</p>}
+
+      {isDeployed.FighterArena && !isLoading && visibleChallenges.length === 0 && (
+        <p className="status-note">No open challenges right now.</p>
+      )}
+
+      <ul className="challenge-list">
+        {visibleChallenges.map((challenge) => {
+          const key = challenge.challengeId.toString();
+          const result = describeResult(challenge);
+          const acceptableFighters = fighterIds.filter(
+            (tokenId) =>
+              tokenId !== challenge.fighterId && (challenge.opponentId === 0n || tokenId === challenge.opponentId)
+          );
+
+          return (
+            <li key={key} className="challenge-row">
+              <div className="challenge-summary">
+                <span className="fighter-id">Challenge #{key}</span>
+                <span>
+                  Fighter #{challenge.fighterId.toString()} vs{' '}
+                  {challenge.opponentId === 0n ? 'anyone' : `fighter #${challenge.opponentId.toString()}`}
+                </span>
+                <span>Stake: {ethers.formatEther(challenge.stake)} ETH</span>
+                <span className={`challenge-status ${challenge.status === 'accepted' ? 'pending' : ''}`}>
+                  {result ?? challenge.status}
+                </span>
+              </div>
+
+              <div className="challenge-actions">
+                {challenge.status === 'open' && isSelf(challenge.challenger) && (
+                  <button
+                    type="button"
+                    className="outline-button"
+                    onClick={() => handleCancel(challenge)}
+                    disabled={pendingAction !== null}
+                  >
+                    {pendingAction === `cancel-${key}` ? 'Cancelling…' : 'Cancel'}
+                  </button>
+                )}
+
+                {challenge.status === 'open' && !isSelf(challenge.challenger) && (
+                  <>
+                    <select
+                      value={acceptFighterIds[key] ?? ''}
+                      onChange={(event) =>
+                        setAcceptFighterIds((prev) => ({ ...prev, [key]: event.target.value }))
+                      }
+                    >
+                      <option value="">Select a fighter</option>
+                      {acceptableFighters.map((tokenId) => (
+                        <option key={tokenId.toString()} value={tokenId.toString()}>
+                          Token #{tokenId.toString()}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      className="outline-button"
+                      onClick={() => handleAccept(challenge)}
+                      disabled={pendingAction !== null || !signer || acceptableFighters.length === 0}
+                    >
+                      {pendingAction === `accept-${key}` ? 'Accepting…' : 'Accept'}
+                    </button>
+                  </>
+                )}
+
+                {isStalled(challenge) && (isSelf(challenge.challenger) || isSelf(challenge.acceptor)) && (
+                  <button
+                    type="button"
+                    className="outline-button"
+                    onClick={() => handleReclaim(challenge)}
+                    disabled={pendingAction !== null}
+                  >
+                    {pendingAction === `reclaim-${key}` ? 'Reclaiming…' : 'Reclaim stakes'}
+                  </button>
+                )}
+
+                {canClaim(challenge) && (
+                  <button
+                    type="button"
+                    className="outline-button"
+                    onClick={() => handleClaim(challenge)}
+                    disabled={pendingAction !== null}
+                  >
+                    {pendingAction === `claim-${key}` ? 'Claiming…' : 'Claim'}
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,311 @@
+import { useEffect, useState } from 'react';
+import { usePublicClient } from 'wagmi';
+import { ethers } from 'ethers';
+
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { useDeployment } from '../hooks/useDeployment';
+import { useDecryptionSession } from '../hooks/useDecryptionSession';
+import { useZamaInstance } from '../hooks/useZamaInstance';
+import { COIN_ABI, CONTRACT_ABI } from '../config/abis';
+import { COIN_DECIMALS } from '../config/coinContract';
+
+const OPERATOR_DURATION_SECONDS = 30 * 24 * 60 * 60;
+
+type WalletState = {
+  balanceHandle: `0x${string}`;
+  totalSupply: bigint;
+  feesAllowed: boolean;
+  trainingFee: bigint;
+};
+
+type CoinSectionProps = {
+  instance: ReturnType<typeof useZamaInstance>['instance'];
+  encryptor: ReturnType<typeof useDecryptionSession>;
+  signer: ReturnType<typeof useEthersSigner>;
+  connectedAddress: `0x${string}` | undefined;
+  onFeesToggled: () => void;
+};
+
+export function CoinSection({ instance, encryptor, signer, connectedAddress, onFeesToggled }: CoinSectionProps) {
+  const { addresses, isDeployed } = useDeployment();
+  const publicClient = usePublicClient();
+
+  const [wallet, setWallet] = useState<WalletState | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [refreshIndex, setRefreshIndex] = useState(0);
+
+  const [balance, setBalance] = useState<bigint | null>(null);
+  const [recipient, setRecipient] = useState('');
+  const [amount, setAmount] = useState('');
+
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [actionSuccess, setActionSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!publicClient || !connectedAddress || !isDeployed.FighterCoin) {
+      setWallet(null);
+      setLoadError(null);
+      return;
+    }
+
+    let ignore = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      setLoadError(null);
+      try {
+        const balanceHandle = await publicClient.readContract({
+          address: addresses.FighterCoin,
+          abi: COIN_ABI,
+          functionName: 'confidentialBalanceOf',
+          args: [connectedAddress],
+        });
+
+        const totalSupply = await publicClient.readContract({
+          address: addresses.FighterCoin,
+          abi: COIN_ABI,
+          functionName: 'totalSupply',
+        });
+
+        const feesAllowed = await publicClient.readContract({
+          address: addresses.FighterCoin,
+          abi: COIN_ABI,
+          functionName: 'isOperator',
+          args: [connectedAddress, addresses.FighterNFT],
+        });
+
+        const [, trainingFee] = await publicClient.readContract({
+          address: addresses.FighterNFT,
+          abi: CONTRACT_ABI,
+          functionName: 'getTrainingFee',
+        });
+
+        if (!ignore) {
+          setWallet({ balanceHandle, totalSupply, feesAllowed, trainingFee });
+        }
+      } catch (error) {
+        if (!ignore) {
+          const message = error instanceof Error ? error.message : 'Failed to load your coin balance';
+          setLoadError(message);
+        }
+      } finally {
+        if (!ignore) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    load();
+
+    return () => {
+      ignore = true;
+    };
+  }, [
+    publicClient,
+    connectedAddress,
+    refreshIndex,
+    addresses.FighterCoin,
+    addresses.FighterNFT,
+    isDeployed.FighterCoin,
+  ]);
+
+  const runAction = async (
+    key: string,
+    successMessage: string,
+    action: (coin: ethers.Contract, account: string) => Promise<unknown>
+  ) => {
+    if (!signer) {
+      setActionError('Connect a wallet to use FighterCoin');
+      return;
+    }
+
+    setActionError(null);
+    setActionSuccess(null);
+    setPendingAction(key);
+
+    try {
+      const resolvedSigner = await signer;
+      if (!resolvedSigner) {
+        throw new Error('Signer is unavailable');
+      }
+
+      const coin = new ethers.Contract(addresses.FighterCoin, COIN_ABI, resolvedSigner);
+      const tx = (await action(coin, await resolvedSigner.getAddress())) as ethers.ContractTransactionResponse;
+      await tx.wait();
+
+      // Transfers move the balance to a new handle.
+      setBalance(null);
+      setActionSuccess(successMessage);
+      setRefreshIndex((prev) => prev + 1);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Transaction failed';
+      setActionError(message);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleTransfer = async () => {
+    if (!instance) {
+      setActionError('Encryption service is not ready yet');
+      return;
+    }
+    if (!ethers.isAddress(recipient)) {
+      setActionError('Enter a valid recipient address');
+      return;
+    }
+
+    let value: bigint;
+    try {
+      value = ethers.parseUnits(amount, COIN_DECIMALS);
+    } catch {
+      setActionError('Enter a valid amount');
+      return;
+    }
+    if (value <= 0n) {
+      setActionError('Enter a valid amount');
+      return;
+    }
+
+    // A transfer above the balance moves nothing rather than reverting, so the success note stays neutral.
+    await runAction('transfer', 'Transfer sent, decrypt your balance to confirm it', async (coin, account) => {
+      const buffer = instance.createEncryptedInput(addresses.FighterCoin, account);
+      buffer.add64(value);
+      const encrypted = await buffer.encrypt();
+      return coin['confidentialTransfer(address,bytes32,bytes)'](recipient, encrypted.handles[0], encrypted.inputProof);
+    });
+    setAmount('');
+  };
+
+  const handleToggleFees = async () => {
+    if (!wallet) {
+      return;
+    }
+
+    const until = wallet.feesAllowed ? 0 : Math.floor(Date.now() / 1000) + OPERATOR_DURATION_SECONDS;
+    await runAction(
+      'operator',
+      wallet.feesAllowed ? 'Fighter training can no longer charge fees' : 'Fighter training can charge fees for 30 days',
+      (coin) => coin.setOperator(addresses.FighterNFT, until)
+    );
+    onFeesToggled();
+  };
+
+  const handleDecrypt = async () => {
+    if (!encryptor || !signer || !connectedAddress || !wallet) {
+      setActionError('Connect a wallet and wait for the encryption service to decrypt your balance');
+      return;
+    }
+
+    // Accounts that never received coins have no balance handle yet.
+    if (wallet.balanceHandle === ethers.ZeroHash) {
+      setBalance(0n);
+      return;
+    }
+
+    setActionError(null);
+    setPendingAction('decrypt');
+
+    try {
+      const resolvedSigner = await signer;
+      if (!resolvedSigner) {
+        throw new Error('Signer is unavailable');
+      }
+
+      const [decrypted] = await encryptor.userDecrypt([wallet.balanceHandle], addresses.FighterCoin, resolvedSigner);
+      setBalance(decrypted);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to decrypt your balance';
+      setActionError(message);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const formatCoin = (value: bigint) => `${ethers.formatUnits(value, COIN_DECIMALS)} FGC`;
+
+  return (
+    <section className="coin-section">
+      <div className="section-header">
+        <div>
+          <h2 className="section-title">Fighter Coin</h2>
+          <p className="section-subtitle">
+            FGC is the confidential in-game currency. Balances and transfer amounts are encrypted, so only you can see
+            what you hold or send.
+          </p>
+        </div>
+      </div>
+
+      {!isDeployed.FighterCoin && (
+        <p className="status-note">
+          No coin contract is deployed on this network.
+          Export it with <code>fighter:export-deployments</code> to enable FGC.
+        </p>
+      )}
+
+      {actionError && <p className="feedback-error">{actionError}</p>}
+      {actionSuccess && <p className="feedback-success">{actionSuccess}</p>}
+      {loadError && <p className="feedback-error">{loadError}</p>}
+      {isLoading && wallet === null && <p className="status-note">Fetching your coin balance…</p>}
+
+      {wallet && (
+        <div className="coin-summary">
+          <div className="points-summary">
+            <span>Balance: {balance !== null ? formatCoin(balance) : 'encrypted'}</span>
+            <span>Total supply: {formatCoin(wallet.totalSupply)}</span>
+            {wallet.trainingFee > 0n && <span>Training fee: {formatCoin(wallet.trainingFee)}</span>}
+          </div>
+          <div className="challenge-actions">
+            <button
+              type="button"
+              className="outline-button"
+              onClick={handleDecrypt}
+              disabled={pendingAction !== null || !encryptor || !signer}
+            >
+              {pendingAction === 'decrypt' ? 'Decrypting…' : 'Decrypt balance'}
+            </button>
+            <button
+              type="button"
+              className="outline-button"
+              onClick={handleToggleFees}
+              disabled={pendingAction !== null || !signer}
+            >
+              {pendingAction === 'operator'
+                ? 'Updating…'
+                : wallet.feesAllowed
+                  ? 'Stop training fees'
+                  : 'Allow training fees'}
+            </button>
+          </div>
+          <p className="status-note">
+            {wallet.feesAllowed
+              ? 'FighterNFT can charge training fees from your balance.'
+              : 'FighterNFT cannot charge training fees yet, so training is blocked while a fee is set.'}
+          </p>
+        </div>
+      )}
+
+      <div className="challenge-form">
+        <label className="attribute-field">
+          <span>Recipient</span>
+          <input value={recipient} placeholder="0x…" onChange={(event) => setRecipient(event.target.value.trim())} />
+        </label>
+        <label className="attribute-field">
+          <span>Amount (FGC)</span>
+          <input value={amount} placeholder="0.0" onChange={(event) => setAmount(event.target.value.trim())} />
+        </label>
+      </div>
+
+      <button
+        type="button"
+        className="primary-button"
+        onClick={handleTransfer}
+        disabled={pendingAction !== null || !signer || !instance || !isDeployed.FighterCoin || !recipient || !amount}
+      >
+        {pendingAction === 'transfer' ? 'Sending…' : 'Send encrypted transfer'}
+      </button>
+    </section>
+  );
+}
@@ -1,17 +1,63 @@
 import { useEffect, useMemo, useState } from 'react';
 import { useAccount, usePublicClient } from 'wagmi';
 import { ethers } from 'ethers';
+import { FighterClient, type DecryptedAttributes as DecryptedFighter, type FighterEncryptor } from '@fighters/sdk';
 
 import { Header } from './Header';
+import { ChallengesSection } from './ChallengesSection';
+import { MarketSection } from './MarketSection';
+import { AuctionSection } from './AuctionSection';
+import { TournamentSection } from './TournamentSection';
+import { LeaderboardSection } from './LeaderboardSection';
+import { StakingSection } from './StakingSection';
+import { CoinSection } from './CoinSection';
 import { useZamaInstance } from '../hooks/useZamaInstance';
+import { useDecryptionSession } from '../hooks/useDecryptionSession';
 import { useEthersSigner } from '../hooks/useEthersSigner';
-import { CONTRACT_ABI, CONTRACT_ADDRESS, IS_CONTRACT_CONFIGURED } from '../config/fighterContract';
+import { useDeployment } from '../hooks/useDeployment';
+import { COIN_ABI, COMPARATOR_ABI, CONTRACT_ABI } from '../config/abis';
+import { ZERO_ADDRESS } from '../config/fighterContract';
+import { COIN_DECIMALS } from '../config/coinContract';
 
 import '../styles/FighterApp.css';
 
 type Fighter = {
   tokenId: bigint;
-  handles: readonly `0x${string}`[];
+  reveal: RevealState;
+  experience: ExperienceState;
+  viewers: ViewerGrant[];
+  lineage: LineageState;
+  lock: LockState | null;
+};
+
+type LockState = {
+  locker: `0x${string}`;
+  expiresAt: bigint;
+};
+
+type LineageState = {
+  parentA: bigint;
+  parentB: bigint;
+  generation: bigint;
+  breedingReadyAt: bigint;
+};
+
+type ViewerGrant = {
+  address: `0x${string}`;
+  expiresAt: bigint;
+};
+
+type ExperienceState = {
+  available: bigint;
+  total: bigint;
+  level: bigint;
+  attributeCap: number;
+};
+
+type RevealState = {
+  revealed: boolean;
+  pending: boolean;
+  attributes: DecryptedAttributes | null;
 };
 
 type AttributeState = {
@@ -20,32 +66,108 @@ type AttributeState = {
   stamina: number;
 };
 
+type MintMode = 'single' | 'squad';
+
+type AppTab = 'fighters' | 'market' | 'auctions' | 'tournaments' | 'leaderboard' | 'staking' | 'coins';
+
 type DecryptedAttributes = {
   agility: number;
   strength: number;
   stamina: number;
 };
 
+type ComparisonStatus = 'none' | 'pending' | 'completed' | 'cancelled';
+
+const COMPARISON_STATUS_LABELS: ComparisonStatus[] = ['none', 'pending', 'completed', 'cancelled'];
+
+type Comparison = {
+  comparisonId: bigint;
+  requester: `0x${string}`;
+  fighterId: bigint;
+  opponentId: bigint;
+  status: ComparisonStatus;
+  resultHandles: readonly `0x${string}`[];
+};
+
 const MAX_POINTS = 10;
+const MAX_SQUAD_SIZE = 10;
+const TRAINABLE_ATTRIBUTES: { label: string; value: number }[] = [
+  { label: 'Agility', value: 0 },
+  { label: 'Strength', value: 1 },
+  { label: 'Stamina', value: 2 },
+];
+const REVEAL_POLL_INTERVAL_MS = 5000;
+const VIEWER_DURATIONS: { label: string; seconds: number }[] = [
+  { label: 'Permanent', seconds: 0 },
+  { label: '1 hour', seconds: 60 * 60 },
+  { label: '1 day', seconds: 24 * 60 * 60 },
+  { label: '7 days', seconds: 7 * 24 * 60 * 60 },
+  { label: '30 days', seconds: 30 * 24 * 60 * 60 },
+];
+
+async function loadReveal(
+  publicClient: NonNullable<ReturnType<typeof usePublicClient>>,
+  fighterAddress: `0x${string}`,
+  tokenId: bigint
+) {
+  const [revealed, pending, agility, strength, stamina] = await publicClient.readContract({
+    address: fighterAddress,
+    abi: CONTRACT_ABI,
+    functionName: 'getRevealedAttributes',
+    args: [tokenId],
+  });
+
+  return {
+    revealed,
+    pending,
+    attributes: revealed ? { agility, strength, stamina } : null,
+  };
+}
+
+function createFighterClient(fighterAddress: string, encryptor: FighterEncryptor, signer: ethers.Signer) {
+  return new FighterClient({ address: fighterAddress, signer, encryptor });
+}
 
 export function FighterApp() {
+  const { addresses, isDeployed } = useDeployment();
   const { address } = useAccount();
   const publicClient = usePublicClient();
   const signer = useEthersSigner();
   const { instance, isLoading: isZamaLoading, error: zamaError } = useZamaInstance();
+  const encryptor = useDecryptionSession(instance);
 
   const [distribution, setDistribution] = useState<AttributeState>({ agility: 4, strength: 3, stamina: 3 });
   const [mintError, setMintError] = useState<string | null>(null);
   const [mintSuccess, setMintSuccess] = useState<string | null>(null);
   const [isMinting, setIsMinting] = useState(false);
+  const [activeTab, setActiveTab] = useState<AppTab>('fighters');
+  const [mintMode, setMintMode] = useState<MintMode>('single');
+  const [rollRandom, setRollRandom] = useState(false);
+  const [squad, setSquad] = useState<AttributeState[]>([
+    { agility: 4, strength: 3, stamina: 3 },
+    { agility: 4, strength: 3, stamina: 3 },
+  ]);
 
   const [fighters, setFighters] = useState<Fighter[]>([]);
   const [isLoadingFighters, setIsLoadingFighters] = useState(false);
   const [listError, setListError] = useState<string | null>(null);
   const [refreshIndex, setRefreshIndex] = useState(0);
+  const [trainingCost, setTrainingCost] = useState<bigint | null>(null);
+  const [trainingFee, setTrainingFee] = useState<bigint | null>(null);
+  const [trainingFeeAllowed, setTrainingFeeAllowed] = useState(false);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const [compareFighterId, setCompareFighterId] = useState<bigint | null>(null);
+  const [decryptedFighters, setDecryptedFighters] = useState<Record<string, DecryptedFighter>>({});
+  const [decryptAllError, setDecryptAllError] = useState<string | null>(null);
+  const [isDecryptingAll, setIsDecryptingAll] = useState(false);
 
   const connectedAddress = useMemo(() => (address ? address : undefined), [address]);
-  const contractConfigured = IS_CONTRACT_CONFIGURED;
+  const contractConfigured = isDeployed.FighterNFT;
+
+  useEffect(() => {
+    setDecryptedFighters({});
+    setDecryptAllError(null);
+  }, [connectedAddress]);
 
   useEffect(() => {
     if (!publicClient || !connectedAddress || !contractConfigured) {
@@ -60,34 +182,97 @@ export function FighterApp() {
       setIsLoadingFighters(true);
       setListError(null);
       try {
-        const tokenIds = (await publicClient.readContract({
-          address: CONTRACT_ADDRESS,
+        const tokenIds = await publicClient.readContract({
+          address: addresses.FighterNFT,
           abi: CONTRACT_ABI,
           functionName: 'fightersOf',
           args: [connectedAddress],
-        })) as bigint[];
+        });
 
         if (ignore) {
           return;
         }
 
+        const cost = await publicClient.readContract({
+          address: addresses.FighterNFT,
+          abi: CONTRACT_ABI,
+          functionName: 'trainingCost',
+        });
+
+        const [feeToken, fee] = await publicClient.readContract({
+          address: addresses.FighterNFT,
+          abi: CONTRACT_ABI,
+          functionName: 'getTrainingFee',
+        });
+
+        // Training reverts while a fee is set and FighterNFT is not an operator on the coin.
+        const feeAllowed =
+          fee === 0n ||
+          (await publicClient.readContract({
+            address: feeToken,
+            abi: COIN_ABI,
+            functionName: 'isOperator',
+            args: [connectedAddress, addresses.FighterNFT],
+          }));
+
         const fightersData: Fighter[] = await Promise.all(
           tokenIds.map(async (tokenId) => {
-            const attributes = (await publicClient.readContract({
-              address: CONTRACT_ADDRESS,
+            const reveal = await loadReveal(publicClient, addresses.FighterNFT, tokenId);
+
+            const [available, total, level, attributeCap] = await publicClient.readContract({
+              address: addresses.FighterNFT,
+              abi: CONTRACT_ABI,
+              functionName: 'getExperience',
+              args: [tokenId],
+            });
+
+            const [viewerAddresses, viewerExpiries] = await publicClient.readContract({
+              address: addresses.FighterNFT,
+              abi: CONTRACT_ABI,
+              functionName: 'getViewers',
+              args: [tokenId],
+            });
+            const viewers = viewerAddresses.map((viewer, index) => ({
+              address: viewer,
+              expiresAt: viewerExpiries[index],
+            }));
+
+            const [parentA, parentB, generation] = await publicClient.readContract({
+              address: addresses.FighterNFT,
               abi: CONTRACT_ABI,
-              functionName: 'getEncryptedAttributes',
+              functionName: 'getLineage',
               args: [tokenId],
-            })) as readonly `0x${string}`[];
+            });
+
+            const breedingReadyAt = await publicClient.readContract({
+              address: addresses.FighterNFT,
+              abi: CONTRACT_ABI,
+              functionName: 'breedingReadyAt',
+              args: [tokenId],
+            });
+
+            const [locker, lockExpiresAt] = await publicClient.readContract({
+              address: addresses.FighterNFT,
+              abi: CONTRACT_ABI,
+              functionName: 'getLock',
+              args: [tokenId],
+            });
 
             return {
               tokenId,
-              handles: attributes,
+              reveal,
+              experience: { available, total, level, attributeCap },
+              viewers,
+              lineage: { parentA, parentB, generation, breedingReadyAt },
+              lock: locker === ZERO_ADDRESS ? null : { locker, expiresAt: lockExpiresAt },
             };
           })
         );
 
         if (!ignore) {
+          setTrainingCost(cost);
+          setTrainingFee(fee);
+          setTrainingFeeAllowed(feeAllowed);
           setFighters(fightersData);
         }
       } catch (error) {
@@ -107,9 +292,20 @@ export function FighterApp() {
     return () => {
       ignore = true;
     };
-  }, [publicClient, connectedAddress, refreshIndex]);
+  }, [publicClient, connectedAddress, refreshIndex, addresses.FighterNFT, contractConfigured]);
+
+  const hasPendingReveal = fighters.some((fighter) => fighter.reveal.pending);
+
+  useEffect(() => {
+    if (!hasPendingReveal) {
+      return;
+    }
+
+    const interval = setInterval(() => setRefreshIndex((prev) => prev + 1), REVEAL_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasPendingReveal]);
 
-  const totalPoints = distribution.agility + distribution.strength + distribution.stamina;
+  const totalPoints = sumPoints(distribution);
   const remainingPoints = MAX_POINTS - totalPoints;
 
   const handleDistributionChange = (field: keyof AttributeState, value: number) => {
@@ -121,11 +317,58 @@ export function FighterApp() {
     setDistribution((prev) => ({ ...prev, [field]: capped }));
   };
 
+  const squadIsValid = squad.length > 0 && squad.every((member) => sumPoints(member) === MAX_POINTS);
+
+  const handleSquadChange = (index: number, field: keyof AttributeState, value: number) => {
+    if (Number.isNaN(value)) {
+      return;
+    }
+
+    const capped = Math.min(Math.max(value, 0), MAX_POINTS);
+    setSquad((prev) => prev.map((member, position) => (position === index ? { ...member, [field]: capped } : member)));
+  };
+
+  const addSquadMember = () => {
+    setSquad((prev) => (prev.length < MAX_SQUAD_SIZE ? [...prev, { agility: 4, strength: 3, stamina: 3 }] : prev));
+  };
+
+  const removeSquadMember = (index: number) => {
+    setSquad((prev) => prev.filter((_, position) => position !== index));
+  };
+
   const triggerRefresh = () => setRefreshIndex((prev) => prev + 1);
 
+  const handleDecryptAll = async () => {
+    if (!encryptor || !signer) {
+      setDecryptAllError('Connect a wallet and wait for the encryption service to decrypt your fighters');
+      return;
+    }
+
+    setDecryptAllError(null);
+    setIsDecryptingAll(true);
+
+    try {
+      const resolvedSigner = await signer;
+      if (!resolvedSigner) {
+        throw new Error('Signer is unavailable');
+      }
+
+      // Every handle of every owned fighter goes into one user decryption, behind at most one signature.
+      const decrypted = await createFighterClient(addresses.FighterNFT, encryptor, resolvedSigner).decryptAll();
+      setDecryptedFighters(
+        Object.fromEntries([...decrypted].map(([tokenId, attributes]) => [tokenId.toString(), attributes]))
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to decrypt fighters';
+      setDecryptAllError(message);
+    } finally {
+      setIsDecryptingAll(false);
+    }
+  };
+
   const handleMint = async () => {
     if (!contractConfigured) {
-      setMintError('Configure CONTRACT_ADDRESS before minting');
+      setMintError('No fighter contract is deployed on this network');
       return;
     }
 
@@ -134,12 +377,20 @@ export function FighterApp() {
       return;
     }
 
-    if (totalPoints !== MAX_POINTS) {
-      setMintError('Attribute points must sum to 10');
+    if (mintMode === 'single' && rollRandom) {
+      await handleRandomMint();
       return;
     }
 
-    if (!instance) {
+    const members = mintMode === 'single' ? [distribution] : squad;
+    if (members.length === 0 || members.some((member) => sumPoints(member) !== MAX_POINTS)) {
+      setMintError(
+        members.length > 1 ? 'Every fighter in the squad needs exactly 10 points' : 'Attribute points must sum to 10'
+      );
+      return;
+    }
+
+    if (!encryptor) {
       setMintError('Encryption service is not ready yet');
       return;
     }
@@ -154,23 +405,40 @@ export function FighterApp() {
         throw new Error('Signer is unavailable');
       }
 
-      const minterAddress = await resolvedSigner.getAddress();
-      const buffer = instance.createEncryptedInput(CONTRACT_ADDRESS, minterAddress);
-      buffer.add32(BigInt(distribution.agility));
-      buffer.add32(BigInt(distribution.strength));
-      buffer.add32(BigInt(distribution.stamina));
+      const client = createFighterClient(addresses.FighterNFT, encryptor, resolvedSigner);
+      if (mintMode === 'single') {
+        await client.mint(distribution);
+      } else {
+        await client.mintSquad(members);
+      }
+
+      setMintSuccess(mintMode === 'single' ? 'Fighter minted successfully' : `Squad of ${members.length} fighters minted`);
+      triggerRefresh();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to mint fighter';
+      setMintError(message);
+    } finally {
+      setIsMinting(false);
+    }
+  };
+
+  const handleRandomMint = async () => {
+    setMintError(null);
+    setMintSuccess(null);
+    setIsMinting(true);
 
-      const encrypted = await buffer.encrypt();
-      if (!encrypted || encrypted.handles.length < 3) {
-        throw new Error('Failed to prepare encrypted attributes');
+    try {
+      const resolvedSigner = await signer;
+      if (!resolvedSigner) {
+        throw new Error('Signer is unavailable');
       }
 
-      const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, resolvedSigner);
-      const [agilityHandle, strengthHandle, staminaHandle] = encrypted.handles as readonly `0x${string}`[];
-      const tx = await contract.mintFighter(agilityHandle, strengthHandle, staminaHandle, encrypted.inputProof);
+      // The stats are rolled by the contract, so there is nothing to encrypt.
+      const contract = new ethers.Contract(addresses.FighterNFT, CONTRACT_ABI, resolvedSigner);
+      const tx = await contract.mintRandomFighter();
       await tx.wait();
 
-      setMintSuccess('Fighter minted successfully');
+      setMintSuccess('Fighter minted with random stats. Decrypt it to see what you rolled');
       triggerRefresh();
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to mint fighter';
@@ -180,99 +448,305 @@ export function FighterApp() {
     }
   };
 
+  const canMint =
+    mintMode === 'squad' ? squadIsValid && !!encryptor : rollRandom || (totalPoints === MAX_POINTS && !!encryptor);
+
   return (
     <div className="app-shell">
       <Header />
       <main className="fighter-app">
-        <section className="mint-section">
-          <div className="section-header">
-            <div>
-              <h2 className="section-title">Mint a Fighter</h2>
-              <p className="section-subtitle">Allocate 10 points across agility, strength and stamina.</p>
-            </div>
-          </div>
-
-          {!contractConfigured && (
-            <p className="status-note">Set the deployed contract address in <code>fighterContract.ts</code> to enable minting.</p>
-          )}
-
-          <div className="attribute-grid">
-            <AttributeInput
-              label="Agility"
-              value={distribution.agility}
-              onChange={(next) => handleDistributionChange('agility', next)}
-            />
-            <AttributeInput
-              label="Strength"
-              value={distribution.strength}
-              onChange={(next) => handleDistributionChange('strength', next)}
-            />
-            <AttributeInput
-              label="Stamina"
-              value={distribution.stamina}
-              onChange={(next) => handleDistributionChange('stamina', next)}
-            />
-          </div>
-
-          <div className="points-summary">
-            <span>Total: {totalPoints} / 10</span>
-            <span className={remainingPoints === 0 ? 'points-ready' : 'points-pending'}>
-              {remainingPoints === 0 ? 'Ready to mint' : `${remainingPoints} point${remainingPoints === 1 ? '' : 's'} remaining`}
-            </span>
-          </div>
-
-          {mintError && <p className="feedback-error">{mintError}</p>}
-          {mintSuccess && <p className="feedback-success">{mintSuccess}</p>}
-
+        <nav className="app-tabs">
           <button
             type="button"
-            className="primary-button"
-            onClick={handleMint}
-            disabled={isMinting || totalPoints !== MAX_POINTS || !signer || !contractConfigured || !instance}
+            className={activeTab === 'fighters' ? 'active' : ''}
+            onClick={() => setActiveTab('fighters')}
           >
-            {isMinting ? 'Minting...' : 'Mint Fighter'}
+            Fighters
           </button>
-        </section>
-
-        <section className="fighters-section">
-          <div className="section-header">
-            <div>
-              <h2 className="section-title">Your Fighters</h2>
-              <p className="section-subtitle">Decrypt attributes locally with Zama FHE when you need them.</p>
-            </div>
-          </div>
-
-          {isZamaLoading && <p className="status-note">Loading encryption services…</p>}
-          {zamaError && <p className="feedback-error">{zamaError}</p>}
-          {listError && <p className="feedback-error">{listError}</p>}
-
-          {!connectedAddress && <p className="status-note">Connect a wallet to view your fighters.</p>}
-
-          {!contractConfigured && (
-            <p className="status-note">Set the deployed contract address in <code>fighterContract.ts</code> to load fighters.</p>
-          )}
+          <button type="button" className={activeTab === 'market' ? 'active' : ''} onClick={() => setActiveTab('market')}>
+            Market
+          </button>
+          <button
+            type="button"
+            className={activeTab === 'auctions' ? 'active' : ''}
+            onClick={() => setActiveTab('auctions')}
+          >
+            Auctions
+          </button>
+          <button
+            type="button"
+            className={activeTab === 'tournaments' ? 'active' : ''}
+            onClick={() => setActiveTab('tournaments')}
+          >
+            Tournaments
+          </button>
+          <button
+            type="button"
+            className={activeTab === 'leaderboard' ? 'active' : ''}
+            onClick={() => setActiveTab('leaderboard')}
+          >
+            Leaderboard
+          </button>
+          <button
+            type="button"
+            className={activeTab === 'staking' ? 'active' : ''}
+            onClick={() => setActiveTab('staking')}
+          >
+            Staking
+          </button>
+          <button type="button" className={activeTab === 'coins' ? 'active' : ''} onClick={() => setActiveTab('coins')}>
+            Coins
+          </button>
+        </nav>
+
+        {activeTab === 'fighters' ? (
+          <>
+            <section className="mint-section">
+              <div className="section-header">
+                <div>
+                  <h2 className="section-title">{mintMode === 'single' ? 'Mint a Fighter' : 'Mint a Squad'}</h2>
+                  <p className="section-subtitle">
+                    {mintMode === 'single'
+                      ? 'Allocate 10 points across agility, strength and stamina.'
+                      : `Mint up to ${MAX_SQUAD_SIZE} fighters in one transaction with a single encrypted input.`}
+                  </p>
+                </div>
+                <div className="mode-toggle">
+                  <button
+                    type="button"
+                    className={mintMode === 'single' ? 'active' : ''}
+                    onClick={() => setMintMode('single')}
+                    disabled={isMinting}
+                  >
+                    Single
+                  </button>
+                  <button
+                    type="button"
+                    className={mintMode === 'squad' ? 'active' : ''}
+                    onClick={() => setMintMode('squad')}
+                    disabled={isMinting}
+                  >
+                    Mint squad
+                  </button>
+                </div>
+              </div>
+
+              {!contractConfigured && (
+                <p className="status-note">
+                  No fighter contract is deployed on this network.
+                  Export it with <code>fighter:export-deployments</code> to enable minting.
+                </p>
+              )}
+
+              {mintMode === 'single' && rollRandom ? (
+                <p className="status-note">
+                  The contract rolls agility, strength and stamina with encrypted randomness. They always add up to 10,
+                  and nobody, including you, knows them until you decrypt the fighter.
+                </p>
+              ) : mintMode === 'single' ? (
+                <>
+                <div className="attribute-grid">
+                  <AttributeInput
+                    label="Agility"
+                    value={distribution.agility}
+                    onChange={(next) => handleDistributionChange('agility', next)}
+                  />
+                  <AttributeInput
+                    label="Strength"
+                    value={distribution.strength}
+                    onChange={(next) => handleDistributionChange('strength', next)}
+                  />
+                  <AttributeInput
+                    label="Stamina"
+                    value={distribution.stamina}
+                    onChange={(next) => handleDistributionChange('stamina', next)}
+                  />
+                </div>
+
+                <div className="points-summary">
+                  <span>Total: {totalPoints} / 10</span>
+                  <span className={remainingPoints === 0 ? 'points-ready' : 'points-pending'}>
+                    {remainingPoints === 0 ? 'Ready to mint' : `${remainingPoints} point${remainingPoints === 1 ? '' : 's'} remaining`}
+                  </span>
+                </div>
+                </>
+              ) : (
+                <SquadEditor
+                  squad={squad}
+                  onChange={handleSquadChange}
+                  onAdd={addSquadMember}
+                  onRemove={removeSquadMember}
+                  disabled={isMinting}
+                />
+              )}
+
+              {mintError && <p className="feedback-error">{mintError}</p>}
+              {mintSuccess && <p className="feedback-success">{mintSuccess}</p>}
+
+              <div className="mint-actions">
+                <button
+                  type="button"
+                  className="primary-button"
+                  onClick={handleMint}
+                  disabled={isMinting || !canMint || !signer || !contractConfigured}
+                >
+                  {isMinting ? 'Minting...' : mintMode === 'single' ? 'Mint Fighter' : `Mint Squad (${squad.length})`}
+                </button>
+                {mintMode === 'single' && (
+                  <label className="checkbox-field">
+                    <input
+                      type="checkbox"
+                      checked={rollRandom}
+                      onChange={(event) => setRollRandom(event.target.checked)}
+                      disabled={isMinting}
+                    />
+                    <span>Roll random stats</span>
+                  </label>
+                )}
+              </div>
+            </section>
+
+            <section className="fighters-section">
+              <div className="section-header">
+                <div>
+                  <h2 className="section-title">Your Fighters</h2>
+                  <p className="section-subtitle">Decrypt attributes locally with Zama FHE when you need them.</p>
+                </div>
+                <div className="challenge-actions">
+                  <button
+                    type="button"
+                    className="outline-button"
+                    onClick={handleDecryptAll}
+                    disabled={isDecryptingAll || !encryptor || !signer || !contractConfigured || fighters.length === 0}
+                  >
+                    {isDecryptingAll ? 'Decrypting…' : 'Decrypt all'}
+                  </button>
+                  <button
+                    type="button"
+                    className="outline-button"
+                    onClick={() => {
+                      setCompareFighterId(null);
+                      setIsCompareOpen(true);
+                    }}
+                    disabled={!connectedAddress}
+                  >
+                    Compare fighters
+                  </button>
+                </div>
+              </div>
+
+              {isZamaLoading && <p className="status-note">Loading encryption services…</p>}
+              {zamaError && <p className="feedback-error">{zamaError}</p>}
+              {listError && <p className="feedback-error">{listError}</p>}
+              {decryptAllError && <p className="feedback-error">{decryptAllError}</p>}
+
+              {!connectedAddress && <p className="status-note">Connect a wallet to view your fighters.</p>}
+
+              {!contractConfigured && (
+                <p className="status-note">
+                  No fighter contract is deployed on this network.
+                  Export it with <code>fighter:export-deployments</code> to load fighters.
+                </p>
+              )}
+
+              {connectedAddress && !isLoadingFighters && fighters.length === 0 && (
+                <p className="status-note">No fighters minted yet.</p>
+              )}
+
+              {isLoadingFighters && fighters.length === 0 && <p className="status-note">Fetching fighters…</p>}
+
+              <div className="fighter-grid">
+                {fighters.map((fighter) => (
+                  <FighterCard
+                    key={fighter.tokenId.toString()}
+                    tokenId={fighter.tokenId}
+                    reveal={fighter.reveal}
+                    experience={fighter.experience}
+                    trainingCost={trainingCost}
+                    trainingFee={trainingFee}
+                    trainingFeeAllowed={trainingFeeAllowed}
+                    viewers={fighter.viewers}
+                    lineage={fighter.lineage}
+                    lock={fighter.lock}
+                    decryptedAll={decryptedFighters[fighter.tokenId.toString()]}
+                    encryptor={encryptor}
+                    signer={signer}
+                    ownerAddress={connectedAddress}
+                    contractConfigured={contractConfigured}
+                    onUpdated={triggerRefresh}
+                    onCompare={() => {
+                      setCompareFighterId(fighter.tokenId);
+                      setIsCompareOpen(true);
+                    }}
+                  />
+                ))}
+              </div>
+            </section>
+
+            {isCompareOpen && (
+              <CompareDialog
+                fighterIds={fighters.map((fighter) => fighter.tokenId)}
+                initialFighterId={compareFighterId}
+                encryptor={encryptor}
+                signer={signer}
+                connectedAddress={connectedAddress}
+                onClose={() => setIsCompareOpen(false)}
+              />
+            )}
 
-          {connectedAddress && !isLoadingFighters && fighters.length === 0 && (
-            <p className="status-note">No fighters minted yet.</p>
-          )}
+            <BreedSection fighters={fighters} signer={signer} onBred={triggerRefresh} />
 
-          {isLoadingFighters && <p className="status-note">Fetching fighters…</p>}
+            <FighterLookup />
 
-          <div className="fighter-grid">
-            {fighters.map((fighter) => (
-              <FighterCard
-                key={fighter.tokenId.toString()}
-                tokenId={fighter.tokenId}
-                handles={fighter.handles}
-                instance={instance}
-                signer={signer}
-                ownerAddress={connectedAddress}
-                contractConfigured={contractConfigured}
-                onUpdated={triggerRefresh}
-              />
-            ))}
-          </div>
-        </section>
+            <ChallengesSection
+              fighterIds={fighters.map((fighter) => fighter.tokenId)}
+              signer={signer}
+              connectedAddress={connectedAddress}
+            />
+          </>
+        ) : activeTab === 'market' ? (
+          <MarketSection
+            fighterIds={fighters.map((fighter) => fighter.tokenId)}
+            encryptor={encryptor}
+            signer={signer}
+            connectedAddress={connectedAddress}
+            onTraded={triggerRefresh}
+          />
+        ) : activeTab === 'auctions' ? (
+          <AuctionSection
+            fighterIds={fighters.map((fighter) => fighter.tokenId)}
+            instance={instance}
+            encryptor={encryptor}
+            signer={signer}
+            connectedAddress={connectedAddress}
+            onTraded={triggerRefresh}
+          />
+        ) : activeTab === 'tournaments' ? (
+          <TournamentSection
+            fighterIds={fighters.map((fighter) => fighter.tokenId)}
+            signer={signer}
+            connectedAddress={connectedAddress}
+            onTraded={triggerRefresh}
+          />
+        ) : activeTab === 'leaderboard' ? (
+          <LeaderboardSection fighterIds={fighters.map((fighter) => fighter.tokenId)} />
+        ) : activeTab === 'staking' ? (
+          <StakingSection
+            fighterIds={fighters.map((fighter) => fighter.tokenId)}
+            encryptor={encryptor}
+            signer={signer}
+            connectedAddress={connectedAddress}
+            onTraded={triggerRefresh}
+          />
+        ) : (
+          <CoinSection
+            instance={instance}
+            encryptor={encryptor}
+            signer={signer}
+            connectedAddress={connectedAddress}
+            onFeesToggled={triggerRefresh}
+          />
+        )}
       </main>
     </div>
   );
@@ -299,38 +773,717 @@ function AttributeInput({ label, value, onChange }: AttributeInputProps) {
   );
 }
 
+type SquadEditorProps = {
+  squad: AttributeState[];
+  onChange: (index: number, field: keyof AttributeState, value: number) => void;
+  onAdd: () => void;
+  onRemove: (index: number) => void;
+  disabled: boolean;
+};
+
+function SquadEditor({ squad, onChange, onAdd, onRemove, disabled }: SquadEditorProps) {
+  return (
+    <div className="squad-editor">
+      {squad.map((member, index) => {
+        const total = sumPoints(member);
+        return (
+          <div key={index} className="squad-row">
+            <span className="squad-index">#{index + 1}</span>
+            <AttributeInput
+              label="Agility"
+              value={member.agility}
+              onChange={(next) => onChange(index, 'agility', next)}
+            />
+            <AttributeInput
+              label="Strength"
+              value={member.strength}
+              onChange={(next) => onChange(index, 'strength', next)}
+            />
+            <AttributeInput
+              label="Stamina"
+              value={member.stamina}
+              onChange={(next) => onChange(index, 'stamina', next)}
+            />
+            <span className={total === MAX_POINTS ? 'points-ready' : 'points-pending'}>{total} / 10</span>
+            <button
+              type="button"
+              className="text-button"
+              onClick={() => onRemove(index)}
+              disabled={disabled || squad.length === 1}
+            >
+              Remove
+            </button>
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        className="text-button"
+        onClick={onAdd}
+        disabled={disabled || squad.length >= MAX_SQUAD_SIZE}
+      >
+        Add fighter
+      </button>
+    </div>
+  );
+}
+
+function sumPoints(attributes: AttributeState) {
+  return attributes.agility + attributes.strength + attributes.stamina;
+}
+
+type BreedSectionProps = {
+  fighters: Fighter[];
+  signer: ReturnType<typeof useEthersSigner>;
+  onBred: () => void;
+};
+
+function BreedSection({ fighters, signer, onBred }: BreedSectionProps) {
+  const { addresses, isDeployed } = useDeployment();
+  const [parentA, setParentA] = useState('');
+  const [parentB, setParentB] = useState('');
+  const [burnParents, setBurnParents] = useState(false);
+  const [breedError, setBreedError] = useState<string | null>(null);
+  const [breedSuccess, setBreedSuccess] = useState<string | null>(null);
+  const [isBreeding, setIsBreeding] = useState(false);
+
+  const nowSeconds = BigInt(Math.floor(Date.now() / 1000));
+  const readyFighters = fighters.filter((fighter) => fighter.lineage.breedingReadyAt <= nowSeconds);
+
+  const handleBreed = async () => {
+    if (!signer) {
+      setBreedError('Connect a wallet to breed fighters');
+      return;
+    }
+    if (parentA === '' || parentB === '' || parentA === parentB) {
+      setBreedError('Pick two different fighters');
+      return;
+    }
+
+    setBreedError(null);
+    setBreedSuccess(null);
+    setIsBreeding(true);
+
+    try {
+      const signerInstance = await signer;
+      if (!signerInstance) {
+        throw new Error('Signer is unavailable');
+      }
+
+      const contract = new ethers.Contract(addresses.FighterNFT, CONTRACT_ABI, signerInstance);
+      const tx = await contract.breed(BigInt(parentA), BigInt(parentB), burnParents);
+      const receipt = await tx.wait();
+
+      const bred = receipt?.logs
+        .map((log: ethers.Log) => contract.interface.parseLog(log))
+        .find((parsed: ethers.LogDescription | null) => parsed?.name === 'FighterBred');
+      setBreedSuccess(bred ? `Fighter #${bred.args.childId.toString()} was born` : 'Fighters bred successfully');
+      setParentA('');
+      setParentB('');
+      onBred();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to breed fighters';
+      setBreedError(message);
+    } finally {
+      setIsBreeding(false);
+    }
+  };
+
+  return (
+    <section className="breed-section">
+      <div className="section-header">
+        <div>
+          <h2 className="section-title">Breed Fighters</h2>
+          <p className="section-subtitle">
+            Combine two of your fighters into a new one. Its encrypted stats mix both parents with on-chain randomness.
+          </p>
+        </div>
+      </div>
+
+      <div className="challenge-form">
+        <label className="attribute-field">
+          <span>First parent</span>
+          <select value={parentA} onChange={(event) => setParentA(event.target.value)}>
+            <option value="">Select a fighter</option>
+            {readyFighters.map((fighter) => (
+              <option key={fighter.tokenId.toString()} value={fighter.tokenId.toString()}>
+                #{fighter.tokenId.toString()} (gen {fighter.lineage.generation.toString()})
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="attribute-field">
+          <span>Second parent</span>
+          <select value={parentB} onChange={(event) => setParentB(event.target.value)}>
+            <option value="">Select a fighter</option>
+            {readyFighters
+              .filter((fighter) => fighter.tokenId.toString() !== parentA)
+              .map((fighter) => (
+                <option key={fighter.tokenId.toString()} value={fighter.tokenId.toString()}>
+                  #{fighter.tokenId.toString()} (gen {fighter.lineage.generation.toString()})
+                </option>
+              ))}
+          </select>
+        </label>
+      </div>
+
+      <label className="checkbox-field">
+        <input type="checkbox" checked={burnParents} onChange={(event) => setBurnParents(event.target.checked)} />
+        <span>Burn both parents instead of putting them on a one-day cooldown</span>
+      </label>
+
+      {readyFighters.length < 2 && <p className="status-note">You need two fighters that are off cooldown to breed.</p>}
+      {breedError && <p className="feedback-error">{breedError}</p>}
+      {breedSuccess && <p className="feedback-success">{breedSuccess}</p>}
+
+      <button
+        type="button"
+        className="primary-button"
+        onClick={handleBreed}
+        disabled={isBreeding || !signer || !isDeployed.FighterNFT || parentA === '' || parentB === ''}
+      >
+        {isBreeding ? 'Breeding…' : burnParents ? 'Breed and burn parents' : 'Breed'}
+      </button>
+    </section>
+  );
+}
+
+type CompareDialogProps = {
+  fighterIds: bigint[];
+  initialFighterId: bigint | null;
+  encryptor: ReturnType<typeof useDecryptionSession>;
+  signer: ReturnType<typeof useEthersSigner>;
+  connectedAddress: `0x${string}` | undefined;
+  onClose: () => void;
+};
+
+function CompareDialog({
+  fighterIds,
+  initialFighterId,
+  encryptor,
+  signer,
+  connectedAddress,
+  onClose,
+}: CompareDialogProps) {
+  const { addresses, isDeployed } = useDeployment();
+  const publicClient = usePublicClient();
+
+  const [comparisons, setComparisons] = useState<Comparison[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [listError, setListError] = useState<string | null>(null);
+  const [refreshIndex, setRefreshIndex] = useState(0);
+
+  const [fighterId, setFighterId] = useState(initialFighterId?.toString() ?? '');
+  const [opponentId, setOpponentId] = useState('');
+  const [results, setResults] = useState<Record<string, boolean[]>>({});
+
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [actionSuccess, setActionSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!publicClient || !isDeployed.FighterComparator) {
+      setComparisons([]);
+      setListError(null);
+      return;
+    }
+
+    let ignore = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      setListError(null);
+      try {
+        const requestedEvents = await publicClient.getContractEvents({
+          address: addresses.FighterComparator,
+          abi: COMPARATOR_ABI,
+          eventName: 'ComparisonRequested',
+          fromBlock: 'earliest',
+          strict: true,
+        });
+
+        const comparisonData: Comparison[] = await Promise.all(
+          requestedEvents.map(async (event) => {
+            const comparisonId = event.args.comparisonId;
+            const comparison = await publicClient.readContract({
+              address: addresses.FighterComparator,
+              abi: COMPARATOR_ABI,
+              functionName: 'getComparison',
+              args: [comparisonId],
+            });
+
+            return {
+              comparisonId,
+              requester: comparison.requester,
+              fighterId: comparison.fighterId,
+              opponentId: comparison.opponentId,
+              status: COMPARISON_STATUS_LABELS[comparison.status] ?? 'none',
+              resultHandles: [comparison.agilityHigher, comparison.strengthHigher, comparison.staminaHigher],
+            };
+          })
+        );
+
+        if (!ignore) {
+          setComparisons(comparisonData.reverse());
+        }
+      } catch (error) {
+        if (!ignore) {
+          const message = error instanceof Error ? error.message : 'Failed to load comparisons';
+          setListError(message);
+        }
+      } finally {
+        if (!ignore) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    load();
+
+    return () => {
+      ignore = true;
+    };
+  }, [publicClient, refreshIndex, addresses.FighterComparator, isDeployed.FighterComparator]);
+
+  const isSelf = (account: string) =>
+    connectedAddress !== undefined && account.toLowerCase() === connectedAddress.toLowerCase();
+
+  const outgoing = comparisons.filter((comparison) => isSelf(comparison.requester));
+  const incoming = comparisons.filter(
+    (comparison) =>
+      comparison.status === 'pending' && !isSelf(comparison.requester) && fighterIds.includes(comparison.opponentId)
+  );
+
+  const runAction = async (
+    key: string,
+    successMessage: string,
+    action: (contract: ethers.Contract) => Promise<unknown>
+  ) => {
+    if (!signer) {
+      setActionError('Connect a wallet to compare fighters');
+      return;
+    }
+
+    setActionError(null);
+    setActionSuccess(null);
+    setPendingAction(key);
+
+    try {
+      const resolvedSigner = await signer;
+      if (!resolvedSigner) {
+        throw new Error('Signer is unavailable');
+      }
+
+      const contract = new ethers.Contract(addresses.FighterComparator, COMPARATOR_ABI, resolvedSigner);
+      const tx = (await action(contract)) as ethers.ContractTransactionResponse;
+      await tx.wait();
+
+      setActionSuccess(successMessage);
+      setRefreshIndex((prev) => prev + 1);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Transaction failed';
+      setActionError(message);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleRequest = async () => {
+    if (!fighterId || !/^\d+$/.test(opponentId) || fighterId === opponentId) {
+      setActionError('Pick one of your fighters and a different opponent token id');
+      return;
+    }
+
+    await runAction(
+      'request',
+      `Comparison requested, waiting for the owner of #${opponentId} to accept`,
+      (contract) => contract.requestComparison(BigInt(fighterId), BigInt(opponentId))
+    );
+    setOpponentId('');
+  };
+
+  const handleAccept = async (comparison: Comparison) => {
+    await runAction(
+      `accept-${comparison.comparisonId.toString()}`,
+      'Comparison accepted; only the requester can decrypt the result',
+      (contract) => contract.acceptComparison(comparison.comparisonId)
+    );
+  };
+
+  const handleCancel = async (comparison: Comparison) => {
+    await runAction(
+      `cancel-${comparison.comparisonId.toString()}`,
+      'Comparison cancelled',
+      (contract) => contract.cancelComparison(comparison.comparisonId)
+    );
+  };
+
+  const handleDecrypt = async (comparison: Comparison) => {
+    if (!encryptor || !signer || !connectedAddress) {
+      setActionError('Connect a wallet and wait for the encryption service to decrypt the result');
+      return;
+    }
+
+    const key = comparison.comparisonId.toString();
+    setActionError(null);
+    setPendingAction(`decrypt-${key}`);
+
+    try {
+      const resolvedSigner = await signer;
+      if (!resolvedSigner) {
+        throw new Error('Signer is unavailable');
+      }
+
+      const values = await encryptor.userDecrypt(
+        [...comparison.resultHandles],
+        addresses.FighterComparator,
+        resolvedSigner
+      );
+      setResults((prev) => ({ ...prev, [key]: values.map(Boolean) }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to decrypt the comparison';
+      setActionError(message);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  return (
+    <div className="dialog-backdrop" onClick={onClose}>
+      <section
+        className="dialog compare-dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="compare-dialog-title"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="section-header">
+          <div>
+            <h2 id="compare-dialog-title" className="section-title">
+              Compare Fighters
+            </h2>
+            <p className="section-subtitle">
+              Learn whether your fighter is stronger, attribute by attribute, without either side seeing the other's
+              stats. The opponent's owner has to accept, and only you can decrypt the result.
+            </p>
+          </div>
+          <button type="button" className="text-button" onClick={onClose}>
+            Close
+          </button>
+        </div>
+
+        {!isDeployed.FighterComparator && (
+          <p className="status-note">
+            No comparator contract is deployed on this network.
+            Export it with <code>fighter:export-deployments</code> to compare fighters.
+          </p>
+        )}
+
+        <div className="challenge-form">
+          <label className="attribute-field">
+            <span>Your fighter</span>
+            <select value={fighterId} onChange={(event) => setFighterId(event.target.value)}>
+              <option value="">Select a fighter</option>
+              {fighterIds.map((tokenId) => (
+                <option key={tokenId.toString()} value={tokenId.toString()}>
+                  Token #{tokenId.toString()}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="attribute-field">
+            <span>Opponent token id</span>
+            <input value={opponentId} onChange={(event) => setOpponentId(event.target.value.trim())} placeholder="2" />
+          </label>
+        </div>
+
+        <button
+          type="button"
+          className="primary-button"
+          onClick={handleRequest}
+          disabled={pendingAction !== null || !signer || !isDeployed.FighterComparator || !fighterId || !opponentId}
+        >
+          {pendingAction === 'request' ? 'Requesting…' : 'Request comparison'}
+        </button>
+
+        {actionError && <p className="feedback-error">{actionError}</p>}
+        {actionSuccess && <p className="feedback-success">{actionSuccess}</p>}
+        {listError && <p className="feedback-error">{listError}</p>}
+        {isLoading && comparisons.length === 0 && <p className="status-note">Loading comparisons…</p>}
+
+        {incoming.length > 0 && <span className="attribute-label">Waiting for your consent</span>}
+        <ul className="challenge-list">
+          {incoming.map((comparison) => {
+            const key = comparison.comparisonId.toString();
+
+            return (
+              <li key={key} className="challenge-row">
+                <div className="challenge-summary">
+                  <span className="fighter-id">Comparison #{key}</span>
+                  <span>
+                    Fighter #{comparison.fighterId.toString()} vs your #{comparison.opponentId.toString()}
+                  </span>
+                </div>
+                <div className="challenge-actions">
+                  <button
+                    type="button"
+                    className="primary-button"
+                    onClick={() => handleAccept(comparison)}
+                    disabled={pendingAction !== null || !signer}
+                  >
+                    {pendingAction === `accept-${key}` ? 'Accepting…' : 'Accept'}
+                  </button>
+                  <button
+                    type="button"
+                    className="outline-button"
+                    onClick={() => handleCancel(comparison)}
+                    disabled={pendingAction !== null || !signer}
+                  >
+                    {pendingAction === `cancel-${key}` ? 'Declining…' : 'Decline'}
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        {outgoing.length > 0 && <span className="attribute-label">Your requests</span>}
+        <ul className="challenge-list">
+          {outgoing.map((comparison) => {
+            const key = comparison.comparisonId.toString();
+            const decrypted = results[key];
+
+            return (
+              <li key={key} className="challenge-row">
+                <div className="challenge-summary">
+                  <span className="fighter-id">Comparison #{key}</span>
+                  <span>
+                    Your #{comparison.fighterId.toString()} vs #{comparison.opponentId.toString()}
+                  </span>
+                  <span className={`challenge-status ${comparison.status === 'pending' ? 'pending' : ''}`}>
+                    {comparison.status}
+                  </span>
+                </div>
+                {decrypted && (
+                  <div className="points-summary">
+                    {TRAINABLE_ATTRIBUTES.map((attribute) => (
+                      <span key={attribute.value}>
+                        {attribute.label}: {decrypted[attribute.value] ? 'higher' : 'not higher'}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <div className="challenge-actions">
+                  {comparison.status === 'pending' && (
+                    <button
+                      type="button"
+                      className="outline-button"
+                      onClick={() => handleCancel(comparison)}
+                      disabled={pendingAction !== null || !signer}
+                    >
+                      {pendingAction === `cancel-${key}` ? 'Cancelling…' : 'Cancel'}
+                    </button>
+                  )}
+                  {comparison.status === 'completed' && !decrypted && (
+                    <button
+                      type="button"
+                      className="outline-button"
+                      onClick={() => handleDecrypt(comparison)}
+                      disabled={pendingAction !== null || !encryptor || !signer}
+                    >
+                      {pendingAction === `decrypt-${key}` ? 'Decrypting…' : 'Decrypt result'}
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+    </div>
+  );
+}
+
+function FighterLookup() {
+  const { addresses, isDeployed } = useDeployment();
+  const publicClient = usePublicClient();
+
+  const [tokenId, setTokenId] = useState('');
+  const [lookedUpId, setLookedUpId] = useState<bigint | null>(null);
+  const [reveal, setReveal] = useState<RevealState | null>(null);
+  const [lookupError, setLookupError] = useState<string | null>(null);
+  const [isLookingUp, setIsLookingUp] = useState(false);
+
+  const handleLookup = async () => {
+    if (!publicClient) {
+      setLookupError('Network client is unavailable');
+      return;
+    }
+
+    let id: bigint;
+    try {
+      id = BigInt(tokenId.trim());
+    } catch {
+      setLookupError('Enter a valid token id');
+      return;
+    }
+
+    setLookupError(null);
+    setIsLookingUp(true);
+    try {
+      setReveal(await loadReveal(publicClient, addresses.FighterNFT, id));
+      setLookedUpId(id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load fighter';
+      setLookupError(message);
+      setReveal(null);
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  return (
+    <section className="lookup-section">
+      <div className="section-header">
+        <div>
+          <h2 className="section-title">Inspect a Fighter</h2>
+          <p className="section-subtitle">Stats that an owner revealed publicly are readable by anyone.</p>
+        </div>
+      </div>
+
+      <div className="challenge-form">
+        <label className="attribute-field">
+          <span>Token id</span>
+          <input type="number" min={1} value={tokenId} onChange={(event) => setTokenId(event.target.value)} />
+        </label>
+      </div>
+
+      <button
+        type="button"
+        className="primary-button"
+        onClick={handleLookup}
+        disabled={isLookingUp || !isDeployed.FighterNFT || tokenId.trim() === ''}
+      >
+        {isLookingUp ? 'Loading…' : 'Show Fighter'}
+      </button>
+
+      {lookupError && <p className="feedback-error">{lookupError}</p>}
+
+      {reveal && lookedUpId !== null && (
+        <article className="fighter-card">
+          <header className="fighter-card__header">
+            <span className="fighter-id">Token #{lookedUpId.toString()}</span>
+            {reveal.revealed && <span className="reveal-badge">Revealed</span>}
+          </header>
+
+          {!reveal.revealed && (
+            <p className="status-note">
+              {reveal.pending ? 'The reveal is awaiting decryption.' : 'The owner has not revealed this fighter.'}
+            </p>
+          )}
+
+          <div className="fighter-attributes">
+            <AttributeDisplay label="Agility" value={reveal.attributes?.agility} />
+            <AttributeDisplay label="Strength" value={reveal.attributes?.strength} />
+            <AttributeDisplay label="Stamina" value={reveal.attributes?.stamina} />
+          </div>
+        </article>
+      )}
+    </section>
+  );
+}
+
 type FighterCardProps = {
   tokenId: bigint;
-  handles: readonly `0x${string}`[];
-  instance: any;
+  reveal: RevealState;
+  experience: ExperienceState;
+  trainingCost: bigint | null;
+  trainingFee: bigint | null;
+  trainingFeeAllowed: boolean;
+  viewers: ViewerGrant[];
+  lineage: LineageState;
+  lock: LockState | null;
+  decryptedAll: DecryptedFighter | undefined;
+  encryptor: ReturnType<typeof useDecryptionSession>;
   signer: ReturnType<typeof useEthersSigner>;
   ownerAddress: `0x${string}` | undefined;
   contractConfigured: boolean;
   onUpdated: () => void;
+  onCompare: () => void;
 };
 
-function FighterCard({ tokenId, handles, instance, signer, ownerAddress, contractConfigured, onUpdated }: FighterCardProps) {
+function FighterCard({
+  tokenId,
+  reveal,
+  experience,
+  trainingCost,
+  trainingFee,
+  trainingFeeAllowed,
+  viewers,
+  lineage,
+  lock,
+  decryptedAll,
+  encryptor,
+  signer,
+  ownerAddress,
+  contractConfigured,
+  onUpdated,
+  onCompare,
+}: FighterCardProps) {
+  const { addresses } = useDeployment();
+  const knownLockers: Record<string, string> = { [addresses.FighterTournament.toLowerCase()]: 'Tournament' };
   const [isDecrypting, setIsDecrypting] = useState(false);
   const [decryptError, setDecryptError] = useState<string | null>(null);
   const [decrypted, setDecrypted] = useState<DecryptedAttributes | null>(null);
+  const [isValid, setIsValid] = useState<boolean | null>(null);
 
   const [isEditing, setIsEditing] = useState(false);
   const [updateValues, setUpdateValues] = useState<AttributeState>({ agility: 0, strength: 0, stamina: 0 });
   const [updateError, setUpdateError] = useState<string | null>(null);
   const [isUpdating, setIsUpdating] = useState(false);
 
+  const [revealError, setRevealError] = useState<string | null>(null);
+  const [isRevealing, setIsRevealing] = useState(false);
+
+  const [burnError, setBurnError] = useState<string | null>(null);
+  const [isBurning, setIsBurning] = useState(false);
+
+  const [isTrainingOpen, setIsTrainingOpen] = useState(false);
+  const [trainAttribute, setTrainAttribute] = useState(TRAINABLE_ATTRIBUTES[0].value);
+  const [trainError, setTrainError] = useState<string | null>(null);
+  const [isTraining, setIsTraining] = useState(false);
+
+  const canTrain = trainingCost !== null && experience.available >= trainingCost;
+  const trainingFeeBlocked = trainingFee !== null && trainingFee > 0n && !trainingFeeAllowed;
+
+  const [newViewer, setNewViewer] = useState('');
+  const [viewerDuration, setViewerDuration] = useState(VIEWER_DURATIONS[0].seconds);
+  const [sharingError, setSharingError] = useState<string | null>(null);
+  const [pendingSharing, setPendingSharing] = useState<string | null>(null);
+
+  const displayed = decrypted ?? reveal.attributes;
+
   useEffect(() => {
     if (decrypted) {
       setUpdateValues(decrypted);
     }
   }, [decrypted]);
 
+  // Results of "Decrypt all" in the fighters header.
+  useEffect(() => {
+    if (decryptedAll) {
+      const { valid, ...attributes } = decryptedAll;
+      setIsValid(valid);
+      setDecrypted(attributes);
+    }
+  }, [decryptedAll]);
+
   const handleDecrypt = async () => {
     if (!contractConfigured) {
-      setDecryptError('Contract address is not configured');
+      setDecryptError('No fighter contract is deployed on this network');
       return;
     }
-    if (!instance) {
+    if (!encryptor) {
       setDecryptError('Encryption service is not ready yet');
       return;
     }
@@ -352,37 +1505,11 @@ function FighterCard({ tokenId, handles, instance, signer, ownerAddress, contrac
         throw new Error('Signer is unavailable');
       }
 
-      const keypair = instance.generateKeypair();
-      const handleContractPairs = handles.map((handle) => ({
-        handle,
-        contractAddress: CONTRACT_ADDRESS,
-      }));
-
-      const startTime = Math.floor(Date.now() / 1000).toString();
-      const durationDays = '7';
-      const contracts = [CONTRACT_ADDRESS];
-
-      const eip712 = instance.createEIP712(keypair.publicKey, contracts, startTime, durationDays);
-      const signature = await signerInstance.signTypedData(
-        eip712.domain,
-        { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
-        eip712.message
-      );
-
-      const result = await instance.userDecrypt(
-        handleContractPairs,
-        keypair.privateKey,
-        keypair.publicKey,
-        signature.replace('0x', ''),
-        contracts,
-        ownerAddress,
-        startTime,
-        durationDays
-      );
-
-      const resolvedValues = handles.map((handle) => Number(result[handle] ?? 0));
-      setDecrypted({ agility: resolvedValues[0], strength: resolvedValues[1], stamina: resolvedValues[2] });
-      setUpdateValues({ agility: resolvedValues[0], strength: resolvedValues[1], stamina: resolvedValues[2] });
+      const client = createFighterClient(addresses.FighterNFT, encryptor, signerInstance);
+      const { valid, ...attributes } = await client.decrypt(tokenId);
+      setIsValid(valid);
+      setDecrypted(attributes);
+      setUpdateValues(attributes);
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to decrypt attributes';
       setDecryptError(message);
@@ -391,6 +1518,176 @@ function FighterCard({ tokenId, handles, instance, signer, ownerAddress, contrac
     }
   };
 
+  const handleReveal = async () => {
+    if (!contractConfigured) {
+      setRevealError('No fighter contract is deployed on this network');
+      return;
+    }
+    if (!signer) {
+      setRevealError('Connect a wallet to reveal attributes');
+      return;
+    }
+
+    setRevealError(null);
+    setIsRevealing(true);
+
+    try {
+      const signerInstance = await signer;
+      if (!signerInstance) {
+        throw new Error('Signer is unavailable');
+      }
+
+      const contract = new ethers.Contract(addresses.FighterNFT, CONTRACT_ABI, signerInstance);
+      const tx = await contract.revealAttributes(tokenId);
+      await tx.wait();
+
+      onUpdated();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to reveal attributes';
+      setRevealError(message);
+    } finally {
+      setIsRevealing(false);
+    }
+  };
+
+  const handleBurn = async () => {
+    if (!contractConfigured) {
+      setBurnError('No fighter contract is deployed on this network');
+      return;
+    }
+    if (!signer) {
+      setBurnError('Connect a wallet to burn fighters');
+      return;
+    }
+    if (!window.confirm(`Burn fighter #${tokenId.toString()}? This cannot be undone.`)) {
+      return;
+    }
+
+    setBurnError(null);
+    setIsBurning(true);
+
+    try {
+      const signerInstance = await signer;
+      if (!signerInstance) {
+        throw new Error('Signer is unavailable');
+      }
+
+      const contract = new ethers.Contract(addresses.FighterNFT, CONTRACT_ABI, signerInstance);
+      const tx = await contract.burn(tokenId);
+      await tx.wait();
+
+      onUpdated();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to burn fighter';
+      setBurnError(message);
+      setIsBurning(false);
+    }
+  };
+
+  const handleTrain = async () => {
+    if (!contractConfigured) {
+      setTrainError('No fighter contract is deployed on this network');
+      return;
+    }
+    if (!signer) {
+      setTrainError('Connect a wallet to train');
+      return;
+    }
+    if (!canTrain) {
+      setTrainError('Not enough experience to train');
+      return;
+    }
+    if (trainingFeeBlocked) {
+      setTrainError('Allow fighter training fees in the Coins tab before training');
+      return;
+    }
+
+    setTrainError(null);
+    setIsTraining(true);
+
+    try {
+      const signerInstance = await signer;
+      if (!signerInstance) {
+        throw new Error('Signer is unavailable');
+      }
+
+      const contract = new ethers.Contract(addresses.FighterNFT, CONTRACT_ABI, signerInstance);
+      const tx = await contract.trainAttribute(tokenId, trainAttribute);
+      await tx.wait();
+
+      setDecrypted(null);
+      onUpdated();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to train fighter';
+      setTrainError(message);
+    } finally {
+      setIsTraining(false);
+    }
+  };
+
+  const runSharingAction = async (key: string, action: (contract: ethers.Contract) => Promise<unknown>) => {
+    if (!contractConfigured) {
+      setSharingError('No fighter contract is deployed on this network');
+      return;
+    }
+    if (!signer) {
+      setSharingError('Connect a wallet to manage viewers');
+      return;
+    }
+
+    setSharingError(null);
+    setPendingSharing(key);
+
+    try {
+      const signerInstance = await signer;
+      if (!signerInstance) {
+        throw new Error('Signer is unavailable');
+      }
+
+      const contract = new ethers.Contract(addresses.FighterNFT, CONTRACT_ABI, signerInstance);
+      const tx = (await action(contract)) as ethers.ContractTransactionResponse;
+      await tx.wait();
+
+      onUpdated();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update viewers';
+      setSharingError(message);
+    } finally {
+      setPendingSharing(null);
+    }
+  };
+
+  const handleShare = async () => {
+    const viewer = newViewer.trim();
+    if (!ethers.isAddress(viewer)) {
+      setSharingError('Enter a valid address');
+      return;
+    }
+
+    const expiresAt = viewerDuration === 0 ? 0 : Math.floor(Date.now() / 1000) + viewerDuration;
+    await runSharingAction('share', (contract) => contract.allowViewer(tokenId, viewer, expiresAt));
+    setNewViewer('');
+  };
+
+  const handleExpire = async () => {
+    await runSharingAction('expire', (contract) => contract.expireViewers(tokenId));
+  };
+
+  const nowSeconds = BigInt(Math.floor(Date.now() / 1000));
+  const onBreedingCooldown = lineage.breedingReadyAt > nowSeconds;
+  const isLapsed = (grant: ViewerGrant) => grant.expiresAt !== 0n && grant.expiresAt <= nowSeconds;
+  const describeExpiry = (grant: ViewerGrant) => {
+    if (grant.expiresAt === 0n) {
+      return 'Permanent';
+    }
+    const date = new Date(Number(grant.expiresAt) * 1000).toLocaleString();
+    return isLapsed(grant) ? `Expired ${date}` : `Until ${date}`;
+  };
+
+  const handleRevoke = async (viewer: `0x${string}`) => {
+    await runSharingAction(viewer, (contract) => contract.revokeViewer(tokenId, viewer));
+  };
+
   const editTotal = updateValues.agility + updateValues.strength + updateValues.stamina;
 
   const handleUpdateChange = (field: keyof AttributeState, value: number) => {
@@ -400,7 +1697,7 @@ function FighterCard({ tokenId, handles, instance, signer, ownerAddress, contrac
 
   const handleUpdate = async () => {
     if (!contractConfigured) {
-      setUpdateError('Contract address is not configured');
+      setUpdateError('No fighter contract is deployed on this network');
       return;
     }
 
@@ -409,7 +1706,7 @@ function FighterCard({ tokenId, handles, instance, signer, ownerAddress, contrac
       return;
     }
 
-    if (!instance) {
+    if (!encryptor) {
       setUpdateError('Encryption service is not ready yet');
       return;
     }
@@ -428,30 +1725,11 @@ function FighterCard({ tokenId, handles, instance, signer, ownerAddress, contrac
         throw new Error('Signer is unavailable');
       }
 
-      const updaterAddress = await signerInstance.getAddress();
-      const buffer = instance.createEncryptedInput(CONTRACT_ADDRESS, updaterAddress);
-      buffer.add32(BigInt(updateValues.agility));
-      buffer.add32(BigInt(updateValues.strength));
-      buffer.add32(BigInt(updateValues.stamina));
-
-      const encrypted = await buffer.encrypt();
-      if (!encrypted || encrypted.handles.length < 3) {
-        throw new Error('Failed to prepare encrypted attributes');
-      }
-
-      const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signerInstance);
-      const [agilityHandle, strengthHandle, staminaHandle] = encrypted.handles as readonly `0x${string}`[];
-      const tx = await contract.updateAttributes(
-        tokenId,
-        agilityHandle,
-        strengthHandle,
-        staminaHandle,
-        encrypted.inputProof
-      );
-      await tx.wait();
+      await createFighterClient(addresses.FighterNFT, encryptor, signerInstance).update(tokenId, updateValues);
 
       setIsEditing(false);
       setDecrypted(null);
+      setIsValid(null);
       onUpdated();
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to update attributes';
@@ -464,31 +1742,195 @@ function FighterCard({ tokenId, handles, instance, signer, ownerAddress, contrac
   return (
     <article className="fighter-card">
       <header className="fighter-card__header">
-        <span className="fighter-id">Token #{tokenId.toString()}</span>
+        <span className="fighter-id">
+          Token #{tokenId.toString()}
+          {reveal.revealed && <span className="reveal-badge">Revealed</span>}
+          {lock && <span className="lock-badge">Locked</span>}
+        </span>
         <button
           type="button"
           className="outline-button"
           onClick={handleDecrypt}
-          disabled={isDecrypting || !instance || !signer || !contractConfigured}
+          disabled={isDecrypting || !encryptor || !signer || !contractConfigured}
         >
           {isDecrypting ? 'Decrypting…' : 'Decrypt Attributes'}
         </button>
       </header>
 
       {decryptError && <p className="feedback-error">{decryptError}</p>}
+      {isValid === false && (
+        <p className="status-note">The submitted attributes were invalid, so the default distribution was applied.</p>
+      )}
+      {reveal.pending && <p className="status-note">Reveal pending, waiting for the decryption oracle…</p>}
+      {revealError && <p className="feedback-error">{revealError}</p>}
+      {burnError && <p className="feedback-error">{burnError}</p>}
 
       <div className="fighter-attributes">
-        <AttributeDisplay label="Agility" value={decrypted?.agility} />
-        <AttributeDisplay label="Strength" value={decrypted?.strength} />
-        <AttributeDisplay label="Stamina" value={decrypted?.stamina} />
+        <AttributeDisplay label="Agility" value={displayed?.agility} />
+        <AttributeDisplay label="Strength" value={displayed?.strength} />
+        <AttributeDisplay label="Stamina" value={displayed?.stamina} />
+      </div>
+
+      <div className="lineage-row">
+        <span>Generation {lineage.generation.toString()}</span>
+        <span>
+          {lineage.parentA === 0n
+            ? 'Minted'
+            : `Parents #${lineage.parentA.toString()} × #${lineage.parentB.toString()}`}
+        </span>
+        {onBreedingCooldown && (
+          <span className="lineage-cooldown">
+            Can breed again {new Date(Number(lineage.breedingReadyAt) * 1000).toLocaleString()}
+          </span>
+        )}
       </div>
 
+      {lock && (
+        <p className="lock-note">
+          Held by {knownLockers[lock.locker.toLowerCase()] ?? 'game contract'} <code>{lock.locker}</code> until{' '}
+          {new Date(Number(lock.expiresAt) * 1000).toLocaleString()}. It cannot be transferred, approved, burned or
+          reassigned until then.
+        </p>
+      )}
+
       <footer className="fighter-actions">
-        <button type="button" className="text-button" onClick={() => setIsEditing((prev) => !prev)}>
+        {!reveal.revealed && !reveal.pending && (
+          <button
+            type="button"
+            className="text-button"
+            onClick={handleReveal}
+            disabled={isRevealing || !signer || !contractConfigured}
+          >
+            {isRevealing ? 'Revealing…' : 'Reveal publicly'}
+          </button>
+        )}
+        <button type="button" className="text-button" onClick={() => setIsTrainingOpen((prev) => !prev)}>
+          {isTrainingOpen ? 'Close training' : 'Train'}
+        </button>
+        <button type="button" className="text-button" onClick={onCompare}>
+          Compare
+        </button>
+        <button
+          type="button"
+          className="text-button"
+          onClick={() => setIsEditing((prev) => !prev)}
+          disabled={lock !== null}
+        >
           {isEditing ? 'Cancel update' : 'Reassign attributes'}
         </button>
+        <button
+          type="button"
+          className="text-button danger"
+          onClick={handleBurn}
+          disabled={isBurning || !signer || !contractConfigured || lock !== null}
+        >
+          {isBurning ? 'Burning…' : 'Burn'}
+        </button>
       </footer>
 
+      <div className="viewer-panel">
+        <span className="attribute-label">Shared with</span>
+        {viewers.length === 0 && <p className="status-note">Only you can decrypt this fighter.</p>}
+        <ul className="viewer-list">
+          {viewers.map((grant) => (
+            <li key={grant.address} className="viewer-row">
+              <code>{grant.address}</code>
+              <span className={isLapsed(grant) ? 'viewer-expiry lapsed' : 'viewer-expiry'}>{describeExpiry(grant)}</span>
+              <button
+                type="button"
+                className="text-button"
+                onClick={() => handleRevoke(grant.address)}
+                disabled={pendingSharing !== null || !signer}
+              >
+                {pendingSharing === grant.address ? 'Revoking…' : 'Revoke'}
+              </button>
+            </li>
+          ))}
+        </ul>
+        {viewers.some(isLapsed) && (
+          <button
+            type="button"
+            className="text-button"
+            onClick={handleExpire}
+            disabled={pendingSharing !== null || !signer}
+          >
+            {pendingSharing === 'expire' ? 'Removing…' : 'Remove expired grants'}
+          </button>
+        )}
+        <div className="viewer-form">
+          <input
+            type="text"
+            placeholder="0x… viewer address"
+            value={newViewer}
+            onChange={(event) => setNewViewer(event.target.value)}
+          />
+          <select value={viewerDuration} onChange={(event) => setViewerDuration(Number(event.target.value))}>
+            {VIEWER_DURATIONS.map((duration) => (
+              <option key={duration.seconds} value={duration.seconds}>
+                {duration.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            className="outline-button"
+            onClick={handleShare}
+            disabled={pendingSharing !== null || !signer || !contractConfigured || newViewer.trim() === ''}
+          >
+            {pendingSharing === 'share' ? 'Sharing…' : 'Share'}
+          </button>
+        </div>
+        {sharingError && <p className="feedback-error">{sharingError}</p>}
+      </div>
+
+      {isTrainingOpen && (
+        <div className="update-panel">
+          <div className="points-summary">
+            <span>Level {experience.level.toString()}</span>
+            <span>{experience.available.toString()} XP available</span>
+            <span>Attribute cap: {experience.attributeCap}</span>
+          </div>
+
+          <label className="attribute-field">
+            <span>Attribute</span>
+            <select value={trainAttribute} onChange={(event) => setTrainAttribute(Number(event.target.value))}>
+              {TRAINABLE_ATTRIBUTES.map((attribute) => (
+                <option key={attribute.value} value={attribute.value}>
+                  {attribute.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <p className="status-note">
+            Training adds one encrypted point. Points above the cap are dropped, but the experience is still spent.
+          </p>
+          {trainingFee !== null && trainingFee > 0n && (
+            <p className="status-note">
+              Training also costs {ethers.formatUnits(trainingFee, COIN_DECIMALS)} FGC. Allow fighter training fees in
+              the Coins tab first; if your balance cannot cover the fee, the point is dropped too.
+            </p>
+          )}
+          {trainingFeeBlocked && (
+            <p className="feedback-error">
+              FighterNFT is not allowed to charge your training fee, so training would fail. Allow fighter training
+              fees in the Coins tab first.
+            </p>
+          )}
+
+          {trainError && <p className="feedback-error">{trainError}</p>}
+
+          <button
+            type="button"
+            className="primary-button"
+            onClick={handleTrain}
+            disabled={isTraining || !canTrain || trainingFeeBlocked || !contractConfigured || !signer}
+          >
+            {isTraining ? 'Training…' : `Train (${trainingCost?.toString() ?? '?'} XP)`}
+          </button>
+        </div>
+      )}
+
       {isEditing && (
         <div className="update-panel">
           <div className="attribute-grid">
@@ -522,7 +1964,7 @@ function FighterCard({ tokenId, handles, instance, signer, ownerAddress, contrac
             type="button"
             className="primary-button"
             onClick={handleUpdate}
-            disabled={isUpdating || editTotal !== MAX_POINTS || !contractConfigured || !instance || !signer}
+            disabled={isUpdating || editTotal !== MAX_POINTS || !contractConfigured || !encryptor || !signer}
           >
             {isUpdating ? 'Saving…' : 'Save changes'}
           </button>
@@ -1,7 +1,17 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
+import { useAccount, useSwitchChain } from 'wagmi';
+
+import { NETWORKS } from '../config/networks';
+import { useDeployment } from '../hooks/useDeployment';
 import '../styles/Header.css';
 
 export function Header() {
+  const { chainId: walletChainId } = useAccount();
+  const { network, isDeployed, isWrongNetwork } = useDeployment();
+  const { switchChain, isPending: isSwitching, error: switchError } = useSwitchChain();
+
+  const showBanner = isWrongNetwork || (network !== null && !isDeployed.FighterNFT);
+
   return (
     <header className="header">
       <div className="header-container">
@@ -15,6 +25,31 @@ export function Header() {
           <ConnectButton />
         </div>
       </div>
+      {showBanner && (
+        <div className="network-banner" role="alert">
+          <div className="header-container network-banner-content">
+            <span>
+              {isWrongNetwork
+                ? `Your wallet is on chain ${walletChainId}, which Encrypted Fighters is not deployed to.`
+                : `Encrypted Fighters is not deployed on ${network?.chain.name} yet.`}
+            </span>
+            <div className="network-banner-actions">
+              {NETWORKS.filter((option) => isWrongNetwork || option.chain.id !== network?.chain.id).map((option) => (
+                <button
+                  key={option.chain.id}
+                  type="button"
+                  className="network-banner-button"
+                  onClick={() => switchChain({ chainId: option.chain.id })}
+                  disabled={isSwitching}
+                >
+                  Switch to {option.chain.name}
+                </button>
+              ))}
+            </div>
+            {switchError && <span className="network-banner-error">{switchError.message}</span>}
+          </div>
+        </div>
+      )}
     </header>
   );
 }
@@ -0,0 +1,132 @@
+import { useMemo, useState } from 'react';
+
+import { buildLeaderboard, useBattleIndex, type LeaderboardEntry } from '../hooks/useBattleIndex';
+import { useDeployment } from '../hooks/useDeployment';
+
+type SortKey = 'rating' | 'wins' | 'losses' | 'draws' | 'battles' | 'winRate';
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'rating', label: 'Rating' },
+  { key: 'wins', label: 'W' },
+  { key: 'losses', label: 'L' },
+  { key: 'draws', label: 'D' },
+  { key: 'battles', label: 'Battles' },
+  { key: 'winRate', label: 'Win rate' },
+];
+
+type LeaderboardSectionProps = {
+  fighterIds: bigint[];
+};
+
+export function LeaderboardSection({ fighterIds }: LeaderboardSectionProps) {
+  const { isDeployed } = useDeployment();
+  const { battles, indexedBlock, isIndexing, error, refresh, rebuild } = useBattleIndex();
+
+  const [sortKey, setSortKey] = useState<SortKey>('rating');
+  const [descending, setDescending] = useState(true);
+
+  const ownedIds = useMemo(() => new Set(fighterIds), [fighterIds]);
+
+  const entries = useMemo(() => {
+    const direction = descending ? -1 : 1;
+    const compare = (a: LeaderboardEntry, b: LeaderboardEntry) =>
+      direction * (a[sortKey] - b[sortKey]) || b.rating - a.rating || (a.fighterId < b.fighterId ? -1 : 1);
+    return buildLeaderboard(battles).sort(compare);
+  }, [battles, sortKey, descending]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setDescending((prev) => !prev);
+      return;
+    }
+    setSortKey(key);
+    setDescending(true);
+  };
+
+  return (
+    <section className="leaderboard-section">
+      <div className="section-header">
+        <div>
+          <h2 className="section-title">Leaderboard</h2>
+          <p className="section-subtitle">
+            Records and ratings from every resolved arena battle, indexed from on-chain events in your browser.
+          </p>
+        </div>
+        <div className="challenge-actions">
+          <button
+            type="button"
+            className="outline-button"
+            onClick={refresh}
+            disabled={isIndexing || !isDeployed.FighterArena}
+          >
+            {isIndexing ? 'Indexing…' : 'Refresh'}
+          </button>
+          <button
+            type="button"
+            className="outline-button"
+            onClick={rebuild}
+            disabled={isIndexing || !isDeployed.FighterArena}
+          >
+            Rebuild index
+          </button>
+        </div>
+      </div>
+
+      {!isDeployed.FighterArena && (
+        <p className="status-note">
+          No arena contract is deployed on this network.
+          Export it with <code>fighter:export-deployments</code> to enable the leaderboard.
+        </p>
+      )}
+
+      {error && <p className="feedback-error">{error}</p>}
+      {indexedBlock !== null && (
+        <p className="status-note">
+          {battles.length} resolved battles indexed up to block {indexedBlock.toString()}
+          {isIndexing ? ', catching up…' : ''}
+        </p>
+      )}
+
+      {isDeployed.FighterArena && !isIndexing && entries.length === 0 && (
+        <p className="status-note">No battles have been resolved yet.</p>
+      )}
+
+      {entries.length > 0 && (
+        <table className="leaderboard-table">
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Fighter</th>
+              {COLUMNS.map((column) => (
+                <th key={column.key}>
+                  <button
+                    type="button"
+                    className={column.key === sortKey ? 'sort-button active' : 'sort-button'}
+                    onClick={() => handleSort(column.key)}
+                  >
+                    {column.label}
+                    {column.key === sortKey ? (descending ? ' ▼' : ' ▲') : ''}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry, index) => (
+              <tr key={entry.fighterId.toString()} className={ownedIds.has(entry.fighterId) ? 'mine' : ''}>
+                <td>{index + 1}</td>
+                <td>#{entry.fighterId.toString()}</td>
+                <td>{entry.rating}</td>
+                <td>{entry.wins}</td>
+                <td>{entry.losses}</td>
+                <td>{entry.draws}</td>
+                <td>{entry.battles}</td>
+                <td>{(entry.winRate * 100).toFixed(1)}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
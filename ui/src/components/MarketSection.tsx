@@ -0,0 +1,462 @@
+import { useEffect, useState } from 'react';
+import { usePublicClient } from 'wagmi';
+import { ethers } from 'ethers';
+
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { useDeployment } from '../hooks/useDeployment';
+import { useDecryptionSession } from '../hooks/useDecryptionSession';
+import { CONTRACT_ABI, MARKET_ABI } from '../config/abis';
+
+const PREVIEW_DURATIONS: { label: string; seconds: number }[] = [
+  { label: 'No previews', seconds: 0 },
+  { label: '1 hour', seconds: 60 * 60 },
+  { label: '1 day', seconds: 24 * 60 * 60 },
+];
+
+type Listing = {
+  tokenId: bigint;
+  seller: `0x${string}`;
+  price: bigint;
+  previewDuration: bigint;
+  royaltyReceiver: `0x${string}`;
+  royalty: bigint;
+  stale: boolean;
+  isPreviewing: boolean;
+};
+
+type PreviewAttributes = {
+  agility: number;
+  strength: number;
+  stamina: number;
+};
+
+type MarketSectionProps = {
+  fighterIds: bigint[];
+  encryptor: ReturnType<typeof useDecryptionSession>;
+  signer: ReturnType<typeof useEthersSigner>;
+  connectedAddress: `0x${string}` | undefined;
+  onTraded: () => void;
+};
+
+export function MarketSection({ fighterIds, encryptor, signer, connectedAddress, onTraded }: MarketSectionProps) {
+  const { addresses, isDeployed } = useDeployment();
+  const publicClient = usePublicClient();
+
+  const [listings, setListings] = useState<Listing[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [listError, setListError] = useState<string | null>(null);
+  const [refreshIndex, setRefreshIndex] = useState(0);
+  const [proceeds, setProceeds] = useState(0n);
+
+  const [listFighterId, setListFighterId] = useState('');
+  const [listPrice, setListPrice] = useState('');
+  const [listPreview, setListPreview] = useState(PREVIEW_DURATIONS[0].seconds);
+
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [actionSuccess, setActionSuccess] = useState<string | null>(null);
+  const [previews, setPreviews] = useState<Record<string, PreviewAttributes>>({});
+
+  useEffect(() => {
+    if (!publicClient || !isDeployed.FighterMarket) {
+      setListings([]);
+      setListError(null);
+      return;
+    }
+
+    let ignore = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      setListError(null);
+      try {
+        const listedEvents = await publicClient.getContractEvents({
+          address: addresses.FighterMarket,
+          abi: MARKET_ABI,
+          eventName: 'FighterListed',
+          fromBlock: 'earliest',
+          strict: true,
+        });
+        const tokenIds = [...new Set(listedEvents.map((event) => event.args.tokenId))];
+
+        const listingData = await Promise.all(
+          tokenIds.map(async (tokenId): Promise<Listing | null> => {
+            let listing;
+            try {
+              listing = await publicClient.readContract({
+                address: addresses.FighterMarket,
+                abi: MARKET_ABI,
+                functionName: 'getListing',
+                args: [tokenId],
+              });
+            } catch {
+              // Sold or cancelled.
+              return null;
+            }
+
+            const [owner, marketApproved, [royaltyReceiver, royalty], isPreviewing] = await Promise.all([
+              publicClient.readContract({
+                address: addresses.FighterNFT,
+                abi: CONTRACT_ABI,
+                functionName: 'ownerOf',
+                args: [tokenId],
+              }),
+              publicClient.readContract({
+                address: addresses.FighterNFT,
+                abi: CONTRACT_ABI,
+                functionName: 'isApprovedOrOwner',
+                args: [addresses.FighterMarket, tokenId],
+              }),
+              publicClient.readContract({
+                address: addresses.FighterNFT,
+                abi: CONTRACT_ABI,
+                functionName: 'royaltyInfo',
+                args: [tokenId, listing.price],
+              }),
+              connectedAddress
+                ? publicClient.readContract({
+                    address: addresses.FighterNFT,
+                    abi: CONTRACT_ABI,
+                    functionName: 'isViewer',
+                    args: [tokenId, connectedAddress],
+                  })
+                : Promise.resolve(false),
+            ]);
+
+            return {
+              tokenId,
+              seller: listing.seller,
+              price: listing.price,
+              previewDuration: listing.previewDuration,
+              royaltyReceiver,
+              royalty: royaltyReceiver === listing.seller ? 0n : royalty,
+              stale: owner !== listing.seller || !marketApproved,
+              isPreviewing,
+            };
+          })
+        );
+
+        // Sales credit the seller and the creator, who withdraw their proceeds separately.
+        const ownProceeds = connectedAddress
+          ? await publicClient.readContract({
+              address: addresses.FighterMarket,
+              abi: MARKET_ABI,
+              functionName: 'proceedsOf',
+              args: [connectedAddress],
+            })
+          : 0n;
+
+        if (!ignore) {
+          setListings(listingData.filter((listing): listing is Listing => listing !== null));
+          setProceeds(ownProceeds);
+        }
+      } catch (error) {
+        if (!ignore) {
+          const message = error instanceof Error ? error.message : 'Failed to load listings';
+          setListError(message);
+        }
+      } finally {
+        if (!ignore) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    load();
+
+    return () => {
+      ignore = true;
+    };
+  }, [
+    publicClient,
+    connectedAddress,
+    refreshIndex,
+    addresses.FighterMarket,
+    addresses.FighterNFT,
+    isDeployed.FighterMarket,
+  ]);
+
+  const isSelf = (account: string) => connectedAddress !== undefined && account.toLowerCase() === connectedAddress.toLowerCase();
+
+  const listedIds = new Set(listings.map((listing) => listing.tokenId));
+  const listableFighters = fighterIds.filter((tokenId) => !listedIds.has(tokenId));
+
+  const runAction = async (
+    key: string,
+    successMessage: string,
+    action: (market: ethers.Contract, fighters: ethers.Contract) => Promise<unknown>
+  ) => {
+    if (!signer) {
+      setActionError('Connect a wallet to trade fighters');
+      return;
+    }
+
+    setActionError(null);
+    setActionSuccess(null);
+    setPendingAction(key);
+
+    try {
+      const resolvedSigner = await signer;
+      if (!resolvedSigner) {
+        throw new Error('Signer is unavailable');
+      }
+
+      const market = new ethers.Contract(addresses.FighterMarket, MARKET_ABI, resolvedSigner);
+      const fighters = new ethers.Contract(addresses.FighterNFT, CONTRACT_ABI, resolvedSigner);
+      const tx = (await action(market, fighters)) as ethers.ContractTransactionResponse;
+      await tx.wait();
+
+      setActionSuccess(successMessage);
+      setRefreshIndex((prev) => prev + 1);
+      onTraded();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Transaction failed';
+      setActionError(message);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleList = async () => {
+    if (!listFighterId) {
+      setActionError('Select one of your fighters');
+      return;
+    }
+
+    let price: bigint;
+    try {
+      price = ethers.parseEther(listPrice);
+    } catch {
+      setActionError('Enter a valid price in ETH');
+      return;
+    }
+    if (price === 0n) {
+      setActionError('The price must be greater than zero');
+      return;
+    }
+
+    const tokenId = BigInt(listFighterId);
+    await runAction('list', `Fighter #${listFighterId} listed`, async (market, fighters) => {
+      // The market transfers the fighter on purchase, so it must be approved before listing.
+      if (!(await fighters.isApprovedOrOwner(addresses.FighterMarket, tokenId))) {
+        const approval = (await fighters.approve(
+          addresses.FighterMarket,
+          tokenId
+        )) as ethers.ContractTransactionResponse;
+        await approval.wait();
+      }
+      return market.listFighter(tokenId, price, listPreview);
+    });
+    setListFighterId('');
+    setListPrice('');
+  };
+
+  const handleCancel = async (listing: Listing) => {
+    await runAction(`cancel-${listing.tokenId.toString()}`, 'Listing cancelled', (market) =>
+      market.cancelListing(listing.tokenId)
+    );
+  };
+
+  const handlePreview = async (listing: Listing) => {
+    await runAction(`preview-${listing.tokenId.toString()}`, 'Preview access granted', (market) =>
+      market.requestPreview(listing.tokenId)
+    );
+  };
+
+  const handleBuy = async (listing: Listing) => {
+    await runAction(`buy-${listing.tokenId.toString()}`, `Fighter #${listing.tokenId.toString()} is yours`, (market) =>
+      market.buyFighter(listing.tokenId, { value: listing.price })
+    );
+  };
+
+  const handleWithdraw = async () => {
+    await runAction('withdraw', `Withdrew ${ethers.formatEther(proceeds)} ETH`, (market) => market.withdraw());
+  };
+
+  const handleDecryptPreview = async (listing: Listing) => {
+    const key = `decrypt-${listing.tokenId.toString()}`;
+    if (!encryptor || !signer || !connectedAddress) {
+      setActionError('Connect a wallet and wait for the encryption service to decrypt previews');
+      return;
+    }
+
+    setActionError(null);
+    setPendingAction(key);
+
+    try {
+      const resolvedSigner = await signer;
+      if (!resolvedSigner || !publicClient) {
+        throw new Error('Signer is unavailable');
+      }
+
+      const handles = await publicClient.readContract({
+        address: addresses.FighterNFT,
+        abi: CONTRACT_ABI,
+        functionName: 'getEncryptedAttributes',
+        args: [listing.tokenId],
+      });
+
+      const values = await encryptor.userDecrypt([...handles], addresses.FighterNFT, resolvedSigner);
+      const [agility, strength, stamina] = values.map(Number);
+      setPreviews((prev) => ({ ...prev, [listing.tokenId.toString()]: { agility, strength, stamina } }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to decrypt preview';
+      setActionError(message);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  return (
+    <section className="market-section">
+      <div className="section-header">
+        <div>
+          <h2 className="section-title">Market</h2>
+          <p className="section-subtitle">
+            Buy and sell fighters. Each sale credits a 5% royalty to the fighter&apos;s creator and re-keys its
+            attributes for the buyer. Sellers and creators withdraw their proceeds here.
+          </p>
+        </div>
+      </div>
+
+      {!isDeployed.FighterMarket && (
+        <p className="status-note">
+          No market contract is deployed on this network.
+          Export it with <code>fighter:export-deployments</code> to enable trading.
+        </p>
+      )}
+
+      {proceeds > 0n && (
+        <>
+          <p className="status-note">You have {ethers.formatEther(proceeds)} ETH of sales and royalties to withdraw.</p>
+          <div className="challenge-actions">
+            <button
+              type="button"
+              className="outline-button"
+              onClick={handleWithdraw}
+              disabled={pendingAction !== null || !signer}
+            >
+              {pendingAction === 'withdraw' ? 'Withdrawing…' : 'Withdraw proceeds'}
+            </button>
+          </div>
+        </>
+      )}
+
+      <div className="challenge-form">
+        <label className="attribute-field">
+          <span>Your fighter</span>
+          <select value={listFighterId} onChange={(event) => setListFighterId(event.target.value)}>
+            <option value="">Select a fighter</option>
+            {listableFighters.map((tokenId) => (
+              <option key={tokenId.toString()} value={tokenId.toString()}>
+                Token #{tokenId.toString()}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="attribute-field">
+          <span>Price (ETH)</span>
+          <input type="text" placeholder="0.1" value={listPrice} onChange={(event) => setListPrice(event.target.value)} />
+        </label>
+        <label className="attribute-field">
+          <span>Buyer previews</span>
+          <select value={listPreview} onChange={(event) => setListPreview(Number(event.target.value))}>
+            {PREVIEW_DURATIONS.map((duration) => (
+              <option key={duration.seconds} value={duration.seconds}>
+                {duration.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <button
+        type="button"
+        className="primary-button"
+        onClick={handleList}
+        disabled={pendingAction !== null || !signer || !isDeployed.FighterMarket || listableFighters.length === 0}
+      >
+        {pendingAction === 'list' ? 'Listing…' : 'List Fighter'}
+      </button>
+
+      {actionError && <p className="feedback-error">{actionError}</p>}
+      {actionSuccess && <p className="feedback-success">{actionSuccess}</p>}
+      {listError && <p className="feedback-error">{listError}</p>}
+      {isLoading && listings.length === 0 && <p className="status-note">Fetching listings…</p>}
+
+      {isDeployed.FighterMarket && !isLoading && listings.length === 0 && (
+        <p className="status-note">No fighters are listed right now.</p>
+      )}
+
+      <ul className="challenge-list">
+        {listings.map((listing) => {
+          const key = listing.tokenId.toString();
+          const preview = previews[key];
+          const ownListing = isSelf(listing.seller);
+
+          return (
+            <li key={key} className="challenge-row">
+              <div className="challenge-summary">
+                <span className="fighter-id">Fighter #{key}</span>
+                <span>Price: {ethers.formatEther(listing.price)} ETH</span>
+                {listing.royalty > 0n && <span>Royalty: {ethers.formatEther(listing.royalty)} ETH</span>}
+                {listing.stale && <span className="challenge-status">Unavailable</span>}
+                {preview && (
+                  <span className="market-preview">
+                    Agility {preview.agility} · Strength {preview.strength} · Stamina {preview.stamina}
+                  </span>
+                )}
+              </div>
+
+              <div className="challenge-actions">
+                {ownListing && (
+                  <button
+                    type="button"
+                    className="outline-button"
+                    onClick={() => handleCancel(listing)}
+                    disabled={pendingAction !== null}
+                  >
+                    {pendingAction === `cancel-${key}` ? 'Cancelling…' : 'Cancel'}
+                  </button>
+                )}
+
+                {!ownListing && !listing.stale && listing.previewDuration > 0n && !listing.isPreviewing && (
+                  <button
+                    type="button"
+                    className="outline-button"
+                    onClick={() => handlePreview(listing)}
+                    disabled={pendingAction !== null || !signer}
+                  >
+                    {pendingAction === `preview-${key}` ? 'Requesting…' : 'Preview'}
+                  </button>
+                )}
+
+                {!ownListing && listing.isPreviewing && !preview && (
+                  <button
+                    type="button"
+                    className="outline-button"
+                    onClick={() => handleDecryptPreview(listing)}
+                    disabled={pendingAction !== null || !encryptor}
+                  >
+                    {pendingAction === `decrypt-${key}` ? 'Decrypting…' : 'Decrypt preview'}
+                  </button>
+                )}
+
+                {!ownListing && !listing.stale && (
+                  <button
+                    type="button"
+                    className="outline-button"
+                    onClick={() => handleBuy(listing)}
+                    disabled={pendingAction !== null || !signer}
+                  >
+                    {pendingAction === `buy-${key}` ? 'Buying…' : 'Buy'}
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
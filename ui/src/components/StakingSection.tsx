@@ -0,0 +1,366 @@
+import { useEffect, useState } from 'react';
+import { usePublicClient } from 'wagmi';
+import { ethers } from 'ethers';
+
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { useDeployment } from '../hooks/useDeployment';
+import { useDecryptionSession } from '../hooks/useDecryptionSession';
+import { CONTRACT_ABI, REWARD_TOKEN_ABI, STAKING_ABI } from '../config/abis';
+import { REWARD_TOKEN_DECIMALS } from '../config/stakingContract';
+
+type StakedFighter = {
+  tokenId: bigint;
+  powerHandle: `0x${string}`;
+};
+
+type StakerState = {
+  powerHandle: `0x${string}`;
+  pendingHandle: `0x${string}`;
+  accruedUntil: bigint;
+  rewardTokenAddress: `0x${string}`;
+  rewardHandle: `0x${string}`;
+  staked: StakedFighter[];
+};
+
+type DecryptedStake = {
+  power: bigint;
+  pending: bigint;
+  rewardBalance: bigint;
+  tokenPowers: Record<string, bigint>;
+};
+
+type StakingSectionProps = {
+  fighterIds: bigint[];
+  encryptor: ReturnType<typeof useDecryptionSession>;
+  signer: ReturnType<typeof useEthersSigner>;
+  connectedAddress: `0x${string}` | undefined;
+  onTraded: () => void;
+};
+
+export function StakingSection({ fighterIds, encryptor, signer, connectedAddress, onTraded }: StakingSectionProps) {
+  const { addresses, isDeployed } = useDeployment();
+  const publicClient = usePublicClient();
+
+  const [staker, setStaker] = useState<StakerState | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [refreshIndex, setRefreshIndex] = useState(0);
+
+  const [stakeFighterId, setStakeFighterId] = useState('');
+  const [decrypted, setDecrypted] = useState<DecryptedStake | null>(null);
+
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [actionSuccess, setActionSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!publicClient || !connectedAddress || !isDeployed.FighterStaking) {
+      setStaker(null);
+      setLoadError(null);
+      return;
+    }
+
+    let ignore = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      setLoadError(null);
+      try {
+        const [powerHandle, pendingHandle, accruedUntil] = await publicClient.readContract({
+          address: addresses.FighterStaking,
+          abi: STAKING_ABI,
+          functionName: 'getStaker',
+          args: [connectedAddress],
+        });
+
+        const stakedIds = await publicClient.readContract({
+          address: addresses.FighterStaking,
+          abi: STAKING_ABI,
+          functionName: 'stakedTokensOf',
+          args: [connectedAddress],
+        });
+
+        const staked = await Promise.all(
+          stakedIds.map(async (tokenId) => ({
+            tokenId,
+            powerHandle: await publicClient.readContract({
+              address: addresses.FighterStaking,
+              abi: STAKING_ABI,
+              functionName: 'getPower',
+              args: [tokenId],
+            }),
+          }))
+        );
+
+        const rewardTokenAddress = await publicClient.readContract({
+          address: addresses.FighterStaking,
+          abi: STAKING_ABI,
+          functionName: 'rewardToken',
+        });
+        const rewardHandle = await publicClient.readContract({
+          address: rewardTokenAddress,
+          abi: REWARD_TOKEN_ABI,
+          functionName: 'confidentialBalanceOf',
+          args: [connectedAddress],
+        });
+
+        if (!ignore) {
+          setStaker({ powerHandle, pendingHandle, accruedUntil, rewardTokenAddress, rewardHandle, staked });
+        }
+      } catch (error) {
+        if (!ignore) {
+          const message = error instanceof Error ? error.message : 'Failed to load staking position';
+          setLoadError(message);
+        }
+      } finally {
+        if (!ignore) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    load();
+
+    return () => {
+      ignore = true;
+    };
+  }, [publicClient, connectedAddress, refreshIndex, addresses.FighterStaking, isDeployed.FighterStaking]);
+
+  const runAction = async (
+    key: string,
+    successMessage: string,
+    action: (staking: ethers.Contract, fighters: ethers.Contract, account: string) => Promise<unknown>
+  ) => {
+    if (!signer) {
+      setActionError('Connect a wallet to stake fighters');
+      return;
+    }
+
+    setActionError(null);
+    setActionSuccess(null);
+    setPendingAction(key);
+
+    try {
+      const resolvedSigner = await signer;
+      if (!resolvedSigner) {
+        throw new Error('Signer is unavailable');
+      }
+
+      const staking = new ethers.Contract(addresses.FighterStaking, STAKING_ABI, resolvedSigner);
+      const fighters = new ethers.Contract(addresses.FighterNFT, CONTRACT_ABI, resolvedSigner);
+      const tx = (await action(
+        staking,
+        fighters,
+        await resolvedSigner.getAddress()
+      )) as ethers.ContractTransactionResponse;
+      await tx.wait();
+
+      // Every action moves the encrypted balances to new handles.
+      setDecrypted(null);
+      setActionSuccess(successMessage);
+      setRefreshIndex((prev) => prev + 1);
+      onTraded();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Transaction failed';
+      setActionError(message);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleStake = async () => {
+    if (!stakeFighterId) {
+      setActionError('Select one of your fighters');
+      return;
+    }
+
+    const tokenId = BigInt(stakeFighterId);
+    await runAction('stake', `Fighter #${stakeFighterId} staked`, (_staking, fighters, account) =>
+      fighters['safeTransferFrom(address,address,uint256)'](account, addresses.FighterStaking, tokenId)
+    );
+    setStakeFighterId('');
+  };
+
+  const handleUnstake = async (tokenId: bigint) => {
+    await runAction(
+      `unstake-${tokenId.toString()}`,
+      `Fighter #${tokenId.toString()} returned to your wallet`,
+      (staking) => staking.unstake(tokenId)
+    );
+  };
+
+  const handleCheckpoint = async () => {
+    await runAction('checkpoint', 'Rewards accrued up to the latest block', (staking) => staking.checkpoint());
+  };
+
+  const handleClaim = async () => {
+    await runAction('claim', 'Rewards minted to your wallet as encrypted FRWD', (staking) => staking.claimRewards());
+  };
+
+  const handleDecrypt = async () => {
+    if (!encryptor || !signer || !connectedAddress || !staker) {
+      setActionError('Connect a wallet and wait for the encryption service to decrypt your rewards');
+      return;
+    }
+
+    setActionError(null);
+    setPendingAction('decrypt');
+
+    try {
+      const resolvedSigner = await signer;
+      if (!resolvedSigner) {
+        throw new Error('Signer is unavailable');
+      }
+
+      const handles = [staker.powerHandle, staker.pendingHandle, ...staker.staked.map((fighter) => fighter.powerHandle)];
+      const [power, pending, ...tokenPowers] = await encryptor.userDecrypt(
+        handles,
+        addresses.FighterStaking,
+        resolvedSigner
+      );
+
+      // Accounts that never claimed have no reward balance handle yet.
+      const [rewardBalance] =
+        staker.rewardHandle === ethers.ZeroHash
+          ? [0n]
+          : await encryptor.userDecrypt([staker.rewardHandle], staker.rewardTokenAddress, resolvedSigner);
+
+      setDecrypted({
+        power,
+        pending,
+        rewardBalance,
+        tokenPowers: Object.fromEntries(
+          staker.staked.map((fighter, index) => [fighter.tokenId.toString(), tokenPowers[index]])
+        ),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to decrypt rewards';
+      setActionError(message);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const hasPosition = staker !== null && staker.accruedUntil > 0n;
+  const formatReward = (value: bigint) => `${ethers.formatUnits(value, REWARD_TOKEN_DECIMALS)} FRWD`;
+
+  return (
+    <section className="staking-section">
+      <div className="section-header">
+        <div>
+          <h2 className="section-title">Staking Vault</h2>
+          <p className="section-subtitle">
+            Staked fighters earn FRWD in proportion to an encrypted power score (agility + 2 × strength + stamina). Your
+            power, pending rewards and FRWD balance stay encrypted, including the amount you claim.
+          </p>
+        </div>
+      </div>
+
+      {!isDeployed.FighterStaking && (
+        <p className="status-note">
+          No vault contract is deployed on this network.
+          Export it with <code>fighter:export-deployments</code> to enable staking.
+        </p>
+      )}
+
+      <div className="challenge-form">
+        <label className="attribute-field">
+          <span>Your fighter</span>
+          <select value={stakeFighterId} onChange={(event) => setStakeFighterId(event.target.value)}>
+            <option value="">Select a fighter</option>
+            {fighterIds.map((tokenId) => (
+              <option key={tokenId.toString()} value={tokenId.toString()}>
+                Token #{tokenId.toString()}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <button
+        type="button"
+        className="primary-button"
+        onClick={handleStake}
+        disabled={pendingAction !== null || !signer || !isDeployed.FighterStaking || !stakeFighterId}
+      >
+        {pendingAction === 'stake' ? 'Staking…' : 'Stake Fighter'}
+      </button>
+
+      {actionError && <p className="feedback-error">{actionError}</p>}
+      {actionSuccess && <p className="feedback-success">{actionSuccess}</p>}
+      {loadError && <p className="feedback-error">{loadError}</p>}
+      {isLoading && staker === null && <p className="status-note">Fetching your staking position…</p>}
+
+      {staker && (
+        <div className="staking-summary">
+          <div className="points-summary">
+            <span>Power: {decrypted ? decrypted.power.toString() : 'encrypted'}</span>
+            <span>Pending: {decrypted ? formatReward(decrypted.pending) : 'encrypted'}</span>
+            <span>Wallet: {decrypted ? formatReward(decrypted.rewardBalance) : 'encrypted'}</span>
+          </div>
+          {hasPosition && (
+            <p className="status-note">
+              Pending rewards accrued until {new Date(Number(staker.accruedUntil) * 1000).toLocaleString()}.
+            </p>
+          )}
+          <div className="challenge-actions">
+            <button
+              type="button"
+              className="outline-button"
+              onClick={handleCheckpoint}
+              disabled={pendingAction !== null || !signer || staker.staked.length === 0}
+            >
+              {pendingAction === 'checkpoint' ? 'Updating…' : 'Update rewards'}
+            </button>
+            <button
+              type="button"
+              className="outline-button"
+              onClick={handleDecrypt}
+              disabled={pendingAction !== null || !encryptor || !hasPosition}
+            >
+              {pendingAction === 'decrypt' ? 'Decrypting…' : 'Decrypt'}
+            </button>
+            <button
+              type="button"
+              className="primary-button"
+              onClick={handleClaim}
+              disabled={pendingAction !== null || !signer || !hasPosition}
+            >
+              {pendingAction === 'claim' ? 'Claiming…' : 'Claim rewards'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {staker && staker.staked.length === 0 && !isLoading && (
+        <p className="status-note">You have no fighters in the vault.</p>
+      )}
+
+      <ul className="challenge-list">
+        {staker?.staked.map((fighter) => {
+          const key = fighter.tokenId.toString();
+          const power = decrypted?.tokenPowers[key];
+
+          return (
+            <li key={key} className="challenge-row">
+              <div className="challenge-summary">
+                <span className="fighter-id">Fighter #{key}</span>
+                <span>Power: {power !== undefined ? power.toString() : 'encrypted'}</span>
+              </div>
+              <div className="challenge-actions">
+                <button
+                  type="button"
+                  className="outline-button"
+                  onClick={() => handleUnstake(fighter.tokenId)}
+                  disabled={pendingAction !== null || !signer}
+                >
+                  {pendingAction === `unstake-${key}` ? 'Unstaking…' : 'Unstake'}
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,526 @@
+import { useEffect, useState } from 'react';
+import { usePublicClient } from 'wagmi';
+import { ethers } from 'ethers';
+
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { useDeployment } from '../hooks/useDeployment';
+import { TOURNAMENT_ABI } from '../config/abis';
+
+type TournamentStatus = 'none' | 'registration' | 'running' | 'completed' | 'cancelled';
+
+const STATUS_LABELS: TournamentStatus[] = ['none', 'registration', 'running', 'completed', 'cancelled'];
+
+const BRACKET_SIZES = [8, 16];
+
+const DECRYPTION_POLL_INTERVAL_MS = 5000;
+
+type Tournament = {
+  tournamentId: bigint;
+  organizer: `0x${string}`;
+  size: number;
+  entryFee: bigint;
+  registrationDeadline: number;
+  runningDeadline: number;
+  status: TournamentStatus;
+  currentRound: number;
+  roundPending: boolean;
+  champion: bigint;
+  prizeRecipient: `0x${string}`;
+  prizeClaimed: boolean;
+  rounds: bigint[][];
+  myEntries: bigint[];
+  hasWithdrawn: boolean;
+};
+
+type TournamentSectionProps = {
+  fighterIds: bigint[];
+  signer: ReturnType<typeof useEthersSigner>;
+  connectedAddress: `0x${string}` | undefined;
+  onTraded: () => void;
+};
+
+export function TournamentSection({ fighterIds, signer, connectedAddress, onTraded }: TournamentSectionProps) {
+  const { addresses, isDeployed } = useDeployment();
+  const publicClient = usePublicClient();
+
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [listError, setListError] = useState<string | null>(null);
+  const [refreshIndex, setRefreshIndex] = useState(0);
+
+  const [createSize, setCreateSize] = useState(BRACKET_SIZES[0]);
+  const [createFee, setCreateFee] = useState('0');
+  const [registerSelections, setRegisterSelections] = useState<Record<string, string>>({});
+
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [actionSuccess, setActionSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!publicClient || !isDeployed.FighterTournament) {
+      setTournaments([]);
+      setListError(null);
+      return;
+    }
+
+    let ignore = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      setListError(null);
+      try {
+        const createdEvents = await publicClient.getContractEvents({
+          address: addresses.FighterTournament,
+          abi: TOURNAMENT_ABI,
+          eventName: 'TournamentCreated',
+          fromBlock: 'earliest',
+          strict: true,
+        });
+
+        const [registeredEvents, withdrawalEvents] = connectedAddress
+          ? await Promise.all([
+              publicClient.getContractEvents({
+                address: addresses.FighterTournament,
+                abi: TOURNAMENT_ABI,
+                eventName: 'FighterRegistered',
+                args: { owner: connectedAddress },
+                fromBlock: 'earliest',
+                strict: true,
+              }),
+              publicClient.getContractEvents({
+                address: addresses.FighterTournament,
+                abi: TOURNAMENT_ABI,
+                eventName: 'Withdrawal',
+                args: { account: connectedAddress },
+                fromBlock: 'earliest',
+                strict: true,
+              }),
+            ])
+          : [[], []];
+
+        const tournamentData: Tournament[] = await Promise.all(
+          createdEvents.map(async (event) => {
+            const tournamentId = event.args.tournamentId;
+            const tournament = await publicClient.readContract({
+              address: addresses.FighterTournament,
+              abi: TOURNAMENT_ABI,
+              functionName: 'getTournament',
+              args: [tournamentId],
+            });
+
+            // Round r + 1 holds the winners of round r, so a bracket of n fighters has log2(n) + 1 rows.
+            const roundCount = Math.log2(tournament.size) + 1;
+            const rounds = await Promise.all(
+              Array.from({ length: roundCount }, (_, round) =>
+                publicClient.readContract({
+                  address: addresses.FighterTournament,
+                  abi: TOURNAMENT_ABI,
+                  functionName: 'getRound',
+                  args: [tournamentId, round],
+                })
+              )
+            );
+
+            return {
+              tournamentId,
+              organizer: tournament.organizer,
+              size: tournament.size,
+              entryFee: tournament.entryFee,
+              registrationDeadline: Number(tournament.registrationDeadline),
+              runningDeadline: Number(tournament.runningDeadline),
+              status: STATUS_LABELS[tournament.status] ?? 'none',
+              currentRound: tournament.currentRound,
+              roundPending: tournament.roundPending,
+              champion: tournament.champion,
+              prizeRecipient: tournament.prizeRecipient,
+              prizeClaimed: tournament.prizeClaimed,
+              rounds: rounds.map((entrants) => [...entrants]),
+              myEntries: registeredEvents
+                .filter((registered) => registered.args.tournamentId === tournamentId)
+                .map((registered) => registered.args.tokenId),
+              hasWithdrawn: withdrawalEvents.some((withdrawal) => withdrawal.args.tournamentId === tournamentId),
+            };
+          })
+        );
+
+        if (!ignore) {
+          setTournaments(tournamentData.reverse());
+        }
+      } catch (error) {
+        if (!ignore) {
+          const message = error instanceof Error ? error.message : 'Failed to load tournaments';
+          setListError(message);
+        }
+      } finally {
+        if (!ignore) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    load();
+
+    return () => {
+      ignore = true;
+    };
+  }, [publicClient, connectedAddress, refreshIndex, addresses.FighterTournament, isDeployed.FighterTournament]);
+
+  const hasPendingDecryption = tournaments.some((tournament) => tournament.roundPending);
+
+  useEffect(() => {
+    if (!hasPendingDecryption) {
+      return;
+    }
+
+    const interval = setInterval(() => setRefreshIndex((prev) => prev + 1), DECRYPTION_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasPendingDecryption]);
+
+  const isSelf = (account: string) => connectedAddress !== undefined && account.toLowerCase() === connectedAddress.toLowerCase();
+
+  // Fighters still in an active bracket are locked and cannot enter another one.
+  const lockedIds = new Set(
+    tournaments
+      .filter((tournament) => tournament.status === 'registration' || tournament.status === 'running')
+      .flatMap((tournament) => tournament.rounds[tournament.currentRound] ?? [])
+  );
+  const availableFighters = fighterIds.filter((tokenId) => !lockedIds.has(tokenId));
+
+  const runAction = async (
+    key: string,
+    successMessage: string,
+    action: (tournament: ethers.Contract) => Promise<unknown>
+  ) => {
+    if (!signer) {
+      setActionError('Connect a wallet to take part in tournaments');
+      return;
+    }
+
+    setActionError(null);
+    setActionSuccess(null);
+    setPendingAction(key);
+
+    try {
+      const resolvedSigner = await signer;
+      if (!resolvedSigner) {
+        throw new Error('Signer is unavailable');
+      }
+
+      const contract = new ethers.Contract(addresses.FighterTournament, TOURNAMENT_ABI, resolvedSigner);
+      const tx = (await action(contract)) as ethers.ContractTransactionResponse;
+      await tx.wait();
+
+      setActionSuccess(successMessage);
+      setRefreshIndex((prev) => prev + 1);
+      onTraded();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Transaction failed';
+      setActionError(message);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleCreate = async () => {
+    let entryFee: bigint;
+    try {
+      entryFee = ethers.parseEther(createFee || '0');
+    } catch {
+      setActionError('Enter a valid entry fee in ETH');
+      return;
+    }
+
+    await runAction('create', `${createSize}-fighter tournament created`, (contract) =>
+      contract.createTournament(createSize, entryFee)
+    );
+  };
+
+  const handleRegister = async (tournament: Tournament) => {
+    const key = tournament.tournamentId.toString();
+    const selection = registerSelections[key];
+    if (!selection) {
+      setActionError('Select one of your fighters');
+      return;
+    }
+
+    await runAction(`register-${key}`, `Fighter #${selection} registered and locked`, (contract) =>
+      contract.register(tournament.tournamentId, BigInt(selection), { value: tournament.entryFee })
+    );
+    setRegisterSelections((prev) => ({ ...prev, [key]: '' }));
+  };
+
+  const handlePlay = async (tournament: Tournament) => {
+    await runAction(
+      `play-${tournament.tournamentId.toString()}`,
+      'Round fought, waiting for the outcomes to be decrypted',
+      (contract) => contract.playRound(tournament.tournamentId)
+    );
+  };
+
+  const handleCancel = async (tournament: Tournament) => {
+    await runAction(`cancel-${tournament.tournamentId.toString()}`, 'Tournament cancelled', (contract) =>
+      contract.cancelTournament(tournament.tournamentId)
+    );
+  };
+
+  const handleWithdraw = async (tournament: Tournament) => {
+    await runAction(`withdraw-${tournament.tournamentId.toString()}`, 'Funds withdrawn', (contract) =>
+      contract.withdraw(tournament.tournamentId)
+    );
+  };
+
+  // An unfilled bracket past its registration deadline, or an unfinished one past its running deadline, can be called
+  // off by anyone, and the first withdrawal does so on its own.
+  const hasLapsed = (tournament: Tournament) => {
+    const now = Date.now() / 1000;
+    if (tournament.status === 'running') {
+      return now >= tournament.runningDeadline;
+    }
+    return (
+      tournament.status === 'registration' &&
+      tournament.rounds[0].length < tournament.size &&
+      now >= tournament.registrationDeadline
+    );
+  };
+
+  const canWithdraw = (tournament: Tournament) => {
+    if (tournament.status === 'cancelled' || hasLapsed(tournament)) {
+      return tournament.myEntries.length > 0 && !tournament.hasWithdrawn && tournament.entryFee > 0n;
+    }
+    return tournament.status === 'completed' && isSelf(tournament.prizeRecipient) && !tournament.prizeClaimed;
+  };
+
+  const describeStatus = (tournament: Tournament) => {
+    const entrants = tournament.rounds[0].length;
+    switch (tournament.status) {
+      case 'registration': {
+        if (hasLapsed(tournament)) {
+          return `Registration closed unfilled · ${entrants}/${tournament.size} fighters`;
+        }
+        const deadline = new Date(tournament.registrationDeadline * 1000).toLocaleString();
+        return `Registration open until ${deadline} · ${entrants}/${tournament.size} fighters`;
+      }
+      case 'running':
+        if (hasLapsed(tournament)) {
+          return 'Deadline passed without a champion · entry fees are refundable';
+        }
+        return tournament.roundPending
+          ? `Round ${tournament.currentRound + 1} awaiting decryption…`
+          : `Round ${tournament.currentRound + 1} ready to fight`;
+      case 'completed':
+        return `Won by fighter #${tournament.champion.toString()}${isSelf(tournament.prizeRecipient) ? ' (yours)' : ''}`;
+      case 'cancelled':
+        return 'Cancelled';
+      default:
+        return tournament.status;
+    }
+  };
+
+  return (
+    <section className="tournament-section">
+      <div className="section-header">
+        <div>
+          <h2 className="section-title">Tournaments</h2>
+          <p className="section-subtitle">
+            Single-elimination brackets of 8 or 16 fighters. Matches stay encrypted and only the winners are revealed.
+            Registered fighters are locked until they are knocked out, until registration closes without a full bracket,
+            or until a started bracket runs past its 7-day deadline.
+          </p>
+        </div>
+      </div>
+
+      {!isDeployed.FighterTournament && (
+        <p className="status-note">
+          No tournament contract is deployed on this network.
+          Export it with <code>fighter:export-deployments</code> to enable tournaments.
+        </p>
+      )}
+
+      <div className="challenge-form">
+        <label className="attribute-field">
+          <span>Bracket size</span>
+          <select value={createSize} onChange={(event) => setCreateSize(Number(event.target.value))}>
+            {BRACKET_SIZES.map((size) => (
+              <option key={size} value={size}>
+                {size} fighters
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="attribute-field">
+          <span>Entry fee (ETH)</span>
+          <input type="text" value={createFee} onChange={(event) => setCreateFee(event.target.value)} />
+        </label>
+      </div>
+
+      <button
+        type="button"
+        className="primary-button"
+        onClick={handleCreate}
+        disabled={pendingAction !== null || !signer || !isDeployed.FighterTournament}
+      >
+        {pendingAction === 'create' ? 'Creating…' : 'Create Tournament'}
+      </button>
+
+      {actionError && <p className="feedback-error">{actionError}</p>}
+      {actionSuccess && <p className="feedback-success">{actionSuccess}</p>}
+      {listError && <p className="feedback-error">{listError}</p>}
+      {isLoading && tournaments.length === 0 && <p className="status-note">Fetching tournaments…</p>}
+
+      {isDeployed.FighterTournament && !isLoading && tournaments.length === 0 && (
+        <p className="status-note">No tournaments yet. Create one to get started.</p>
+      )}
+
+      <ul className="challenge-list">
+        {tournaments.map((tournament) => {
+          const key = tournament.tournamentId.toString();
+          const isFull = tournament.rounds[0].length === tournament.size;
+          const canRegister =
+            tournament.status === 'registration' && !isFull && Date.now() / 1000 < tournament.registrationDeadline;
+          const canPlay =
+            (tournament.status === 'registration' && isFull) ||
+            (tournament.status === 'running' && !tournament.roundPending && !hasLapsed(tournament));
+
+          return (
+            <li key={key} className="tournament-row">
+              <div className="challenge-row">
+                <div className="challenge-summary">
+                  <span className="fighter-id">Tournament #{key}</span>
+                  <span>
+                    {tournament.size} fighters · entry {ethers.formatEther(tournament.entryFee)} ETH · prize{' '}
+                    {ethers.formatEther(tournament.entryFee * BigInt(tournament.size))} ETH
+                  </span>
+                  <span className={`challenge-status ${tournament.roundPending ? 'pending' : ''}`}>
+                    {describeStatus(tournament)}
+                  </span>
+                  {tournament.myEntries.length > 0 && (
+                    <span>Your fighters: {tournament.myEntries.map((tokenId) => `#${tokenId.toString()}`).join(', ')}</span>
+                  )}
+                </div>
+
+                <div className="challenge-actions">
+                  {canRegister && (
+                    <>
+                      <select
+                        value={registerSelections[key] ?? ''}
+                        onChange={(event) =>
+                          setRegisterSelections((prev) => ({ ...prev, [key]: event.target.value }))
+                        }
+                      >
+                        <option value="">Your fighter</option>
+                        {availableFighters.map((tokenId) => (
+                          <option key={tokenId.toString()} value={tokenId.toString()}>
+                            Token #{tokenId.toString()}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        type="button"
+                        className="outline-button"
+                        onClick={() => handleRegister(tournament)}
+                        disabled={pendingAction !== null || !signer || !registerSelections[key]}
+                      >
+                        {pendingAction === `register-${key}` ? 'Registering…' : 'Register'}
+                      </button>
+                    </>
+                  )}
+
+                  {canPlay && (
+                    <button
+                      type="button"
+                      className="outline-button"
+                      onClick={() => handlePlay(tournament)}
+                      disabled={pendingAction !== null || !signer}
+                    >
+                      {pendingAction === `play-${key}` ? 'Fighting…' : `Play round ${tournament.currentRound + 1}`}
+                    </button>
+                  )}
+
+                  {((tournament.status === 'registration' && isSelf(tournament.organizer)) || hasLapsed(tournament)) && (
+                    <button
+                      type="button"
+                      className="text-button danger"
+                      onClick={() => handleCancel(tournament)}
+                      disabled={pendingAction !== null}
+                    >
+                      {pendingAction === `cancel-${key}` ? 'Cancelling…' : 'Cancel'}
+                    </button>
+                  )}
+
+                  {canWithdraw(tournament) && (
+                    <button
+                      type="button"
+                      className="outline-button"
+                      onClick={() => handleWithdraw(tournament)}
+                      disabled={pendingAction !== null}
+                    >
+                      {pendingAction === `withdraw-${key}` ? 'Withdrawing…' : 'Withdraw'}
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {tournament.rounds[0].length > 0 && tournament.status !== 'cancelled' && (
+                <Bracket tournament={tournament} ownedIds={new Set(fighterIds)} />
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
+
+type BracketProps = {
+  tournament: Tournament;
+  ownedIds: Set<bigint>;
+};
+
+function Bracket({ tournament, ownedIds }: BracketProps) {
+  // Unfilled slots of the first round render as open, later rounds as to-be-decided.
+  const columns = tournament.rounds.slice(0, -1).map((entrants, round) => {
+    const slots = tournament.size >> round;
+    return Array.from({ length: slots }, (_, slot) => entrants[slot]);
+  });
+
+  return (
+    <div className="bracket">
+      {columns.map((slots, round) => {
+        const winners = new Set(tournament.rounds[round + 1]);
+        const decided = tournament.rounds[round + 1].length > 0;
+
+        return (
+          <div key={round} className="bracket-round">
+            <span className="bracket-round-title">
+              {slots.length === 2 ? 'Final' : slots.length === 4 ? 'Semi-finals' : `Round ${round + 1}`}
+            </span>
+            {Array.from({ length: slots.length / 2 }, (_, match) => (
+              <div key={match} className="bracket-match">
+                {[slots[2 * match], slots[2 * match + 1]].map((tokenId, index) => {
+                  const outcome =
+                    tokenId === undefined || !decided ? '' : winners.has(tokenId) ? 'winner' : 'eliminated';
+                  return (
+                    <span
+                      key={index}
+                      className={`bracket-slot ${outcome} ${tokenId !== undefined && ownedIds.has(tokenId) ? 'mine' : ''}`}
+                    >
+                      {tokenId === undefined ? (round === 0 ? 'Open slot' : 'TBD') : `#${tokenId.toString()}`}
+                    </span>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        );
+      })}
+      <div className="bracket-round">
+        <span className="bracket-round-title">Champion</span>
+        <div className="bracket-match">
+          <span className={`bracket-slot ${tournament.status === 'completed' ? 'winner' : ''}`}>
+            {tournament.status === 'completed' ? `#${tournament.champion.toString()}` : 'TBD'}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
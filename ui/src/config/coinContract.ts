@@ -0,0 +1 @@
+export const COIN_DECIMALS = 6;
@@ -0,0 +1,3 @@
+// Generated by `npx hardhat fighter:export-deployments`. Do not edit by hand.
+
+export const DEPLOYMENTS = {} as const;
@@ -0,0 +1,60 @@
+import { hardhat, sepolia, type Chain } from 'wagmi/chains';
+import { SepoliaConfig, type FhevmInstanceConfig } from '@zama-fhe/relayer-sdk/bundle';
+
+import { DEPLOYMENTS } from './deployments';
+import { ZERO_ADDRESS } from './fighterContract';
+
+export const CONTRACT_NAMES = [
+  'FighterNFT',
+  'FighterArena',
+  'FighterMarket',
+  'FighterAuction',
+  'FighterTournament',
+  'FighterStaking',
+  'FighterCoin',
+  'FighterComparator',
+] as const;
+
+export type ContractName = (typeof CONTRACT_NAMES)[number];
+
+export type ContractDeployment = {
+  address: `0x${string}`;
+  /** Block the contract was deployed in, where event scans start. */
+  blockNumber: bigint;
+};
+
+// How the FHE instance for a network is created: through the Zama relayer, or against the FHEVM mock of a local node.
+export type FheConfig = { kind: 'relayer'; config: FhevmInstanceConfig } | { kind: 'mock'; rpcUrl: string };
+
+export type NetworkConfig = {
+  chain: Chain;
+  fhe: FheConfig;
+};
+
+// Shape of deployments.ts, written by `npx hardhat fighter:export-deployments`.
+type DeploymentRegistry = Record<
+  string,
+  { network: string; contracts: Partial<Record<string, { address: `0x${string}`; blockNumber: number }>> }
+>;
+
+// The first network is the default. The local Hardhat node is only offered by the dev server.
+export const NETWORKS: NetworkConfig[] = [
+  { chain: sepolia, fhe: { kind: 'relayer', config: SepoliaConfig } },
+  ...(import.meta.env.DEV
+    ? [{ chain: hardhat, fhe: { kind: 'mock', rpcUrl: hardhat.rpcUrls.default.http[0] } } satisfies NetworkConfig]
+    : []),
+];
+
+const REGISTRY: DeploymentRegistry = DEPLOYMENTS;
+
+export function getNetwork(chainId: number | undefined): NetworkConfig | null {
+  return NETWORKS.find((network) => network.chain.id === chainId) ?? null;
+}
+
+export function getContractDeployment(chainId: number, name: ContractName): ContractDeployment | null {
+  const deployment = REGISTRY[chainId.toString()]?.contracts[name];
+  if (!deployment || deployment.address === ZERO_ADDRESS) {
+    return null;
+  }
+  return { address: deployment.address, blockNumber: BigInt(deployment.blockNumber) };
+}
@@ -0,0 +1,2 @@
+// The reward token is deployed by the vault; read its address from `rewardToken()`.
+export const REWARD_TOKEN_DECIMALS = 6;
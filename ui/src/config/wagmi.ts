@@ -1,9 +1,13 @@
 import { getDefaultConfig } from '@rainbow-me/rainbowkit';
-import { sepolia } from 'wagmi/chains';
+
+import { NETWORKS } from './networks';
+
+const [defaultNetwork, ...otherNetworks] = NETWORKS;
 
 export const config = getDefaultConfig({
   appName: '',
-  projectId: 'YOUR_PROJECT_ID', // Get from https://cloud.walletconnect.com
-  chains: [sepolia],
+  // Get one from https://cloud.walletconnect.com
+  projectId: import.meta.env.VITE_WALLETCONNECT_PROJECT_ID ?? 'YOUR_PROJECT_ID',
+  chains: [defaultNetwork.chain, ...otherNetworks.map((network) => network.chain)],
   ssr: false,
-});
\ No newline at end of file
+});
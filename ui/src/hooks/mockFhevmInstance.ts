@@ -0,0 +1,37 @@
+import { JsonRpcProvider } from 'ethers';
+import { MockFhevmInstance, contracts } from '@fhevm/mock-utils';
+import type { FhevmInstance } from '@zama-fhe/relayer-sdk/bundle';
+
+type RelayerMetadata = {
+  ACLAddress: string;
+  InputVerifierAddress: string;
+  KMSVerifierAddress: string;
+};
+
+// `npx hardhat node` answers the relayer's requests itself through the FHEVM Hardhat plugin, so the mock encrypts
+// input proofs and decrypts handles over the node's JSON-RPC instead of the Zama relayer.
+export async function createMockFhevmInstance(rpcUrl: string, chainId: number): Promise<FhevmInstance> {
+  const provider = new JsonRpcProvider(rpcUrl, chainId, { staticNetwork: true });
+
+  let metadata: RelayerMetadata;
+  try {
+    metadata = await provider.send('fhevm_relayer_metadata', []);
+  } catch {
+    throw new Error(`No FHEVM mock node answered at ${rpcUrl}. Start one with \`npx hardhat node\``);
+  }
+
+  const [kmsVerifier, inputVerifier] = await Promise.all([
+    contracts.KMSVerifier.create(provider, metadata.KMSVerifierAddress),
+    contracts.InputVerifier.create(provider, metadata.InputVerifierAddress),
+  ]);
+
+  return MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    chainId,
+    gatewayChainId: Number(kmsVerifier.gatewayChainId),
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    verifyingContractAddressDecryption: kmsVerifier.gatewayDecryptionAddress,
+    verifyingContractAddressInputVerification: inputVerifier.gatewayInputVerificationAddress,
+  });
+}
@@ -0,0 +1,253 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getAbiItem } from 'viem';
+import { usePublicClient } from 'wagmi';
+
+import { useDeployment } from './useDeployment';
+import { ARENA_ABI } from '../config/abis';
+
+// Many RPC providers cap eth_getLogs ranges, so the history is fetched in pages of this many blocks.
+const LOG_PAGE_SIZE = 5000n;
+
+// Bump when the cached shape changes so stale caches are rebuilt instead of misread.
+const CACHE_VERSION = 1;
+const CACHE_PREFIX = 'fighters:battle-index';
+
+const BATTLE_RESOLVED_EVENT = getAbiItem({ abi: ARENA_ABI, name: 'BattleResolved' });
+
+const OUTCOME_FIGHTER_WINS = 1;
+const OUTCOME_OPPONENT_WINS = 2;
+
+export type ResolvedBattle = {
+  battleId: bigint;
+  fighterId: bigint;
+  opponentId: bigint;
+  outcome: number;
+  fighterRating: number;
+  opponentRating: number;
+  blockNumber: bigint;
+  logIndex: number;
+};
+
+export type LeaderboardEntry = {
+  fighterId: bigint;
+  rating: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  battles: number;
+  winRate: number;
+};
+
+type CachedBattle = Omit<ResolvedBattle, 'battleId' | 'fighterId' | 'opponentId' | 'blockNumber'> & {
+  battleId: string;
+  fighterId: string;
+  opponentId: string;
+  blockNumber: string;
+};
+
+type CachedIndex = {
+  version: number;
+  lastBlock: string;
+  battles: CachedBattle[];
+};
+
+function cacheKey(chainId: number, arenaAddress: string) {
+  return `${CACHE_PREFIX}:${chainId}:${arenaAddress.toLowerCase()}`;
+}
+
+function readCache(key: string): { lastBlock: bigint; battles: ResolvedBattle[] } | null {
+  try {
+    const raw = localStorage.getItem(key);
+    if (!raw) {
+      return null;
+    }
+    const cached = JSON.parse(raw) as CachedIndex;
+    if (cached.version !== CACHE_VERSION) {
+      return null;
+    }
+    return {
+      lastBlock: BigInt(cached.lastBlock),
+      battles: cached.battles.map((battle) => ({
+        ...battle,
+        battleId: BigInt(battle.battleId),
+        fighterId: BigInt(battle.fighterId),
+        opponentId: BigInt(battle.opponentId),
+        blockNumber: BigInt(battle.blockNumber),
+      })),
+    };
+  } catch {
+    return null;
+  }
+}
+
+function writeCache(key: string, lastBlock: bigint, battles: ResolvedBattle[]) {
+  const cached: CachedIndex = {
+    version: CACHE_VERSION,
+    lastBlock: lastBlock.toString(),
+    battles: battles.map((battle) => ({
+      ...battle,
+      battleId: battle.battleId.toString(),
+      fighterId: battle.fighterId.toString(),
+      opponentId: battle.opponentId.toString(),
+      blockNumber: battle.blockNumber.toString(),
+    })),
+  };
+  try {
+    localStorage.setItem(key, JSON.stringify(cached));
+  } catch {
+    // A full or disabled storage only costs a rescan on the next visit.
+  }
+}
+
+// Indexes `BattleResolved` events incrementally, resuming from the last block cached in localStorage.
+export function useBattleIndex() {
+  const publicClient = usePublicClient();
+  const chainId = publicClient?.chain.id;
+  const { addresses, isDeployed, deploymentBlocks } = useDeployment();
+
+  const [battles, setBattles] = useState<ResolvedBattle[]>([]);
+  const [indexedBlock, setIndexedBlock] = useState<bigint | null>(null);
+  const [isIndexing, setIsIndexing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshIndex, setRefreshIndex] = useState(0);
+
+  useEffect(() => {
+    if (!publicClient || chainId === undefined || !isDeployed.FighterArena) {
+      setBattles([]);
+      setIndexedBlock(null);
+      setError(null);
+      return;
+    }
+
+    let ignore = false;
+    const key = cacheKey(chainId, addresses.FighterArena);
+
+    const index = async () => {
+      setIsIndexing(true);
+      setError(null);
+
+      const cached = readCache(key);
+      // Keyed by battle id so a page fetched twice never counts a battle twice.
+      const known = new Map((cached?.battles ?? []).map((battle) => [battle.battleId, battle]));
+      let fromBlock = cached ? cached.lastBlock + 1n : deploymentBlocks.FighterArena;
+      setBattles([...known.values()]);
+      setIndexedBlock(cached?.lastBlock ?? null);
+
+      try {
+        const latestBlock = await publicClient.getBlockNumber();
+
+        while (!ignore && fromBlock <= latestBlock) {
+          const toBlock = fromBlock + LOG_PAGE_SIZE - 1n < latestBlock ? fromBlock + LOG_PAGE_SIZE - 1n : latestBlock;
+          const logs = await publicClient.getLogs({
+            address: addresses.FighterArena,
+            event: BATTLE_RESOLVED_EVENT,
+            fromBlock,
+            toBlock,
+            strict: true,
+          });
+
+          for (const log of logs) {
+            // Battles between fighters of the same owner leave records and ratings untouched.
+            if (!log.args.ranked) {
+              continue;
+            }
+            known.set(log.args.battleId, {
+              battleId: log.args.battleId,
+              fighterId: log.args.fighterId,
+              opponentId: log.args.opponentId,
+              outcome: log.args.outcome,
+              fighterRating: log.args.fighterRating,
+              opponentRating: log.args.opponentRating,
+              blockNumber: log.blockNumber,
+              logIndex: log.logIndex,
+            });
+          }
+
+          if (ignore) {
+            return;
+          }
+          writeCache(key, toBlock, [...known.values()]);
+          setBattles([...known.values()]);
+          setIndexedBlock(toBlock);
+          fromBlock = toBlock + 1n;
+        }
+      } catch (err) {
+        if (!ignore) {
+          const message = err instanceof Error ? err.message : 'Failed to index battles';
+          setError(message);
+        }
+      } finally {
+        if (!ignore) {
+          setIsIndexing(false);
+        }
+      }
+    };
+
+    index();
+
+    return () => {
+      ignore = true;
+    };
+  }, [
+    publicClient,
+    chainId,
+    addresses.FighterArena,
+    isDeployed.FighterArena,
+    deploymentBlocks.FighterArena,
+    refreshIndex,
+  ]);
+
+  const refresh = useCallback(() => setRefreshIndex((prev) => prev + 1), []);
+
+  const rebuild = useCallback(() => {
+    if (chainId !== undefined) {
+      try {
+        localStorage.removeItem(cacheKey(chainId, addresses.FighterArena));
+      } catch {
+        // Nothing cached to drop.
+      }
+    }
+    setRefreshIndex((prev) => prev + 1);
+  }, [chainId, addresses.FighterArena]);
+
+  return { battles, indexedBlock, isIndexing, error, refresh, rebuild };
+}
+
+export function buildLeaderboard(battles: ResolvedBattle[]): LeaderboardEntry[] {
+  const entries = new Map<bigint, LeaderboardEntry>();
+  const entryOf = (fighterId: bigint) => {
+    let entry = entries.get(fighterId);
+    if (!entry) {
+      entry = { fighterId, rating: 0, wins: 0, losses: 0, draws: 0, battles: 0, winRate: 0 };
+      entries.set(fighterId, entry);
+    }
+    return entry;
+  };
+
+  // Replayed in chain order so the last event seen carries each fighter's current rating.
+  const ordered = [...battles].sort((a, b) =>
+    a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1
+  );
+
+  for (const battle of ordered) {
+    const fighter = entryOf(battle.fighterId);
+    const opponent = entryOf(battle.opponentId);
+    if (battle.outcome === OUTCOME_FIGHTER_WINS) {
+      fighter.wins++;
+      opponent.losses++;
+    } else if (battle.outcome === OUTCOME_OPPONENT_WINS) {
+      fighter.losses++;
+      opponent.wins++;
+    } else {
+      fighter.draws++;
+      opponent.draws++;
+    }
+    fighter.rating = battle.fighterRating;
+    opponent.rating = battle.opponentRating;
+  }
+
+  return [...entries.values()].map((entry) => {
+    const total = entry.wins + entry.losses + entry.draws;
+    return { ...entry, battles: total, winRate: total === 0 ? 0 : entry.wins / total };
+  });
+}
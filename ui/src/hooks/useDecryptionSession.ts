@@ -0,0 +1,77 @@
+import { useMemo } from 'react';
+import {
+  RelayerEncryptor,
+  authorizationExpiry,
+  type AuthorizationStore,
+  type DecryptionAuthorization,
+} from '@fighters/sdk';
+
+import type { useZamaInstance } from './useZamaInstance';
+import { useDeployment } from './useDeployment';
+import type { ContractName } from '../config/networks';
+
+const STORAGE_PREFIX = 'fighters:decryption';
+
+// The wallet signs once a week at most; closing the tab drops the authorization earlier.
+const DECRYPTION_DURATION_DAYS = 7;
+
+// Every contract the app decrypts handles of, so one signature covers all sections.
+const DECRYPTION_CONTRACTS: ContractName[] = [
+  'FighterNFT',
+  'FighterMarket',
+  'FighterAuction',
+  'FighterStaking',
+  'FighterCoin',
+  'FighterComparator',
+];
+
+// sessionStorage keeps the decryption keypair out of other tabs and gone once this one closes.
+const sessionAuthorizationStore: AuthorizationStore = {
+  async get(key) {
+    try {
+      const raw = sessionStorage.getItem(`${STORAGE_PREFIX}:${key}`);
+      if (!raw) {
+        return null;
+      }
+      const authorization = JSON.parse(raw) as DecryptionAuthorization;
+      if (authorizationExpiry(authorization) <= Date.now() / 1000) {
+        sessionStorage.removeItem(`${STORAGE_PREFIX}:${key}`);
+        return null;
+      }
+      return authorization;
+    } catch {
+      return null;
+    }
+  },
+  async set(key, authorization) {
+    try {
+      sessionStorage.setItem(`${STORAGE_PREFIX}:${key}`, JSON.stringify(authorization));
+    } catch {
+      // Without storage the wallet is asked again after a reload.
+    }
+  },
+  async delete(key) {
+    try {
+      sessionStorage.removeItem(`${STORAGE_PREFIX}:${key}`);
+    } catch {
+      // Nothing stored to drop.
+    }
+  },
+};
+
+// One encryptor per page and chain, so concurrent decryptions across cards and sections share a single wallet prompt.
+export function useDecryptionSession(instance: ReturnType<typeof useZamaInstance>['instance']) {
+  const { addresses, isDeployed } = useDeployment();
+
+  return useMemo(
+    () =>
+      instance
+        ? new RelayerEncryptor(instance, {
+            store: sessionAuthorizationStore,
+            contractAddresses: DECRYPTION_CONTRACTS.filter((name) => isDeployed[name]).map((name) => addresses[name]),
+            durationDays: DECRYPTION_DURATION_DAYS,
+          })
+        : null,
+    [instance, addresses, isDeployed]
+  );
+}
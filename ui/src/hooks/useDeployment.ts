@@ -0,0 +1,37 @@
+import { useMemo } from 'react';
+import { useAccount, useChainId } from 'wagmi';
+
+import { ZERO_ADDRESS } from '../config/fighterContract';
+import { CONTRACT_NAMES, getContractDeployment, getNetwork, type ContractName } from '../config/networks';
+
+// Contracts of the selected chain. wagmi keeps the last supported chain selected while the wallet is elsewhere, so
+// `isWrongNetwork` tells whether reads and writes would actually reach the wallet's chain.
+export function useDeployment() {
+  const chainId = useChainId();
+  const { chainId: walletChainId, isConnected } = useAccount();
+
+  const deployment = useMemo(() => {
+    const deployments = CONTRACT_NAMES.map((name) => [name, getContractDeployment(chainId, name)] as const);
+    return {
+      // Undeployed contracts resolve to the zero address, so reads against them fail loudly instead of hitting a
+      // contract of another chain.
+      addresses: Object.fromEntries(
+        deployments.map(([name, contract]) => [name, contract?.address ?? ZERO_ADDRESS])
+      ) as Record<ContractName, `0x${string}`>,
+      isDeployed: Object.fromEntries(deployments.map(([name, contract]) => [name, contract !== null])) as Record<
+        ContractName,
+        boolean
+      >,
+      deploymentBlocks: Object.fromEntries(
+        deployments.map(([name, contract]) => [name, contract?.blockNumber ?? 0n])
+      ) as Record<ContractName, bigint>,
+    };
+  }, [chainId]);
+
+  return {
+    chainId,
+    network: getNetwork(chainId),
+    ...deployment,
+    isWrongNetwork: isConnected && walletChainId !== chainId,
+  };
+}
@@ -1,8 +1,17 @@
 import { useState, useEffect } from 'react';
-import { createInstance,initSDK,SepoliaConfig } from '@zama-fhe/relayer-sdk/bundle';
+import { useChainId } from 'wagmi';
+import { createInstance, initSDK } from '@zama-fhe/relayer-sdk/bundle';
+import type { FhevmInstance } from '@zama-fhe/relayer-sdk/bundle';
+
+import { getNetwork } from '../config/networks';
+
+// The relayer SDK loads its WASM once per page, whichever networks instances are created for afterwards.
+let sdkReady: Promise<boolean> | null = null;
 
 export function useZamaInstance() {
-  const [instance, setInstance] = useState<any>(null);
+  const chainId = useChainId();
+
+  const [instance, setInstance] = useState<FhevmInstance | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -13,9 +22,27 @@ export function useZamaInstance() {
       try {
         setIsLoading(true);
         setError(null);
-        await initSDK()
+        setInstance(null);
 
-        const zamaInstance = await createInstance(SepoliaConfig);
+        const network = getNetwork(chainId);
+        if (!network) {
+          throw new Error(`Chain ${chainId} is not supported`);
+        }
+
+        let zamaInstance: FhevmInstance;
+        if (network.fhe.kind === 'mock') {
+          // Loaded on demand so the mock stays out of the production bundle.
+          const { createMockFhevmInstance } = await import('./mockFhevmInstance');
+          zamaInstance = await createMockFhevmInstance(network.fhe.rpcUrl, chainId);
+        } else {
+          sdkReady ??= initSDK().catch((err) => {
+            sdkReady = null;
+            throw err;
+          });
+          await sdkReady;
+
+          zamaInstance = await createInstance(network.fhe.config);
+        }
 
         if (mounted) {
           setInstance(zamaInstance);
@@ -23,7 +50,8 @@ export function useZamaInstance() {
       } catch (err) {
         console.error('Failed to initialize Zama instance:', err);
         if (mounted) {
-          setError('Failed to initialize encryption service');
+          const reason = err instanceof Error ? `: ${err.message}` : '';
+          setError(`Failed to initialize encryption service${reason}`);
         }
       } finally {
         if (mounted) {
@@ -37,7 +65,7 @@ export function useZamaInstance() {
     return () => {
       mounted = false;
     };
-  }, []);
+  }, [chainId]);
 
   return { instance, isLoading, error };
-}
\ No newline at end of file
+}
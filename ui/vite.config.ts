@@ -4,4 +4,8 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // @fighters/sdk is linked from ../packages and would otherwise bundle the root copy of ethers
+  resolve: {
+    dedupe: ['ethers'],
+  },
 })